@@ -15,7 +15,8 @@
  * - Store initialization with performance logging
  * - Loading/error states
  * - StatusBar configuration
- * - Toast notifications
+ * - Toast notifications (with an undo toast)
+ * - Undo/redo header buttons
  */
 
 // CRITICAL: This import MUST be first to polyfill crypto.getRandomValues()
@@ -28,11 +29,13 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { NavigationContainer } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import Toast from 'react-native-toast-message';
+import Toast, { ToastConfig } from 'react-native-toast-message';
 import * as Linking from 'expo-linking';
 
 // Components
 import ErrorBoundary from './src/components/ErrorBoundary';
+import UndoToast from './src/components/UndoToast';
+import UndoRedoButtons from './src/components/UndoRedoButtons';
 
 // Screens
 import TaskListScreen from './src/screens/TaskListScreen';
@@ -40,6 +43,10 @@ import TaskDetailScreen from './src/screens/TaskDetailScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
 import TodayScreen from './src/screens/TodayScreen';
 import TodaySelectScreen from './src/screens/TodaySelectScreen';
+import ArchiveScreen from './src/screens/ArchiveScreen';
+import TrashScreen from './src/screens/TrashScreen';
+import DiagnosticsScreen from './src/screens/DiagnosticsScreen';
+import StorageScreen from './src/screens/StorageScreen';
 
 // Store
 import { useTaskStore, cleanupTaskStore } from './src/store/taskStore';
@@ -75,6 +82,10 @@ export type TodayStackParamList = {
 
 export type SettingsStackParamList = {
   Settings: undefined;
+  Archive: undefined;
+  Trash: undefined;
+  Diagnostics: undefined;
+  Storage: undefined;
 };
 
 // Create navigators
@@ -83,6 +94,13 @@ const TaskStack = createStackNavigator<TaskStackParamList>();
 const TodayStack = createStackNavigator<TodayStackParamList>();
 const SettingsStack = createStackNavigator<SettingsStackParamList>();
 
+/**
+ * Custom toast types (success/error/info use the library defaults)
+ */
+const toastConfig: ToastConfig = {
+  undo: ({ text1, props }) => <UndoToast message={text1} onUndo={props.onUndo} />,
+};
+
 /**
  * Main App Component
  *
@@ -437,7 +455,7 @@ function App() {
           />
         </Tab.Navigator>
         {/* Toast component for notifications (must be outside NavigationContainer) */}
-        <Toast />
+        <Toast config={toastConfig} />
       </NavigationContainer>
     </View>
   );
@@ -469,6 +487,7 @@ function TaskStackNavigator() {
         component={TaskListScreen}
         options={{
           title: 'Split TODO',
+          headerRight: () => <UndoRedoButtons />,
         }}
       />
       <TaskStack.Screen
@@ -508,6 +527,7 @@ function TodayStackNavigator() {
         component={TodayScreen}
         options={{
           title: '오늘 할 일',
+          headerRight: () => <UndoRedoButtons />,
         }}
       />
       <TodayStack.Screen
@@ -567,6 +587,34 @@ function SettingsStackNavigator() {
           title: '설정',
         }}
       />
+      <SettingsStack.Screen
+        name="Archive"
+        component={ArchiveScreen}
+        options={{
+          title: '보관함',
+        }}
+      />
+      <SettingsStack.Screen
+        name="Trash"
+        component={TrashScreen}
+        options={{
+          title: '휴지통',
+        }}
+      />
+      <SettingsStack.Screen
+        name="Diagnostics"
+        component={DiagnosticsScreen}
+        options={{
+          title: '데이터 점검',
+        }}
+      />
+      <SettingsStack.Screen
+        name="Storage"
+        component={StorageScreen}
+        options={{
+          title: '저장 공간',
+        }}
+      />
     </SettingsStack.Navigator>
   );
 }
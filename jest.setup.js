@@ -10,6 +10,7 @@ jest.mock('@react-native-async-storage/async-storage', () => ({
   getItem: jest.fn(() => Promise.resolve(null)),
   removeItem: jest.fn(() => Promise.resolve()),
   multiSet: jest.fn(() => Promise.resolve()),
+  multiRemove: jest.fn(() => Promise.resolve()),
   multiGet: jest.fn(() => Promise.resolve([])),
   getAllKeys: jest.fn(() => Promise.resolve([])),
   clear: jest.fn(() => Promise.resolve()),
@@ -16,6 +16,10 @@
  * - Inline editing with TextInput
  * - Delete button with confirmation
  * - Strikethrough style when completed
+ * - Optional repeat button and recurrence label
+ * - Due date badge (highlighted when overdue)
+ * - Nested items: indented by depth, collapsible, with an add sub-item button
+ * - Optional drag handle (long press to reorder)
  *
  * @example
  * ```tsx
@@ -35,10 +39,18 @@ import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, TextInput, StyleSheet, Alert } from 'react-native';
 import { ChecklistItem } from '../types';
 import { validateTitle, normalizeTitle } from '../utils/validation';
+import { describeRecurrence } from '../utils/recurrence';
+import { hasChildren } from '../utils/itemTree';
+import DueDateBadge from './DueDateBadge';
 import { colors } from '../styles/colors';
 import { typography } from '../styles/typography';
 import { spacing } from '../styles/spacing';
 
+/**
+ * Left indentation per nesting level (px)
+ */
+const INDENT_PER_LEVEL = 24;
+
 /**
  * ChecklistItemView component props
  */
@@ -66,6 +78,48 @@ export interface ChecklistItemViewProps {
    * @returns Result object with success status and optional error message
    */
   onUpdate: (newTitle: string) => Promise<{ success: boolean; error?: string }>;
+
+  /**
+   * Callback when the repeat button is pressed
+   * If undefined, the repeat button will be hidden
+   */
+  onRepeatPress?: () => void;
+
+  /**
+   * Callback when the due date button is pressed
+   * If undefined, the due date button will be hidden
+   */
+  onDueDatePress?: () => void;
+
+  /**
+   * Nesting depth of the item (0 = top-level item)
+   * @default 0
+   */
+  depth?: number;
+
+  /**
+   * Whether the item's children are hidden
+   * @default false
+   */
+  isCollapsed?: boolean;
+
+  /**
+   * Callback when the collapse button of an item with children is pressed
+   * If undefined, the collapse button will be hidden
+   */
+  onToggleCollapse?: () => void;
+
+  /**
+   * Callback when the add sub-item button is pressed
+   * If undefined, the add sub-item button will be hidden
+   */
+  onAddChild?: () => void;
+
+  /**
+   * Callback when the drag handle is long-pressed (starts reordering)
+   * If undefined, the drag handle will be hidden
+   */
+  onDragStart?: () => void;
 }
 
 /**
@@ -82,6 +136,13 @@ const ChecklistItemView: React.FC<ChecklistItemViewProps> = ({
   onToggle,
   onDelete,
   onUpdate,
+  onRepeatPress,
+  onDueDatePress,
+  depth = 0,
+  isCollapsed = false,
+  onToggleCollapse,
+  onAddChild,
+  onDragStart,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState(item.title);
@@ -138,7 +199,9 @@ const ChecklistItemView: React.FC<ChecklistItemViewProps> = ({
   const handleDelete = () => {
     Alert.alert(
       '항목 삭제',
-      '이 항목을 삭제하시겠습니까?',
+      hasChildren(item)
+        ? '이 항목과 하위 항목을 모두 삭제하시겠습니까?'
+        : '이 항목을 삭제하시겠습니까?',
       [
         {
           text: '취소',
@@ -163,8 +226,34 @@ const ChecklistItemView: React.FC<ChecklistItemViewProps> = ({
   // Hide delete button when onDelete is undefined
   const canDelete = !!onDelete;
 
+  // Direct children summary for the collapse button
+  const children = item.children || [];
+  const doneChildren = children.filter((child) => child.done).length;
+
   return (
-    <View style={[styles.container, isReadOnly && styles.containerReadOnly]}>
+    <View
+      style={[
+        styles.container,
+        depth > 0 && { paddingLeft: depth * INDENT_PER_LEVEL },
+        isReadOnly && styles.containerReadOnly,
+      ]}
+    >
+      {/* Drag Handle (hidden when onDragStart is undefined) */}
+      {onDragStart && (
+        <TouchableOpacity
+          onLongPress={onDragStart}
+          delayLongPress={200}
+          style={styles.dragHandle}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }} // Extend touch area to 44x44
+          accessible={true}
+          accessibilityLabel="순서 변경"
+          accessibilityHint="길게 누른 채 끌어서 순서 변경"
+          accessibilityRole="button"
+        >
+          <Text style={styles.dragHandleText}>≡</Text>
+        </TouchableOpacity>
+      )}
+
       {/* Checkbox */}
       <TouchableOpacity
         onPress={onToggle}
@@ -220,10 +309,80 @@ const ChecklistItemView: React.FC<ChecklistItemViewProps> = ({
             <Text style={[styles.title, item.done && styles.titleCompleted]} numberOfLines={2}>
               {item.title}
             </Text>
+            {item.recurrence && (
+              <Text style={styles.recurrenceLabel}>↻ {describeRecurrence(item.recurrence)}</Text>
+            )}
+            {item.dueDate && (
+              <DueDateBadge dueDate={item.dueDate} done={item.done} style={styles.dueBadge} />
+            )}
           </TouchableOpacity>
         )}
       </View>
 
+      {/* Collapse Button (only for items with children) */}
+      {onToggleCollapse && children.length > 0 && (
+        <TouchableOpacity
+          onPress={onToggleCollapse}
+          style={styles.collapseButton}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessible={true}
+          accessibilityLabel={`하위 항목 ${children.length}개 중 ${doneChildren}개 완료`}
+          accessibilityHint={isCollapsed ? '탭하여 하위 항목 펼치기' : '탭하여 하위 항목 접기'}
+          accessibilityRole="button"
+          accessibilityState={{ expanded: !isCollapsed }}
+        >
+          <Text style={styles.collapseButtonText}>
+            {isCollapsed ? '▸' : '▾'} {doneChildren}/{children.length}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Add Sub-item Button (hidden when onAddChild is undefined) */}
+      {onAddChild && (
+        <TouchableOpacity
+          onPress={onAddChild}
+          style={styles.actionButton}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }} // Extend touch area to 44x44
+          accessible={true}
+          accessibilityLabel="하위 항목 추가"
+          accessibilityRole="button"
+        >
+          <Text style={styles.addChildButtonText}>＋</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Due Date Button (hidden when onDueDatePress is undefined) */}
+      {onDueDatePress && (
+        <TouchableOpacity
+          onPress={onDueDatePress}
+          style={styles.actionButton}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }} // Extend touch area to 44x44
+          accessible={true}
+          accessibilityLabel="마감일 설정"
+          accessibilityRole="button"
+        >
+          <Text style={[styles.dueButtonText, !item.dueDate && styles.dueButtonTextInactive]}>
+            ⏰
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Repeat Button (hidden when onRepeatPress is undefined) */}
+      {onRepeatPress && (
+        <TouchableOpacity
+          onPress={onRepeatPress}
+          style={styles.actionButton}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }} // Extend touch area to 44x44
+          accessible={true}
+          accessibilityLabel="반복 설정"
+          accessibilityRole="button"
+        >
+          <Text style={[styles.repeatButtonText, item.recurrence && styles.repeatButtonTextActive]}>
+            ↻
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {/* Delete Button (hidden when onDelete is undefined) */}
       {canDelete && (
         <TouchableOpacity
@@ -264,6 +423,27 @@ const styles = StyleSheet.create({
     opacity: 0.7,
   },
 
+  /**
+   * Drag handle
+   * - 24x24 visual size
+   * - Uses hitSlop to extend touch area to 44x44
+   */
+  dragHandle: {
+    width: 24,
+    height: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.sm,
+  },
+
+  /**
+   * Drag handle icon (≡)
+   */
+  dragHandleText: {
+    fontSize: 18,
+    color: colors.textDisabled,
+  },
+
   /**
    * Checkbox container
    * - 24x24 visual size
@@ -355,6 +535,22 @@ const styles = StyleSheet.create({
     color: colors.textDisabled,
   },
 
+  /**
+   * Recurrence rule label under the title
+   */
+  recurrenceLabel: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+
+  /**
+   * Due date badge under the title
+   */
+  dueBadge: {
+    marginTop: spacing.xs,
+  },
+
   /**
    * Edit mode container
    */
@@ -378,6 +574,77 @@ const styles = StyleSheet.create({
     backgroundColor: colors.surface,
   },
 
+  /**
+   * Due date / repeat action button
+   * - 24x24 visual size
+   * - Uses hitSlop to extend touch area to 44x44
+   */
+  actionButton: {
+    width: 24,
+    height: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.md,
+  },
+
+  /**
+   * Collapse button showing the children summary
+   * - Minimum height ensures 44pt touch target with hitSlop
+   */
+  collapseButton: {
+    minWidth: 24,
+    height: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.md,
+  },
+
+  /**
+   * Collapse button text (▸/▾ with done/total children)
+   */
+  collapseButtonText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    fontWeight: '600',
+  },
+
+  /**
+   * Add sub-item button text (＋ symbol)
+   */
+  addChildButtonText: {
+    fontSize: 18,
+    color: colors.textDisabled,
+  },
+
+  /**
+   * Repeat button text (↻ symbol)
+   */
+  repeatButtonText: {
+    fontSize: 18,
+    color: colors.textDisabled,
+  },
+
+  /**
+   * Due date button text (⏰ symbol)
+   */
+  dueButtonText: {
+    fontSize: 16,
+  },
+
+  /**
+   * Due date button text when the item has no deadline
+   */
+  dueButtonTextInactive: {
+    opacity: 0.35,
+  },
+
+  /**
+   * Repeat button text when the item is recurring
+   */
+  repeatButtonTextActive: {
+    color: colors.primary,
+  },
+
   /**
    * Delete button
    * - 24x24 visual size
@@ -0,0 +1,149 @@
+/**
+ * DueDateBadge Component
+ *
+ * Small pill showing a task or item deadline relative to today.
+ *
+ * Accessibility:
+ * - Announces the deadline label and overdue state
+ *
+ * Features:
+ * - Red when overdue, orange when due today or soon, gray otherwise
+ * - Muted style once the task/item is finished
+ *
+ * @example
+ * ```tsx
+ * <DueDateBadge dueDate={task.dueDate} done={progress.percent === 100} />
+ * ```
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { getTodayKey } from '../services/dailyRecords';
+import { formatDueLabel, getDueStatus } from '../utils/dueDate';
+import { colors } from '../styles/colors';
+import { typography } from '../styles/typography';
+import { spacing } from '../styles/spacing';
+
+/**
+ * DueDateBadge component props
+ */
+export interface DueDateBadgeProps {
+  /**
+   * Deadline (YYYY-MM-DD)
+   */
+  dueDate: string;
+
+  /**
+   * Whether the task/item is finished (disables overdue highlighting)
+   * @default false
+   */
+  done?: boolean;
+
+  /**
+   * Optional custom style for the badge container
+   */
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * DueDateBadge component implementation
+ */
+const DueDateBadge: React.FC<DueDateBadgeProps> = ({ dueDate, done = false, style }) => {
+  const todayKey = getTodayKey();
+  const status = getDueStatus(dueDate, todayKey);
+  const label = formatDueLabel(dueDate, todayKey);
+
+  const isOverdue = !done && status === 'overdue';
+  const isUrgent = !done && (status === 'dueToday' || status === 'dueSoon');
+
+  return (
+    <View
+      style={[
+        styles.badge,
+        isOverdue && styles.badgeOverdue,
+        isUrgent && styles.badgeUrgent,
+        done && styles.badgeDone,
+        style,
+      ]}
+      accessible={true}
+      accessibilityLabel={isOverdue ? `마감 지남, ${label}` : `마감, ${label}`}
+    >
+      <Text
+        style={[
+          styles.text,
+          isOverdue && styles.textOverdue,
+          isUrgent && styles.textUrgent,
+          done && styles.textDone,
+        ]}
+      >
+        {label}
+      </Text>
+    </View>
+  );
+};
+
+export default DueDateBadge;
+
+const styles = StyleSheet.create({
+  /**
+   * Badge container (neutral)
+   */
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundDark,
+  },
+
+  /**
+   * Overdue badge
+   */
+  badgeOverdue: {
+    backgroundColor: 'rgba(239, 68, 68, 0.12)',
+  },
+
+  /**
+   * Due today / due soon badge
+   */
+  badgeUrgent: {
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+  },
+
+  /**
+   * Finished task/item badge
+   */
+  badgeDone: {
+    opacity: 0.6,
+  },
+
+  /**
+   * Badge label
+   */
+  text: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    fontWeight: '600',
+  },
+
+  /**
+   * Overdue label
+   */
+  textOverdue: {
+    color: colors.danger,
+  },
+
+  /**
+   * Due today / due soon label
+   */
+  textUrgent: {
+    color: '#d97706',
+  },
+
+  /**
+   * Finished task/item label
+   */
+  textDone: {
+    textDecorationLine: 'line-through',
+  },
+});
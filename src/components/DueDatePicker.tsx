@@ -0,0 +1,311 @@
+/**
+ * DueDatePicker Component
+ *
+ * Bottom sheet modal for setting or clearing a deadline on a task or item.
+ *
+ * Accessibility:
+ * - Labeled date input and quick-pick buttons
+ * - 44x44pt minimum touch targets
+ *
+ * Features:
+ * - Quick picks: 오늘, 내일, 일주일 후
+ * - Manual YYYY-MM-DD input
+ * - "마감일 삭제" to clear an existing deadline
+ *
+ * @example
+ * ```tsx
+ * <DueDatePicker
+ *   visible={isPickerVisible}
+ *   dueDate={task.dueDate}
+ *   onSave={(dueDate) => setTaskDueDate(task.id, dueDate)}
+ *   onClose={() => setIsPickerVisible(false)}
+ * />
+ * ```
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Modal,
+  StyleSheet,
+  Platform,
+  Alert,
+} from 'react-native';
+import { formatDateToKey, getTodayKey } from '../services/dailyRecords';
+import { validateDueDate } from '../utils/dueDate';
+import Button from './Button';
+import { colors } from '../styles/colors';
+import { typography } from '../styles/typography';
+import { spacing } from '../styles/spacing';
+
+const QUICK_PICKS: Array<{ label: string; offsetDays: number }> = [
+  { label: '오늘', offsetDays: 0 },
+  { label: '내일', offsetDays: 1 },
+  { label: '일주일 후', offsetDays: 7 },
+];
+
+/**
+ * DueDatePicker component props
+ */
+export interface DueDatePickerProps {
+  /**
+   * Whether the picker is visible
+   */
+  visible: boolean;
+
+  /**
+   * Current deadline (YYYY-MM-DD), undefined if none
+   */
+  dueDate?: string;
+
+  /**
+   * Callback when the user saves a deadline
+   * @param dueDate - New deadline, or null to clear it
+   * @returns Result object with success status and optional error message
+   */
+  onSave: (dueDate: string | null) => { success: boolean; error?: string };
+
+  /**
+   * Callback when the picker is dismissed
+   */
+  onClose: () => void;
+}
+
+/**
+ * DueDatePicker component implementation
+ */
+const DueDatePicker: React.FC<DueDatePickerProps> = ({ visible, dueDate, onSave, onClose }) => {
+  const [dateText, setDateText] = useState('');
+
+  /**
+   * Reset input from the current deadline whenever the picker opens
+   */
+  useEffect(() => {
+    if (visible) {
+      setDateText(dueDate || getTodayKey());
+    }
+  }, [visible, dueDate]);
+
+  /**
+   * Fills the input with today + offset days
+   */
+  const handleQuickPick = (offsetDays: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() + offsetDays);
+    setDateText(formatDateToKey(date));
+  };
+
+  /**
+   * Saves the deadline (or clears it when null)
+   */
+  const save = (value: string | null) => {
+    if (value) {
+      const validation = validateDueDate(value);
+      if (!validation.valid) {
+        Alert.alert('입력 오류', validation.error || '마감일이 올바르지 않습니다');
+        return;
+      }
+    }
+
+    const result = onSave(value);
+    if (result.success) {
+      onClose();
+    } else {
+      Alert.alert('저장 실패', result.error || '마감일 설정에 실패했습니다');
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.modalContainer}>
+          <TouchableWithoutFeedback onPress={(e) => e.stopPropagation()}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>마감일</Text>
+
+              {/* Quick Picks */}
+              <View style={styles.chipRow}>
+                {QUICK_PICKS.map((pick) => (
+                  <TouchableOpacity
+                    key={pick.label}
+                    style={styles.chip}
+                    onPress={() => handleQuickPick(pick.offsetDays)}
+                    accessible={true}
+                    accessibilityRole="button"
+                    accessibilityLabel={`마감일 ${pick.label}`}
+                  >
+                    <Text style={styles.chipText}>{pick.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {/* Date Input */}
+              <TextInput
+                style={styles.dateInput}
+                value={dateText}
+                onChangeText={setDateText}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={colors.textDisabled}
+                maxLength={10}
+                returnKeyType="done"
+                onSubmitEditing={() => save(dateText.trim())}
+                accessible={true}
+                accessibilityLabel="마감일 입력"
+              />
+
+              {/* Clear Deadline */}
+              {dueDate && (
+                <TouchableOpacity
+                  style={styles.clearButton}
+                  onPress={() => save(null)}
+                  accessible={true}
+                  accessibilityRole="button"
+                  accessibilityLabel="마감일 삭제"
+                >
+                  <Text style={styles.clearButtonText}>마감일 삭제</Text>
+                </TouchableOpacity>
+              )}
+
+              {/* Action Buttons */}
+              <View style={styles.modalActions}>
+                <Button
+                  variant="secondary"
+                  onPress={onClose}
+                  style={styles.modalButton}
+                  accessibilityLabel="취소"
+                >
+                  <Text>취소</Text>
+                </Button>
+
+                <Button
+                  variant="primary"
+                  onPress={() => save(dateText.trim())}
+                  style={styles.modalButton}
+                  accessibilityLabel="저장"
+                >
+                  <Text>저장</Text>
+                </Button>
+              </View>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+export default DueDatePicker;
+
+const styles = StyleSheet.create({
+  /**
+   * Modal overlay
+   */
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+
+  /**
+   * Modal content card
+   */
+  modalContent: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: spacing.xxl,
+    paddingBottom: Platform.OS === 'ios' ? spacing.xxl + 20 : spacing.xxl,
+  },
+
+  /**
+   * Modal title
+   */
+  modalTitle: {
+    ...typography.h2,
+    color: colors.textPrimary,
+    marginBottom: spacing.lg,
+  },
+
+  /**
+   * Row of quick-pick chips
+   */
+  chipRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+
+  /**
+   * Quick-pick chip
+   */
+  chip: {
+    minHeight: 44,
+    paddingHorizontal: spacing.lg,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  /**
+   * Quick-pick chip label
+   */
+  chipText: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+
+  /**
+   * Date input
+   */
+  dateInput: {
+    ...typography.body,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    padding: spacing.md,
+    minHeight: 44,
+    color: colors.textPrimary,
+    backgroundColor: colors.background,
+    marginBottom: spacing.lg,
+  },
+
+  /**
+   * Clear deadline button
+   */
+  clearButton: {
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+
+  /**
+   * Clear deadline button label
+   */
+  clearButtonText: {
+    ...typography.body,
+    color: colors.danger,
+    fontWeight: '600',
+  },
+
+  /**
+   * Action buttons container
+   */
+  modalActions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+
+  /**
+   * Individual action button
+   */
+  modalButton: {
+    flex: 1,
+  },
+});
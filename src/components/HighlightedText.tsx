@@ -0,0 +1,94 @@
+/**
+ * HighlightedText Component
+ *
+ * Text with the parts matching a search query highlighted.
+ *
+ * Features:
+ * - Case-insensitive matching by default
+ * - Every occurrence of the query is highlighted
+ * - Renders plain text when the query is empty
+ *
+ * @example
+ * ```tsx
+ * <HighlightedText text={task.title} query={searchQuery} style={styles.title} numberOfLines={2} />
+ * ```
+ */
+
+import React, { useMemo } from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { splitByQuery } from '../utils/taskQuery';
+import { colors } from '../styles/colors';
+
+/**
+ * HighlightedText component props
+ */
+export interface HighlightedTextProps {
+  /**
+   * Text to display
+   */
+  text: string;
+
+  /**
+   * Search query to highlight (empty = no highlight)
+   */
+  query?: string;
+
+  /**
+   * Whether matching is case-sensitive
+   * @default false
+   */
+  caseSensitive?: boolean;
+
+  /**
+   * Style for the whole text
+   */
+  style?: StyleProp<TextStyle>;
+
+  /**
+   * Maximum number of lines (ellipsized at the end)
+   */
+  numberOfLines?: number;
+}
+
+/**
+ * HighlightedText component implementation
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  query = '',
+  caseSensitive = false,
+  style,
+  numberOfLines,
+}) => {
+  const segments = useMemo(
+    () => splitByQuery(text, query, caseSensitive),
+    [text, query, caseSensitive]
+  );
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines} ellipsizeMode="tail">
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <Text key={index} style={styles.highlight}>
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        )
+      )}
+    </Text>
+  );
+};
+
+export default HighlightedText;
+
+const styles = StyleSheet.create({
+  /**
+   * Matching part of the text
+   */
+  highlight: {
+    backgroundColor: `${colors.primaryLight}66`,
+    color: colors.primaryDark,
+    fontWeight: '700',
+  },
+});
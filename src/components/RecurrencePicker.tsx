@@ -0,0 +1,451 @@
+/**
+ * RecurrencePicker Component
+ *
+ * Bottom sheet modal for choosing how a checklist item repeats.
+ *
+ * Accessibility:
+ * - Frequency and weekday options announce their selected state
+ * - 44x44pt minimum touch targets
+ *
+ * Features:
+ * - Daily, weekdays, every N days, specific weekdays, monthly on day X
+ * - Optional end date (YYYY-MM-DD)
+ * - "반복 안 함" option to clear an existing rule
+ *
+ * @example
+ * ```tsx
+ * <RecurrencePicker
+ *   visible={isPickerVisible}
+ *   rule={item.recurrence}
+ *   onSave={(rule) => setItemRecurrence(taskId, item.id, rule)}
+ *   onClose={() => setIsPickerVisible(false)}
+ * />
+ * ```
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Modal,
+  StyleSheet,
+  Platform,
+  Alert,
+} from 'react-native';
+import { RecurrenceFrequency, RecurrenceRule } from '../types';
+import { getTodayKey } from '../services/dailyRecords';
+import { validateRecurrenceRule } from '../utils/recurrence';
+import Button from './Button';
+import { colors } from '../styles/colors';
+import { typography } from '../styles/typography';
+import { spacing } from '../styles/spacing';
+
+type FrequencyOption = RecurrenceFrequency | 'none';
+
+const FREQUENCY_OPTIONS: Array<{ value: FrequencyOption; label: string }> = [
+  { value: 'none', label: '반복 안 함' },
+  { value: 'daily', label: '매일' },
+  { value: 'weekdays', label: '평일' },
+  { value: 'interval', label: 'N일마다' },
+  { value: 'weekly', label: '요일 지정' },
+  { value: 'monthly', label: '매월' },
+];
+
+const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+/**
+ * RecurrencePicker component props
+ */
+export interface RecurrencePickerProps {
+  /**
+   * Whether the picker is visible
+   */
+  visible: boolean;
+
+  /**
+   * Current recurrence rule of the item (undefined if not recurring)
+   */
+  rule?: RecurrenceRule;
+
+  /**
+   * Callback when the user saves a rule
+   * @param rule - New rule, or null to stop repeating
+   * @returns Result object with success status and optional error message
+   */
+  onSave: (rule: RecurrenceRule | null) => { success: boolean; error?: string };
+
+  /**
+   * Callback when the picker is dismissed
+   */
+  onClose: () => void;
+}
+
+/**
+ * RecurrencePicker component implementation
+ */
+const RecurrencePicker: React.FC<RecurrencePickerProps> = ({ visible, rule, onSave, onClose }) => {
+  const [frequency, setFrequency] = useState<FrequencyOption>('none');
+  const [intervalText, setIntervalText] = useState('2');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [dayOfMonthText, setDayOfMonthText] = useState('1');
+  const [endDate, setEndDate] = useState('');
+
+  /**
+   * Reset form from the current rule whenever the picker opens
+   */
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    const today = new Date();
+    setFrequency(rule?.frequency || 'none');
+    setIntervalText(String(rule?.interval || 2));
+    setDaysOfWeek(rule?.daysOfWeek || [today.getDay()]);
+    setDayOfMonthText(String(rule?.dayOfMonth || today.getDate()));
+    setEndDate(rule?.endDate || '');
+  }, [visible, rule]);
+
+  /**
+   * Toggles a weekday for 'weekly' rules
+   */
+  const toggleDayOfWeek = (day: number) => {
+    setDaysOfWeek((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  /**
+   * Builds the rule from the form and hands it to onSave
+   */
+  const handleSave = () => {
+    if (frequency === 'none') {
+      const result = onSave(null);
+      if (result.success) {
+        onClose();
+      } else {
+        Alert.alert('저장 실패', result.error || '반복 설정에 실패했습니다');
+      }
+      return;
+    }
+
+    const newRule: RecurrenceRule = {
+      frequency,
+      startDate: rule?.startDate || getTodayKey(),
+    };
+
+    if (endDate.trim()) {
+      newRule.endDate = endDate.trim();
+    }
+    if (frequency === 'interval') {
+      newRule.interval = Number(intervalText);
+    }
+    if (frequency === 'weekly') {
+      newRule.daysOfWeek = daysOfWeek;
+    }
+    if (frequency === 'monthly') {
+      newRule.dayOfMonth = Number(dayOfMonthText);
+    }
+
+    const validation = validateRecurrenceRule(newRule);
+    if (!validation.valid) {
+      Alert.alert('입력 오류', validation.error || '반복 규칙이 올바르지 않습니다');
+      return;
+    }
+
+    const result = onSave(newRule);
+    if (result.success) {
+      onClose();
+    } else {
+      Alert.alert('저장 실패', result.error || '반복 설정에 실패했습니다');
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.modalContainer}>
+          <TouchableWithoutFeedback onPress={(e) => e.stopPropagation()}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>반복 설정</Text>
+
+              {/* Frequency Options */}
+              <View style={styles.chipRow}>
+                {FREQUENCY_OPTIONS.map((option) => {
+                  const isSelected = frequency === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.chip, isSelected && styles.chipSelected]}
+                      onPress={() => setFrequency(option.value)}
+                      accessible={true}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected: isSelected }}
+                      accessibilityLabel={option.label}
+                    >
+                      <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {/* Interval Input */}
+              {frequency === 'interval' && (
+                <View style={styles.inlineRow}>
+                  <TextInput
+                    style={styles.numberInput}
+                    value={intervalText}
+                    onChangeText={setIntervalText}
+                    keyboardType="number-pad"
+                    maxLength={3}
+                    accessible={true}
+                    accessibilityLabel="반복 간격 (일)"
+                  />
+                  <Text style={styles.inlineLabel}>일마다</Text>
+                </View>
+              )}
+
+              {/* Weekday Selection */}
+              {frequency === 'weekly' && (
+                <View style={styles.chipRow}>
+                  {WEEKDAY_LABELS.map((label, day) => {
+                    const isSelected = daysOfWeek.includes(day);
+                    return (
+                      <TouchableOpacity
+                        key={label}
+                        style={[styles.dayChip, isSelected && styles.chipSelected]}
+                        onPress={() => toggleDayOfWeek(day)}
+                        accessible={true}
+                        accessibilityRole="checkbox"
+                        accessibilityState={{ checked: isSelected }}
+                        accessibilityLabel={`${label}요일`}
+                      >
+                        <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                          {label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+
+              {/* Day of Month Input */}
+              {frequency === 'monthly' && (
+                <View style={styles.inlineRow}>
+                  <Text style={styles.inlineLabel}>매월</Text>
+                  <TextInput
+                    style={styles.numberInput}
+                    value={dayOfMonthText}
+                    onChangeText={setDayOfMonthText}
+                    keyboardType="number-pad"
+                    maxLength={2}
+                    accessible={true}
+                    accessibilityLabel="반복할 날짜"
+                  />
+                  <Text style={styles.inlineLabel}>일</Text>
+                </View>
+              )}
+
+              {/* End Date Input */}
+              {frequency !== 'none' && (
+                <TextInput
+                  style={styles.dateInput}
+                  value={endDate}
+                  onChangeText={setEndDate}
+                  placeholder="종료 날짜 (YYYY-MM-DD, 선택)"
+                  placeholderTextColor={colors.textDisabled}
+                  maxLength={10}
+                  accessible={true}
+                  accessibilityLabel="종료 날짜"
+                />
+              )}
+
+              {/* Action Buttons */}
+              <View style={styles.modalActions}>
+                <Button
+                  variant="secondary"
+                  onPress={onClose}
+                  style={styles.modalButton}
+                  accessibilityLabel="취소"
+                >
+                  <Text>취소</Text>
+                </Button>
+
+                <Button
+                  variant="primary"
+                  onPress={handleSave}
+                  style={styles.modalButton}
+                  accessibilityLabel="저장"
+                >
+                  <Text>저장</Text>
+                </Button>
+              </View>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+export default RecurrencePicker;
+
+const styles = StyleSheet.create({
+  /**
+   * Modal overlay
+   */
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+
+  /**
+   * Modal content card
+   */
+  modalContent: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: spacing.xxl,
+    paddingBottom: Platform.OS === 'ios' ? spacing.xxl + 20 : spacing.xxl,
+  },
+
+  /**
+   * Modal title
+   */
+  modalTitle: {
+    ...typography.h2,
+    color: colors.textPrimary,
+    marginBottom: spacing.lg,
+  },
+
+  /**
+   * Wrapping row of option chips
+   */
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+
+  /**
+   * Frequency option chip
+   */
+  chip: {
+    minHeight: 44,
+    paddingHorizontal: spacing.lg,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  /**
+   * Weekday chip (square touch target)
+   */
+  dayChip: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  /**
+   * Selected chip
+   */
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+
+  /**
+   * Chip label
+   */
+  chipText: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+
+  /**
+   * Selected chip label
+   */
+  chipTextSelected: {
+    color: colors.surface,
+    fontWeight: '600',
+  },
+
+  /**
+   * Row with a number input and labels
+   */
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+
+  /**
+   * Label next to number input
+   */
+  inlineLabel: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+
+  /**
+   * Small number input
+   */
+  numberInput: {
+    ...typography.body,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: spacing.md,
+    minWidth: 64,
+    minHeight: 44,
+    textAlign: 'center',
+    color: colors.textPrimary,
+    backgroundColor: colors.background,
+  },
+
+  /**
+   * End date input
+   */
+  dateInput: {
+    ...typography.body,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    padding: spacing.md,
+    minHeight: 44,
+    color: colors.textPrimary,
+    backgroundColor: colors.background,
+    marginBottom: spacing.lg,
+  },
+
+  /**
+   * Action buttons container
+   */
+  modalActions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+
+  /**
+   * Individual action button
+   */
+  modalButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,136 @@
+/**
+ * TagChip Component
+ *
+ * Colored pill showing a tag name.
+ *
+ * Accessibility:
+ * - Pressable chips announce their selected state
+ * - 44pt minimum height for pressable chips
+ *
+ * Features:
+ * - Small read-only variant (e.g. on task cards)
+ * - Pressable variant for filters and tag selection
+ * - Selected chips are filled with the tag color
+ *
+ * @example
+ * ```tsx
+ * <TagChip tag={tag} />
+ * <TagChip tag={tag} selected={isSelected} onPress={() => toggleTag(tag.id)} />
+ * ```
+ */
+
+import React from 'react';
+import { Text, TouchableOpacity, View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { Tag } from '../types';
+import { colors } from '../styles/colors';
+import { typography } from '../styles/typography';
+import { spacing } from '../styles/spacing';
+
+/**
+ * TagChip component props
+ */
+export interface TagChipProps {
+  /**
+   * Tag to display
+   */
+  tag: Tag;
+
+  /**
+   * Whether the chip is selected (filled with the tag color)
+   * @default false
+   */
+  selected?: boolean;
+
+  /**
+   * Callback when the chip is pressed
+   * If undefined, the chip is a small read-only label
+   */
+  onPress?: () => void;
+
+  /**
+   * Optional custom style for the chip container
+   */
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * TagChip component implementation
+ */
+const TagChip: React.FC<TagChipProps> = ({ tag, selected = false, onPress, style }) => {
+  if (!onPress) {
+    return (
+      <View style={[styles.smallChip, { backgroundColor: `${tag.color}1f` }, style]}>
+        <Text style={[styles.smallText, { color: tag.color }]} numberOfLines={1}>
+          {tag.name}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        { borderColor: tag.color },
+        selected && { backgroundColor: tag.color },
+        style,
+      ]}
+      onPress={onPress}
+      accessible={true}
+      accessibilityRole="checkbox"
+      accessibilityState={{ checked: selected }}
+      accessibilityLabel={`${tag.name} 태그`}
+    >
+      <Text
+        style={[styles.text, { color: selected ? colors.surface : tag.color }]}
+        numberOfLines={1}
+      >
+        {tag.name}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+export default TagChip;
+
+const styles = StyleSheet.create({
+  /**
+   * Read-only chip (tinted background)
+   */
+  smallChip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: 10,
+    maxWidth: 120,
+  },
+
+  /**
+   * Read-only chip label
+   */
+  smallText: {
+    ...typography.caption,
+    fontWeight: '600',
+  },
+
+  /**
+   * Pressable chip
+   * - 44pt minimum height for touch target
+   */
+  chip: {
+    minHeight: 44,
+    paddingHorizontal: spacing.lg,
+    borderRadius: 22,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+  },
+
+  /**
+   * Pressable chip label
+   */
+  text: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,354 @@
+/**
+ * TagEditor Component
+ *
+ * Bottom sheet modal for creating, renaming, recoloring and deleting a tag.
+ *
+ * Accessibility:
+ * - Color options announce their selected state
+ * - 44x44pt minimum touch targets
+ *
+ * Features:
+ * - Name input (up to 20 characters)
+ * - Color palette
+ * - Delete button when editing an existing tag
+ *
+ * @example
+ * ```tsx
+ * <TagEditor
+ *   visible={isEditorVisible}
+ *   tag={editingTag}
+ *   defaultColor={getNextTagColor(tags)}
+ *   onSave={(name, color) => (editingTag ? updateTag(editingTag.id, name, color) : addTag(name, color))}
+ *   onDelete={editingTag ? () => deleteTag(editingTag.id) : undefined}
+ *   onClose={() => setIsEditorVisible(false)}
+ * />
+ * ```
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Modal,
+  StyleSheet,
+  Platform,
+  Alert,
+} from 'react-native';
+import { Tag } from '../types';
+import { TAG_COLORS } from '../utils/tags';
+import { VALIDATION_LIMITS } from '../utils/validation';
+import Button from './Button';
+import { colors } from '../styles/colors';
+import { typography } from '../styles/typography';
+import { spacing } from '../styles/spacing';
+
+/**
+ * TagEditor component props
+ */
+export interface TagEditorProps {
+  /**
+   * Whether the editor is visible
+   */
+  visible: boolean;
+
+  /**
+   * Tag being edited (undefined when creating a new tag)
+   */
+  tag?: Tag;
+
+  /**
+   * Color preselected for a new tag
+   * @default First palette color
+   */
+  defaultColor?: string;
+
+  /**
+   * Callback when the user saves the tag
+   * @param name - Tag name
+   * @param color - Tag color
+   * @returns Result object with success status and optional error message
+   */
+  onSave: (name: string, color: string) => { success: boolean; error?: string };
+
+  /**
+   * Callback when the tag is deleted
+   * If undefined, the delete button will be hidden
+   */
+  onDelete?: () => void;
+
+  /**
+   * Callback when the editor is dismissed
+   */
+  onClose: () => void;
+}
+
+/**
+ * TagEditor component implementation
+ */
+const TagEditor: React.FC<TagEditorProps> = ({
+  visible,
+  tag,
+  defaultColor = TAG_COLORS[0],
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(defaultColor);
+
+  /**
+   * Reset form from the tag whenever the editor opens
+   */
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    setName(tag?.name || '');
+    setColor(tag?.color || defaultColor);
+  }, [visible, tag, defaultColor]);
+
+  /**
+   * Saves the tag and closes the editor
+   */
+  const handleSave = () => {
+    const result = onSave(name, color);
+    if (result.success) {
+      onClose();
+    } else {
+      Alert.alert('저장 실패', result.error || '태그 저장에 실패했습니다');
+    }
+  };
+
+  /**
+   * Asks for confirmation before deleting the tag
+   */
+  const handleDelete = () => {
+    if (!tag || !onDelete) {
+      return;
+    }
+
+    Alert.alert('태그 삭제', `'${tag.name}' 태그를 삭제할까요?\n할 일에서도 태그가 제거됩니다.`, [
+      { text: '취소', style: 'cancel' },
+      {
+        text: '삭제',
+        style: 'destructive',
+        onPress: () => {
+          onDelete();
+          onClose();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.modalContainer}>
+          <TouchableWithoutFeedback onPress={(e) => e.stopPropagation()}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>{tag ? '태그 편집' : '새 태그'}</Text>
+
+              {/* Name Input */}
+              <TextInput
+                style={styles.nameInput}
+                value={name}
+                onChangeText={setName}
+                placeholder="태그 이름"
+                placeholderTextColor={colors.textDisabled}
+                maxLength={VALIDATION_LIMITS.MAX_TAG_NAME_LENGTH}
+                returnKeyType="done"
+                onSubmitEditing={handleSave}
+                autoFocus={!tag}
+                accessible={true}
+                accessibilityLabel="태그 이름 입력"
+              />
+
+              {/* Color Palette */}
+              <View style={styles.colorRow}>
+                {TAG_COLORS.map((option) => {
+                  const isSelected = color === option;
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      style={[
+                        styles.colorOption,
+                        { backgroundColor: option },
+                        isSelected && styles.colorOptionSelected,
+                      ]}
+                      onPress={() => setColor(option)}
+                      accessible={true}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected: isSelected }}
+                      accessibilityLabel={`색상 ${option}`}
+                    >
+                      {isSelected && <Text style={styles.colorCheckmark}>✓</Text>}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {/* Delete Button (only when editing) */}
+              {tag && onDelete && (
+                <TouchableOpacity
+                  style={styles.deleteButton}
+                  onPress={handleDelete}
+                  accessible={true}
+                  accessibilityRole="button"
+                  accessibilityLabel="태그 삭제"
+                >
+                  <Text style={styles.deleteButtonText}>태그 삭제</Text>
+                </TouchableOpacity>
+              )}
+
+              {/* Action Buttons */}
+              <View style={styles.modalActions}>
+                <Button
+                  variant="secondary"
+                  onPress={onClose}
+                  style={styles.modalButton}
+                  accessibilityLabel="취소"
+                >
+                  <Text>취소</Text>
+                </Button>
+
+                <Button
+                  variant="primary"
+                  onPress={handleSave}
+                  disabled={!name.trim()}
+                  style={styles.modalButton}
+                  accessibilityLabel="저장"
+                >
+                  <Text>저장</Text>
+                </Button>
+              </View>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+export default TagEditor;
+
+const styles = StyleSheet.create({
+  /**
+   * Modal overlay
+   */
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+
+  /**
+   * Modal content card
+   */
+  modalContent: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: spacing.xxl,
+    paddingBottom: Platform.OS === 'ios' ? spacing.xxl + 20 : spacing.xxl,
+  },
+
+  /**
+   * Modal title
+   */
+  modalTitle: {
+    ...typography.h2,
+    color: colors.textPrimary,
+    marginBottom: spacing.lg,
+  },
+
+  /**
+   * Tag name input
+   */
+  nameInput: {
+    ...typography.body,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    padding: spacing.md,
+    minHeight: 44,
+    color: colors.textPrimary,
+    backgroundColor: colors.background,
+    marginBottom: spacing.lg,
+  },
+
+  /**
+   * Wrapping row of color options
+   */
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+
+  /**
+   * Color option (44x44 circle)
+   */
+  colorOption: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  /**
+   * Selected color option
+   */
+  colorOptionSelected: {
+    borderWidth: 3,
+    borderColor: colors.textPrimary,
+  },
+
+  /**
+   * Checkmark on the selected color
+   */
+  colorCheckmark: {
+    color: colors.surface,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+
+  /**
+   * Delete tag button
+   */
+  deleteButton: {
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+
+  /**
+   * Delete tag button label
+   */
+  deleteButtonText: {
+    ...typography.body,
+    color: colors.danger,
+    fontWeight: '600',
+  },
+
+  /**
+   * Action buttons container
+   */
+  modalActions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+
+  /**
+   * Individual action button
+   */
+  modalButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,159 @@
+/**
+ * TagFilterBar Component
+ *
+ * Horizontally scrolling row of tag chips for filtering by tag.
+ *
+ * Accessibility:
+ * - Chips announce their selected state
+ * - 44pt minimum touch targets
+ *
+ * Features:
+ * - "전체" chip clears the filter
+ * - Several tags can be selected (tasks with any of them match)
+ * - Renders nothing when no tags exist
+ *
+ * @example
+ * ```tsx
+ * <TagFilterBar
+ *   tags={settings.tags || []}
+ *   selectedTagIds={selectedTagIds}
+ *   onChange={setSelectedTagIds}
+ * />
+ * ```
+ */
+
+import React from 'react';
+import { ScrollView, Text, TouchableOpacity, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { Tag } from '../types';
+import TagChip from './TagChip';
+import { colors } from '../styles/colors';
+import { typography } from '../styles/typography';
+import { spacing } from '../styles/spacing';
+
+/**
+ * TagFilterBar component props
+ */
+export interface TagFilterBarProps {
+  /**
+   * All defined tags
+   */
+  tags: Tag[];
+
+  /**
+   * IDs of the selected tags (empty = no filter)
+   */
+  selectedTagIds: string[];
+
+  /**
+   * Callback when the selection changes
+   * @param tagIds - New selection
+   */
+  onChange: (tagIds: string[]) => void;
+
+  /**
+   * Optional custom style for the bar container
+   */
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * TagFilterBar component implementation
+ */
+const TagFilterBar: React.FC<TagFilterBarProps> = ({ tags, selectedTagIds, onChange, style }) => {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  const isAllSelected = selectedTagIds.length === 0;
+
+  /**
+   * Adds or removes a tag from the selection
+   */
+  const handleToggle = (tagId: string) => {
+    onChange(
+      selectedTagIds.includes(tagId)
+        ? selectedTagIds.filter((id) => id !== tagId)
+        : [...selectedTagIds, tagId]
+    );
+  };
+
+  return (
+    <ScrollView
+      horizontal={true}
+      showsHorizontalScrollIndicator={false}
+      style={style}
+      contentContainerStyle={styles.content}
+    >
+      <TouchableOpacity
+        style={[styles.allChip, isAllSelected && styles.allChipActive]}
+        onPress={() => onChange([])}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="모든 태그 보기"
+        accessibilityState={{ selected: isAllSelected }}
+      >
+        <Text style={[styles.allChipText, isAllSelected && styles.allChipTextActive]}>전체</Text>
+      </TouchableOpacity>
+
+      {tags.map((tag) => (
+        <TagChip
+          key={tag.id}
+          tag={tag}
+          selected={selectedTagIds.includes(tag.id)}
+          onPress={() => handleToggle(tag.id)}
+        />
+      ))}
+    </ScrollView>
+  );
+};
+
+export default TagFilterBar;
+
+const styles = StyleSheet.create({
+  /**
+   * Chip row
+   */
+  content: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+
+  /**
+   * "전체" chip
+   */
+  allChip: {
+    minHeight: 44,
+    paddingHorizontal: spacing.lg,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  /**
+   * "전체" chip when no tag is selected
+   */
+  allChipActive: {
+    backgroundColor: colors.textPrimary,
+    borderColor: colors.textPrimary,
+  },
+
+  /**
+   * "전체" chip label
+   */
+  allChipText: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+
+  /**
+   * "전체" chip label when no tag is selected
+   */
+  allChipTextActive: {
+    color: colors.surface,
+    fontWeight: '600',
+  },
+});
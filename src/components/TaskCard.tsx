@@ -2,7 +2,8 @@
  * TaskCard Component
  *
  * A card component that displays a task with its progress.
- * Shows task title, progress bar, and completion statistics.
+ * Shows task title, tags, progress bar, completion statistics and due date.
+ * While searching, the query is highlighted and matching checklist items are listed.
  *
  * Accessibility:
  * - Full screen reader support with descriptive labels
@@ -24,12 +25,21 @@
 
 import React, { useMemo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, StyleProp, ViewStyle } from 'react-native';
-import { Task } from '../types';
+import { Task, Tag, ChecklistItem } from '../types';
 import { calcProgress } from '../utils/progress';
+import { countItems } from '../utils/itemTree';
 import { colors } from '../styles/colors';
 import { typography } from '../styles/typography';
 import { spacing } from '../styles/spacing';
 import { ProgressBar } from './ProgressBar';
+import DueDateBadge from './DueDateBadge';
+import TagChip from './TagChip';
+import HighlightedText from './HighlightedText';
+
+/**
+ * Maximum number of matching items listed on the card
+ */
+const MAX_MATCHED_ITEMS_SHOWN = 3;
 
 /**
  * TaskCard component props
@@ -45,6 +55,26 @@ export interface TaskCardProps {
    */
   onPress: () => void;
 
+  /**
+   * Optional callback when card is long-pressed (e.g. to start reordering)
+   */
+  onLongPress?: () => void;
+
+  /**
+   * Tags attached to the task (resolved from its tagIds)
+   */
+  tags?: Tag[];
+
+  /**
+   * Search query to highlight in the title and matched items
+   */
+  highlightQuery?: string;
+
+  /**
+   * Checklist items matching the search query
+   */
+  matchedItems?: ChecklistItem[];
+
   /**
    * Optional custom style for the card container
    */
@@ -56,12 +86,24 @@ export interface TaskCardProps {
  *
  * Features:
  * - Displays task title with h3 typography
+ * - Shows tag chips
+ * - Highlights the search query and lists matching items (up to 3)
  * - Shows progress bar with completion percentage
  * - Displays completion text (n/m 완료, percent%)
+ * - Shows a due date badge (highlighted when overdue)
  * - Touchable with proper accessibility support
+ * - Optional long press (used to start drag-and-drop reordering)
  * - Optimized with React.memo and useMemo
  */
-const TaskCard: React.FC<TaskCardProps> = ({ task, onPress, style }) => {
+const TaskCard: React.FC<TaskCardProps> = ({
+  task,
+  onPress,
+  onLongPress,
+  tags,
+  highlightQuery,
+  matchedItems,
+  style,
+}) => {
   // Calculate progress with useMemo to avoid recalculation on every render
   const progress = useMemo(() => calcProgress(task), [task]);
 
@@ -72,16 +114,51 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onPress, style }) => {
     <TouchableOpacity
       style={[styles.container, style]}
       onPress={onPress}
+      onLongPress={onLongPress}
       activeOpacity={0.7}
       accessible={true}
       accessibilityLabel={accessibilityLabel}
-      accessibilityHint="탭하여 세부 단계 보기"
+      accessibilityHint={
+        onLongPress ? '탭하여 세부 단계 보기, 길게 눌러 순서 변경' : '탭하여 세부 단계 보기'
+      }
       accessibilityRole="button"
     >
       {/* Task Title */}
-      <Text style={styles.title} numberOfLines={2} ellipsizeMode="tail">
-        {task.title}
-      </Text>
+      <HighlightedText
+        text={task.title}
+        query={highlightQuery}
+        style={styles.title}
+        numberOfLines={2}
+      />
+
+      {/* Matching Checklist Items (while searching) */}
+      {matchedItems && matchedItems.length > 0 && (
+        <View style={styles.matchedItems}>
+          {matchedItems.slice(0, MAX_MATCHED_ITEMS_SHOWN).map((item) => (
+            <HighlightedText
+              key={item.id}
+              text={`· ${item.title}`}
+              query={highlightQuery}
+              style={styles.matchedItemText}
+              numberOfLines={1}
+            />
+          ))}
+          {matchedItems.length > MAX_MATCHED_ITEMS_SHOWN && (
+            <Text style={styles.matchedItemMore}>
+              외 {matchedItems.length - MAX_MATCHED_ITEMS_SHOWN}개 단계
+            </Text>
+          )}
+        </View>
+      )}
+
+      {/* Tags */}
+      {tags && tags.length > 0 && (
+        <View style={styles.tagRow}>
+          {tags.map((tag) => (
+            <TagChip key={tag.id} tag={tag} />
+          ))}
+        </View>
+      )}
 
       {/* Progress Section */}
       <View style={styles.progressContainer}>
@@ -91,27 +168,40 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onPress, style }) => {
         <Text style={styles.progressPercent}>{progress.percent}%</Text>
       </View>
 
-      {/* Progress Detail Text */}
-      <Text style={styles.progressText}>
-        {progress.done}/{progress.total} 완료
-      </Text>
+      {/* Progress Detail Text and Due Date */}
+      <View style={styles.footerRow}>
+        <Text style={styles.progressText}>
+          {progress.done}/{progress.total} 완료
+        </Text>
+        {task.dueDate && (
+          <DueDateBadge
+            dueDate={task.dueDate}
+            done={progress.total > 0 && progress.done === progress.total}
+          />
+        )}
+      </View>
     </TouchableOpacity>
   );
 };
 
 /**
  * Memoized TaskCard to prevent unnecessary re-renders
- * Only re-renders when task or onPress changes
+ * Only re-renders when task, tags, search highlight or the press callbacks change
  */
 export default React.memo(TaskCard, (prevProps, nextProps) => {
   // Compare task by reference and key properties
   return (
     prevProps.task.id === nextProps.task.id &&
     prevProps.task.title === nextProps.task.title &&
-    prevProps.task.items.length === nextProps.task.items.length &&
-    prevProps.task.items.filter((item) => item.done).length ===
-      nextProps.task.items.filter((item) => item.done).length &&
-    prevProps.onPress === nextProps.onPress
+    countItems(prevProps.task.items) === countItems(nextProps.task.items) &&
+    prevProps.task.dueDate === nextProps.task.dueDate &&
+    calcProgress(prevProps.task).done === calcProgress(nextProps.task).done &&
+    JSON.stringify(prevProps.tags) === JSON.stringify(nextProps.tags) &&
+    prevProps.highlightQuery === nextProps.highlightQuery &&
+    JSON.stringify(prevProps.matchedItems?.map((item) => item.title)) ===
+      JSON.stringify(nextProps.matchedItems?.map((item) => item.title)) &&
+    prevProps.onPress === nextProps.onPress &&
+    prevProps.onLongPress === nextProps.onLongPress
   );
 });
 
@@ -157,6 +247,42 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
 
+  /**
+   * Matching checklist items list (shown while searching)
+   */
+  matchedItems: {
+    marginTop: -spacing.xs,
+    marginBottom: spacing.md,
+    gap: 2,
+  },
+
+  /**
+   * Matching checklist item title
+   */
+  matchedItemText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+
+  /**
+   * "외 N개 단계" label for items beyond the shown ones
+   */
+  matchedItemMore: {
+    ...typography.caption,
+    color: colors.textDisabled,
+  },
+
+  /**
+   * Tag chips row (wraps to multiple lines)
+   */
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginTop: -spacing.xs,
+    marginBottom: spacing.md,
+  },
+
   /**
    * Progress container - horizontal layout
    */
@@ -185,6 +311,15 @@ const styles = StyleSheet.create({
     color: colors.primary,
   },
 
+  /**
+   * Footer row - progress text and due date badge
+   */
+  footerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+
   /**
    * Progress detail text (n/m 완료)
    * - Uses caption typography (13px, medium)
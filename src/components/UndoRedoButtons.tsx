@@ -0,0 +1,122 @@
+/**
+ * UndoRedoButtons Component
+ *
+ * Header buttons that undo and redo task changes.
+ * The history lives in the task store, so it carries over between screens.
+ *
+ * Accessibility:
+ * - Buttons announce their disabled state
+ * - 44x44pt minimum touch targets
+ *
+ * Features:
+ * - Disabled when there is nothing to undo / redo
+ * - Shows a toast naming the undone / redone change
+ *
+ * @example
+ * ```tsx
+ * <Stack.Screen options={{ headerRight: () => <UndoRedoButtons /> }} />
+ * ```
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTaskStore } from '../store/taskStore';
+import { showToast } from '../utils/toast';
+import { colors } from '../styles/colors';
+import { spacing } from '../styles/spacing';
+
+/**
+ * UndoRedoButtons component implementation
+ */
+const UndoRedoButtons: React.FC = () => {
+  const canUndo = useTaskStore((state) => state.undoStack.length > 0);
+  const canRedo = useTaskStore((state) => state.redoStack.length > 0);
+  const undo = useTaskStore((state) => state.undo);
+  const redo = useTaskStore((state) => state.redo);
+
+  /**
+   * Undoes the last change and names it in a toast
+   */
+  const handleUndo = () => {
+    const result = undo();
+    if (result.success) {
+      showToast({ type: 'info', message: `'${result.label}' 실행 취소` });
+    }
+  };
+
+  /**
+   * Redoes the last undone change and names it in a toast
+   */
+  const handleRedo = () => {
+    const result = redo();
+    if (result.success) {
+      showToast({ type: 'info', message: `'${result.label}' 다시 실행` });
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.button}
+        onPress={handleUndo}
+        disabled={!canUndo}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="실행 취소"
+        accessibilityState={{ disabled: !canUndo }}
+      >
+        <Text style={[styles.icon, !canUndo && styles.iconDisabled]}>↶</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.button}
+        onPress={handleRedo}
+        disabled={!canRedo}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="다시 실행"
+        accessibilityState={{ disabled: !canRedo }}
+      >
+        <Text style={[styles.icon, !canRedo && styles.iconDisabled]}>↷</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export default UndoRedoButtons;
+
+const styles = StyleSheet.create({
+  /**
+   * Buttons row
+   */
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingRight: spacing.xs,
+  },
+
+  /**
+   * Undo/redo button
+   */
+  button: {
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  /**
+   * Arrow icon
+   */
+  icon: {
+    fontSize: 22,
+    color: colors.textPrimary,
+  },
+
+  /**
+   * Arrow icon when there is nothing to undo / redo
+   */
+  iconDisabled: {
+    color: colors.textDisabled,
+  },
+});
@@ -0,0 +1,123 @@
+/**
+ * UndoToast Component
+ *
+ * Toast with a message and an "실행 취소" button, used for the 'undo' toast type.
+ * Registered with react-native-toast-message in App.tsx and shown via showToast().
+ *
+ * Accessibility:
+ * - The undo button is announced as a button
+ * - 44x44pt minimum touch target
+ *
+ * @example
+ * ```tsx
+ * <Toast config={{ undo: ({ text1, props }) => <UndoToast message={text1} onUndo={props.onUndo} /> }} />
+ * ```
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { hideToast } from '../utils/toast';
+import { colors } from '../styles/colors';
+import { typography } from '../styles/typography';
+import { spacing } from '../styles/spacing';
+
+/**
+ * UndoToast component props
+ */
+export interface UndoToastProps {
+  /**
+   * Message describing what happened
+   */
+  message?: string;
+
+  /**
+   * Callback when the undo button is pressed
+   * If undefined, the button is hidden
+   */
+  onUndo?: () => void;
+}
+
+/**
+ * UndoToast component implementation
+ */
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo }) => {
+  /**
+   * Runs the undo callback and closes the toast
+   */
+  const handleUndo = () => {
+    hideToast();
+    onUndo?.();
+  };
+
+  return (
+    <View style={styles.container} accessible={false}>
+      <Text style={styles.message} numberOfLines={2}>
+        {message}
+      </Text>
+
+      {onUndo && (
+        <TouchableOpacity
+          style={styles.undoButton}
+          onPress={handleUndo}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="실행 취소"
+        >
+          <Text style={styles.undoText}>실행 취소</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+export default UndoToast;
+
+const styles = StyleSheet.create({
+  /**
+   * Dark pill container
+   */
+  container: {
+    width: '90%',
+    minHeight: 52,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.textPrimary,
+    borderRadius: 14,
+    paddingLeft: spacing.lg,
+    paddingRight: spacing.sm,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+
+  /**
+   * Message text
+   */
+  message: {
+    ...typography.body,
+    color: colors.surface,
+    flex: 1,
+  },
+
+  /**
+   * Undo button
+   */
+  undoButton: {
+    minWidth: 44,
+    minHeight: 44,
+    paddingHorizontal: spacing.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  /**
+   * Undo button label
+   */
+  undoText: {
+    ...typography.body,
+    color: colors.primaryLight,
+    fontWeight: '700',
+  },
+});
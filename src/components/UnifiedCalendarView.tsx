@@ -17,6 +17,7 @@ import { View, Text, TouchableOpacity, StyleSheet, Animated, PanResponder } from
 import { colors } from '../styles/colors';
 import { logger } from '../utils/logger';
 import { formatDateToKey } from '../services/dailyRecords';
+import { useTaskStore } from '../store/taskStore';
 import {
   DAY_NAMES_SHORT,
   MONTH_HEADER_HEIGHT as HEADER_HEIGHT,
@@ -68,6 +69,8 @@ export const UnifiedCalendarView: React.FC<UnifiedCalendarViewProps> = ({
   onDisplayDateChange,
   onMonthHeightChange,
 }) => {
+  const tasks = useTaskStore((state) => state.tasks);
+  const dailyRecordsVersion = useTaskStore((state) => state.dailyRecordsVersion);
   const [allDays, setAllDays] = useState<DayInfo[]>([]);
   const fadeAnim = useRef(new Animated.Value(1)).current;
 
@@ -177,7 +180,8 @@ export const UnifiedCalendarView: React.FC<UnifiedCalendarViewProps> = ({
             currentYear,
             todayKey,
             weekNum,
-            dayNum
+            dayNum,
+            tasks
           );
 
           days.push(dayInfo);
@@ -215,7 +219,7 @@ export const UnifiedCalendarView: React.FC<UnifiedCalendarViewProps> = ({
     } catch (error) {
       logger.error('Failed to load all days', error as Error);
     }
-  }, [displayDate, selectedDate, weekStartsOn, onMonthHeightChange]);
+  }, [displayDate, selectedDate, weekStartsOn, onMonthHeightChange, tasks, dailyRecordsVersion]);
 
   /**
    * Load all days when component mounts or dependencies change
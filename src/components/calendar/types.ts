@@ -23,6 +23,7 @@ export interface DayInfo {
   weekRowIndex: number;
   dayColumnIndex: number;
   record?: DailyRecord;
+  scheduledCount?: number; // Items expected on future days (incl. recurring occurrences)
 }
 
 /**
@@ -4,6 +4,9 @@
  */
 
 import { formatDateToKey, getDailyRecord } from '../../services/dailyRecords';
+import { Task } from '../../types';
+import { isItemScheduledOn } from '../../utils/recurrence';
+import { flattenItems } from '../../utils/itemTree';
 import {
   CELL_WIDTH,
   CELL_HEIGHT,
@@ -102,6 +105,17 @@ export const formatMonthDisplay = (dateKey: string): string => {
   return `${year}년 ${monthNames[month]}`;
 };
 
+/**
+ * Count checklist items (nested ones included) scheduled on a date, expanding recurrence rules
+ */
+export const countScheduledItems = (tasks: Task[], dateKey: string): number => {
+  return tasks.reduce(
+    (count, task) =>
+      count + flattenItems(task.items).filter((item) => isItemScheduledOn(item, dateKey)).length,
+    0
+  );
+};
+
 /**
  * Create DayInfo object for a single day
  */
@@ -112,7 +126,8 @@ export const createDayInfo = async (
   currentYear: number,
   todayKey: string,
   weekRowIndex: number,
-  dayColumnIndex: number
+  dayColumnIndex: number,
+  tasks: Task[] = []
 ): Promise<DayInfo> => {
   const dateKey = formatDateToKey(date);
   const dayOfWeek = DAY_NAMES_SHORT[date.getDay()];
@@ -135,6 +150,9 @@ export const createDayInfo = async (
     record = await getDailyRecord(dateKey);
   }
 
+  // Future days have no record yet; expand schedules and recurrence rules instead
+  const scheduledCount = isFuture ? countScheduledItems(tasks, dateKey) : undefined;
+
   return {
     date,
     dateKey,
@@ -150,6 +168,7 @@ export const createDayInfo = async (
     weekRowIndex,
     dayColumnIndex,
     record,
+    scheduledCount,
   };
 };
 
@@ -222,6 +241,10 @@ export const getCompletionDotColor = (day: DayInfo, primaryColor: string): strin
     }
   }
 
+  if (day.isFuture && day.scheduledCount) {
+    return '#D1D5DB'; // Light gray for upcoming items
+  }
+
   return null;
 };
 
@@ -22,6 +22,35 @@ export type { ChecklistItemViewProps } from './ChecklistItemView';
 export { default as AddItemInput } from './AddItemInput';
 export type { AddItemInputProps } from './AddItemInput';
 
+export { default as DueDateBadge } from './DueDateBadge';
+export type { DueDateBadgeProps } from './DueDateBadge';
+
+export { default as DueDatePicker } from './DueDatePicker';
+export type { DueDatePickerProps } from './DueDatePicker';
+
+export { default as RecurrencePicker } from './RecurrencePicker';
+export type { RecurrencePickerProps } from './RecurrencePicker';
+
+export { default as TagChip } from './TagChip';
+export type { TagChipProps } from './TagChip';
+
+export { default as TagFilterBar } from './TagFilterBar';
+export type { TagFilterBarProps } from './TagFilterBar';
+
+export { default as TagEditor } from './TagEditor';
+export type { TagEditorProps } from './TagEditor';
+
+export { default as HighlightedText } from './HighlightedText';
+export type { HighlightedTextProps } from './HighlightedText';
+
+export { default as UndoToast } from './UndoToast';
+export type { UndoToastProps } from './UndoToast';
+
+export { default as UndoRedoButtons } from './UndoRedoButtons';
+
+export { default as DraggableList } from './DraggableList';
+export type { DraggableListProps, DraggableRenderInfo } from './DraggableList';
+
 export { default as Button } from './Button';
 export type { ButtonProps, ButtonVariant } from './Button';
 
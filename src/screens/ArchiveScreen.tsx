@@ -0,0 +1,321 @@
+/**
+ * ArchiveScreen Component
+ *
+ * Lists archived tasks (finished tasks moved out of the task list).
+ * Opened from the settings screen.
+ *
+ * Accessibility:
+ * - Full screen reader support
+ * - 44x44pt minimum touch targets
+ *
+ * Features:
+ * - Archived tasks, most recently archived first
+ * - Progress and archive date for each task
+ * - Restore (복원) back to the top of the task list
+ * - Delete (삭제) to the trash with confirmation
+ * - Empty state when nothing is archived
+ */
+
+import React, { useMemo } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useTaskStore } from '../store/taskStore';
+import { ProgressBar, TagChip } from '../components';
+import { colors } from '../styles/colors';
+import { typography } from '../styles/typography';
+import { spacing } from '../styles/spacing';
+import { Task } from '../types';
+import { calcProgress } from '../utils/progress';
+import { getArchivedTasks, DEFAULT_ARCHIVE_AFTER_DAYS } from '../utils/archive';
+import { getTaskTags } from '../utils/tags';
+
+/**
+ * Formats an ISO timestamp as a Korean date (e.g. "2025년 11월 6일")
+ */
+function formatArchivedDate(isoString: string): string {
+  const date = new Date(isoString);
+  return `${date.getFullYear()}년 ${date.getMonth() + 1}월 ${date.getDate()}일`;
+}
+
+/**
+ * ArchiveScreen component implementation
+ */
+const ArchiveScreen: React.FC = () => {
+  const { tasks, settings, unarchiveTask, deleteTask } = useTaskStore();
+  const archivedTasks = useMemo(() => getArchivedTasks(tasks), [tasks]);
+  const tags = settings.tags || [];
+  const archiveAfterDays = settings.archiveAfterDays ?? DEFAULT_ARCHIVE_AFTER_DAYS;
+
+  /**
+   * Restores a task to the task list
+   */
+  const handleRestore = (task: Task) => {
+    const result = unarchiveTask(task.id);
+    if (!result.success) {
+      Alert.alert('복원 실패', result.error || '할 일 복원에 실패했습니다');
+    }
+  };
+
+  /**
+   * Moves a task to the trash after confirmation
+   */
+  const handleDelete = (task: Task) => {
+    Alert.alert(
+      '할 일 삭제',
+      `'${task.title}'을(를) 삭제할까요?\n설정의 휴지통에서 되돌릴 수 있습니다.`,
+      [
+        { text: '취소', style: 'cancel' },
+        {
+          text: '삭제',
+          style: 'destructive',
+          onPress: () => deleteTask(task.id),
+        },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  /**
+   * Renders a single archived task
+   */
+  const renderTask = ({ item: task }: { item: Task }) => {
+    const progress = calcProgress(task);
+    const taskTags = getTaskTags(task, tags);
+
+    return (
+      <View style={styles.card}>
+        <Text style={styles.title} numberOfLines={2}>
+          {task.title}
+        </Text>
+
+        {taskTags.length > 0 && (
+          <View style={styles.tagRow}>
+            {taskTags.map((tag) => (
+              <TagChip key={tag.id} tag={tag} />
+            ))}
+          </View>
+        )}
+
+        <View style={styles.progressRow}>
+          <View style={styles.progressBarWrapper}>
+            <ProgressBar progress={progress.percent} />
+          </View>
+          <Text style={styles.progressText}>
+            {progress.done}/{progress.total} 완료
+          </Text>
+        </View>
+
+        <Text style={styles.archivedDate}>{formatArchivedDate(task.archivedAt!)} 보관됨</Text>
+
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleRestore(task)}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`${task.title} 복원`}
+            accessibilityHint="할 일 목록 맨 위로 되돌립니다"
+          >
+            <Text style={styles.restoreText}>복원</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleDelete(task)}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`${task.title} 삭제`}
+          >
+            <Text style={styles.deleteText}>삭제</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  /**
+   * Renders the empty state
+   */
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyTitle}>보관된 할 일이 없습니다</Text>
+      <Text style={styles.emptySubtitle}>
+        {archiveAfterDays > 0
+          ? `모두 완료한 뒤 ${archiveAfterDays}일 동안 수정하지 않은 할 일이 여기로 옮겨집니다`
+          : '자동 보관이 꺼져 있습니다'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={[
+        styles.listContent,
+        archivedTasks.length === 0 && styles.listContentEmpty,
+      ]}
+      data={archivedTasks}
+      keyExtractor={(task) => task.id}
+      renderItem={renderTask}
+      ListEmptyComponent={renderEmptyState}
+    />
+  );
+};
+
+export default ArchiveScreen;
+
+const styles = StyleSheet.create({
+  /**
+   * Main container
+   */
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+
+  /**
+   * List content container
+   */
+  listContent: {
+    padding: spacing.lg,
+  },
+
+  /**
+   * List content when empty (centered)
+   */
+  listContentEmpty: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+
+  /**
+   * Archived task card
+   */
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.05)',
+  },
+
+  /**
+   * Task title (muted, since the task is finished)
+   */
+  title: {
+    ...typography.h3,
+    color: colors.textSecondary,
+    fontWeight: '600',
+    marginBottom: spacing.md,
+  },
+
+  /**
+   * Tag chips row
+   */
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginTop: -spacing.xs,
+    marginBottom: spacing.md,
+  },
+
+  /**
+   * Progress bar and count row
+   */
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+
+  /**
+   * Progress bar wrapper - takes remaining space
+   */
+  progressBarWrapper: {
+    flex: 1,
+  },
+
+  /**
+   * Progress count (n/m 완료)
+   */
+  progressText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+
+  /**
+   * Archive date label
+   */
+  archivedDate: {
+    ...typography.caption,
+    color: colors.textDisabled,
+  },
+
+  /**
+   * Restore/delete buttons row
+   */
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+
+  /**
+   * Restore/delete button
+   */
+  actionButton: {
+    minWidth: 44,
+    minHeight: 44,
+    paddingHorizontal: spacing.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  /**
+   * Restore button label
+   */
+  restoreText: {
+    ...typography.body,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+
+  /**
+   * Delete button label
+   */
+  deleteText: {
+    ...typography.body,
+    color: colors.danger,
+    fontWeight: '600',
+  },
+
+  /**
+   * Empty state container
+   */
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+
+  /**
+   * Empty state title
+   */
+  emptyTitle: {
+    ...typography.h2,
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+    textAlign: 'center',
+  },
+
+  /**
+   * Empty state subtitle
+   */
+  emptySubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
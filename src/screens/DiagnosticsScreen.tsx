@@ -0,0 +1,319 @@
+/**
+ * DiagnosticsScreen Component
+ *
+ * Checks the tasks and daily records for integrity problems and repairs them.
+ * Opened from the settings screen.
+ *
+ * Accessibility:
+ * - Full screen reader support
+ * - 44x44pt minimum touch targets
+ *
+ * Features:
+ * - Runs the check whenever the screen is shown
+ * - Problems grouped by kind, with what's wrong
+ * - Automatic repair (모두 고치기) with confirmation
+ * - Re-check (다시 검사)
+ * - Empty state when no problems are found
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useTaskStore } from '../store/taskStore';
+import { colors } from '../styles/colors';
+import { typography } from '../styles/typography';
+import { spacing } from '../styles/spacing';
+import { IntegrityIssue, IntegrityIssueType } from '../types';
+import type { SettingsStackParamList } from '../../App';
+
+/**
+ * Label shown for each kind of problem
+ */
+const ISSUE_TYPE_LABELS: Record<IntegrityIssueType, string> = {
+  duplicateTaskId: '중복된 할 일 ID',
+  duplicateItemId: '중복된 세부 단계 ID',
+  invalidScheduledDate: '잘못된 예정일',
+  missingDailyRecord: '누락된 기록',
+  orphanedRecordItem: '삭제된 할 일의 기록',
+  invalidTimestamps: '잘못된 수정 시각',
+};
+
+/**
+ * DiagnosticsScreen navigation props
+ */
+interface DiagnosticsScreenProps {
+  navigation: StackNavigationProp<SettingsStackParamList, 'Diagnostics'>;
+}
+
+/**
+ * DiagnosticsScreen component implementation
+ */
+const DiagnosticsScreen: React.FC<DiagnosticsScreenProps> = ({ navigation }) => {
+  const { runIntegrityCheck, repairIntegrityIssues } = useTaskStore();
+  const [issues, setIssues] = useState<IntegrityIssue[]>([]);
+  const [isChecking, setIsChecking] = useState(true);
+  const [isRepairing, setIsRepairing] = useState(false);
+
+  /**
+   * Runs the integrity check and shows the result
+   */
+  const runCheck = useCallback(async () => {
+    setIsChecking(true);
+    const result = await runIntegrityCheck();
+    setIsChecking(false);
+
+    if (result.success) {
+      setIssues(result.issues || []);
+    } else {
+      Alert.alert('점검 실패', result.error || '데이터 점검에 실패했습니다');
+    }
+  }, [runIntegrityCheck]);
+
+  /**
+   * Check again whenever the screen is shown
+   */
+  useEffect(() => {
+    runCheck();
+    return navigation.addListener('focus', runCheck);
+  }, [navigation, runCheck]);
+
+  /**
+   * Repairs every problem after confirmation, then checks again
+   */
+  const handleRepair = () => {
+    Alert.alert(
+      '모두 고치기',
+      `발견된 문제 ${issues.length}개를 자동으로 고칠까요?\n고친 뒤에는 되돌릴 수 없습니다.`,
+      [
+        { text: '취소', style: 'cancel' },
+        {
+          text: '고치기',
+          onPress: async () => {
+            setIsRepairing(true);
+            const result = await repairIntegrityIssues();
+            setIsRepairing(false);
+
+            if (result.success) {
+              Alert.alert('복구 완료', `${result.fixedCount ?? 0}개 문제를 고쳤습니다`);
+              await runCheck();
+            } else {
+              Alert.alert('복구 실패', result.error || '데이터 복구에 실패했습니다');
+            }
+          },
+        },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  /**
+   * Renders a single problem
+   */
+  const renderIssue = ({ item: issue }: { item: IntegrityIssue }) => (
+    <View style={styles.card}>
+      <Text style={styles.issueType}>{ISSUE_TYPE_LABELS[issue.type]}</Text>
+      <Text style={styles.issueMessage}>{issue.message}</Text>
+    </View>
+  );
+
+  /**
+   * Renders the header with the problem count and the actions
+   */
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.headerText}>문제 {issues.length}개를 찾았습니다</Text>
+      <TouchableOpacity
+        style={styles.actionButton}
+        onPress={runCheck}
+        disabled={isChecking || isRepairing}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="다시 검사"
+      >
+        <Text style={styles.secondaryText}>다시 검사</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.actionButton}
+        onPress={handleRepair}
+        disabled={isChecking || isRepairing}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="모두 고치기"
+        accessibilityHint="발견된 문제를 자동으로 고칩니다"
+      >
+        {isRepairing ? (
+          <ActivityIndicator size="small" color={colors.primary} />
+        ) : (
+          <Text style={styles.repairText}>모두 고치기</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  /**
+   * Renders the empty state (or the progress indicator while checking)
+   */
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      {isChecking ? (
+        <ActivityIndicator size="large" color={colors.primary} />
+      ) : (
+        <>
+          <Text style={styles.emptyTitle}>문제가 없습니다</Text>
+          <Text style={styles.emptySubtitle}>할 일과 기록 데이터가 모두 올바릅니다</Text>
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={[styles.listContent, issues.length === 0 && styles.listContentEmpty]}
+      data={isChecking ? [] : issues}
+      keyExtractor={(_, index) => String(index)}
+      renderItem={renderIssue}
+      ListHeaderComponent={!isChecking && issues.length > 0 ? renderHeader : null}
+      ListEmptyComponent={renderEmptyState}
+    />
+  );
+};
+
+export default DiagnosticsScreen;
+
+const styles = StyleSheet.create({
+  /**
+   * Main container
+   */
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+
+  /**
+   * List content container
+   */
+  listContent: {
+    padding: spacing.lg,
+  },
+
+  /**
+   * List content when empty (centered)
+   */
+  listContentEmpty: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+
+  /**
+   * Header row (problem count + re-check and repair buttons)
+   */
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+
+  /**
+   * Problem count
+   */
+  headerText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    flex: 1,
+  },
+
+  /**
+   * Problem card
+   */
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.05)',
+  },
+
+  /**
+   * Kind of problem
+   */
+  issueType: {
+    ...typography.caption,
+    color: colors.danger,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+
+  /**
+   * What's wrong
+   */
+  issueMessage: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+
+  /**
+   * Re-check/repair button
+   */
+  actionButton: {
+    minWidth: 44,
+    minHeight: 44,
+    paddingHorizontal: spacing.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  /**
+   * Re-check button label
+   */
+  secondaryText: {
+    ...typography.body,
+    color: colors.textSecondary,
+    fontWeight: '600',
+  },
+
+  /**
+   * Repair button label
+   */
+  repairText: {
+    ...typography.body,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+
+  /**
+   * Empty state container
+   */
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+
+  /**
+   * Empty state title
+   */
+  emptyTitle: {
+    ...typography.h2,
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+    textAlign: 'center',
+  },
+
+  /**
+   * Empty state subtitle
+   */
+  emptySubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -11,81 +11,410 @@
  *
  * Features:
  * - App version display
- * - Storage usage display
+ * - Storage usage display with a warning near the limits, and link to the storage screen
  * - Haptic feedback toggle
+ * - Daily record detail period (older records keep only their counts)
+ * - Tag manager (create, rename, recolor, delete)
+ * - Archive: automatic archive threshold and link to the archive screen
+ * - Trash: retention period and link to the trash screen
+ * - Cloud sync status with the number of changes waiting to sync, manual sync and full resync
+ * - Choice of settings that roam across devices or stay on this one
+ * - Backup export and import, and export as Markdown, CSV or plain text
+ * - Automatic snapshots with one-tap restore
+ * - Data check: link to the diagnostics screen
  */
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { View, Text, ScrollView, StyleSheet, Switch, Platform, TextInput } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Platform,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { useTaskStore } from '../store/taskStore';
-import { calculateStorageSize } from '../utils/validation';
+import { Button, TagEditor } from '../components';
+import { exportData, importData, ImportMode } from '../services/backup';
+import { pickExportFormat, shareTasks } from '../services/taskShare';
+import { STORAGE_CONSTANTS } from '../services/storage';
+import { listSnapshots } from '../services/snapshots';
+import { getStorageStats } from '../services/storageStats';
+import { countItems } from '../utils/itemTree';
+import { getNextTagColor } from '../utils/tags';
+import { isSettingRoaming, SYNCED_SETTING_KEYS } from '../utils/settingsSync';
+import { DEFAULT_ARCHIVE_AFTER_DAYS, getActiveTasks } from '../utils/archive';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../utils/trash';
+import { DEFAULT_RECORD_DETAIL_DAYS } from '../utils/recordRetention';
+import { toAppError } from '../utils/errors';
+import {
+  AppData,
+  SnapshotInfo,
+  SnapshotTier,
+  StorageStats,
+  SyncStatus,
+  SyncedSettingKey,
+  Tag,
+} from '../types';
 import { colors } from '../styles/colors';
 import { typography } from '../styles/typography';
 import { spacing } from '../styles/spacing';
+import type { SettingsStackParamList } from '../../App';
 
 // Package version (should match package.json)
 const APP_VERSION = '1.0.0';
 
-// Haptic feedback setting key
-const HAPTIC_ENABLED_KEY = 'HAPTIC_ENABLED';
+/**
+ * Automatic archive thresholds offered in settings (0 = off)
+ */
+const ARCHIVE_DAY_OPTIONS: Array<{ days: number; label: string }> = [
+  { days: 0, label: '끄기' },
+  { days: 7, label: '7일' },
+  { days: 14, label: '14일' },
+  { days: 30, label: '30일' },
+  { days: 90, label: '90일' },
+];
+
+/**
+ * Trash retention periods offered in settings
+ */
+const TRASH_DAY_OPTIONS: Array<{ days: number; label: string }> = [
+  { days: 7, label: '7일' },
+  { days: 14, label: '14일' },
+  { days: 30, label: '30일' },
+  { days: 90, label: '90일' },
+];
+
+/**
+ * Periods daily records keep their item snapshots, offered in settings
+ */
+const RECORD_DETAIL_DAY_OPTIONS: Array<{ days: number; label: string }> = [
+  { days: 30, label: '30일' },
+  { days: 90, label: '90일' },
+  { days: 180, label: '180일' },
+  { days: 365, label: '1년' },
+];
+
+/**
+ * Labels of the snapshot generations
+ */
+const SNAPSHOT_TIER_LABELS: Record<SnapshotTier, string> = {
+  hourly: '매시간',
+  daily: '매일',
+  weekly: '매주',
+};
+
+/**
+ * Labels of the cloud sync states
+ */
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  idle: '대기 중',
+  syncing: '동기화 중',
+  success: '동기화됨',
+  error: '오류',
+};
+
+/**
+ * Labels of the settings that can roam across devices
+ */
+const SYNCED_SETTING_LABELS: Record<SyncedSettingKey, string> = {
+  celebrationEnabled: '완료 축하 효과',
+  dailySaveHour: '일일 자동 저장 시간',
+  weekStartsOn: '주 시작 요일',
+  hapticEnabled: '햅틱 피드백',
+  archiveAfterDays: '자동 보관',
+  trashRetentionDays: '휴지통 자동 비우기',
+  recordDetailDays: '기록 상세 보관 기간',
+};
+
+/**
+ * Formats a date and time (e.g. "2025년 11월 6일 14:05")
+ */
+function formatDateTime(isoString: string): string {
+  const date = new Date(isoString);
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${date.getFullYear()}년 ${date.getMonth() + 1}월 ${date.getDate()}일 ${hours}:${minutes}`;
+}
+
+/**
+ * SettingsScreen navigation props
+ */
+interface SettingsScreenProps {
+  navigation: StackNavigationProp<SettingsStackParamList, 'Settings'>;
+}
 
 /**
  * SettingsScreen component implementation
  */
-const SettingsScreen: React.FC = () => {
-  const { tasks, settings, toggleCelebration, updateDailySaveHour, toggleWeekStartsOn } =
-    useTaskStore();
-  const [hapticEnabled, setHapticEnabled] = useState(true);
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
+  const {
+    tasks,
+    trash,
+    settings,
+    toggleCelebration,
+    updateDailySaveHour,
+    toggleWeekStartsOn,
+    updateArchiveAfterDays,
+    updateTrashRetentionDays,
+    updateRecordDetailDays,
+    setHapticEnabled,
+    setSettingRoaming,
+    addTag,
+    updateTag,
+    deleteTag,
+    importBackup,
+    restoreSnapshot,
+    syncConfig,
+    syncWithCloud,
+    resyncWithCloud,
+  } = useTaskStore();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageStats | null>(null);
+  const [restoringSnapshotId, setRestoringSnapshotId] = useState<string | null>(null);
 
-  // Calculate storage statistics
-  const storageStats = useMemo(() => {
-    const appData = { schemaVersion: 1, tasks };
-    const sizeInBytes = calculateStorageSize(appData);
-    const sizeInKB = (sizeInBytes / 1024).toFixed(2);
-    const sizeInMB = (sizeInBytes / (1024 * 1024)).toFixed(2);
-    const maxSizeInMB = 5;
-    const percentUsed = Math.round((sizeInBytes / (maxSizeInMB * 1024 * 1024)) * 100);
+  // Tag editor state: null = closed, {} = new tag, { tag } = editing a tag
+  const [tagEditorTarget, setTagEditorTarget] = useState<{ tag?: Tag } | null>(null);
+  const tags = useMemo(() => settings.tags || [], [settings.tags]);
+  const archiveAfterDays = settings.archiveAfterDays ?? DEFAULT_ARCHIVE_AFTER_DAYS;
+  const trashRetentionDays = settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+  const recordDetailDays = settings.recordDetailDays ?? DEFAULT_RECORD_DETAIL_DAYS;
+  const hapticEnabled = settings.hapticEnabled ?? true;
+
+  // Number of tasks using each tag
+  const tagUsage = useMemo(() => {
+    const usage = new Map<string, number>();
+    tasks.forEach((task) => {
+      task.tagIds?.forEach((tagId) => usage.set(tagId, (usage.get(tagId) || 0) + 1));
+    });
+    return usage;
+  }, [tasks]);
 
-    const totalItems = tasks.reduce((sum, task) => sum + task.items.length, 0);
+  // Calculate task counts
+  const storageStats = useMemo(() => {
+    const totalItems = tasks.reduce((sum, task) => sum + countItems(task.items), 0);
+    const activeCount = getActiveTasks(tasks).length;
 
     return {
-      taskCount: tasks.length,
+      taskCount: activeCount,
+      archivedCount: tasks.length - activeCount,
       itemCount: totalItems,
-      sizeInBytes,
-      sizeFormatted: sizeInBytes < 1024 * 1024 ? `${sizeInKB} KB` : `${sizeInMB} MB`,
-      percentUsed,
     };
   }, [tasks]);
 
   /**
-   * Handles haptic feedback toggle
+   * Measure storage whenever the screen is shown or the data changes
+   */
+  useEffect(() => {
+    const measureStorage = async () => {
+      try {
+        setStorageUsage(
+          await getStorageStats({
+            schemaVersion: STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION,
+            tasks,
+            settings,
+            trash,
+          })
+        );
+      } catch {
+        setStorageUsage(null);
+      }
+    };
+    measureStorage();
+    return navigation.addListener('focus', measureStorage);
+  }, [navigation, tasks, settings, trash]);
+
+  /**
+   * Creates or updates the tag open in the editor
    */
-  const handleHapticToggle = async (value: boolean) => {
-    setHapticEnabled(value);
+  const handleSaveTag = (name: string, color: string) => {
+    const editingTag = tagEditorTarget?.tag;
+    return editingTag ? updateTag(editingTag.id, name, color) : addTag(name, color);
+  };
+
+  /**
+   * Syncs with the cloud now, including the changes waiting in the queue
+   */
+  const handleSyncNow = async () => {
+    const result = await syncWithCloud();
+    if (!result.success) {
+      Alert.alert('동기화 실패', result.error || '동기화에 실패했습니다');
+    }
+  };
+
+  /**
+   * Syncs all data again after confirmation (when changes seem to be missing)
+   */
+  const handleFullResync = () => {
+    Alert.alert(
+      '전체 다시 동기화',
+      '모든 할 일과 기록을 다시 주고받습니다. 데이터가 많으면 시간이 걸릴 수 있습니다.',
+      [
+        { text: '취소', style: 'cancel' },
+        {
+          text: '다시 동기화',
+          onPress: async () => {
+            const result = await resyncWithCloud();
+            if (!result.success) {
+              Alert.alert('동기화 실패', result.error || '동기화에 실패했습니다');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Exports all data as a JSON backup file
+   */
+  const handleExport = async () => {
+    setIsExporting(true);
     try {
-      await AsyncStorage.setItem(HAPTIC_ENABLED_KEY, JSON.stringify(value));
+      await exportData({
+        schemaVersion: STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION,
+        tasks,
+        settings,
+      });
     } catch (error) {
-      console.error('Failed to save haptic setting:', error);
+      Alert.alert('내보내기 실패', toAppError(error).message);
+    } finally {
+      setIsExporting(false);
     }
   };
 
   /**
-   * Load haptic feedback setting on mount
+   * Exports the active tasks in a format other apps can read
    */
-  useEffect(() => {
-    const loadHapticSetting = async () => {
-      try {
-        const value = await AsyncStorage.getItem(HAPTIC_ENABLED_KEY);
-        if (value !== null) {
-          setHapticEnabled(JSON.parse(value));
-        }
-      } catch (error) {
-        console.error('Failed to load haptic setting:', error);
+  const handleExportAs = async () => {
+    const format = await pickExportFormat('내보내기 형식');
+    if (!format) {
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      await shareTasks(getActiveTasks(tasks), format);
+    } catch (error) {
+      Alert.alert('내보내기 실패', toAppError(error).message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  /**
+   * Applies the picked backup in the chosen mode
+   */
+  const applyBackup = async (data: AppData, mode: ImportMode) => {
+    setIsImporting(true);
+    const result = await importBackup(data, mode);
+    setIsImporting(false);
+
+    if (result.success) {
+      Alert.alert('복원 완료', '백업 데이터를 불러왔습니다');
+    } else {
+      Alert.alert('복원 실패', result.error || '백업 복원에 실패했습니다');
+    }
+  };
+
+  /**
+   * Picks a backup file, shows a preview and asks how to apply it
+   */
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const backup = await importData(tasks);
+      setIsImporting(false);
+
+      if (!backup) {
+        return;
       }
+
+      const { preview } = backup;
+      Alert.alert(
+        '백업 복원',
+        `할 일 ${preview.taskCount}개 (항목 ${preview.itemCount}개)\n` +
+          `새 할 일 ${preview.newTaskCount}개, 기존 할 일 ${preview.existingTaskCount}개\n\n` +
+          '덮어쓰기를 선택하면 현재 데이터가 백업으로 대체됩니다.',
+        [
+          {
+            text: '취소',
+            style: 'cancel',
+          },
+          {
+            text: '병합',
+            onPress: () => applyBackup(backup.data, 'merge'),
+          },
+          {
+            text: '덮어쓰기',
+            style: 'destructive',
+            onPress: () => applyBackup(backup.data, 'replace'),
+          },
+        ],
+        { cancelable: true }
+      );
+    } catch (error) {
+      setIsImporting(false);
+      const appError = toAppError(error);
+      Alert.alert(
+        '복원 실패',
+        appError.recoveryAction
+          ? `${appError.message}\n${appError.recoveryAction}`
+          : appError.message
+      );
+    }
+  };
+
+  /**
+   * Restores an automatic snapshot after confirmation
+   */
+  const handleRestoreSnapshot = (snapshot: SnapshotInfo) => {
+    Alert.alert(
+      '자동 백업 복원',
+      `${formatDateTime(snapshot.createdAt)} 시점으로 되돌립니다.\n` +
+        `할 일 ${snapshot.taskCount}개 (항목 ${snapshot.itemCount}개)\n\n` +
+        '현재 데이터와 휴지통이 이 백업으로 대체됩니다.',
+      [
+        {
+          text: '취소',
+          style: 'cancel',
+        },
+        {
+          text: '복원',
+          style: 'destructive',
+          onPress: async () => {
+            setRestoringSnapshotId(snapshot.id);
+            const result = await restoreSnapshot(snapshot.id);
+            setRestoringSnapshotId(null);
+
+            if (result.success) {
+              Alert.alert('복원 완료', '자동 백업 데이터를 불러왔습니다');
+              setSnapshots(await listSnapshots());
+            } else {
+              Alert.alert('복원 실패', result.error || '자동 백업 복원에 실패했습니다');
+            }
+          },
+        },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  /**
+   * Reload the snapshot list whenever the screen is shown
+   */
+  useEffect(() => {
+    const loadSnapshotList = async () => {
+      setSnapshots(await listSnapshots());
     };
-    loadHapticSetting();
-  }, []);
+    loadSnapshotList();
+    return navigation.addListener('focus', loadSnapshotList);
+  }, [navigation]);
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
@@ -98,6 +427,11 @@ const SettingsScreen: React.FC = () => {
           <Text style={styles.infoValue}>{storageStats.taskCount}개</Text>
         </View>
 
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>보관된 할 일:</Text>
+          <Text style={styles.infoValue}>{storageStats.archivedCount}개</Text>
+        </View>
+
         <View style={styles.infoRow}>
           <Text style={styles.infoLabel}>체크리스트 항목:</Text>
           <Text style={styles.infoValue}>{storageStats.itemCount}개</Text>
@@ -105,13 +439,35 @@ const SettingsScreen: React.FC = () => {
 
         <View style={styles.infoRow}>
           <Text style={styles.infoLabel}>사용 중인 공간:</Text>
-          <Text style={styles.infoValue}>{storageStats.sizeFormatted}</Text>
+          <Text style={styles.infoValue}>{storageUsage ? storageUsage.sizeFormatted : '-'}</Text>
         </View>
 
         <View style={styles.infoRow}>
           <Text style={styles.infoLabel}>저장 공간 사용률:</Text>
-          <Text style={styles.infoValue}>{storageStats.percentUsed}%</Text>
+          <Text style={styles.infoValue}>
+            {storageUsage
+              ? `${Math.max(storageUsage.percentUsed, storageUsage.appDataPercentUsed)}%`
+              : '-'}
+          </Text>
         </View>
+
+        {storageUsage && storageUsage.warningLevel !== 'ok' && (
+          <Text style={styles.storageWarning} accessibilityRole="alert">
+            저장 공간이 한도에 가까워지고 있습니다. 필요 없는 데이터를 정리해주세요.
+          </Text>
+        )}
+
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => navigation.navigate('Storage')}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="저장 공간 자세히 보기"
+          accessibilityHint="항목별 사용량과 정리 방법을 보여줍니다"
+        >
+          <Text style={styles.settingLabel}>자세히 보기</Text>
+          <Text style={styles.linkValue}>›</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Accessibility Section */}
@@ -125,7 +481,7 @@ const SettingsScreen: React.FC = () => {
           </View>
           <Switch
             value={hapticEnabled}
-            onValueChange={handleHapticToggle}
+            onValueChange={setHapticEnabled}
             trackColor={{ false: colors.border, true: colors.primary }}
             thumbColor={colors.surface}
             ios_backgroundColor={colors.border}
@@ -209,6 +565,346 @@ const SettingsScreen: React.FC = () => {
             accessibilityHint="켜면 월요일부터, 끄면 일요일부터 시작합니다"
           />
         </View>
+
+        <View style={styles.daySetting}>
+          <Text style={styles.settingLabel}>기록 상세 보관 기간</Text>
+          <Text style={styles.settingDescription}>
+            최근 {recordDetailDays}일 동안의 기록은 항목별로 보관하고, 그보다 오래된 기록은 완료율만
+            남깁니다
+          </Text>
+
+          <View style={styles.dayOptions}>
+            {RECORD_DETAIL_DAY_OPTIONS.map((option) => {
+              const isActive = recordDetailDays === option.days;
+              return (
+                <TouchableOpacity
+                  key={option.days}
+                  style={[styles.dayOption, isActive && styles.dayOptionActive]}
+                  onPress={() => updateRecordDetailDays(option.days)}
+                  accessible={true}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: isActive }}
+                  accessibilityLabel={`기록 상세 보관 기간 ${option.label}`}
+                >
+                  <Text style={[styles.dayOptionText, isActive && styles.dayOptionTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      </View>
+
+      {/* Tags Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>태그</Text>
+
+        <Text style={styles.settingDescription}>
+          업무, 개인, 공부처럼 할 일을 분류할 태그를 관리합니다
+        </Text>
+
+        {tags.map((tag) => (
+          <TouchableOpacity
+            key={tag.id}
+            style={styles.tagRow}
+            onPress={() => setTagEditorTarget({ tag })}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`${tag.name} 태그 편집`}
+          >
+            <View style={[styles.tagColorDot, { backgroundColor: tag.color }]} />
+            <Text style={styles.tagName} numberOfLines={1}>
+              {tag.name}
+            </Text>
+            <Text style={styles.tagUsage}>할 일 {tagUsage.get(tag.id) || 0}개</Text>
+          </TouchableOpacity>
+        ))}
+
+        <Button
+          variant="secondary"
+          onPress={() => setTagEditorTarget({})}
+          style={styles.addTagButton}
+          accessibilityLabel="태그 추가"
+        >
+          <Text>태그 추가</Text>
+        </Button>
+      </View>
+
+      {/* Archive Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>보관함</Text>
+
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => navigation.navigate('Archive')}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={`보관함 열기, 보관된 할 일 ${storageStats.archivedCount}개`}
+        >
+          <Text style={styles.settingLabel}>보관된 할 일 보기</Text>
+          <Text style={styles.linkValue}>{storageStats.archivedCount}개 ›</Text>
+        </TouchableOpacity>
+
+        <View style={styles.daySetting}>
+          <Text style={styles.settingLabel}>자동 보관</Text>
+          <Text style={styles.settingDescription}>
+            {archiveAfterDays > 0
+              ? `모두 완료한 뒤 ${archiveAfterDays}일 동안 수정하지 않은 할 일을 보관함으로 옮깁니다`
+              : '완료한 할 일을 자동으로 보관하지 않습니다'}
+          </Text>
+
+          <View style={styles.dayOptions}>
+            {ARCHIVE_DAY_OPTIONS.map((option) => {
+              const isActive = archiveAfterDays === option.days;
+              return (
+                <TouchableOpacity
+                  key={option.days}
+                  style={[styles.dayOption, isActive && styles.dayOptionActive]}
+                  onPress={() => updateArchiveAfterDays(option.days)}
+                  accessible={true}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: isActive }}
+                  accessibilityLabel={`자동 보관 ${option.label}`}
+                >
+                  <Text style={[styles.dayOptionText, isActive && styles.dayOptionTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      </View>
+
+      {/* Trash Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>휴지통</Text>
+
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => navigation.navigate('Trash')}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={`휴지통 열기, 삭제한 항목 ${trash.length}개`}
+        >
+          <Text style={styles.settingLabel}>삭제한 항목 보기</Text>
+          <Text style={styles.linkValue}>{trash.length}개 ›</Text>
+        </TouchableOpacity>
+
+        <View style={styles.daySetting}>
+          <Text style={styles.settingLabel}>자동 비우기</Text>
+          <Text style={styles.settingDescription}>
+            삭제한 할 일과 세부 단계를 {trashRetentionDays}일 동안 보관한 뒤 완전히 삭제합니다
+          </Text>
+
+          <View style={styles.dayOptions}>
+            {TRASH_DAY_OPTIONS.map((option) => {
+              const isActive = trashRetentionDays === option.days;
+              return (
+                <TouchableOpacity
+                  key={option.days}
+                  style={[styles.dayOption, isActive && styles.dayOptionActive]}
+                  onPress={() => updateTrashRetentionDays(option.days)}
+                  accessible={true}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: isActive }}
+                  accessibilityLabel={`휴지통 보관 기간 ${option.label}`}
+                >
+                  <Text style={[styles.dayOptionText, isActive && styles.dayOptionTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      </View>
+
+      {/* Cloud Sync Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>동기화</Text>
+
+        <Text style={styles.settingDescription}>
+          {syncConfig.enabled
+            ? '변경 사항은 잠시 후 자동으로 동기화되며, 오프라인일 때는 모아 두었다가 연결되면 보냅니다'
+            : '로그인하면 변경 사항이 다른 기기와 자동으로 동기화됩니다'}
+        </Text>
+
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>상태:</Text>
+          <Text style={styles.infoValue}>
+            {syncConfig.enabled ? SYNC_STATUS_LABELS[syncConfig.status] : '로그인 필요'}
+          </Text>
+        </View>
+
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>마지막 동기화:</Text>
+          <Text style={styles.infoValue}>
+            {syncConfig.lastSyncedAt ? formatDateTime(syncConfig.lastSyncedAt) : '-'}
+          </Text>
+        </View>
+
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>동기화 대기 중인 변경:</Text>
+          <Text style={styles.infoValue}>{syncConfig.pendingChanges ?? 0}개</Text>
+        </View>
+
+        {syncConfig.nextRetryAt && (
+          <Text style={styles.syncRetry} accessibilityRole="alert">
+            동기화에 실패했습니다. {formatDateTime(syncConfig.nextRetryAt)}에 다시 시도합니다.
+          </Text>
+        )}
+
+        <Button
+          variant="secondary"
+          onPress={handleSyncNow}
+          loading={syncConfig.status === 'syncing'}
+          disabled={!syncConfig.enabled || syncConfig.status === 'syncing'}
+          style={styles.syncButton}
+          accessibilityLabel="지금 동기화"
+          accessibilityHint="대기 중인 변경 사항을 보내고 다른 기기의 변경 사항을 가져옵니다"
+        >
+          <Text>지금 동기화</Text>
+        </Button>
+
+        <Button
+          variant="secondary"
+          onPress={handleFullResync}
+          disabled={!syncConfig.enabled || syncConfig.status === 'syncing'}
+          style={styles.syncButton}
+          accessibilityLabel="전체 다시 동기화"
+          accessibilityHint="변경 사항이 빠진 것 같을 때 모든 데이터를 다시 주고받습니다"
+        >
+          <Text>전체 다시 동기화</Text>
+        </Button>
+
+        <View style={styles.roamingSettings}>
+          <Text style={styles.settingLabel}>기기 간 설정 동기화</Text>
+          <Text style={styles.settingDescription}>
+            켜 둔 설정은 다른 기기와 같게 유지되고, 끈 설정은 이 기기에서만 사용합니다
+          </Text>
+        </View>
+
+        {SYNCED_SETTING_KEYS.map((key) => {
+          const roaming = isSettingRoaming(settings, key);
+          return (
+            <View key={key} style={styles.settingRow}>
+              <Text style={styles.settingLabel}>{SYNCED_SETTING_LABELS[key]}</Text>
+              <Switch
+                value={roaming}
+                onValueChange={(value) => setSettingRoaming(key, value)}
+                trackColor={{ false: colors.border, true: colors.primary }}
+                thumbColor={colors.surface}
+                ios_backgroundColor={colors.border}
+                accessible={true}
+                accessibilityLabel={`${SYNCED_SETTING_LABELS[key]} 동기화`}
+                accessibilityRole="switch"
+                accessibilityState={{ checked: roaming }}
+                accessibilityHint="끄면 이 기기에서만 사용하는 설정이 됩니다"
+              />
+            </View>
+          );
+        })}
+      </View>
+
+      {/* Backup Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>백업</Text>
+
+        <Text style={styles.settingDescription}>
+          모든 할 일을 파일로 내보내거나, 백업 파일에서 데이터를 복원합니다
+        </Text>
+
+        <View style={styles.backupActions}>
+          <Button
+            variant="secondary"
+            onPress={handleExport}
+            loading={isExporting}
+            disabled={isExporting || isImporting}
+            style={styles.backupButton}
+            accessibilityLabel="백업 내보내기"
+            accessibilityHint="모든 데이터를 백업 파일로 저장합니다"
+          >
+            <Text>내보내기</Text>
+          </Button>
+
+          <Button
+            variant="secondary"
+            onPress={handleImport}
+            loading={isImporting}
+            disabled={isExporting || isImporting}
+            style={styles.backupButton}
+            accessibilityLabel="백업 가져오기"
+            accessibilityHint="백업 파일을 선택하여 데이터를 복원합니다"
+          >
+            <Text>가져오기</Text>
+          </Button>
+        </View>
+
+        <Button
+          variant="secondary"
+          onPress={handleExportAs}
+          disabled={isExporting || isImporting}
+          style={styles.exportAsButton}
+          accessibilityLabel="다른 형식으로 내보내기"
+          accessibilityHint="할 일을 Markdown, CSV 또는 텍스트로 내보냅니다"
+        >
+          <Text>다른 형식으로 내보내기</Text>
+        </Button>
+      </View>
+
+      {/* Automatic Snapshots Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>자동 백업</Text>
+
+        <Text style={styles.settingDescription}>
+          저장할 때마다 매시간, 매일, 매주 시점의 데이터를 기기에 따로 보관합니다
+        </Text>
+
+        {snapshots.length === 0 ? (
+          <Text style={styles.emptySnapshots}>아직 자동 백업이 없습니다</Text>
+        ) : (
+          snapshots.map((snapshot) => (
+            <View key={snapshot.id} style={styles.snapshotRow}>
+              <View style={styles.settingTextContainer}>
+                <Text style={styles.snapshotTime}>{formatDateTime(snapshot.createdAt)}</Text>
+                <Text style={styles.settingDescription}>
+                  {snapshot.tiers.map((tier) => SNAPSHOT_TIER_LABELS[tier]).join(' · ')} · 할 일{' '}
+                  {snapshot.taskCount}개
+                </Text>
+              </View>
+
+              <Button
+                variant="secondary"
+                onPress={() => handleRestoreSnapshot(snapshot)}
+                loading={restoringSnapshotId === snapshot.id}
+                disabled={restoringSnapshotId !== null || isImporting}
+                accessibilityLabel={`${formatDateTime(snapshot.createdAt)} 자동 백업 복원`}
+                accessibilityHint="현재 데이터를 이 시점의 데이터로 되돌립니다"
+              >
+                <Text>복원</Text>
+              </Button>
+            </View>
+          ))
+        )}
+      </View>
+
+      {/* Data Check Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>데이터 점검</Text>
+
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => navigation.navigate('Diagnostics')}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="데이터 점검 열기"
+          accessibilityHint="할 일과 기록 데이터에 문제가 없는지 검사합니다"
+        >
+          <Text style={styles.settingLabel}>데이터 문제 검사 및 복구</Text>
+          <Text style={styles.linkValue}>›</Text>
+        </TouchableOpacity>
       </View>
 
       {/* App Info Section */}
@@ -232,6 +928,16 @@ const SettingsScreen: React.FC = () => {
 
         <Text style={styles.footerText}>할 일을 작은 단계로 쪼개어 달성하세요</Text>
       </View>
+
+      {/* Tag Editor */}
+      <TagEditor
+        visible={!!tagEditorTarget}
+        tag={tagEditorTarget?.tag}
+        defaultColor={getNextTagColor(tags)}
+        onSave={handleSaveTag}
+        onDelete={tagEditorTarget?.tag ? () => deleteTag(tagEditorTarget.tag!.id) : undefined}
+        onClose={() => setTagEditorTarget(null)}
+      />
     </ScrollView>
   );
 };
@@ -373,6 +1079,215 @@ const styles = StyleSheet.create({
     backgroundColor: colors.surface,
   },
 
+  /**
+   * Tag row (color, name, usage)
+   */
+  tagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 44,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+
+  /**
+   * Tag color dot
+   */
+  tagColorDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    marginRight: spacing.md,
+  },
+
+  /**
+   * Tag name
+   */
+  tagName: {
+    ...typography.body,
+    flex: 1,
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+
+  /**
+   * Number of tasks using the tag
+   */
+  tagUsage: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+
+  /**
+   * Add tag button
+   */
+  addTagButton: {
+    marginTop: spacing.md,
+  },
+
+  /**
+   * Warning shown when storage is close to a limit
+   */
+  storageWarning: {
+    ...typography.caption,
+    color: colors.danger,
+    marginTop: spacing.sm,
+  },
+
+  /**
+   * Notice shown when a sync failed and will be retried
+   */
+  syncRetry: {
+    ...typography.caption,
+    color: colors.danger,
+    marginTop: spacing.sm,
+  },
+
+  /**
+   * Manual sync button
+   */
+  syncButton: {
+    marginTop: spacing.md,
+  },
+
+  /**
+   * Heading of the settings roaming switches
+   */
+  roamingSettings: {
+    marginTop: spacing.lg,
+  },
+
+  /**
+   * Row linking to another screen (storage, archive, trash, diagnostics)
+   */
+  linkRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    minHeight: 44,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+
+  /**
+   * Count shown in a link row
+   */
+  linkValue: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+
+  /**
+   * Day-based setting block (record detail, auto archive, trash retention)
+   */
+  daySetting: {
+    paddingVertical: spacing.md,
+  },
+
+  /**
+   * Day options row
+   */
+  dayOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+
+  /**
+   * Day option chip
+   */
+  dayOption: {
+    minHeight: 44,
+    minWidth: 56,
+    paddingHorizontal: spacing.md,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  /**
+   * Selected day option chip
+   */
+  dayOptionActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+
+  /**
+   * Day option label
+   */
+  dayOptionText: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+
+  /**
+   * Selected day option label
+   */
+  dayOptionTextActive: {
+    color: colors.surface,
+    fontWeight: '600',
+  },
+
+  /**
+   * Backup action buttons container
+   */
+  backupActions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginTop: spacing.md,
+  },
+
+  /**
+   * Individual backup button
+   */
+  backupButton: {
+    flex: 1,
+  },
+
+  /**
+   * Export in another format button
+   */
+  exportAsButton: {
+    marginTop: spacing.md,
+  },
+
+  /**
+   * Snapshot row (time, generations, restore button)
+   */
+  snapshotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 44,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+
+  /**
+   * Time a snapshot was taken
+   */
+  snapshotTime: {
+    ...typography.body,
+    color: colors.textPrimary,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+
+  /**
+   * Message shown when there are no snapshots yet
+   */
+  emptySnapshots: {
+    ...typography.body,
+    color: colors.textSecondary,
+    paddingVertical: spacing.md,
+  },
+
   /**
    * Time unit label
    */
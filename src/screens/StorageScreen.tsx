@@ -0,0 +1,425 @@
+/**
+ * StorageScreen Component
+ *
+ * Shows what takes up storage space and offers ways to free some.
+ * Opened from the settings screen.
+ *
+ * Accessibility:
+ * - Full screen reader support
+ * - 44x44pt minimum touch targets
+ *
+ * Features:
+ * - Total usage against the device and app data limits, with a warning when close
+ * - Breakdown by kind of data (tasks, backup, daily records, snapshots, session, ...)
+ * - Size of each task and the largest checklist items
+ * - Cleanup: delete old daily records, empty the trash, remove pre-migration data
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useTaskStore } from '../store/taskStore';
+import { colors } from '../styles/colors';
+import { typography } from '../styles/typography';
+import { spacing } from '../styles/spacing';
+import { StorageCategory, StorageStats } from '../types';
+import { formatStorageSize, getStorageStats } from '../services/storageStats';
+import { deleteDailyRecordsBefore, formatDateToKey } from '../services/dailyRecords';
+import { clearPreMigrationData, STORAGE_CONSTANTS } from '../services/storage';
+import type { SettingsStackParamList } from '../../App';
+
+/**
+ * Label shown for each kind of data
+ */
+const CATEGORY_LABELS: Record<StorageCategory, string> = {
+  appData: '할 일 데이터',
+  backup: '백업 사본',
+  preMigration: '업데이트 이전 데이터',
+  dailyRecords: '일일 기록',
+  snapshots: '자동 백업',
+  journal: '저장 대기 중인 변경',
+  outbox: '동기화 대기 중인 변경',
+  session: '로그인 정보',
+  other: '기타',
+};
+
+/**
+ * Daily records older than this many days can be deleted
+ */
+const OLD_RECORD_DAYS = 90;
+
+/**
+ * Number of tasks listed by size
+ */
+const LISTED_TASK_COUNT = 10;
+
+/**
+ * StorageScreen navigation props
+ */
+interface StorageScreenProps {
+  navigation: StackNavigationProp<SettingsStackParamList, 'Storage'>;
+}
+
+/**
+ * StorageScreen component implementation
+ */
+const StorageScreen: React.FC<StorageScreenProps> = ({ navigation }) => {
+  const { tasks, settings, trash, emptyTrash } = useTaskStore();
+  const [stats, setStats] = useState<StorageStats | null>(null);
+
+  /**
+   * Measures the storage used
+   */
+  const measure = useCallback(async () => {
+    try {
+      setStats(
+        await getStorageStats({
+          schemaVersion: STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION,
+          tasks,
+          settings,
+          trash,
+        })
+      );
+    } catch {
+      Alert.alert('측정 실패', '저장 공간을 확인하지 못했습니다');
+    }
+  }, [tasks, settings, trash]);
+
+  /**
+   * Measure again whenever the screen is shown or the data changes
+   */
+  useEffect(() => {
+    measure();
+    return navigation.addListener('focus', measure);
+  }, [navigation, measure]);
+
+  /**
+   * Deletes daily records older than OLD_RECORD_DAYS after confirmation
+   */
+  const handleDeleteOldRecords = () => {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - OLD_RECORD_DAYS);
+
+    Alert.alert(
+      '오래된 기록 삭제',
+      `${OLD_RECORD_DAYS}일보다 오래된 일일 기록을 삭제할까요?\n삭제한 기록은 캘린더에서 볼 수 없습니다.`,
+      [
+        { text: '취소', style: 'cancel' },
+        {
+          text: '삭제',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const deletedCount = await deleteDailyRecordsBefore(formatDateToKey(cutoff));
+              Alert.alert('정리 완료', `기록 ${deletedCount}개를 삭제했습니다`);
+              await measure();
+            } catch {
+              Alert.alert('정리 실패', '기록을 삭제하지 못했습니다');
+            }
+          },
+        },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  /**
+   * Empties the trash after confirmation
+   */
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      '휴지통 비우기',
+      `휴지통의 항목 ${trash.length}개를 모두 완전히 삭제할까요?\n삭제한 뒤에는 복원할 수 없습니다.`,
+      [
+        { text: '취소', style: 'cancel' },
+        { text: '비우기', style: 'destructive', onPress: emptyTrash },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  /**
+   * Removes the data kept from before the last update after confirmation
+   */
+  const handleClearPreMigration = () => {
+    Alert.alert(
+      '업데이트 이전 데이터 삭제',
+      '앱 업데이트 전에 보관해 둔 데이터를 삭제할까요?\n현재 데이터에는 영향이 없습니다.',
+      [
+        { text: '취소', style: 'cancel' },
+        {
+          text: '삭제',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await clearPreMigrationData();
+              await measure();
+            } catch {
+              Alert.alert('정리 실패', '데이터를 삭제하지 못했습니다');
+            }
+          },
+        },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  if (!stats) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  const hasPreMigrationData = stats.categories.some((usage) => usage.category === 'preMigration');
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Summary Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>사용량</Text>
+
+        <View style={styles.row}>
+          <Text style={styles.label}>전체 사용 공간</Text>
+          <Text style={styles.value}>
+            {stats.sizeFormatted} ({stats.percentUsed}%)
+          </Text>
+        </View>
+
+        <View style={styles.row}>
+          <Text style={styles.label}>할 일 데이터 한도</Text>
+          <Text style={styles.value}>
+            {formatStorageSize(stats.appDataSizeInBytes)} ({stats.appDataPercentUsed}%)
+          </Text>
+        </View>
+
+        {stats.warningLevel !== 'ok' && (
+          <Text
+            style={[styles.warning, stats.warningLevel === 'critical' && styles.warningCritical]}
+            accessibilityRole="alert"
+          >
+            {stats.warningLevel === 'critical'
+              ? '저장 공간이 거의 가득 찼습니다. 곧 저장에 실패할 수 있으니 아래에서 정리해주세요.'
+              : '저장 공간이 한도에 가까워지고 있습니다. 필요 없는 데이터를 정리해주세요.'}
+          </Text>
+        )}
+      </View>
+
+      {/* Breakdown Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>항목별 사용량</Text>
+
+        {stats.categories.map((usage) => (
+          <View key={usage.category} style={styles.row}>
+            <Text style={styles.label}>{CATEGORY_LABELS[usage.category]}</Text>
+            <Text style={styles.value}>{formatStorageSize(usage.sizeInBytes)}</Text>
+          </View>
+        ))}
+      </View>
+
+      {/* Largest Tasks Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>할 일별 크기</Text>
+
+        {stats.tasks.length === 0 ? (
+          <Text style={styles.emptyText}>할 일이 없습니다</Text>
+        ) : (
+          stats.tasks.slice(0, LISTED_TASK_COUNT).map((usage) => (
+            <View key={usage.taskId} style={styles.row}>
+              <Text style={styles.label} numberOfLines={1}>
+                {usage.title}
+              </Text>
+              <Text style={styles.value}>{formatStorageSize(usage.sizeInBytes)}</Text>
+            </View>
+          ))
+        )}
+      </View>
+
+      {/* Largest Items Section */}
+      {stats.largestItems.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>가장 큰 세부 단계</Text>
+
+          {stats.largestItems.map((usage) => (
+            <View key={usage.itemId} style={styles.row}>
+              <Text style={styles.label} numberOfLines={1}>
+                {usage.title}
+              </Text>
+              <Text style={styles.value}>{formatStorageSize(usage.sizeInBytes)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Cleanup Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>정리</Text>
+
+        <TouchableOpacity
+          style={styles.actionRow}
+          onPress={handleDeleteOldRecords}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={`${OLD_RECORD_DAYS}일보다 오래된 일일 기록 삭제`}
+        >
+          <Text style={styles.actionText}>{OLD_RECORD_DAYS}일보다 오래된 기록 삭제</Text>
+        </TouchableOpacity>
+
+        {trash.length > 0 && (
+          <TouchableOpacity
+            style={styles.actionRow}
+            onPress={handleEmptyTrash}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`휴지통 비우기, 항목 ${trash.length}개`}
+          >
+            <Text style={styles.actionText}>휴지통 비우기 ({trash.length}개)</Text>
+          </TouchableOpacity>
+        )}
+
+        {hasPreMigrationData && (
+          <TouchableOpacity
+            style={styles.actionRow}
+            onPress={handleClearPreMigration}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="업데이트 이전 데이터 삭제"
+          >
+            <Text style={styles.actionText}>업데이트 이전 데이터 삭제</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+export default StorageScreen;
+
+const styles = StyleSheet.create({
+  /**
+   * Main container
+   */
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+
+  /**
+   * Scroll content container
+   */
+  content: {
+    padding: spacing.lg,
+  },
+
+  /**
+   * Container shown while measuring
+   */
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+
+  /**
+   * Section card
+   */
+  section: {
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.05)',
+  },
+
+  /**
+   * Section title
+   */
+  sectionTitle: {
+    ...typography.h3,
+    color: colors.textPrimary,
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+
+  /**
+   * Label/size row
+   */
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+
+  /**
+   * Row label (what the space is used by)
+   */
+  label: {
+    ...typography.body,
+    color: colors.textPrimary,
+    flex: 1,
+  },
+
+  /**
+   * Row value (size)
+   */
+  value: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+
+  /**
+   * Warning when close to a limit
+   */
+  warning: {
+    ...typography.caption,
+    color: colors.textPrimary,
+    fontWeight: '600',
+    marginTop: spacing.sm,
+  },
+
+  /**
+   * Warning when saving may fail soon
+   */
+  warningCritical: {
+    color: colors.danger,
+  },
+
+  /**
+   * Text shown when a list is empty
+   */
+  emptyText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+
+  /**
+   * Cleanup action row
+   */
+  actionRow: {
+    minHeight: 44,
+    justifyContent: 'center',
+    paddingVertical: spacing.sm,
+  },
+
+  /**
+   * Cleanup action label
+   */
+  actionText: {
+    ...typography.body,
+    color: colors.danger,
+    fontWeight: '600',
+  },
+});
@@ -10,16 +10,21 @@
  * - Clear navigation and actions
  *
  * Performance:
- * - FlatList optimization for checklist items
  * - useMemo for progress calculation
  * - Debounced title updates
  *
  * Features:
- * - Header with back and delete buttons
+ * - Header with back, undo/redo, share and delete buttons
+ * - Share the task as Markdown, CSV or plain text
+ * - Undo toast after deleting the task or an item
  * - Editable task title (TextInput, h1 style)
  * - Progress section with ProgressBar
- * - FlatList for checklist items
+ * - Checklist items (drag the ≡ handle to reorder siblings)
  * - AddItemInput for new items
+ * - Repeat rule picker for recurring items
+ * - Due dates on the task and its items
+ * - Tag selection (tags are managed in Settings)
+ * - Nested sub-items (indented, collapsible)
  * - Haptic feedback on 100% completion
  * - ScrollView + KeyboardAvoidingView
  */
@@ -29,7 +34,6 @@ import {
   View,
   Text,
   TextInput,
-  FlatList,
   TouchableOpacity,
   ScrollView,
   KeyboardAvoidingView,
@@ -40,11 +44,29 @@ import {
 import * as Haptics from 'expo-haptics';
 import { debounce } from 'lodash';
 import { useTaskStore } from '../store/taskStore';
-import { ProgressBar, ChecklistItemView, AddItemInput, ConfettiCelebration } from '../components';
+import {
+  ProgressBar,
+  ChecklistItemView,
+  AddItemInput,
+  ConfettiCelebration,
+  RecurrencePicker,
+  DueDatePicker,
+  DueDateBadge,
+  DraggableList,
+  TagChip,
+  UndoRedoButtons,
+} from '../components';
 import { colors } from '../styles/colors';
 import { typography } from '../styles/typography';
 import { spacing } from '../styles/spacing';
 import { calcProgress } from '../utils/progress';
+import { resolveItem } from '../utils/completion';
+import { findItem } from '../utils/itemTree';
+import { VALIDATION_LIMITS } from '../utils/validation';
+import { showToast } from '../utils/toast';
+import { toAppError } from '../utils/errors';
+import { getTodayKey } from '../services/dailyRecords';
+import { pickExportFormat, shareTasks } from '../services/taskShare';
 import { ChecklistItem } from '../types';
 
 /**
@@ -72,8 +94,15 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ route, navigation }
     toggleChecklistItem,
     updateChecklistItem,
     deleteChecklistItem,
+    setItemRecurrence,
+    setTaskDueDate,
+    setItemDueDate,
+    reorderChecklistItems,
+    setTaskTags,
+    undo,
     settings,
   } = useTaskStore();
+  const tags = settings.tags || [];
 
   const task = getTask(taskId);
   const [titleInput, setTitleInput] = useState(task?.title || '');
@@ -82,6 +111,32 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ route, navigation }
   // Celebration state
   const [showCelebration, setShowCelebration] = useState(false);
 
+  // Item whose repeat rule is being edited
+  const [recurrenceItemId, setRecurrenceItemId] = useState<string | null>(null);
+  const recurrenceItem =
+    task && recurrenceItemId ? findItem(task.items, recurrenceItemId) : undefined;
+
+  // Due date being edited: the task itself ({}) or one of its items ({ itemId })
+  const [dueDateTarget, setDueDateTarget] = useState<{ itemId?: string } | null>(null);
+  const dueDateItem =
+    task && dueDateTarget?.itemId ? findItem(task.items, dueDateTarget.itemId) : undefined;
+
+  // Items whose children are hidden
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
+  // Item that is getting a new sub-item
+  const [addChildParentId, setAddChildParentId] = useState<string | null>(null);
+
+  // Whether an item is being dragged (locks scrolling)
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Items with resolved done flags (recurring items: today's occurrence, parents: their children)
+  const resolvedItems = useMemo(() => {
+    if (!task) return [];
+    const todayKey = getTodayKey();
+    return task.items.map((item) => resolveItem(item, todayKey));
+  }, [task]);
+
   // Calculate progress
   const progress = useMemo(() => {
     if (!task) return { done: 0, total: 0, percent: 0 };
@@ -107,11 +162,26 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ route, navigation }
     debouncedUpdateTitle(newTitle);
   };
 
+  // Share the task in the picked format
+  const handleShareTask = async () => {
+    const format = await pickExportFormat('공유 형식');
+    const currentTask = getTask(taskId);
+    if (!format || !currentTask) {
+      return;
+    }
+
+    try {
+      await shareTasks([currentTask], format);
+    } catch (error) {
+      Alert.alert('공유 실패', toAppError(error).message);
+    }
+  };
+
   // Handle task deletion
   const handleDeleteTask = () => {
     Alert.alert(
       '할 일 삭제',
-      '이 할 일을 삭제하시겠습니까?\n3초 내에 되돌릴 수 있습니다.',
+      '이 할 일을 삭제하시겠습니까?\n설정의 휴지통에서 되돌릴 수 있습니다.',
       [
         {
           text: '취소',
@@ -123,6 +193,7 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ route, navigation }
           onPress: async () => {
             await deleteTask(taskId);
             navigation.goBack();
+            showToast({ type: 'undo', message: '할 일을 휴지통으로 옮겼습니다', onUndo: undo });
           },
         },
       ],
@@ -168,36 +239,141 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ route, navigation }
         </TouchableOpacity>
       ),
       headerRight: () => (
-        <TouchableOpacity
-          onPress={handleDeleteTask}
-          style={styles.headerButton}
-          accessible={true}
-          accessibilityLabel="할 일 삭제"
-          accessibilityRole="button"
-        >
-          <Text style={[styles.headerButtonText, styles.deleteButtonText]}>삭제</Text>
-        </TouchableOpacity>
+        <View style={styles.headerRight}>
+          <UndoRedoButtons />
+          <TouchableOpacity
+            onPress={handleShareTask}
+            style={styles.headerButton}
+            accessible={true}
+            accessibilityLabel="할 일 공유"
+            accessibilityHint="Markdown, CSV 또는 텍스트로 공유합니다"
+            accessibilityRole="button"
+          >
+            <Text style={styles.headerButtonText}>공유</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleDeleteTask}
+            style={styles.headerButton}
+            accessible={true}
+            accessibilityLabel="할 일 삭제"
+            accessibilityRole="button"
+          >
+            <Text style={[styles.headerButtonText, styles.deleteButtonText]}>삭제</Text>
+          </TouchableOpacity>
+        </View>
       ),
     });
   }, [navigation, taskId]);
 
+  // Delete an item (moves it to the trash) and offer to undo
+  const handleDeleteItem = (itemId: string) => {
+    deleteChecklistItem(taskId, itemId);
+    showToast({ type: 'undo', message: '항목을 삭제했습니다', onUndo: undo });
+  };
+
+  // Attach or detach a tag
+  const handleToggleTag = (tagId: string) => {
+    if (!task) return;
+    const tagIds = task.tagIds || [];
+    setTaskTags(
+      taskId,
+      tagIds.includes(tagId) ? tagIds.filter((id) => id !== tagId) : [...tagIds, tagId]
+    );
+  };
+
   // Handle adding checklist item
   const handleAddItem = async (itemTitle: string) => {
     return await addChecklistItem(taskId, itemTitle);
   };
 
-  // Render checklist item
-  const renderChecklistItem = ({ item }: { item: ChecklistItem }) => (
-    <ChecklistItemView
-      item={item}
-      onToggle={() => toggleChecklistItem(taskId, item.id)}
-      onDelete={() => deleteChecklistItem(taskId, item.id)}
-      onUpdate={async (newTitle: string) => {
-        return await updateChecklistItem(taskId, item.id, newTitle);
-      }}
+  // Handle adding a sub-item to the selected parent
+  const handleAddChildItem = async (itemTitle: string) => {
+    if (!addChildParentId) {
+      return { success: false, error: '상위 항목을 찾을 수 없습니다' };
+    }
+
+    const result = await addChecklistItem(taskId, itemTitle, addChildParentId);
+    if (result.success) {
+      setAddChildParentId(null);
+    }
+    return result;
+  };
+
+  // Show or hide an item's children
+  const handleToggleCollapse = (itemId: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      return next;
+    });
+  };
+
+  // Open the sub-item input under an item (expanding it first)
+  const handleStartAddChild = (itemId: string) => {
+    setCollapsedIds((prev) => {
+      if (!prev.has(itemId)) return prev;
+      const next = new Set(prev);
+      next.delete(itemId);
+      return next;
+    });
+    setAddChildParentId((prev) => (prev === itemId ? null : itemId));
+  };
+
+  // Render a list of sibling items; each item renders its own children below it
+  // Items show their overall state (recurring items: today's occurrence)
+  const renderChecklistItems = (
+    items: ChecklistItem[],
+    depth: number,
+    parentId: string | null
+  ): React.ReactNode => (
+    <DraggableList
+      data={items}
+      keyExtractor={(item) => item.id}
+      renderItem={({ item, drag }) => renderChecklistItem(item, depth, drag)}
+      onReorder={(fromIndex, toIndex) =>
+        reorderChecklistItems(taskId, parentId, fromIndex, toIndex)
+      }
+      onDragStateChange={setIsDragging}
     />
   );
 
+  // Render checklist item row with its sub-item input and children
+  const renderChecklistItem = (item: ChecklistItem, depth: number, drag: () => void) => {
+    const canAddChild = depth + 1 < VALIDATION_LIMITS.MAX_ITEM_DEPTH;
+    const showChildren = !!item.children && !collapsedIds.has(item.id);
+
+    return (
+      <View>
+        <ChecklistItemView
+          item={item}
+          depth={depth}
+          onDragStart={drag}
+          isCollapsed={collapsedIds.has(item.id)}
+          onToggleCollapse={() => handleToggleCollapse(item.id)}
+          onAddChild={canAddChild ? () => handleStartAddChild(item.id) : undefined}
+          onToggle={() => toggleChecklistItem(taskId, item.id)}
+          onRepeatPress={() => setRecurrenceItemId(item.id)}
+          onDueDatePress={() => setDueDateTarget({ itemId: item.id })}
+          onDelete={() => handleDeleteItem(item.id)}
+          onUpdate={async (newTitle: string) => {
+            return await updateChecklistItem(taskId, item.id, newTitle);
+          }}
+        />
+        {/* Sub-item input, indented like the new child (24px per level) */}
+        {addChildParentId === item.id && (
+          <View style={[styles.addChildContainer, { marginLeft: (depth + 1) * 24 }]}>
+            <AddItemInput placeholder="하위 단계 추가" onAdd={handleAddChildItem} />
+          </View>
+        )}
+        {showChildren && renderChecklistItems(item.children as ChecklistItem[], depth + 1, item.id)}
+      </View>
+    );
+  };
+
   // Render empty checklist state
   const renderEmptyChecklist = () => (
     <View style={styles.emptyChecklistContainer}>
@@ -224,6 +400,7 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ route, navigation }
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         keyboardShouldPersistTaps="handled"
+        scrollEnabled={!isDragging}
       >
         {/* Task Title Section */}
         <View style={styles.titleSection}>
@@ -239,6 +416,44 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ route, navigation }
             accessibilityLabel="할 일 제목"
           />
           <Text style={styles.titleCharCounter}>{titleInput.length}/120</Text>
+
+          {/* Task Due Date */}
+          <TouchableOpacity
+            style={styles.dueDateRow}
+            onPress={() => setDueDateTarget({})}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="할 일 마감일 설정"
+          >
+            <Text style={styles.dueDateLabel}>마감일</Text>
+            {task.dueDate ? (
+              <DueDateBadge
+                dueDate={task.dueDate}
+                done={progress.total > 0 && progress.done === progress.total}
+              />
+            ) : (
+              <Text style={styles.dueDateEmpty}>설정 안 함</Text>
+            )}
+          </TouchableOpacity>
+
+          {/* Task Tags */}
+          <View style={styles.tagsSection}>
+            <Text style={styles.dueDateLabel}>태그</Text>
+            {tags.length > 0 ? (
+              <View style={styles.tagsRow}>
+                {tags.map((tag) => (
+                  <TagChip
+                    key={tag.id}
+                    tag={tag}
+                    selected={!!task.tagIds?.includes(tag.id)}
+                    onPress={() => handleToggleTag(tag.id)}
+                  />
+                ))}
+              </View>
+            ) : (
+              <Text style={styles.dueDateEmpty}>설정 화면에서 태그를 만들 수 있습니다</Text>
+            )}
+          </View>
         </View>
 
         {/* Progress Section */}
@@ -257,22 +472,9 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ route, navigation }
           <Text style={styles.sectionTitle}>세부 단계</Text>
 
           {/* Checklist Items */}
-          {task.items.length > 0 ? (
-            <FlatList
-              data={task.items}
-              renderItem={renderChecklistItem}
-              keyExtractor={(item) => item.id}
-              scrollEnabled={false}
-              // Performance optimizations
-              removeClippedSubviews={true}
-              maxToRenderPerBatch={10}
-              updateCellsBatchingPeriod={50}
-              windowSize={21}
-              initialNumToRender={10}
-            />
-          ) : (
-            renderEmptyChecklist()
-          )}
+          {task.items.length > 0
+            ? renderChecklistItems(resolvedItems, 0, null)
+            : renderEmptyChecklist()}
 
           {/* Add Item Input */}
           <View style={styles.addItemContainer}>
@@ -281,6 +483,26 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({ route, navigation }
         </View>
       </ScrollView>
 
+      {/* Repeat Rule Picker */}
+      <RecurrencePicker
+        visible={!!recurrenceItem}
+        rule={recurrenceItem?.recurrence}
+        onSave={(rule) => setItemRecurrence(taskId, recurrenceItemId as string, rule)}
+        onClose={() => setRecurrenceItemId(null)}
+      />
+
+      {/* Due Date Picker */}
+      <DueDatePicker
+        visible={!!dueDateTarget && (!dueDateTarget.itemId || !!dueDateItem)}
+        dueDate={dueDateTarget?.itemId ? dueDateItem?.dueDate : task.dueDate}
+        onSave={(dueDate) =>
+          dueDateTarget?.itemId
+            ? setItemDueDate(taskId, dueDateTarget.itemId, dueDate)
+            : setTaskDueDate(taskId, dueDate)
+        }
+        onClose={() => setDueDateTarget(null)}
+      />
+
       {/* Celebration Effect */}
       <ConfettiCelebration visible={showCelebration} onComplete={() => setShowCelebration(false)} />
     </KeyboardAvoidingView>
@@ -313,7 +535,15 @@ const styles = StyleSheet.create({
   },
 
   /**
-   * Header button
+   * Header right buttons row (undo/redo + delete)
+   */
+  headerRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  /**
+   * Header button (back, delete)
    */
   headerButton: {
     paddingHorizontal: spacing.lg,
@@ -372,6 +602,50 @@ const styles = StyleSheet.create({
     marginTop: spacing.xs,
   },
 
+  /**
+   * Task due date row
+   */
+  dueDateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    minHeight: 44,
+    marginTop: spacing.sm,
+  },
+
+  /**
+   * Task due date label
+   */
+  dueDateLabel: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+
+  /**
+   * Placeholder when no due date is set
+   */
+  dueDateEmpty: {
+    ...typography.body,
+    color: colors.textDisabled,
+  },
+
+  /**
+   * Task tags section
+   */
+  tagsSection: {
+    marginTop: spacing.sm,
+    gap: spacing.sm,
+  },
+
+  /**
+   * Wrapping row of tag chips
+   */
+  tagsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+
   /**
    * Progress section
    */
@@ -466,6 +740,13 @@ const styles = StyleSheet.create({
     marginTop: spacing.lg,
   },
 
+  /**
+   * Sub-item input container under its parent item
+   */
+  addChildContainer: {
+    marginBottom: spacing.sm,
+  },
+
   /**
    * Error container (when task not found)
    */
@@ -10,13 +10,15 @@
  * - Clear labels and hints
  *
  * Performance:
- * - FlatList with optimization props
- * - useMemo for filtered tasks
+ * - useMemo for filtered and sorted tasks
  * - React.memo for TaskCard components
  *
  * Features:
  * - Task list with TaskCard components
- * - Search (shown when 20+ tasks)
+ * - Search in task and item titles, ranked, with matches highlighted
+ * - Tag chips on cards and tag filter chips (tasks with any selected tag)
+ * - Sort menu (기본, 마감일, 이름, 만든 날짜, 수정한 날짜, 진행률; either direction)
+ * - Long press and drag to reorder tasks (기본 order, no search query or tag filter)
  * - Empty state with example loading
  * - FAB (+) button for adding tasks
  * - Task add modal
@@ -27,7 +29,7 @@ import React, { useState, useMemo, useEffect } from 'react';
 import {
   View,
   Text,
-  FlatList,
+  ScrollView,
   TextInput,
   TouchableOpacity,
   TouchableWithoutFeedback,
@@ -39,12 +41,70 @@ import {
   Animated,
 } from 'react-native';
 import { useTaskStore } from '../store/taskStore';
-import { TaskCard, Button } from '../components';
+import { TaskCard, Button, DraggableList, TagFilterBar } from '../components';
 import { colors } from '../styles/colors';
 import { typography } from '../styles/typography';
 import { spacing } from '../styles/spacing';
-import { Task } from '../types';
+import { Task, SortOptions } from '../types';
 import { EXAMPLE_TASKS } from '../data/examples';
+import { filterTasksByTags, getTaskTags } from '../utils/tags';
+import { searchTasks, sortTasks, TaskSearchResult } from '../utils/taskQuery';
+import { getActiveTasks } from '../utils/archive';
+
+/**
+ * Sort fields offered in the sort menu
+ * - defaultOrder: direction used when the field is first selected
+ * - ascLabel / descLabel: how each direction is described
+ */
+const SORT_FIELDS: Array<{
+  field: SortOptions['field'];
+  label: string;
+  defaultOrder: 'asc' | 'desc';
+  ascLabel: string;
+  descLabel: string;
+}> = [
+  {
+    field: 'dueDate',
+    label: '마감일',
+    defaultOrder: 'asc',
+    ascLabel: '빠른 순',
+    descLabel: '늦은 순',
+  },
+  { field: 'title', label: '이름', defaultOrder: 'asc', ascLabel: '가나다순', descLabel: '역순' },
+  {
+    field: 'createdAt',
+    label: '만든 날짜',
+    defaultOrder: 'desc',
+    ascLabel: '오래된 순',
+    descLabel: '최신 순',
+  },
+  {
+    field: 'updatedAt',
+    label: '수정한 날짜',
+    defaultOrder: 'desc',
+    ascLabel: '오래된 순',
+    descLabel: '최신 순',
+  },
+  {
+    field: 'progress',
+    label: '진행률',
+    defaultOrder: 'asc',
+    ascLabel: '낮은 순',
+    descLabel: '높은 순',
+  },
+];
+
+/**
+ * Returns the label of a sort option (e.g. "마감일 · 빠른 순")
+ */
+function getSortLabel(sortOptions: SortOptions | null): string {
+  const option = sortOptions && SORT_FIELDS.find((item) => item.field === sortOptions.field);
+  if (!sortOptions || !option) {
+    return '기본';
+  }
+
+  return `${option.label} · ${sortOptions.order === 'desc' ? option.descLabel : option.ascLabel}`;
+}
 
 /**
  * TaskListScreen navigation props
@@ -57,8 +117,16 @@ interface TaskListScreenProps {
  * TaskListScreen component implementation
  */
 const TaskListScreen: React.FC<TaskListScreenProps> = ({ navigation }) => {
-  const { tasks, addTask } = useTaskStore();
+  const { tasks: allTasks, settings, addTask, reorderTasks } = useTaskStore();
+  // Archived tasks live on the archive screen
+  const tasks = useMemo(() => getActiveTasks(allTasks), [allTasks]);
+  const tags = useMemo(() => settings.tags || [], [settings.tags]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  // null = 기본 (the manual order)
+  const [sortOptions, setSortOptions] = useState<SortOptions | null>(null);
+  const [isSortMenuVisible, setIsSortMenuVisible] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
   const [isAddModalVisible, setIsAddModalVisible] = useState(false);
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [isAdding, setIsAdding] = useState(false);
@@ -96,15 +164,61 @@ const TaskListScreen: React.FC<TaskListScreenProps> = ({ navigation }) => {
     };
   }, [keyboardHeight]);
 
-  // Filter tasks based on search query
+  // Drop deleted tags from the filter
+  useEffect(() => {
+    setSelectedTagIds((prev) => {
+      const next = prev.filter((tagId) => tags.some((tag) => tag.id === tagId));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [tags]);
+
+  const trimmedQuery = searchQuery.trim();
+
+  // Search task and item titles; matches come back ranked (best first)
+  const searchResults = useMemo(() => {
+    if (!trimmedQuery) {
+      return null;
+    }
+
+    const results = new Map<string, TaskSearchResult>();
+    searchTasks(tasks, { query: trimmedQuery, searchItems: true }).forEach((result) =>
+      results.set(result.task.id, result)
+    );
+    return results;
+  }, [tasks, trimmedQuery]);
+
+  // Filter tasks by search and tags, then apply the sort (기본 keeps the search ranking)
   const filteredTasks = useMemo(() => {
-    if (!searchQuery.trim()) {
-      return tasks;
+    const searched = searchResults
+      ? Array.from(searchResults.values()).map((result) => result.task)
+      : tasks;
+    const filtered = filterTasksByTags(searched, selectedTagIds);
+
+    return sortOptions ? sortTasks(filtered, sortOptions) : filtered;
+  }, [tasks, searchResults, selectedTagIds, sortOptions]);
+
+  // Manual order can only be changed while the full list is shown in that order
+  const canReorder = !sortOptions && !trimmedQuery && selectedTagIds.length === 0;
+
+  // Whether the list is narrowed down by search or tags
+  const isFiltered = !!trimmedQuery || selectedTagIds.length > 0;
+
+  /**
+   * Handles picking a sort field in the sort menu
+   * Picking the current field again flips its direction
+   */
+  const handleSelectSort = (field: SortOptions['field'] | null) => {
+    if (!field) {
+      setSortOptions(null);
+    } else if (sortOptions?.field === field) {
+      setSortOptions({ field, order: sortOptions.order === 'desc' ? 'asc' : 'desc' });
+    } else {
+      const option = SORT_FIELDS.find((item) => item.field === field);
+      setSortOptions({ field, order: option?.defaultOrder || 'asc' });
     }
 
-    const query = searchQuery.toLowerCase();
-    return tasks.filter((task) => task.title.toLowerCase().includes(query));
-  }, [tasks, searchQuery]);
+    setIsSortMenuVisible(false);
+  };
 
   /**
    * Handles task card press - navigate to detail screen
@@ -149,8 +263,16 @@ const TaskListScreen: React.FC<TaskListScreenProps> = ({ navigation }) => {
   /**
    * Renders a single task card
    */
-  const renderTask = ({ item }: { item: Task }) => (
-    <TaskCard task={item} onPress={() => handleTaskPress(item.id)} style={styles.taskCard} />
+  const renderTask = ({ item, drag }: { item: Task; drag: () => void }) => (
+    <TaskCard
+      task={item}
+      onPress={() => handleTaskPress(item.id)}
+      onLongPress={canReorder ? drag : undefined}
+      tags={getTaskTags(item, tags)}
+      highlightQuery={trimmedQuery}
+      matchedItems={searchResults?.get(item.id)?.matchedItems}
+      style={styles.taskCard}
+    />
   );
 
   /**
@@ -178,55 +300,84 @@ const TaskListScreen: React.FC<TaskListScreenProps> = ({ navigation }) => {
   const renderEmptySearch = () => (
     <View style={styles.emptyContainer}>
       <Text style={styles.emptyTitle}>검색 결과가 없습니다</Text>
-      <Text style={styles.emptySubtitle}>다른 키워드로 검색해보세요</Text>
+      <Text style={styles.emptySubtitle}>
+        {selectedTagIds.length > 0
+          ? '다른 키워드나 태그로 검색해보세요'
+          : '다른 키워드로 검색해보세요'}
+      </Text>
     </View>
   );
 
-  // Show search bar only when there are 20+ tasks
-  const showSearch = tasks.length >= 20;
-
   return (
     <View style={styles.container}>
-      {/* Search Bar (shown when 20+ tasks) */}
-      {showSearch && (
+      {/* Search Bar and Sort Button (shown when there are tasks) */}
+      {tasks.length > 0 && (
         <View style={styles.searchContainer}>
           <TextInput
             style={styles.searchInput}
             value={searchQuery}
             onChangeText={setSearchQuery}
-            placeholder="할 일 검색"
+            placeholder="할 일, 세부 단계 검색"
             placeholderTextColor={colors.textDisabled}
             returnKeyType="search"
+            clearButtonMode="while-editing"
             accessible={true}
             accessibilityLabel="할 일 검색"
-            accessibilityHint="검색어를 입력하여 할 일을 찾으세요"
+            accessibilityHint="할 일과 세부 단계 제목에서 검색합니다"
           />
+          <TouchableOpacity
+            style={[styles.sortButton, sortOptions && styles.sortButtonActive]}
+            onPress={() => setIsSortMenuVisible(true)}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`정렬: ${getSortLabel(sortOptions)}`}
+            accessibilityHint="정렬 방식을 선택합니다"
+          >
+            <Text
+              style={[styles.sortButtonText, sortOptions && styles.sortButtonTextActive]}
+              numberOfLines={1}
+            >
+              {getSortLabel(sortOptions)} ▾
+            </Text>
+          </TouchableOpacity>
         </View>
       )}
 
-      {/* Task List */}
-      <FlatList
-        data={filteredTasks}
-        renderItem={renderTask}
-        keyExtractor={(item) => item.id}
+      {/* Tag Filter (shown when tags exist) */}
+      {tasks.length > 0 && (
+        <TagFilterBar
+          tags={tags}
+          selectedTagIds={selectedTagIds}
+          onChange={setSelectedTagIds}
+          style={styles.tagFilter}
+        />
+      )}
+
+      {/* Task List (long press a card to drag it) */}
+      <ScrollView
         contentContainerStyle={[
           styles.listContent,
           filteredTasks.length === 0 && styles.listContentEmpty,
         ]}
-        ListEmptyComponent={searchQuery.trim() ? renderEmptySearch() : renderEmptyState()}
-        // Performance optimizations
-        removeClippedSubviews={true}
-        maxToRenderPerBatch={10}
-        updateCellsBatchingPeriod={50}
-        windowSize={21}
-        initialNumToRender={10}
-        // For fixed-height items, getItemLayout can be implemented
-        // getItemLayout={(data, index) => ({
-        //   length: ITEM_HEIGHT,
-        //   offset: ITEM_HEIGHT * index,
-        //   index,
-        // })}
-      />
+        scrollEnabled={!isDragging}
+      >
+        {filteredTasks.length === 0 ? (
+          isFiltered ? (
+            renderEmptySearch()
+          ) : (
+            renderEmptyState()
+          )
+        ) : (
+          <DraggableList
+            data={filteredTasks}
+            keyExtractor={(item) => item.id}
+            renderItem={renderTask}
+            onReorder={reorderTasks}
+            onDragStateChange={setIsDragging}
+            disabled={!canReorder}
+          />
+        )}
+      </ScrollView>
 
       {/* Floating Action Button (FAB) */}
       <TouchableOpacity
@@ -239,6 +390,71 @@ const TaskListScreen: React.FC<TaskListScreenProps> = ({ navigation }) => {
         <Text style={styles.fabIcon}>+</Text>
       </TouchableOpacity>
 
+      {/* Sort Menu */}
+      <Modal
+        visible={isSortMenuVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setIsSortMenuVisible(false)}
+      >
+        <TouchableWithoutFeedback onPress={() => setIsSortMenuVisible(false)}>
+          <View style={styles.modalContainer}>
+            <TouchableWithoutFeedback onPress={(e) => e.stopPropagation()}>
+              <View style={styles.modalContent}>
+                <Text style={styles.modalTitle}>정렬</Text>
+
+                <TouchableOpacity
+                  style={styles.sortMenuRow}
+                  onPress={() => handleSelectSort(null)}
+                  accessible={true}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: !sortOptions }}
+                  accessibilityLabel="기본 정렬, 직접 정한 순서"
+                >
+                  <Text style={[styles.sortMenuLabel, !sortOptions && styles.sortMenuLabelActive]}>
+                    기본
+                  </Text>
+                  <Text style={styles.sortMenuDetail}>
+                    {!sortOptions ? '✓ 직접 정한 순서' : '직접 정한 순서'}
+                  </Text>
+                </TouchableOpacity>
+
+                {SORT_FIELDS.map((option) => {
+                  const isActive = sortOptions?.field === option.field;
+                  const orderLabel = isActive
+                    ? sortOptions?.order === 'desc'
+                      ? option.descLabel
+                      : option.ascLabel
+                    : option.defaultOrder === 'desc'
+                      ? option.descLabel
+                      : option.ascLabel;
+
+                  return (
+                    <TouchableOpacity
+                      key={option.field}
+                      style={styles.sortMenuRow}
+                      onPress={() => handleSelectSort(option.field)}
+                      accessible={true}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected: isActive }}
+                      accessibilityLabel={`${option.label} ${orderLabel}`}
+                      accessibilityHint={isActive ? '다시 누르면 순서가 바뀝니다' : undefined}
+                    >
+                      <Text style={[styles.sortMenuLabel, isActive && styles.sortMenuLabelActive]}>
+                        {option.label}
+                      </Text>
+                      <Text style={styles.sortMenuDetail}>
+                        {isActive ? `✓ ${orderLabel} ⇅` : orderLabel}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </TouchableWithoutFeedback>
+          </View>
+        </TouchableWithoutFeedback>
+      </Modal>
+
       {/* Add Task Modal */}
       <Modal
         visible={isAddModalVisible}
@@ -324,9 +540,12 @@ const styles = StyleSheet.create({
   },
 
   /**
-   * Search container
+   * Search container (search input and sort button in a row)
    */
   searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
     paddingHorizontal: spacing.lg,
     paddingVertical: spacing.md,
     backgroundColor: colors.surface,
@@ -341,6 +560,7 @@ const styles = StyleSheet.create({
    */
   searchInput: {
     ...typography.body,
+    flex: 1,
     height: 44,
     borderWidth: 1,
     borderColor: colors.border,
@@ -350,6 +570,87 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
   },
 
+  /**
+   * Tag filter bar (doesn't grow vertically)
+   */
+  tagFilter: {
+    flexGrow: 0,
+  },
+
+  /**
+   * Sort menu button (shows the current sort)
+   */
+  sortButton: {
+    minHeight: 44,
+    maxWidth: 160,
+    paddingHorizontal: spacing.md,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  /**
+   * Sort menu button when a sort other than 기본 is applied
+   */
+  sortButtonActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+
+  /**
+   * Sort menu button label
+   */
+  sortButtonText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    fontWeight: '600',
+  },
+
+  /**
+   * Sort menu button label when a sort is applied
+   */
+  sortButtonTextActive: {
+    color: colors.surface,
+  },
+
+  /**
+   * Sort menu option row
+   */
+  sortMenuRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    minHeight: 48,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+
+  /**
+   * Sort menu option label
+   */
+  sortMenuLabel: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+
+  /**
+   * Selected sort menu option label
+   */
+  sortMenuLabelActive: {
+    color: colors.primary,
+    fontWeight: '600',
+  },
+
+  /**
+   * Sort direction shown next to each option
+   */
+  sortMenuDetail: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+
   /**
    * List content container
    */
@@ -10,6 +10,9 @@
  * - Haptic feedback on completion
  * - Celebration animation when all tasks are done
  * - FAB button to add/select today's items
+ * - "마감 임박" section with overdue and soon-due tasks/items
+ * - Day plan arranging: drag task groups by their title and items by their handle
+ * - Undo toast after removing an item from the day
  */
 
 import React, { useMemo, useState, useEffect, useCallback } from 'react';
@@ -17,7 +20,13 @@ import { View, Text, ScrollView, TouchableOpacity, StyleSheet } from 'react-nati
 import * as Haptics from 'expo-haptics';
 
 import { useTaskStore } from '../store/taskStore';
-import { ChecklistItemView, ConfettiCelebration, WeeklyCalendarNavigation } from '../components';
+import {
+  ChecklistItemView,
+  ConfettiCelebration,
+  DueDateBadge,
+  DraggableList,
+  WeeklyCalendarNavigation,
+} from '../components';
 import { colors } from '../styles/colors';
 import { typography } from '../styles/typography';
 import { spacing } from '../styles/spacing';
@@ -25,6 +34,9 @@ import { Task, ChecklistItem, DailyRecord, DailyRecordItem } from '../types';
 import { saveTodayRecordRealtime } from '../services/dailySaveScheduler';
 import { getTodayKey, getDailyRecord } from '../services/dailyRecords';
 import { logger } from '../utils/logger';
+import { showToast } from '../utils/toast';
+import { getDueSoonEntries } from '../utils/dueDate';
+import { moveItem } from '../utils/reorder';
 
 /**
  * TodayScreen navigation props
@@ -37,8 +49,16 @@ interface TodayScreenProps {
  * TodayScreen component implementation
  */
 const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
-  const { tasks, toggleChecklistItem, unscheduleItemFromDate, getItemsForDate, settings } =
-    useTaskStore();
+  const {
+    tasks,
+    toggleChecklistItem,
+    unscheduleItemFromDate,
+    reorderDayPlan,
+    getItemsForDate,
+    undo,
+    settings,
+    dailyRecordsVersion,
+  } = useTaskStore();
 
   // Selected date state (defaults to today)
   const [selectedDate, setSelectedDate] = useState<string>(getTodayKey());
@@ -50,6 +70,9 @@ const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
   const [showCelebration, setShowCelebration] = useState(false);
   const [previousProgress, setPreviousProgress] = useState(0);
 
+  // Whether a task group or item is being dragged (locks scrolling)
+  const [isDragging, setIsDragging] = useState(false);
+
   /**
    * Determine date type: past, today, or future
    */
@@ -61,7 +84,7 @@ const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
   }, [selectedDate]);
 
   /**
-   * Load daily record for past/future dates
+   * Load daily record for past/future dates (again when records were synced)
    */
   useEffect(() => {
     if (dateType !== 'today') {
@@ -76,30 +99,30 @@ const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
     } else {
       setDailyRecord(null);
     }
-  }, [selectedDate, dateType]);
+  }, [selectedDate, dateType, dailyRecordsVersion]);
 
   /**
    * Get items to display based on date type
    */
   const displayItems = useMemo(() => {
-    if (dateType === 'today') {
-      // Today: Get all items scheduled for selected date
+    if (dateType === 'today' || !dailyRecord?.items) {
+      // Today, no saved record, or an old record compacted to its counts:
+      // derive from schedules, recurrence and per-date completions
       return getItemsForDate(selectedDate);
-    } else if (dailyRecord && dailyRecord.items) {
-      // Past/Future: Get items from daily record
-      return dailyRecord.items.map((recordItem) => ({
-        task: { id: recordItem.taskId, title: recordItem.taskTitle } as Task,
-        item: {
-          id: recordItem.id,
-          title: recordItem.title,
-          done: recordItem.done,
-          isToday: false,
-        } as ChecklistItem,
-        recordItem,
-      }));
     }
 
-    return [];
+    // Past/Future: Get items from daily record, in the day's saved order
+    const recordItems = [...dailyRecord.items].sort((a, b) => a.order - b.order);
+    return recordItems.map((recordItem) => ({
+      task: { id: recordItem.taskId, title: recordItem.taskTitle } as Task,
+      item: {
+        id: recordItem.id,
+        title: recordItem.title,
+        done: recordItem.done,
+        isToday: false,
+      } as ChecklistItem,
+      recordItem,
+    }));
   }, [dateType, selectedDate, getItemsForDate, dailyRecord, tasks]);
 
   // Group items by task
@@ -141,7 +164,7 @@ const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
         return;
       }
 
-      toggleChecklistItem(taskId, itemId);
+      toggleChecklistItem(taskId, itemId, selectedDate);
 
       // Save today's record in real-time
       const updatedTasks = useTaskStore.getState().tasks;
@@ -149,7 +172,7 @@ const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
         logger.error('Failed to save today record', error as Error);
       });
     },
-    [toggleChecklistItem, dateType]
+    [toggleChecklistItem, selectedDate, dateType]
   );
 
   /**
@@ -172,9 +195,55 @@ const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
         logger.error('Failed to save today record', error as Error);
       });
 
+      showToast({ type: 'undo', message: '오늘 할 일에서 뺐습니다', onUndo: undo });
+
       logger.debug('Item removed from date', { taskId, itemId, date: selectedDate });
     },
-    [unscheduleItemFromDate, selectedDate, dateType]
+    [unscheduleItemFromDate, undo, selectedDate, dateType]
+  );
+
+  /**
+   * Saves the day plan after task groups or items were rearranged
+   * Items are stored in the order they're shown (group by group)
+   */
+  const handleReorderPlan = useCallback(
+    (groups: typeof itemsByTask) => {
+      const itemIds = groups.flat().map(({ item }) => item.id);
+      reorderDayPlan(selectedDate, itemIds);
+
+      // Save the record so DailyRecordItem.order follows the new plan
+      if (dateType === 'today') {
+        const updatedTasks = useTaskStore.getState().tasks;
+        saveTodayRecordRealtime(updatedTasks).catch((error) => {
+          logger.error('Failed to save today record', error as Error);
+        });
+      }
+    },
+    [reorderDayPlan, selectedDate, dateType]
+  );
+
+  /**
+   * Moves a task group within the day plan
+   */
+  const handleReorderGroups = useCallback(
+    (fromIndex: number, toIndex: number) => {
+      handleReorderPlan(moveItem(itemsByTask, fromIndex, toIndex));
+    },
+    [handleReorderPlan, itemsByTask]
+  );
+
+  /**
+   * Moves an item within its task group
+   */
+  const handleReorderGroupItems = useCallback(
+    (groupIndex: number, fromIndex: number, toIndex: number) => {
+      handleReorderPlan(
+        itemsByTask.map((group, index) =>
+          index === groupIndex ? moveItem(group, fromIndex, toIndex) : group
+        )
+      );
+    },
+    [handleReorderPlan, itemsByTask]
   );
 
   /**
@@ -260,6 +329,56 @@ const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
     );
   };
 
+  /**
+   * Unfinished tasks/items that are overdue or due soon (today view only)
+   */
+  const dueSoonEntries = useMemo(
+    () => (dateType === 'today' ? getDueSoonEntries(tasks, getTodayKey()) : []),
+    [tasks, dateType]
+  );
+
+  /**
+   * Renders the "마감 임박" section
+   */
+  const renderDueSoonSection = () => {
+    if (dueSoonEntries.length === 0) {
+      return null;
+    }
+
+    return (
+      <View style={styles.taskGroup}>
+        <Text style={styles.taskTitle}>마감 임박</Text>
+        <View style={styles.itemsContainer}>
+          {dueSoonEntries.map((entry) => {
+            const title = entry.item ? entry.item.title : entry.task.title;
+            return (
+              <TouchableOpacity
+                key={entry.item ? `${entry.task.id}-${entry.item.id}` : entry.task.id}
+                style={styles.dueSoonRow}
+                onPress={() => navigation.navigate('TaskDetail', { taskId: entry.task.id })}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={`${title} 열기`}
+              >
+                <View style={styles.dueSoonText}>
+                  <Text style={styles.dueSoonTitle} numberOfLines={1}>
+                    {title}
+                  </Text>
+                  {entry.item && (
+                    <Text style={styles.dueSoonSubtitle} numberOfLines={1}>
+                      {entry.task.title}
+                    </Text>
+                  )}
+                </View>
+                <DueDateBadge dueDate={entry.dueDate} />
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
   /**
    * Renders empty state
    */
@@ -298,6 +417,9 @@ const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
   // Determine read-only mode
   const isReadOnly = dateType === 'past';
 
+  // The plan can be arranged when it's derived from the tasks (not from a saved record)
+  const canArrange = !isReadOnly && !dailyRecord;
+
   // Show FAB button for today and future dates
   const showFAB = dateType === 'today' || dateType === 'future';
 
@@ -312,6 +434,7 @@ const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
         />
 
         <ScrollView contentContainerStyle={styles.emptyScrollContent}>
+          {renderDueSoonSection()}
           {renderEmptyState()}
         </ScrollView>
 
@@ -345,7 +468,11 @@ const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
         weekStartsOn={settings.weekStartsOn}
       />
 
-      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        scrollEnabled={!isDragging}
+      >
         {renderProgressSummary()}
 
         {/* Read-only indicator for past dates */}
@@ -355,28 +482,57 @@ const TodayScreen: React.FC<TodayScreenProps> = ({ navigation }) => {
           </View>
         )}
 
-        {/* Task Groups */}
-        {itemsByTask.map((taskGroup) => {
-          const task = taskGroup[0].task;
-          return (
-            <View key={task.id} style={styles.taskGroup}>
-              <Text style={styles.taskTitle}>{task.title}</Text>
-              <View style={styles.itemsContainer}>
-                {taskGroup.map(({ item }) => (
-                  <ChecklistItemView
-                    key={item.id}
-                    item={item}
-                    onToggle={isReadOnly ? undefined : () => handleToggleItem(task.id, item.id)}
-                    onDelete={
-                      isReadOnly ? undefined : () => handleRemoveFromToday(task.id, item.id)
-                    }
-                    onUpdate={async () => ({ success: true })}
-                  />
-                ))}
+        {renderDueSoonSection()}
+
+        {/* Task Groups (long press a group title or an item handle to arrange the plan) */}
+        <DraggableList
+          data={itemsByTask}
+          keyExtractor={(taskGroup) => taskGroup[0].task.id}
+          onReorder={handleReorderGroups}
+          onDragStateChange={setIsDragging}
+          disabled={!canArrange}
+          renderItem={({ item: taskGroup, index: groupIndex, drag }) => {
+            const task = taskGroup[0].task;
+            return (
+              <View style={styles.taskGroup}>
+                <TouchableOpacity
+                  onLongPress={canArrange ? drag : undefined}
+                  delayLongPress={300}
+                  disabled={!canArrange}
+                  accessible={true}
+                  accessibilityLabel={task.title}
+                  accessibilityHint={canArrange ? '길게 눌러 순서 변경' : undefined}
+                >
+                  <Text style={styles.taskTitle}>{task.title}</Text>
+                </TouchableOpacity>
+                <DraggableList
+                  style={styles.itemsContainer}
+                  data={taskGroup}
+                  keyExtractor={(entry) => entry.item.id}
+                  onReorder={(fromIndex, toIndex) =>
+                    handleReorderGroupItems(groupIndex, fromIndex, toIndex)
+                  }
+                  onDragStateChange={setIsDragging}
+                  disabled={!canArrange}
+                  renderItem={({ item: { item }, drag: dragItem }) => (
+                    <ChecklistItemView
+                      item={item}
+                      onDragStart={canArrange ? dragItem : undefined}
+                      onToggle={isReadOnly ? undefined : () => handleToggleItem(task.id, item.id)}
+                      onDelete={
+                        // Recurring occurrences come from the rule and can't be unscheduled
+                        isReadOnly || item.recurrence
+                          ? undefined
+                          : () => handleRemoveFromToday(task.id, item.id)
+                      }
+                      onUpdate={async () => ({ success: true })}
+                    />
+                  )}
+                />
               </View>
-            </View>
-          );
-        })}
+            );
+          }}
+        />
       </ScrollView>
 
       {showFAB && (
@@ -583,6 +739,39 @@ const styles = StyleSheet.create({
     elevation: 2,
   },
 
+  /**
+   * Row in the "마감 임박" section
+   */
+  dueSoonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 44,
+    gap: spacing.md,
+  },
+
+  /**
+   * Title block of a "마감 임박" row
+   */
+  dueSoonText: {
+    flex: 1,
+  },
+
+  /**
+   * Task/item title in a "마감 임박" row
+   */
+  dueSoonTitle: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+
+  /**
+   * Parent task title under an item in a "마감 임박" row
+   */
+  dueSoonSubtitle: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+
   /**
    * Empty state container
    */
@@ -9,16 +9,24 @@
  * - Toggle selection with haptic feedback
  * - Header with "Done" button
  * - Shows task titles as section headers
+ * - Nested items are listed indented under their parent
+ * - Tag filter chips (tasks with any selected tag)
  */
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
 import { useTaskStore } from '../store/taskStore';
+import { TagFilterBar } from '../components';
 import { colors } from '../styles/colors';
 import { typography } from '../styles/typography';
 import { spacing } from '../styles/spacing';
 import { Task } from '../types';
 import { getTodayKey } from '../services/dailyRecords';
+import { isItemScheduledOn, occursOn } from '../utils/recurrence';
+import { isItemDoneOn } from '../utils/completion';
+import { flattenItemTree } from '../utils/itemTree';
+import { filterTasksByTags } from '../utils/tags';
+import { getActiveTasks } from '../utils/archive';
 
 /**
  * TodaySelectScreen navigation props
@@ -31,13 +39,21 @@ interface TodaySelectScreenProps {
  * TodaySelectScreen component implementation
  */
 const TodaySelectScreen: React.FC<TodaySelectScreenProps> = ({ navigation }) => {
-  const { tasks, toggleChecklistItemToday } = useTaskStore();
+  const { tasks, settings, toggleChecklistItemToday } = useTaskStore();
+  const tags = settings.tags || [];
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
 
   // Get today's date key
   const todayKey = useMemo(() => getTodayKey(), []);
 
-  // Filter tasks that have at least one item
-  const tasksWithItems = tasks.filter((task) => task.items.length > 0);
+  // Filter tasks that have at least one item (archived tasks aren't planned)
+  const tasksWithItems = getActiveTasks(tasks).filter((task) => task.items.length > 0);
+
+  // Tasks shown with the tag filter applied
+  const visibleTasks = filterTasksByTags(
+    tasksWithItems,
+    selectedTagIds.filter((tagId) => tags.some((tag) => tag.id === tagId))
+  );
 
   /**
    * Handles checkbox toggle
@@ -57,18 +73,21 @@ const TodaySelectScreen: React.FC<TodaySelectScreenProps> = ({ navigation }) =>
 
         {/* Items */}
         <View style={styles.itemsContainer}>
-          {task.items.map((item) => {
-            const scheduledDates = item.scheduledDates || [];
-            const isSelected = scheduledDates.includes(todayKey);
+          {flattenItemTree(task.items).map(({ item, depth }) => {
+            const isSelected = isItemScheduledOn(item, todayKey);
+            const isDone = isItemDoneOn(item, todayKey);
+            // Recurring occurrences are selected by their rule
+            const isFromRule = !!item.recurrence && occursOn(item.recurrence, todayKey);
 
             return (
               <TouchableOpacity
                 key={item.id}
-                style={styles.itemRow}
+                style={[styles.itemRow, depth > 0 && { paddingLeft: spacing.md + depth * 24 }]}
                 onPress={() => handleToggle(task.id, item.id)}
+                disabled={isFromRule}
                 accessible={true}
                 accessibilityRole="checkbox"
-                accessibilityState={{ checked: isSelected }}
+                accessibilityState={{ checked: isSelected, disabled: isFromRule }}
                 accessibilityLabel={item.title}
               >
                 {/* Checkbox */}
@@ -77,15 +96,12 @@ const TodaySelectScreen: React.FC<TodaySelectScreenProps> = ({ navigation }) =>
                 </View>
 
                 {/* Item Title */}
-                <Text
-                  style={[styles.itemTitle, item.done && styles.itemTitleDone]}
-                  numberOfLines={2}
-                >
+                <Text style={[styles.itemTitle, isDone && styles.itemTitleDone]} numberOfLines={2}>
                   {item.title}
                 </Text>
 
                 {/* Done Badge */}
-                {item.done && (
+                {isDone && (
                   <View style={styles.doneBadge}>
                     <Text style={styles.doneBadgeText}>완료</Text>
                   </View>
@@ -110,16 +126,36 @@ const TodaySelectScreen: React.FC<TodaySelectScreenProps> = ({ navigation }) =>
     </View>
   );
 
+  /**
+   * Renders empty state when no task matches the tag filter
+   */
+  const renderEmptyFilter = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyTitle}>선택한 태그의 할 일이 없습니다</Text>
+      <Text style={styles.emptySubtitle}>다른 태그를 선택해보세요</Text>
+    </View>
+  );
+
   return (
     <View style={styles.container}>
+      {/* Tag Filter (shown when tags exist) */}
+      {tasksWithItems.length > 0 && (
+        <TagFilterBar
+          tags={tags}
+          selectedTagIds={selectedTagIds}
+          onChange={setSelectedTagIds}
+          style={styles.tagFilter}
+        />
+      )}
+
       {/* Content */}
-      {tasksWithItems.length === 0 ? (
+      {visibleTasks.length === 0 ? (
         <ScrollView contentContainerStyle={styles.emptyScrollContent}>
-          {renderEmptyState()}
+          {tasksWithItems.length === 0 ? renderEmptyState() : renderEmptyFilter()}
         </ScrollView>
       ) : (
         <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
-          {tasksWithItems.map((task) => renderTask(task))}
+          {visibleTasks.map((task) => renderTask(task))}
         </ScrollView>
       )}
     </View>
@@ -137,6 +173,13 @@ const styles = StyleSheet.create({
     backgroundColor: colors.background,
   },
 
+  /**
+   * Tag filter bar (doesn't grow vertically)
+   */
+  tagFilter: {
+    flexGrow: 0,
+  },
+
   /**
    * Scroll view
    */
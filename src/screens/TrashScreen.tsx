@@ -0,0 +1,354 @@
+/**
+ * TrashScreen Component
+ *
+ * Lists deleted tasks and checklist items that can still be restored.
+ * Opened from the settings screen.
+ *
+ * Accessibility:
+ * - Full screen reader support
+ * - 44x44pt minimum touch targets
+ *
+ * Features:
+ * - Deleted tasks and items, most recently deleted first
+ * - Days left before each entry is removed for good
+ * - Restore (복원) to the original position
+ * - Permanent delete (삭제) and empty trash (비우기) with confirmation
+ * - Empty state when the trash is empty
+ */
+
+import React from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useTaskStore } from '../store/taskStore';
+import { colors } from '../styles/colors';
+import { typography } from '../styles/typography';
+import { spacing } from '../styles/spacing';
+import { TrashEntry } from '../types';
+import { countItems } from '../utils/itemTree';
+import { DEFAULT_TRASH_RETENTION_DAYS, getDaysUntilPurge } from '../utils/trash';
+
+/**
+ * Formats an ISO timestamp as a Korean date (e.g. "2025년 11월 6일")
+ */
+function formatDeletedDate(isoString: string): string {
+  const date = new Date(isoString);
+  return `${date.getFullYear()}년 ${date.getMonth() + 1}월 ${date.getDate()}일`;
+}
+
+/**
+ * Returns the title shown for a trash entry
+ */
+function getEntryTitle(entry: TrashEntry): string {
+  return entry.type === 'task' ? entry.task.title : entry.item.title;
+}
+
+/**
+ * Returns the description line for a trash entry (what it is and what it contains)
+ */
+function getEntryDescription(entry: TrashEntry): string {
+  if (entry.type === 'task') {
+    const itemCount = countItems(entry.task.items);
+    return itemCount > 0 ? `할 일 · 세부 단계 ${itemCount}개` : '할 일';
+  }
+
+  const childCount = countItems([entry.item]) - 1;
+  return childCount > 0
+    ? `'${entry.taskTitle}'의 세부 단계 · 하위 항목 ${childCount}개`
+    : `'${entry.taskTitle}'의 세부 단계`;
+}
+
+/**
+ * TrashScreen component implementation
+ */
+const TrashScreen: React.FC = () => {
+  const { trash, settings, restoreFromTrash, deleteFromTrash, emptyTrash } = useTaskStore();
+  const retentionDays = settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+  const now = Date.now();
+
+  /**
+   * Restores an entry to its original position
+   */
+  const handleRestore = (entry: TrashEntry) => {
+    const result = restoreFromTrash(entry.id);
+    if (!result.success) {
+      Alert.alert('복원 실패', result.error || '복원에 실패했습니다');
+    }
+  };
+
+  /**
+   * Permanently deletes an entry after confirmation
+   */
+  const handleDelete = (entry: TrashEntry) => {
+    Alert.alert(
+      '영구 삭제',
+      `'${getEntryTitle(entry)}'을(를) 완전히 삭제할까요?\n삭제한 뒤에는 복원할 수 없습니다.`,
+      [
+        { text: '취소', style: 'cancel' },
+        {
+          text: '삭제',
+          style: 'destructive',
+          onPress: () => deleteFromTrash(entry.id),
+        },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  /**
+   * Empties the whole trash after confirmation
+   */
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      '휴지통 비우기',
+      `휴지통의 항목 ${trash.length}개를 모두 완전히 삭제할까요?\n삭제한 뒤에는 복원할 수 없습니다.`,
+      [
+        { text: '취소', style: 'cancel' },
+        {
+          text: '비우기',
+          style: 'destructive',
+          onPress: emptyTrash,
+        },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  /**
+   * Renders a single trash entry
+   */
+  const renderEntry = ({ item: entry }: { item: TrashEntry }) => {
+    const title = getEntryTitle(entry);
+    const daysLeft = getDaysUntilPurge(entry, retentionDays, now);
+
+    return (
+      <View style={styles.card}>
+        <Text style={styles.title} numberOfLines={2}>
+          {title}
+        </Text>
+        <Text style={styles.description} numberOfLines={1}>
+          {getEntryDescription(entry)}
+        </Text>
+
+        <Text style={styles.deletedDate}>
+          {formatDeletedDate(entry.deletedAt)} 삭제 ·{' '}
+          {daysLeft > 0 ? `${daysLeft}일 후 완전히 삭제` : '곧 완전히 삭제'}
+        </Text>
+
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleRestore(entry)}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`${title} 복원`}
+            accessibilityHint="삭제하기 전 위치로 되돌립니다"
+          >
+            <Text style={styles.restoreText}>복원</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleDelete(entry)}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={`${title} 영구 삭제`}
+          >
+            <Text style={styles.deleteText}>삭제</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  /**
+   * Renders the header with the retention note and the empty trash button
+   */
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.headerText}>삭제한 항목은 {retentionDays}일 뒤 완전히 삭제됩니다</Text>
+      <TouchableOpacity
+        style={styles.actionButton}
+        onPress={handleEmptyTrash}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel="휴지통 비우기"
+      >
+        <Text style={styles.deleteText}>비우기</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  /**
+   * Renders the empty state
+   */
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyTitle}>휴지통이 비어 있습니다</Text>
+      <Text style={styles.emptySubtitle}>
+        삭제한 할 일과 세부 단계는 {retentionDays}일 동안 여기에서 복원할 수 있습니다
+      </Text>
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={[styles.listContent, trash.length === 0 && styles.listContentEmpty]}
+      data={trash}
+      keyExtractor={(entry) => entry.id}
+      renderItem={renderEntry}
+      ListHeaderComponent={trash.length > 0 ? renderHeader : null}
+      ListEmptyComponent={renderEmptyState}
+    />
+  );
+};
+
+export default TrashScreen;
+
+const styles = StyleSheet.create({
+  /**
+   * Main container
+   */
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+
+  /**
+   * List content container
+   */
+  listContent: {
+    padding: spacing.lg,
+  },
+
+  /**
+   * List content when empty (centered)
+   */
+  listContentEmpty: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+
+  /**
+   * Header row (retention note + empty trash button)
+   */
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+
+  /**
+   * Retention note
+   */
+  headerText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    flex: 1,
+  },
+
+  /**
+   * Trash entry card
+   */
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.05)',
+  },
+
+  /**
+   * Entry title (muted, since it's deleted)
+   */
+  title: {
+    ...typography.h3,
+    color: colors.textSecondary,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+
+  /**
+   * Entry kind and contents
+   */
+  description: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+
+  /**
+   * Deletion date and days left
+   */
+  deletedDate: {
+    ...typography.caption,
+    color: colors.textDisabled,
+  },
+
+  /**
+   * Restore/delete buttons row
+   */
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+
+  /**
+   * Restore/delete button
+   */
+  actionButton: {
+    minWidth: 44,
+    minHeight: 44,
+    paddingHorizontal: spacing.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  /**
+   * Restore button label
+   */
+  restoreText: {
+    ...typography.body,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+
+  /**
+   * Delete button label
+   */
+  deleteText: {
+    ...typography.body,
+    color: colors.danger,
+    fontWeight: '600',
+  },
+
+  /**
+   * Empty state container
+   */
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+
+  /**
+   * Empty state title
+   */
+  emptyTitle: {
+    ...typography.h2,
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+    textAlign: 'center',
+  },
+
+  /**
+   * Empty state subtitle
+   */
+  emptySubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -15,3 +15,7 @@ export { default as TaskDetailScreen } from './TaskDetailScreen';
 export { default as SettingsScreen } from './SettingsScreen';
 export { default as TodayScreen } from './TodayScreen';
 export { default as TodaySelectScreen } from './TodaySelectScreen';
+export { default as ArchiveScreen } from './ArchiveScreen';
+export { default as TrashScreen } from './TrashScreen';
+export { default as DiagnosticsScreen } from './DiagnosticsScreen';
+export { default as StorageScreen } from './StorageScreen';
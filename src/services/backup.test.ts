@@ -0,0 +1,175 @@
+/**
+ * Backup Service Test Suite
+ *
+ * Tests backup file parsing, import preview and replace/merge application.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import * as DocumentPicker from 'expo-document-picker';
+import { parseBackupContent, createImportPreview, applyImport, importData } from './backup';
+import { AppData, Task, ErrorCode } from '../types';
+
+jest.mock('expo-file-system/legacy', () => ({ readAsStringAsync: jest.fn() }));
+jest.mock('expo-sharing', () => ({}));
+jest.mock('expo-document-picker', () => ({ getDocumentAsync: jest.fn() }));
+jest.mock('./supabase', () => ({ supabase: {} }));
+jest.mock('expo-web-browser', () => ({ maybeCompleteAuthSession: jest.fn() }));
+jest.mock('expo-auth-session', () => ({ makeRedirectUri: jest.fn() }));
+
+const mockReadAsStringAsync = FileSystem.readAsStringAsync as jest.MockedFunction<
+  typeof FileSystem.readAsStringAsync
+>;
+const mockGetDocumentAsync = DocumentPicker.getDocumentAsync as jest.MockedFunction<
+  typeof DocumentPicker.getDocumentAsync
+>;
+
+// Helper function to create a test task
+function createTestTask(
+  id: string,
+  title: string,
+  itemCount: number = 0,
+  updatedAt?: string
+): Task {
+  return {
+    id,
+    title,
+    items: Array.from({ length: itemCount }, (_, i) => ({
+      id: `${id}-item-${i}`,
+      title: `Item ${i}`,
+      done: false,
+    })),
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: updatedAt || '2025-01-01T00:00:00.000Z',
+    schemaVersion: 1,
+  };
+}
+
+// Helper function to create backup data
+function createBackup(tasks: Task[]): AppData {
+  return {
+    schemaVersion: 1,
+    tasks,
+    settings: {
+      celebrationEnabled: false,
+      dailySaveHour: 3,
+      weekStartsOn: 1,
+    },
+  };
+}
+
+describe('Backup Service', () => {
+  describe('parseBackupContent', () => {
+    it('should parse a valid backup file', () => {
+      const backup = createBackup([createTestTask('task-1', 'Task 1', 2)]);
+
+      const result = parseBackupContent(JSON.stringify(backup));
+
+      expect(result.tasks).toHaveLength(1);
+      expect(result.tasks[0].items).toHaveLength(2);
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseBackupContent('{not json')).toThrow(
+        expect.objectContaining({ code: ErrorCode.INVALID_BACKUP })
+      );
+    });
+
+    it('should reject data with an invalid structure', () => {
+      const content = JSON.stringify({ schemaVersion: 1, tasks: 'oops' });
+
+      expect(() => parseBackupContent(content)).toThrow(
+        expect.objectContaining({ code: ErrorCode.INVALID_BACKUP })
+      );
+    });
+
+    it('should reject backups from a newer schema version', () => {
+      const backup = { ...createBackup([]), schemaVersion: 99 };
+
+      expect(() => parseBackupContent(JSON.stringify(backup))).toThrow(
+        expect.objectContaining({ code: ErrorCode.INVALID_BACKUP })
+      );
+    });
+  });
+
+  describe('createImportPreview', () => {
+    it('should count new and existing tasks', () => {
+      const current = [createTestTask('task-1', 'Task 1')];
+      const backup = createBackup([
+        createTestTask('task-1', 'Task 1', 1),
+        createTestTask('task-2', 'Task 2', 3),
+      ]);
+
+      const preview = createImportPreview(backup, current);
+
+      expect(preview.taskCount).toBe(2);
+      expect(preview.itemCount).toBe(4);
+      expect(preview.newTaskCount).toBe(1);
+      expect(preview.existingTaskCount).toBe(1);
+    });
+  });
+
+  describe('applyImport', () => {
+    it('should replace current tasks in replace mode', () => {
+      const current = [createTestTask('task-1', 'Task 1')];
+      const backup = createBackup([createTestTask('task-2', 'Task 2')]);
+
+      const result = applyImport(current, backup, 'replace');
+
+      expect(result.map((t) => t.id)).toEqual(['task-2']);
+    });
+
+    it('should keep the newer version of each task in merge mode', () => {
+      const current = [
+        createTestTask('task-1', 'Local', 0, '2025-01-02T00:00:00.000Z'),
+        createTestTask('task-3', 'Local only'),
+      ];
+      const backup = createBackup([
+        createTestTask('task-1', 'Backup', 0, '2025-01-01T00:00:00.000Z'),
+        createTestTask('task-2', 'Backup only'),
+      ]);
+
+      const result = applyImport(current, backup, 'merge');
+
+      expect(result).toHaveLength(3);
+      expect(result.find((t) => t.id === 'task-1')?.title).toBe('Local');
+    });
+  });
+
+  describe('importData', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should read the picked file and return its data with a preview', async () => {
+      const backup = createBackup([createTestTask('task-1', 'Task 1', 2)]);
+      mockGetDocumentAsync.mockResolvedValue({
+        canceled: false,
+        assets: [{ uri: 'file:///backup.json', name: 'backup.json', lastModified: 0 }],
+      });
+      mockReadAsStringAsync.mockResolvedValue(JSON.stringify(backup));
+
+      const result = await importData([]);
+
+      expect(mockReadAsStringAsync).toHaveBeenCalledWith('file:///backup.json');
+      expect(result?.data.tasks.map((t) => t.id)).toEqual(['task-1']);
+      expect(result?.preview).toMatchObject({ taskCount: 1, itemCount: 2, newTaskCount: 1 });
+    });
+
+    it('should return null when the picker is canceled', async () => {
+      mockGetDocumentAsync.mockResolvedValue({ canceled: true, assets: null });
+
+      expect(await importData([])).toBeNull();
+      expect(mockReadAsStringAsync).not.toHaveBeenCalled();
+    });
+
+    it('should reject a file that is not a backup', async () => {
+      mockGetDocumentAsync.mockResolvedValue({
+        canceled: false,
+        assets: [{ uri: 'file:///notes.json', name: 'notes.json', lastModified: 0 }],
+      });
+      mockReadAsStringAsync.mockResolvedValue('not json');
+
+      await expect(importData([])).rejects.toMatchObject({ code: ErrorCode.INVALID_BACKUP });
+    });
+  });
+});
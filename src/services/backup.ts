@@ -1,17 +1,21 @@
 /**
  * Backup and Restore Service Module
  *
- * Provides functionality to export app data as JSON files.
+ * Provides functionality to export app data as JSON files
+ * and to restore app data from a previously exported backup file.
  */
 
-import * as FileSystem from 'expo-file-system';
+import * as FileSystem from 'expo-file-system/legacy';
 import * as Sharing from 'expo-sharing';
-import { AppData, ErrorCode } from '../types';
-import { createAppError } from '../utils/errors';
+import * as DocumentPicker from 'expo-document-picker';
+import { AppData, ErrorCode, Task } from '../types';
+import { createAppError, isAppError } from '../utils/errors';
+import { isValidAppData, checkTaskLimit, VALIDATION_LIMITS } from '../utils/validation';
+import { countItems } from '../utils/itemTree';
+import { getActiveTasks } from '../utils/archive';
 import { logger } from '../utils/logger';
-
-// @ts-ignore - expo-file-system types are incomplete
-const { documentDirectory } = FileSystem;
+import { migrateSchema, STORAGE_CONSTANTS } from './storage';
+import { mergeTasks } from './cloudSync';
 
 /**
  * Exports app data as a JSON file and opens the share sheet.
@@ -47,7 +51,7 @@ export async function exportData(appData: AppData): Promise<string> {
     const jsonContent = JSON.stringify(appData, null, 2);
 
     // Determine file path (documentDirectory for iOS/Android compatibility)
-    const filePath = `${documentDirectory}${filename}`;
+    const filePath = `${FileSystem.documentDirectory}${filename}`;
 
     logger.debug('Writing backup file', { filePath, size: jsonContent.length });
 
@@ -72,35 +76,255 @@ export async function exportData(appData: AppData): Promise<string> {
       });
 
       logger.info('Backup exported successfully', { filename, filePath });
-    } catch (shareError: any) {
+    } catch (shareError) {
       // Sharing error
-      logger.error('Share sheet error', shareError);
-      throw createAppError(ErrorCode.UNKNOWN, '공유 기능을 열 수 없습니다', shareError);
+      logger.error('Share sheet error', shareError as Error);
+      throw createAppError(ErrorCode.UNKNOWN, '공유 기능을 열 수 없습니다', shareError as Error);
     }
 
     timer.end();
     return filePath;
-  } catch (error: any) {
+  } catch (error) {
     timer.end();
 
     // Check if it's already an AppError
-    if (error.code && Object.values(ErrorCode).includes(error.code)) {
+    if (isAppError(error)) {
       throw error;
     }
 
     // Handle permission denied errors
-    if (
-      error.message &&
-      (error.message.includes('permission') ||
-        error.message.includes('PERMISSION') ||
-        error.message.includes('denied'))
-    ) {
-      logger.error('File permission denied', error);
-      throw createAppError(ErrorCode.PERMISSION_DENIED, '파일 저장 권한이 필요합니다', error);
+    if (isPermissionError(error as Error)) {
+      logger.error('File permission denied', error as Error);
+      throw createAppError(
+        ErrorCode.PERMISSION_DENIED,
+        '파일 저장 권한이 필요합니다',
+        error as Error
+      );
     }
 
     // Handle other file system errors
-    logger.error('Export failed', error);
-    throw createAppError(ErrorCode.UNKNOWN, '백업 파일 생성에 실패했습니다', error);
+    logger.error('Export failed', error as Error);
+    throw createAppError(ErrorCode.UNKNOWN, '백업 파일 생성에 실패했습니다', error as Error);
   }
 }
+
+/**
+ * How imported backup data is applied to the current tasks
+ * - replace: Discard current tasks and use the backup as-is
+ * - merge: Keep current tasks, add new ones and keep the newer version of duplicates
+ */
+export type ImportMode = 'replace' | 'merge';
+
+/**
+ * Summary of a backup file shown to the user before importing
+ */
+export interface ImportPreview {
+  /**
+   * Number of tasks in the backup
+   */
+  taskCount: number;
+
+  /**
+   * Total number of checklist items in the backup
+   */
+  itemCount: number;
+
+  /**
+   * Number of backup tasks that don't exist locally
+   */
+  newTaskCount: number;
+
+  /**
+   * Number of backup tasks that already exist locally (same ID)
+   */
+  existingTaskCount: number;
+
+  /**
+   * Whether the backup contains user settings
+   */
+  hasSettings: boolean;
+}
+
+/**
+ * Result of reading a backup file, ready to be applied
+ */
+export interface BackupImport {
+  data: AppData;
+  preview: ImportPreview;
+}
+
+/**
+ * Parses and validates the contents of a backup file.
+ *
+ * Validation steps:
+ * 1. Parse JSON
+ * 2. Reject backups created by a newer app version (higher schema version)
+ * 3. Validate structure with isValidAppData
+ * 4. Migrate to the latest schema version
+ *
+ * @param content - Raw file contents
+ * @returns Validated and migrated AppData
+ * @throws AppError with code INVALID_BACKUP if the file is corrupted or unsupported
+ */
+export function parseBackupContent(content: string): AppData {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    logger.warn('Backup file is not valid JSON');
+    throw createAppError(
+      ErrorCode.INVALID_BACKUP,
+      '백업 파일을 읽을 수 없습니다. 파일이 손상되었을 수 있습니다.',
+      error as Error
+    );
+  }
+
+  if (
+    parsed &&
+    typeof parsed === 'object' &&
+    'schemaVersion' in parsed &&
+    typeof parsed.schemaVersion === 'number' &&
+    parsed.schemaVersion > STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION
+  ) {
+    logger.warn('Backup schema version is newer than supported', {
+      backupVersion: parsed.schemaVersion,
+      supportedVersion: STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION,
+    });
+    throw createAppError(
+      ErrorCode.INVALID_BACKUP,
+      '최신 버전의 앱에서 만든 백업입니다. 앱을 업데이트한 후 다시 시도해주세요.'
+    );
+  }
+
+  if (!isValidAppData(parsed)) {
+    logger.warn('Backup data validation failed');
+    throw createAppError(ErrorCode.INVALID_BACKUP, '백업 파일의 형식이 올바르지 않습니다.');
+  }
+
+  return migrateSchema(parsed);
+}
+
+/**
+ * Creates a summary of what importing the backup would change.
+ *
+ * @param data - Validated backup data
+ * @param currentTasks - Tasks currently in the store
+ * @returns ImportPreview with counts
+ */
+export function createImportPreview(data: AppData, currentTasks: Task[]): ImportPreview {
+  const currentIds = new Set(currentTasks.map((task) => task.id));
+  const existingTaskCount = data.tasks.filter((task) => currentIds.has(task.id)).length;
+
+  return {
+    taskCount: data.tasks.length,
+    itemCount: data.tasks.reduce((sum, task) => sum + countItems(task.items), 0),
+    newTaskCount: data.tasks.length - existingTaskCount,
+    existingTaskCount,
+    hasSettings: !!data.settings,
+  };
+}
+
+/**
+ * Applies backup data to the current tasks.
+ *
+ * In merge mode, duplicates are merged item by item, the same way as
+ * cloud sync (the newer version of each item wins).
+ *
+ * @param currentTasks - Tasks currently in the store
+ * @param data - Validated backup data
+ * @param mode - Replace or merge
+ * @returns Resulting task list
+ * @throws AppError with code TASK_LIMIT_EXCEEDED if the result exceeds the task limit
+ */
+export function applyImport(currentTasks: Task[], data: AppData, mode: ImportMode): Task[] {
+  const tasks = mode === 'replace' ? data.tasks : mergeTasks(currentTasks, data.tasks);
+
+  // Archived tasks don't count toward the task limit
+  const activeCount = getActiveTasks(tasks).length;
+  if (activeCount > VALIDATION_LIMITS.MAX_TASK_COUNT) {
+    const limitCheck = checkTaskLimit(activeCount);
+    throw createAppError(ErrorCode.TASK_LIMIT_EXCEEDED, limitCheck.error);
+  }
+
+  logger.debug('Import applied', {
+    mode,
+    before: currentTasks.length,
+    after: tasks.length,
+  });
+
+  return tasks;
+}
+
+/**
+ * Lets the user pick a backup file and reads it for import.
+ *
+ * Opens the native document picker, reads the selected file,
+ * validates and migrates it, and returns a preview so the user can
+ * choose between replacing and merging.
+ *
+ * @param currentTasks - Tasks currently in the store (used for the preview)
+ * @returns BackupImport, or null if the user canceled the picker
+ * @throws AppError with code INVALID_BACKUP if the file is corrupted or unsupported
+ * @throws AppError with code PERMISSION_DENIED if file access is denied
+ * @throws AppError with code UNKNOWN for other file system errors
+ */
+export async function importData(currentTasks: Task[]): Promise<BackupImport | null> {
+  const timer = logger.startTimer('Import data');
+
+  try {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: 'application/json',
+      copyToCacheDirectory: true,
+      multiple: false,
+    });
+
+    if (result.canceled || !result.assets || result.assets.length === 0) {
+      logger.debug('Backup import canceled by user');
+      timer.end();
+      return null;
+    }
+
+    const fileUri = result.assets[0].uri;
+    logger.debug('Reading backup file', { fileUri });
+
+    const content = await FileSystem.readAsStringAsync(fileUri);
+    const data = parseBackupContent(content);
+    const preview = createImportPreview(data, currentTasks);
+
+    logger.info('Backup file read successfully', { ...preview });
+
+    timer.end();
+    return { data, preview };
+  } catch (error) {
+    timer.end();
+
+    // Check if it's already an AppError
+    if (isAppError(error)) {
+      throw error;
+    }
+
+    // Handle permission denied errors
+    if (isPermissionError(error as Error)) {
+      logger.error('File permission denied', error as Error);
+      throw createAppError(
+        ErrorCode.PERMISSION_DENIED,
+        '파일 접근 권한이 필요합니다',
+        error as Error
+      );
+    }
+
+    logger.error('Import failed', error as Error);
+    throw createAppError(ErrorCode.UNKNOWN, '백업 파일을 불러오지 못했습니다', error as Error);
+  }
+}
+
+/**
+ * Checks whether a file system error was caused by missing permissions
+ */
+function isPermissionError(error: Error): boolean {
+  const message = error?.message || '';
+  return (
+    message.includes('permission') || message.includes('PERMISSION') || message.includes('denied')
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * Cloud Sync Test Suite
+ *
+ * Tests that a failed pull fails the sync (keeping the local data and the
+ * delta sync cursor), and that `synced_at` is left to the server.
+ */
+
+import { performFullSync } from './cloudSync';
+import { supabase } from './supabase';
+import { loadSyncState, updateSyncState } from './syncState';
+import { Task } from '../types';
+
+jest.mock('./supabase', () => ({
+  supabase: { auth: { getSession: jest.fn() }, from: jest.fn() },
+  isSupabaseConfigured: jest.fn(() => true),
+}));
+jest.mock('./syncState', () => ({
+  loadSyncState: jest.fn(),
+  updateSyncState: jest.fn(),
+}));
+jest.mock('./dailyRecords', () => ({
+  getTodayKey: jest.fn(() => '2025-11-06'),
+  loadDailyRecords: jest.fn(async () => ({})),
+  saveDailyRecords: jest.fn(),
+}));
+jest.mock('expo-web-browser', () => ({ maybeCompleteAuthSession: jest.fn() }));
+jest.mock('expo-auth-session', () => ({ makeRedirectUri: jest.fn() }));
+
+const mockGetSession = supabase.auth.getSession as jest.Mock;
+const mockFrom = supabase.from as jest.Mock;
+const mockLoadSyncState = loadSyncState as jest.MockedFunction<typeof loadSyncState>;
+const mockUpdateSyncState = updateSyncState as jest.MockedFunction<typeof updateSyncState>;
+
+const SYNCED_UNTIL = '2025-11-06T12:00:00.000Z';
+
+const localTask: Task = {
+  id: 'task-1',
+  title: 'Local task',
+  items: [],
+  createdAt: '2025-11-06T00:00:00.000Z',
+  updatedAt: '2025-11-06T00:00:00.000Z',
+  schemaVersion: 1,
+};
+
+/**
+ * Mocks the `tasks` table: pulls resolve with the given rows or error,
+ * upserts succeed
+ */
+function mockTasksTable(pull: { data: unknown[] | null; error: { message: string } | null }) {
+  const query = {
+    select: jest.fn(() => query),
+    eq: jest.fn(() => query),
+    gt: jest.fn(() => query),
+    order: jest.fn(async () => pull),
+    upsert: jest.fn(async () => ({ error: null })),
+  };
+  mockFrom.mockReturnValue(query);
+  return query;
+}
+
+describe('Cloud Sync', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetSession.mockResolvedValue({ data: { session: { user: { id: 'user-1' } } } });
+    mockLoadSyncState.mockResolvedValue({ tasksSyncedUntil: SYNCED_UNTIL });
+  });
+
+  describe('performFullSync', () => {
+    it('should fail when pulling tasks fails', async () => {
+      const tasksTable = mockTasksTable({ data: null, error: { message: 'timeout' } });
+
+      const { tasks, result } = await performFullSync([localTask], [], [], undefined, []);
+
+      expect(result).toEqual({ success: false, error: 'timeout' });
+      expect(tasks).toEqual([localTask]);
+      expect(tasksTable.upsert).not.toHaveBeenCalled();
+      expect(mockUpdateSyncState).not.toHaveBeenCalled();
+    });
+
+    it('should fail without a session', async () => {
+      mockGetSession.mockResolvedValue({ data: { session: null } });
+      mockTasksTable({ data: [], error: null });
+
+      const { result } = await performFullSync([localTask]);
+
+      expect(result.success).toBe(false);
+      expect(mockUpdateSyncState).not.toHaveBeenCalled();
+    });
+
+    it('should let the server set synced_at', async () => {
+      const tasksTable = mockTasksTable({ data: [], error: null });
+
+      await performFullSync([localTask], [], [{ id: 'task-2', deletedAt: SYNCED_UNTIL }]);
+
+      const [[rows]] = tasksTable.upsert.mock.calls as unknown as [[Record<string, unknown>[]]];
+      expect(rows.map((row) => row.id)).toEqual(['task-1', 'task-2']);
+      rows.forEach((row) => expect(row).not.toHaveProperty('synced_at'));
+    });
+
+    it('should advance the cursor to the latest synced_at set by the server', async () => {
+      mockTasksTable({
+        data: [
+          {
+            id: 'task-2',
+            user_id: 'user-1',
+            title: '',
+            items: [],
+            created_at: SYNCED_UNTIL,
+            updated_at: SYNCED_UNTIL,
+            schema_version: 1,
+            deleted_at: SYNCED_UNTIL,
+            synced_at: '2025-11-06T12:05:00.000Z',
+          },
+        ],
+        error: null,
+      });
+
+      const { result } = await performFullSync([localTask], [], [], undefined, []);
+
+      expect(result.success).toBe(true);
+      expect(mockUpdateSyncState).toHaveBeenCalledWith({
+        tasksSyncedUntil: '2025-11-06T12:05:00.000Z',
+      });
+    });
+  });
+});
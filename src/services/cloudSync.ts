@@ -6,19 +6,46 @@
  * Strategy:
  * - Local-first: All operations work offline
  * - Background sync: Automatic sync when online
- * - Conflict resolution: Last-write-wins based on updatedAt timestamp
+ * - Conflict resolution: Item-by-item merge with tombstones for deletions (see utils/syncMerge.ts)
  * - Anonymous mode: Works without authentication (device-specific sync)
  *
  * Features:
- * - Sync tasks to/from cloud
- * - Sync daily records to/from cloud
+ * - Sync tasks to/from cloud, after the first sync only what changed (see utils/deltaSync.ts)
+ * - Sync daily records to/from cloud (newest record per date, incremental by date range;
+ *   see utils/recordSync.ts)
+ * - Sync settings to/from cloud (last change wins per setting; see utils/settingsSync.ts)
  * - Automatic conflict resolution
  * - Error handling and retry logic
  */
 
-import { supabase, isSupabaseConfigured } from './supabase';
-import { Task, DailyRecord, AuthProvider, UserProfile } from '../types';
+import { supabase, isSupabaseConfigured, Database } from './supabase';
+import {
+  Task,
+  Tag,
+  Tombstone,
+  DailyRecord,
+  AuthProvider,
+  UserProfile,
+  AppSettings,
+  RoamingSettings,
+  SyncOperation,
+} from '../types';
 import { logger } from '../utils/logger';
+import { normalizeItemTree } from '../utils/itemTree';
+import { sortTasksByOrder } from '../utils/reorder';
+import { getTaskTags, mergeTags } from '../utils/tags';
+import { mergeTaskLists, mergeTombstones, removeTombstonesFor } from '../utils/syncMerge';
+import { getRecordPullStartDate, getRecordsToPush, mergeDailyRecords } from '../utils/recordSync';
+import { mergeRoamingSettings, parseRoamingSettings } from '../utils/settingsSync';
+import {
+  advanceHighWaterMark,
+  getTaskPullCursor,
+  selectTasksToPush,
+  selectTombstonesToPush,
+} from '../utils/deltaSync';
+import { isValidTag, isValidTombstone } from '../utils/validation';
+import { getTodayKey, loadDailyRecords, saveDailyRecords } from './dailyRecords';
+import { loadSyncState, updateSyncState } from './syncState';
 import * as WebBrowser from 'expo-web-browser';
 import { makeRedirectUri } from 'expo-auth-session';
 
@@ -32,13 +59,78 @@ export interface SyncResult {
   recordsSynced?: number;
 }
 
+/**
+ * Tasks pulled from the cloud with the tag definitions stored on their rows
+ * and the tombstones of tasks deleted on other devices
+ */
+export interface CloudTasks {
+  tasks: Task[];
+  tags: Tag[];
+  tombstones: Tombstone[];
+  /** Latest `synced_at` of the rows pulled (undefined if none) */
+  latestSyncedAt?: string;
+}
+
+/**
+ * Reads the tags stored on a task row, skipping malformed entries
+ */
+function readRowTags(value: unknown): Tag[] {
+  return Array.isArray(value) ? value.filter((tag) => isValidTag(tag)) : [];
+}
+
+/**
+ * Daily record row as stored in Supabase
+ */
+type DailyRecordRow = Database['public']['Tables']['daily_records']['Row'];
+
+/**
+ * Settings row as stored in Supabase
+ */
+type UserSettingsRow = Database['public']['Tables']['user_settings']['Row'];
+
+/**
+ * Converts a daily record row to a DailyRecord.
+ * Compacted records are stored with an empty item list; they come back
+ * without items, like on the device (a day without items has a total of 0).
+ */
+function toDailyRecord(row: DailyRecordRow): DailyRecord {
+  const items = Array.isArray(row.items) ? row.items : [];
+
+  return {
+    date: row.date,
+    completedCount: row.completed_count,
+    totalCount: row.total_count,
+    completionRate: row.completion_rate,
+    savedAt: row.saved_at,
+    ...((items.length > 0 || row.total_count === 0) && { items }),
+  };
+}
+
+/**
+ * Reads the item tombstones stored on a task row, skipping malformed entries
+ */
+function readRowTombstones(value: unknown): Tombstone[] {
+  return Array.isArray(value) ? value.filter((tombstone) => isValidTombstone(tombstone)) : [];
+}
+
 /**
  * Syncs tasks to cloud storage
+ * Each row stores the task's tags with their name and color, so other
+ * devices can restore the tag definitions.
+ * Deleted tasks keep their row with `deleted_at` set, so other devices
+ * remove them too. Every row sent gets the current time as `synced_at`,
+ * which delta syncs on other devices pull by.
  *
  * @param tasks - Local tasks to sync
+ * @param tags - Tag definitions used by the tasks
+ * @param tombstones - Tombstones of deleted tasks
  * @returns Sync result
  */
-export async function syncTasksToCloud(tasks: Task[]): Promise<SyncResult> {
+export async function syncTasksToCloud(
+  tasks: Task[],
+  tags: Tag[] = [],
+  tombstones: Tombstone[] = []
+): Promise<SyncResult> {
   if (!isSupabaseConfigured()) {
     logger.warn('Supabase not configured, skipping cloud sync');
     return {
@@ -69,6 +161,8 @@ export async function syncTasksToCloud(tasks: Task[]): Promise<SyncResult> {
     const userId = session.user.id;
 
     // Upsert tasks (insert or update)
+    // `synced_at` isn't sent: the server sets it on every write, so the delta
+    // sync cursor doesn't depend on the clocks of the devices
     const tasksToSync = tasks.map((task) => ({
       id: task.id,
       user_id: userId,
@@ -77,9 +171,25 @@ export async function syncTasksToCloud(tasks: Task[]): Promise<SyncResult> {
       created_at: task.createdAt,
       updated_at: task.updatedAt,
       schema_version: task.schemaVersion || 1,
+      sort_order: task.order ?? null,
+      archived_at: task.archivedAt ?? null,
+      tags: getTaskTags(task, tags),
+      fields_updated_at: task.fieldsUpdatedAt ?? null,
+      deleted_items: task.deletedItems || [],
+      deleted_at: null,
     }));
 
-    const { error } = await supabase.from('tasks').upsert(tasksToSync, {
+    // Deleted tasks keep an empty row marking the deletion
+    const tombstonesToSync = tombstones.map((tombstone) => ({
+      id: tombstone.id,
+      user_id: userId,
+      title: '',
+      items: [],
+      updated_at: tombstone.deletedAt,
+      deleted_at: tombstone.deletedAt,
+    }));
+
+    const { error } = await supabase.from('tasks').upsert([...tasksToSync, ...tombstonesToSync], {
       onConflict: 'id',
     });
 
@@ -94,6 +204,7 @@ export async function syncTasksToCloud(tasks: Task[]): Promise<SyncResult> {
 
     logger.info('Tasks synced to cloud successfully', {
       tasksSynced: tasks.length,
+      tombstonesSynced: tombstones.length,
     });
 
     timer.end();
@@ -114,18 +225,20 @@ export async function syncTasksToCloud(tasks: Task[]): Promise<SyncResult> {
 /**
  * Syncs tasks from cloud storage
  *
- * @returns Synced tasks or empty array
+ * @param since - Only pull rows written after this time (ISO 8601); every row if omitted
+ * @returns Synced tasks, their tag definitions, task tombstones and the latest `synced_at` pulled
+ * @throws {Error} If the pull fails; an empty result would look like nothing changed
+ *   and the sync would be reported (and its cursor advanced) as successful
  */
-export async function syncTasksFromCloud(): Promise<Task[]> {
+export async function syncTasksFromCloud(since?: string): Promise<CloudTasks> {
   if (!isSupabaseConfigured()) {
-    logger.warn('Supabase not configured, skipping cloud sync');
-    return [];
+    throw new Error('Supabase not configured');
   }
 
   const timer = logger.startTimer('Sync tasks from cloud');
 
   try {
-    logger.debug('Syncing tasks from cloud');
+    logger.debug('Syncing tasks from cloud', { since });
 
     // Get current user
     const {
@@ -133,128 +246,220 @@ export async function syncTasksFromCloud(): Promise<Task[]> {
     } = await supabase.auth.getSession();
 
     if (!session) {
-      logger.warn('No active session, cannot sync from cloud');
-      timer.end();
-      return [];
+      throw new Error('No active session');
     }
 
-    // Fetch tasks for current user
-    const { data, error } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('user_id', session.user.id)
-      .order('updated_at', { ascending: false });
+    // Fetch tasks for current user (only rows written since the cursor, if given)
+    let query = supabase.from('tasks').select('*').eq('user_id', session.user.id);
+    if (since) {
+      query = query.gt('synced_at', since);
+    }
+
+    const { data, error } = await query.order('updated_at', { ascending: false });
 
     if (error) {
-      logger.error('Failed to sync tasks from cloud', error);
-      timer.end();
-      return [];
+      throw new Error(error.message);
     }
 
-    // Convert database rows to Task objects
-    const tasks: Task[] = (data || []).map((row) => ({
-      id: row.id,
-      title: row.title,
-      items: row.items,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-      schemaVersion: row.schema_version,
-    }));
+    // Convert database rows to Task objects, collecting the tag definitions
+    // Rows of deleted tasks become tombstones
+    let tags: Tag[] = [];
+    const tasks: Task[] = [];
+    const tombstones: Tombstone[] = [];
+    let latestSyncedAt: string | undefined;
+
+    (data || []).forEach((row) => {
+      latestSyncedAt = advanceHighWaterMark(latestSyncedAt, row.synced_at);
+
+      if (row.deleted_at) {
+        tombstones.push({ id: row.id, deletedAt: row.deleted_at });
+        return;
+      }
+
+      const rowTags = readRowTags(row.tags);
+      const deletedItems = readRowTombstones(row.deleted_items);
+      tags = mergeTags(tags, rowTags);
+
+      tasks.push({
+        id: row.id,
+        title: row.title,
+        items: normalizeItemTree(row.items || []),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        schemaVersion: row.schema_version,
+        order: row.sort_order ?? undefined,
+        ...(row.archived_at && { archivedAt: row.archived_at }),
+        ...(rowTags.length > 0 && { tagIds: rowTags.map((tag) => tag.id) }),
+        ...(row.fields_updated_at && { fieldsUpdatedAt: row.fields_updated_at }),
+        ...(deletedItems.length > 0 && { deletedItems }),
+      });
+    });
 
     logger.info('Tasks synced from cloud successfully', {
+      since,
       taskCount: tasks.length,
+      tagCount: tags.length,
+      tombstoneCount: tombstones.length,
     });
 
     timer.end();
-    return tasks;
+    return { tasks, tags, tombstones, latestSyncedAt };
   } catch (error) {
-    logger.error('Unexpected error syncing tasks from cloud', error as Error);
+    logger.error('Failed to sync tasks from cloud', error as Error);
     timer.end();
-    return [];
+    throw error;
   }
 }
 
 /**
- * Merges local and cloud tasks using last-write-wins strategy
+ * Merges local and cloud tasks item by item (see utils/syncMerge.ts)
+ * - Changes to different items of the same task are all kept
+ * - The newer version of an item or of a task's own fields wins
+ * - Tasks and items with a tombstone newer than their last change are removed
+ * The result is sorted by the tasks' manual order
  *
  * @param localTasks - Tasks from local storage
  * @param cloudTasks - Tasks from cloud storage
+ * @param tombstones - Task tombstones from both sides
  * @returns Merged tasks
  */
-export function mergeTasks(localTasks: Task[], cloudTasks: Task[]): Task[] {
-  const merged = new Map<string, Task>();
-
-  // Add all local tasks
-  localTasks.forEach((task) => {
-    merged.set(task.id, task);
+export function mergeTasks(
+  localTasks: Task[],
+  cloudTasks: Task[],
+  tombstones: Tombstone[] = []
+): Task[] {
+  const merged = mergeTaskLists(localTasks, cloudTasks, tombstones);
+
+  logger.debug('Tasks merged', {
+    localCount: localTasks.length,
+    cloudCount: cloudTasks.length,
+    mergedCount: merged.length,
   });
 
-  // Merge cloud tasks (keep newer version)
-  cloudTasks.forEach((cloudTask) => {
-    const localTask = merged.get(cloudTask.id);
-
-    if (!localTask) {
-      // New task from cloud
-      merged.set(cloudTask.id, cloudTask);
-    } else {
-      // Conflict: keep newer version based on updatedAt
-      const localUpdatedAt = new Date(localTask.updatedAt).getTime();
-      const cloudUpdatedAt = new Date(cloudTask.updatedAt).getTime();
-
-      if (cloudUpdatedAt > localUpdatedAt) {
-        merged.set(cloudTask.id, cloudTask);
-        logger.debug('Cloud task is newer, using cloud version', {
-          taskId: cloudTask.id,
-        });
-      } else {
-        logger.debug('Local task is newer, keeping local version', {
-          taskId: localTask.id,
-        });
-      }
-    }
-  });
-
-  return Array.from(merged.values());
+  // Keep the manual task order (tasks without one go last)
+  return sortTasksByOrder(merged);
 }
 
 /**
- * Performs a full sync: pull from cloud, merge, push to cloud
+ * Performs a sync: pull from cloud, merge, push to cloud
+ * After the first sync, only task rows sent since the last sync are pulled
+ * and only the tasks changed on this device (or combined by the merge) are
+ * pushed (see utils/deltaSync.ts). Clearing the sync state (see
+ * services/syncState.ts) makes the next sync a full one.
+ * Tags from the cloud that aren't known locally are added to the tag list.
+ * Tombstones from both sides are combined; tasks changed after their
+ * deletion lose their tombstone.
+ * Daily records and settings are synced too (see syncDailyRecords and
+ * syncSettings); a failure there is logged and retried on the next sync
+ * without failing the task sync.
  *
  * @param localTasks - Current local tasks
- * @returns Merged tasks and sync result
+ * @param localTags - Current local tag definitions
+ * @param localTombstones - Tombstones of tasks deleted locally
+ * @param localSettings - Current local settings (settings aren't synced if omitted)
+ * @param pendingOperations - Changes queued in the sync outbox (everything is
+ *   pushed if omitted)
+ * @returns Merged tasks, merged tags, merged tombstones, the dates of the
+ *   daily records updated from the cloud, the roaming settings stored in the
+ *   cloud (null if not synced) and sync result
  */
-export async function performFullSync(localTasks: Task[]): Promise<{
+export async function performFullSync(
+  localTasks: Task[],
+  localTags: Tag[] = [],
+  localTombstones: Tombstone[] = [],
+  localSettings?: AppSettings,
+  pendingOperations?: SyncOperation[]
+): Promise<{
   tasks: Task[];
+  tags: Tag[];
+  tombstones: Tombstone[];
+  recordDates: string[];
+  settings: RoamingSettings | null;
   result: SyncResult;
 }> {
   const timer = logger.startTimer('Perform full sync');
 
   try {
-    // Step 1: Pull from cloud
-    const cloudTasks = await syncTasksFromCloud();
+    // Step 1: Pull from cloud (everything on the first sync)
+    const syncState = await loadSyncState();
+    const since = getTaskPullCursor(syncState.tasksSyncedUntil);
+    const {
+      tasks: cloudTasks,
+      tags: cloudTags,
+      tombstones: cloudTombstones,
+      latestSyncedAt,
+    } = await syncTasksFromCloud(since);
 
     // Step 2: Merge
-    const mergedTasks = mergeTasks(localTasks, cloudTasks);
+    const tombstones = mergeTombstones(localTombstones, cloudTombstones);
+    const mergedTasks = mergeTasks(localTasks, cloudTasks, tombstones);
+    const mergedTags = mergeTags(localTags, cloudTags);
+    const mergedTombstones = removeTombstonesFor(tombstones, mergedTasks);
+
+    // Step 3: Push to cloud (only what changed, after the first sync)
+    const isDelta = since !== undefined && pendingOperations !== undefined;
+    const tasksToPush = isDelta
+      ? selectTasksToPush(mergedTasks, localTasks, cloudTasks, pendingOperations)
+      : mergedTasks;
+    const tombstonesToPush = isDelta
+      ? selectTombstonesToPush(mergedTombstones, pendingOperations)
+      : mergedTombstones;
+    const result =
+      tasksToPush.length > 0 || tombstonesToPush.length > 0
+        ? await syncTasksToCloud(tasksToPush, mergedTags, tombstonesToPush)
+        : { success: true, tasksSynced: 0 };
+
+    // Later syncs pull from the latest row seen; a failed push pulls the same rows again
+    if (result.success && latestSyncedAt) {
+      await updateSyncState({
+        tasksSyncedUntil: advanceHighWaterMark(syncState.tasksSyncedUntil, latestSyncedAt),
+      });
+    }
+
+    // Step 4: Daily records (pull, merge and push)
+    const records = result.success
+      ? await syncDailyRecords()
+      : { pulledDates: [], result: { success: false } };
+    if (result.success && !records.result.success) {
+      logger.warn('Daily records not synced', { error: records.result.error });
+    }
 
-    // Step 3: Push to cloud
-    const result = await syncTasksToCloud(mergedTasks);
+    // Step 5: Settings (pull, merge and push)
+    const settings =
+      result.success && localSettings
+        ? await syncSettings(localSettings)
+        : { settings: null, result: { success: false } };
+    if (result.success && localSettings && !settings.result.success) {
+      logger.warn('Settings not synced', { error: settings.result.error });
+    }
 
     logger.info('Full sync completed', {
+      delta: isDelta,
       localCount: localTasks.length,
       cloudCount: cloudTasks.length,
       mergedCount: mergedTasks.length,
+      pushedCount: tasksToPush.length + tombstonesToPush.length,
+      recordsPulled: records.pulledDates.length,
     });
 
     timer.end();
     return {
       tasks: mergedTasks,
-      result,
+      tags: mergedTags,
+      tombstones: mergedTombstones,
+      recordDates: records.pulledDates,
+      settings: settings.settings,
+      result: { ...result, recordsSynced: records.result.recordsSynced },
     };
   } catch (error) {
     logger.error('Full sync failed', error as Error);
     timer.end();
     return {
       tasks: localTasks,
+      tags: localTags,
+      tombstones: localTombstones,
+      recordDates: [],
+      settings: null,
       result: {
         success: false,
         error: (error as Error).message,
@@ -264,12 +469,56 @@ export async function performFullSync(localTasks: Task[]): Promise<{
 }
 
 /**
- * Syncs a single daily record to cloud
+ * Syncs the roaming settings from cloud storage
  *
- * @param record - Daily record to sync
+ * @returns Stored settings (null if none were stored yet) and sync result
+ */
+export async function syncSettingsFromCloud(): Promise<{
+  settings: RoamingSettings | null;
+  result: SyncResult;
+}> {
+  if (!isSupabaseConfigured()) {
+    return { settings: null, result: { success: false, error: 'Supabase not configured' } };
+  }
+
+  try {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { settings: null, result: { success: false, error: 'No active session' } };
+    }
+
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('*')
+      .eq('user_id', session.user.id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to sync settings from cloud', error);
+      return { settings: null, result: { success: false, error: error.message } };
+    }
+
+    const row = data as UserSettingsRow | null;
+    return {
+      settings: row ? parseRoamingSettings(row.settings, row.settings_updated_at) : null,
+      result: { success: true },
+    };
+  } catch (error) {
+    logger.error('Unexpected error syncing settings from cloud', error as Error);
+    return { settings: null, result: { success: false, error: (error as Error).message } };
+  }
+}
+
+/**
+ * Syncs the roaming settings to cloud, one row per user
+ *
+ * @param settings - Settings to store
  * @returns Sync result
  */
-export async function syncDailyRecordToCloud(record: DailyRecord): Promise<SyncResult> {
+export async function syncSettingsToCloud(settings: RoamingSettings): Promise<SyncResult> {
   if (!isSupabaseConfigured()) {
     return {
       success: false,
@@ -289,8 +538,94 @@ export async function syncDailyRecordToCloud(record: DailyRecord): Promise<SyncR
       };
     }
 
-    const { error } = await supabase.from('daily_records').upsert(
+    const { error } = await supabase.from('user_settings').upsert(
       {
+        user_id: session.user.id,
+        settings: settings.values,
+        settings_updated_at: settings.updatedAt,
+        updated_at: new Date().toISOString(),
+      },
+      {
+        onConflict: 'user_id',
+      }
+    );
+
+    if (error) {
+      logger.error('Failed to sync settings to cloud', error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Unexpected error syncing settings', error as Error);
+    return {
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Syncs the roaming settings both ways: pulls them, merges them with the
+ * local ones setting by setting and pushes the result if the local side
+ * had newer changes. Applying the merged settings is up to the caller
+ * (see mergeRoamingSettings).
+ *
+ * @param localSettings - Current local settings
+ * @returns Roaming settings stored in the cloud after the sync and sync result
+ */
+export async function syncSettings(
+  localSettings: AppSettings
+): Promise<{ settings: RoamingSettings | null; result: SyncResult }> {
+  const pulled = await syncSettingsFromCloud();
+  if (!pulled.result.success) {
+    return pulled;
+  }
+
+  const merged = mergeRoamingSettings(localSettings, pulled.settings);
+  if (!merged.pushNeeded) {
+    return { settings: merged.cloud, result: { success: true } };
+  }
+
+  const result = await syncSettingsToCloud(merged.cloud);
+  return { settings: result.success ? merged.cloud : pulled.settings, result };
+}
+
+/**
+ * Syncs daily records to cloud, one row per user and date
+ *
+ * @param records - Daily records to sync
+ * @returns Sync result
+ */
+export async function syncDailyRecordsToCloud(records: DailyRecord[]): Promise<SyncResult> {
+  if (!isSupabaseConfigured()) {
+    return {
+      success: false,
+      error: 'Supabase not configured',
+    };
+  }
+
+  if (records.length === 0) {
+    return { success: true, recordsSynced: 0 };
+  }
+
+  try {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return {
+        success: false,
+        error: 'No active session',
+      };
+    }
+
+    const { error } = await supabase.from('daily_records').upsert(
+      records.map((record) => ({
         user_id: session.user.id,
         date: record.date,
         completed_count: record.completedCount,
@@ -298,14 +633,14 @@ export async function syncDailyRecordToCloud(record: DailyRecord): Promise<SyncR
         completion_rate: record.completionRate,
         saved_at: record.savedAt,
         items: record.items || [],
-      },
+      })),
       {
         onConflict: 'user_id,date',
       }
     );
 
     if (error) {
-      logger.error('Failed to sync daily record to cloud', error);
+      logger.error('Failed to sync daily records to cloud', error);
       return {
         success: false,
         error: error.message,
@@ -314,10 +649,178 @@ export async function syncDailyRecordToCloud(record: DailyRecord): Promise<SyncR
 
     return {
       success: true,
-      recordsSynced: 1,
+      recordsSynced: records.length,
+    };
+  } catch (error) {
+    logger.error('Unexpected error syncing daily records', error as Error);
+    return {
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Syncs a single daily record to cloud
+ *
+ * @param record - Daily record to sync
+ * @returns Sync result
+ */
+export async function syncDailyRecordToCloud(record: DailyRecord): Promise<SyncResult> {
+  return syncDailyRecordsToCloud([record]);
+}
+
+/**
+ * Syncs daily records from cloud storage
+ *
+ * @param fromDate - First date to fetch (YYYY-MM-DD); every record if omitted
+ * @returns Fetched records and sync result
+ */
+export async function syncDailyRecordsFromCloud(
+  fromDate?: string
+): Promise<{ records: DailyRecord[]; result: SyncResult }> {
+  if (!isSupabaseConfigured()) {
+    return { records: [], result: { success: false, error: 'Supabase not configured' } };
+  }
+
+  try {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return { records: [], result: { success: false, error: 'No active session' } };
+    }
+
+    let query = supabase.from('daily_records').select('*').eq('user_id', session.user.id);
+    if (fromDate) {
+      query = query.gte('date', fromDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('Failed to sync daily records from cloud', error);
+      return { records: [], result: { success: false, error: error.message } };
+    }
+
+    const records = (data || []).map((row) => toDailyRecord(row));
+    logger.debug('Daily records synced from cloud', { fromDate, recordCount: records.length });
+
+    return { records, result: { success: true, recordsSynced: records.length } };
+  } catch (error) {
+    logger.error('Unexpected error syncing daily records from cloud', error as Error);
+    return { records: [], result: { success: false, error: (error as Error).message } };
+  }
+}
+
+/**
+ * Syncs daily records both ways (see utils/recordSync.ts):
+ * 1. Pulls the records from a few days before the last sync onwards
+ *    (every record on the first sync)
+ * 2. Keeps the record saved last for each date and saves the ones pulled
+ * 3. Pushes the records the cloud doesn't have yet or has an older version of
+ *
+ * @returns Dates of the records updated from the cloud and sync result
+ */
+export async function syncDailyRecords(): Promise<{ pulledDates: string[]; result: SyncResult }> {
+  const timer = logger.startTimer('Sync daily records');
+
+  try {
+    const syncState = await loadSyncState();
+    const pullStartDate = getRecordPullStartDate(syncState.recordsSyncedDate);
+    const startedAt = new Date().toISOString();
+
+    const pulled = await syncDailyRecordsFromCloud(pullStartDate);
+    if (!pulled.result.success) {
+      timer.end();
+      return { pulledDates: [], result: pulled.result };
+    }
+
+    const localData = await loadDailyRecords();
+    const { records, pulledDates } = mergeDailyRecords(localData.records, pulled.records);
+    if (pulledDates.length > 0) {
+      await saveDailyRecords({ ...localData, records });
+    }
+
+    const toPush = getRecordsToPush(
+      records,
+      pulled.records,
+      pullStartDate,
+      syncState.recordsPushedAt
+    );
+    const pushResult = await syncDailyRecordsToCloud(toPush);
+    if (!pushResult.success) {
+      timer.end();
+      return { pulledDates, result: pushResult };
+    }
+
+    await updateSyncState({ recordsSyncedDate: getTodayKey(), recordsPushedAt: startedAt });
+
+    logger.info('Daily records synced', {
+      pullStartDate,
+      pulledCount: pulledDates.length,
+      pushedCount: toPush.length,
+    });
+
+    timer.end();
+    return {
+      pulledDates,
+      result: { success: true, recordsSynced: pulledDates.length + toPush.length },
+    };
+  } catch (error) {
+    logger.error('Unexpected error syncing daily records', error as Error);
+    timer.end();
+    return { pulledDates: [], result: { success: false, error: (error as Error).message } };
+  }
+}
+
+/**
+ * Removes the item snapshots of cloud daily records before a date,
+ * so the cloud keeps the same detail as the device (see utils/recordRetention).
+ * Safe to repeat; records already compacted are left as they are.
+ *
+ * @param cutoffDate - First date whose record keeps its items (YYYY-MM-DD)
+ * @returns Sync result
+ */
+export async function compactCloudDailyRecords(cutoffDate: string): Promise<SyncResult> {
+  if (!isSupabaseConfigured()) {
+    return {
+      success: false,
+      error: 'Supabase not configured',
     };
+  }
+
+  try {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return {
+        success: false,
+        error: 'No active session',
+      };
+    }
+
+    const { error } = await supabase
+      .from('daily_records')
+      .update({ items: [] })
+      .eq('user_id', session.user.id)
+      .lt('date', cutoffDate);
+
+    if (error) {
+      logger.error('Failed to compact cloud daily records', error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    logger.info('Cloud daily records compacted', { cutoffDate });
+    return { success: true };
   } catch (error) {
-    logger.error('Unexpected error syncing daily record', error as Error);
+    logger.error('Unexpected error compacting cloud daily records', error as Error);
     return {
       success: false,
       error: (error as Error).message,
@@ -3,25 +3,54 @@
  *
  * Manages daily completion records for the calendar visualization.
  * Records are saved automatically at the configured time (default: midnight).
- * Data is encrypted using platform-native encryption (iOS: Keychain, Android: EncryptedSharedPreferences).
+ * Data is encrypted with a key kept in the platform keystore (see encryptedStorage).
  *
  * Extended to support:
  * - Daily snapshots of completed/incomplete items (past dates)
  * - Scheduled items for future planning (future dates)
+ * - Compacting old records down to their counts (see utils/recordRetention)
+ *
+ * The records are kept in memory once loaded, so looking up one date
+ * (e.g. for every day of the calendar) doesn't decrypt the whole map again.
  */
 
-import { DailyRecord, DailyRecordsData, DailyRecordItem, Task } from '../types';
+import { ChecklistItem, DailyRecord, DailyRecordsData, DailyRecordItem, Task } from '../types';
 import { logger } from '../utils/logger';
+import { isItemScheduledOn } from '../utils/recurrence';
+import { isItemDoneOn } from '../utils/completion';
+import { flattenItemTree } from '../utils/itemTree';
+import { sortByPlanOrder } from '../utils/reorder';
+import { compactDailyRecords } from '../utils/recordRetention';
 import { saveEncrypted, loadEncrypted } from './encryptedStorage';
+import { createMigrationContext, dailyRecordsMigrations, runMigrations } from './migrations';
 
 // Encrypted storage key for daily records
 // Note: expo-secure-store only allows alphanumeric, ".", "-", and "_"
 const DAILY_RECORDS_KEY = 'split_todo.daily_records';
 
+// Current schema version of daily records (see migrations.ts)
+const DAILY_RECORDS_SCHEMA_VERSION = dailyRecordsMigrations.latestVersion;
+
+// Records as last loaded or saved (null until first loaded)
+let cachedRecords: DailyRecordsData | null = null;
+
 /**
  * Loads all daily records from encrypted storage.
+ * Returns a copy of the map, so callers can change it before saving.
  */
 export const loadDailyRecords = async (): Promise<DailyRecordsData> => {
+  const data = await readDailyRecords();
+  return { ...data, records: { ...data.records } };
+};
+
+/**
+ * Reads the daily records, from memory once loaded.
+ */
+const readDailyRecords = async (): Promise<DailyRecordsData> => {
+  if (cachedRecords) {
+    return cachedRecords;
+  }
+
   try {
     logger.debug('Loading daily records from encrypted storage');
 
@@ -30,31 +59,47 @@ export const loadDailyRecords = async (): Promise<DailyRecordsData> => {
     if (!data) {
       logger.info('No daily records found, returning empty data');
       return {
-        schemaVersion: 1,
+        schemaVersion: DAILY_RECORDS_SCHEMA_VERSION,
         records: {},
       };
     }
 
-    // Validate schema version
-    if (data.schemaVersion !== 1) {
+    // Validate schema version (written by a newer version of the app)
+    if (data.schemaVersion > DAILY_RECORDS_SCHEMA_VERSION) {
       logger.warn('Unsupported schema version', { version: data.schemaVersion });
-      // In the future, handle migrations here
       return {
-        schemaVersion: 1,
+        schemaVersion: DAILY_RECORDS_SCHEMA_VERSION,
         records: {},
       };
     }
 
+    // Run schema migration if needed
+    const { data: migratedData, applied } = runMigrations(
+      data,
+      dailyRecordsMigrations,
+      createMigrationContext(getTodayKey())
+    );
+
+    // Save the migrated data so the migration runs only once
+    if (applied.length > 0) {
+      try {
+        await saveDailyRecords(migratedData);
+      } catch (error) {
+        logger.warn('Failed to save migrated daily records', error as Error);
+      }
+    }
+
     logger.info('Daily records loaded successfully', {
-      recordCount: Object.keys(data.records).length,
+      recordCount: Object.keys(migratedData.records).length,
     });
 
-    return data;
+    cachedRecords = migratedData;
+    return migratedData;
   } catch (error) {
     logger.error('Failed to load daily records', error as Error);
     // Return empty data on error
     return {
-      schemaVersion: 1,
+      schemaVersion: DAILY_RECORDS_SCHEMA_VERSION,
       records: {},
     };
   }
@@ -70,6 +115,7 @@ export const saveDailyRecords = async (data: DailyRecordsData): Promise<void> =>
     });
 
     await saveEncrypted(DAILY_RECORDS_KEY, data);
+    cachedRecords = data;
 
     logger.info('Daily records saved successfully');
   } catch (error) {
@@ -113,7 +159,7 @@ export const getDailyRecord = async (date: string): Promise<DailyRecord | undefi
   try {
     logger.debug('Getting daily record', { date });
 
-    const data = await loadDailyRecords();
+    const data = await readDailyRecords();
     const record = data.records[date];
 
     if (record) {
@@ -140,7 +186,7 @@ export const getDailyRecordsRange = async (
   try {
     logger.debug('Getting daily records range', { startDate, endDate });
 
-    const data = await loadDailyRecords();
+    const data = await readDailyRecords();
     const rangeRecords: Record<string, DailyRecord> = {};
 
     // Filter records within the date range
@@ -192,7 +238,7 @@ export const clearAllDailyRecords = async (): Promise<void> => {
     logger.warn('Clearing all daily records');
 
     const emptyData: DailyRecordsData = {
-      schemaVersion: 1,
+      schemaVersion: DAILY_RECORDS_SCHEMA_VERSION,
       records: {},
     };
 
@@ -205,6 +251,60 @@ export const clearAllDailyRecords = async (): Promise<void> => {
   }
 };
 
+/**
+ * Deletes every daily record before a date.
+ * USE WITH CAUTION - this operation cannot be undone.
+ *
+ * @param date - First date to keep (YYYY-MM-DD)
+ * @returns Number of records deleted
+ */
+export const deleteDailyRecordsBefore = async (date: string): Promise<number> => {
+  try {
+    logger.debug('Deleting daily records before date', { date });
+
+    const data = await loadDailyRecords();
+    const oldDates = Object.keys(data.records).filter((recordDate) => recordDate < date);
+
+    if (oldDates.length > 0) {
+      oldDates.forEach((recordDate) => {
+        delete data.records[recordDate];
+      });
+      await saveDailyRecords(data);
+    }
+
+    logger.info('Old daily records deleted', { date, deletedCount: oldDates.length });
+    return oldDates.length;
+  } catch (error) {
+    logger.error('Failed to delete old daily records', error as Error);
+    throw error;
+  }
+};
+
+/**
+ * Removes the item snapshots of records before a date, keeping their counts.
+ *
+ * @param cutoffDate - First date whose record keeps its items (YYYY-MM-DD)
+ * @returns Dates of the records compacted
+ */
+export const compactDailyRecordsBefore = async (cutoffDate: string): Promise<string[]> => {
+  try {
+    const { data, compactedDates } = compactDailyRecords(await readDailyRecords(), cutoffDate);
+
+    if (compactedDates.length > 0) {
+      await saveDailyRecords(data);
+      logger.info('Old daily records compacted', {
+        cutoffDate,
+        compactedCount: compactedDates.length,
+      });
+    }
+
+    return compactedDates;
+  } catch (error) {
+    logger.error('Failed to compact daily records', error as Error);
+    throw error;
+  }
+};
+
 /**
  * Formats a Date object to YYYY-MM-DD string (local timezone).
  */
@@ -225,33 +325,45 @@ export const getTodayKey = (): string => {
 /**
  * Creates a daily record snapshot from current tasks.
  * Captures all items marked as "today" with their current completion status.
+ * Recurring items are expanded for the date and use that occurrence's completion.
+ * Nested items are included with the ID of their parent item.
+ * Items are ordered by the day's plan (see ChecklistItem.planOrder).
  */
 export const createDailySnapshot = (date: string, tasks: Task[]): DailyRecord => {
   logger.debug('Creating daily snapshot', { date });
 
-  const items: DailyRecordItem[] = [];
-  let order = 0;
+  const scheduled: Array<{ task: Task; item: ChecklistItem; parentId?: string }> = [];
 
-  // Collect all items scheduled for this date
+  // Collect all items scheduled for this date, including nested ones
+  // (archived tasks aren't part of any plan)
   tasks.forEach((task) => {
-    task.items.forEach((item) => {
-      // Check both scheduledDates (new) and isToday (legacy)
-      const scheduledDates = item.scheduledDates || [];
-      const isScheduled = scheduledDates.includes(date) || item.isToday === true;
+    if (task.archivedAt) {
+      return;
+    }
+
+    flattenItemTree(task.items).forEach(({ item, parentId }) => {
+      // Check scheduledDates and recurrence (new) and isToday (legacy)
+      const isScheduled = isItemScheduledOn(item, date) || item.isToday === true;
 
       if (isScheduled) {
-        items.push({
-          id: item.id,
-          taskId: task.id,
-          taskTitle: task.title,
-          title: item.title,
-          done: item.done,
-          order: order++,
-        });
+        scheduled.push({ task, item, parentId });
       }
     });
   });
 
+  // Order follows the day's plan as arranged on the Today screen
+  const items: DailyRecordItem[] = sortByPlanOrder(scheduled, date).map(
+    ({ task, item, parentId }, order) => ({
+      id: item.id,
+      taskId: task.id,
+      taskTitle: task.title,
+      title: item.title,
+      done: isItemDoneOn(item, date),
+      order,
+      parentId,
+    })
+  );
+
   // Calculate completion stats
   const completedCount = items.filter((item) => item.done).length;
   const totalCount = items.length;
@@ -416,3 +528,11 @@ export const removeItemFromDateSchedule = async (date: string, itemId: string):
     throw error;
   }
 };
+
+/**
+ * Export constants for testing and external use
+ */
+export const DAILY_RECORDS_CONSTANTS = {
+  DAILY_RECORDS_KEY,
+  DAILY_RECORDS_SCHEMA_VERSION,
+};
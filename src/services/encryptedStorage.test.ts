@@ -0,0 +1,388 @@
+/**
+ * Encrypted Storage Test Suite
+ *
+ * Tests authenticated encryption, chunked payloads, tamper detection
+ * and migration of plain data written by older versions.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import {
+  saveEncrypted,
+  loadEncrypted,
+  removeEncrypted,
+  encryptString,
+  decryptString,
+  ENCRYPTION_CONSTANTS,
+} from './encryptedStorage';
+import { createEncryptedStorageAdapter, createMemoryStorageAdapter } from './storageAdapter';
+import { createEmptyData, loadAppData, saveAppData, setStorageAdapter } from './storage';
+import { ErrorCode } from '../types';
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(),
+  setItemAsync: jest.fn(),
+  deleteItemAsync: jest.fn(),
+}));
+
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+const mockSecureStore = SecureStore as jest.Mocked<typeof SecureStore>;
+
+const { ENCRYPTION_KEY_NAME, KEY_MARKER_NAME, CHUNK_SIZE, ENCRYPTED_KEY_PREFIX } =
+  ENCRYPTION_CONSTANTS;
+
+describe('Encrypted Storage', () => {
+  let asyncItems: Map<string, string>;
+  let secureItems: Map<string, string>;
+
+  // Stored chunk keys of a storage key
+  function getChunkKeys(key: string): string[] {
+    return [...asyncItems.keys()].filter((k) => k.startsWith(`${ENCRYPTED_KEY_PREFIX}${key}:`));
+  }
+
+  // Backs the storage mocks with the maps of the current test
+  function mockStorage(
+    asyncStorage: jest.Mocked<typeof AsyncStorage>,
+    secureStore: jest.Mocked<typeof SecureStore>
+  ) {
+    asyncStorage.getItem.mockImplementation(async (key) => asyncItems.get(key) ?? null);
+    asyncStorage.setItem.mockImplementation(async (key, value) => {
+      asyncItems.set(key, value);
+    });
+    asyncStorage.removeItem.mockImplementation(async (key) => {
+      asyncItems.delete(key);
+    });
+    asyncStorage.multiGet.mockImplementation(async (keys) =>
+      keys.map((key) => [key, asyncItems.get(key) ?? null])
+    );
+    asyncStorage.multiSet.mockImplementation(async (entries) => {
+      entries.forEach(([key, value]) => asyncItems.set(key, value));
+    });
+    asyncStorage.getAllKeys.mockImplementation(async () => [...asyncItems.keys()]);
+    asyncStorage.multiRemove.mockImplementation(async (keys) => {
+      keys.forEach((key) => asyncItems.delete(key));
+    });
+
+    secureStore.getItemAsync.mockImplementation(async (key) => secureItems.get(key) ?? null);
+    secureStore.setItemAsync.mockImplementation(async (key, value) => {
+      secureItems.set(key, value);
+    });
+    secureStore.deleteItemAsync.mockImplementation(async (key) => {
+      secureItems.delete(key);
+    });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    asyncItems = new Map();
+    // The encryption key persists across tests, like the keystore across app starts
+    secureItems = new Map(
+      [...(secureItems?.entries() ?? [])].filter(([key]) => key === ENCRYPTION_KEY_NAME)
+    );
+
+    mockStorage(mockAsyncStorage, mockSecureStore);
+  });
+
+  describe('saveEncrypted / loadEncrypted', () => {
+    it('should save and load data', async () => {
+      const data = { schemaVersion: 1, records: { '2025-11-06': { total: 3 } } };
+
+      await saveEncrypted('records', data);
+
+      expect(await loadEncrypted('records')).toEqual(data);
+    });
+
+    it('should keep only the encryption key in SecureStore', async () => {
+      await saveEncrypted('records', { title: '비밀 계획' });
+
+      expect([...secureItems.keys()]).toEqual([ENCRYPTION_KEY_NAME]);
+      expect(secureItems.get(ENCRYPTION_KEY_NAME)).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should not store plain data', async () => {
+      await saveEncrypted('records', { title: 'secret plan' });
+
+      const stored = [...asyncItems.values()].join('');
+      expect(stored).not.toContain('secret plan');
+    });
+
+    it('should split large payloads into chunks', async () => {
+      const data = { text: 'x'.repeat(CHUNK_SIZE * 2) };
+
+      await saveEncrypted('large', data);
+
+      expect(getChunkKeys('large').length).toBeGreaterThanOrEqual(3);
+      getChunkKeys('large').forEach((key) => {
+        expect(asyncItems.get(key)!.length).toBeLessThanOrEqual(CHUNK_SIZE);
+      });
+      expect(await loadEncrypted('large')).toEqual(data);
+    });
+
+    it('should replace the chunks of the previous save', async () => {
+      await saveEncrypted('records', { version: 1 });
+      const firstChunks = getChunkKeys('records');
+
+      await saveEncrypted('records', { version: 2 });
+
+      firstChunks.forEach((key) => expect(asyncItems.has(key)).toBe(false));
+      expect(await loadEncrypted('records')).toEqual({ version: 2 });
+    });
+
+    it('should return null when nothing is stored', async () => {
+      expect(await loadEncrypted('missing')).toBeNull();
+    });
+  });
+
+  describe('tamper detection', () => {
+    it('should reject a modified chunk', async () => {
+      await saveEncrypted('records', { total: 3 });
+      const [chunkKey] = getChunkKeys('records');
+      const chunk = asyncItems.get(chunkKey)!;
+      const flipped = chunk[40] === 'A' ? 'B' : 'A';
+      asyncItems.set(chunkKey, chunk.slice(0, 40) + flipped + chunk.slice(41));
+
+      expect(await loadEncrypted('records')).toBeNull();
+    });
+
+    it('should reject a payload with a missing chunk', async () => {
+      await saveEncrypted('large', { text: 'x'.repeat(CHUNK_SIZE) });
+      asyncItems.delete(getChunkKeys('large')[1]);
+
+      expect(await loadEncrypted('large')).toBeNull();
+    });
+
+    it('should reject chunks copied from another key', async () => {
+      await saveEncrypted('a', { owner: 'a' });
+      await saveEncrypted('b', { owner: 'b' });
+
+      const manifestA = JSON.parse(asyncItems.get(`${ENCRYPTED_KEY_PREFIX}a`)!);
+      const [chunkKeyB] = getChunkKeys('b');
+      asyncItems.set(
+        `${ENCRYPTED_KEY_PREFIX}a:${manifestA.generation}:0`,
+        asyncItems.get(chunkKeyB)!
+      );
+
+      expect(await loadEncrypted('a')).toBeNull();
+    });
+
+    it('should fail to decrypt a value with a different context', async () => {
+      const payload = await encryptString('{"id":"1"}', 'APP_DATA:task:1');
+
+      await expect(decryptString(payload, 'APP_DATA:task:1')).resolves.toBe('{"id":"1"}');
+      await expect(decryptString(payload, 'APP_DATA:task:2')).rejects.toMatchObject({
+        code: ErrorCode.DATA_CORRUPTED,
+      });
+    });
+  });
+
+  describe('migration from plain data', () => {
+    it('should load plain data and move it to the encrypted layout', async () => {
+      const data = { schemaVersion: 1, records: {} };
+      secureItems.set('split_todo.daily_records', JSON.stringify(data));
+
+      expect(await loadEncrypted('split_todo.daily_records')).toEqual(data);
+
+      expect(secureItems.has('split_todo.daily_records')).toBe(false);
+      expect(asyncItems.has(`${ENCRYPTED_KEY_PREFIX}split_todo.daily_records`)).toBe(true);
+      expect(await loadEncrypted('split_todo.daily_records')).toEqual(data);
+    });
+
+    it('should keep plain data when the encrypted save fails', async () => {
+      const data = { schemaVersion: 1, records: {} };
+      secureItems.set('records', JSON.stringify(data));
+      mockAsyncStorage.multiSet.mockRejectedValueOnce(new Error('Disk full'));
+
+      expect(await loadEncrypted('records')).toEqual(data);
+      expect(secureItems.has('records')).toBe(true);
+    });
+  });
+
+  describe('encrypted storage adapter', () => {
+    // Records planted in storage without encryption
+    const plainRecords = {
+      'APP_DATA:meta': JSON.stringify({ schemaVersion: 4, taskIds: ['1'] }),
+      'APP_DATA:task:1': JSON.stringify({
+        id: '1',
+        title: 'Task',
+        items: [],
+        createdAt: '2025-11-06T00:00:00.000Z',
+        updatedAt: '2025-11-06T00:00:00.000Z',
+        schemaVersion: 4,
+      }),
+    };
+
+    it('should store values encrypted and bound to their key', async () => {
+      const store = createMemoryStorageAdapter();
+      const adapter = createEncryptedStorageAdapter(store);
+
+      await adapter.multiSet([['APP_DATA:task:1', '{"id":"1"}']]);
+
+      const [[, stored]] = await store.multiGet(['APP_DATA:task:1']);
+      expect(stored).not.toContain('"id"');
+      expect(await adapter.multiGet(['APP_DATA:task:1'])).toEqual([
+        ['APP_DATA:task:1', '{"id":"1"}'],
+      ]);
+
+      await store.multiSet([['APP_DATA:task:2', stored as string]]);
+      await expect(adapter.multiGet(['APP_DATA:task:2'])).rejects.toMatchObject({
+        code: ErrorCode.DATA_CORRUPTED,
+      });
+    });
+
+    it('should never store app data records in plain text, backups included', async () => {
+      const store = createMemoryStorageAdapter();
+      setStorageAdapter(createEncryptedStorageAdapter(store));
+      const task = JSON.parse(plainRecords['APP_DATA:task:1']);
+
+      await saveAppData({ ...createEmptyData(), tasks: [{ ...task, title: 'Secret plan' }] });
+
+      const stored = await store.multiGet(await store.getAllKeys());
+      expect(stored.map(([key]) => key)).toEqual(
+        expect.arrayContaining(['APP_DATA:task:1', 'APP_DATA_BACKUP:task:1'])
+      );
+      stored.forEach(([, value]) => {
+        expect(value).not.toContain('Secret plan');
+        expect(value?.startsWith('{')).toBe(false);
+      });
+      expect((await loadAppData()).tasks.map((item) => item.title)).toEqual(['Secret plan']);
+    });
+
+    it('should reject plain records instead of trusting them', async () => {
+      const store = createMemoryStorageAdapter(plainRecords);
+      const adapter = createEncryptedStorageAdapter(store);
+
+      await expect(adapter.multiGet(['APP_DATA:task:1'])).rejects.toMatchObject({
+        code: ErrorCode.DATA_CORRUPTED,
+      });
+      expect(await store.multiGet(['APP_DATA:task:1'])).toEqual([
+        ['APP_DATA:task:1', plainRecords['APP_DATA:task:1']],
+      ]);
+    });
+
+    it('should not load data from planted plain records', async () => {
+      setStorageAdapter(createEncryptedStorageAdapter(createMemoryStorageAdapter(plainRecords)));
+
+      const data = await loadAppData();
+
+      expect(data.tasks).toEqual([]);
+    });
+  });
+
+  describe('lost encryption key', () => {
+    // Loads the modules again, like a new app start without the cached key
+    function restartApp() {
+      let modules!: {
+        encryptedStorage: typeof import('./encryptedStorage');
+        storageAdapter: typeof import('./storageAdapter');
+        storage: typeof import('./storage');
+      };
+
+      jest.isolateModules(() => {
+        mockStorage(
+          jest.requireMock<typeof mockAsyncStorage>('@react-native-async-storage/async-storage'),
+          jest.requireMock<typeof mockSecureStore>('expo-secure-store')
+        );
+        modules = {
+          encryptedStorage: jest.requireActual('./encryptedStorage'),
+          storageAdapter: jest.requireActual('./storageAdapter'),
+          storage: jest.requireActual('./storage'),
+        };
+      });
+
+      return modules;
+    }
+
+    it('should create a key when nothing is stored yet', async () => {
+      secureItems.clear();
+      const { encryptedStorage } = restartApp();
+
+      await encryptedStorage.saveEncrypted('records', { total: 1 });
+
+      expect(secureItems.has(ENCRYPTION_KEY_NAME)).toBe(true);
+      expect(asyncItems.has(KEY_MARKER_NAME)).toBe(true);
+      expect(await encryptedStorage.isEncryptionKeyMissing()).toBe(false);
+    });
+
+    it('should not replace the key of stored data', async () => {
+      await saveEncrypted('records', { total: 1 });
+      secureItems.clear();
+      const { encryptedStorage } = restartApp();
+
+      await expect(encryptedStorage.loadEncrypted('records')).rejects.toMatchObject({
+        code: ErrorCode.ENCRYPTION_KEY_MISSING,
+      });
+      await expect(encryptedStorage.saveEncrypted('records', { total: 2 })).rejects.toMatchObject({
+        code: ErrorCode.ENCRYPTION_KEY_MISSING,
+      });
+      expect(secureItems.has(ENCRYPTION_KEY_NAME)).toBe(false);
+      expect(await encryptedStorage.isEncryptionKeyMissing()).toBe(true);
+    });
+
+    it('should not create a key to decrypt a value', async () => {
+      const payload = await encryptString('{"id":"1"}', 'APP_DATA:task:1');
+      secureItems.clear();
+      asyncItems.clear();
+      const { encryptedStorage } = restartApp();
+
+      await expect(
+        encryptedStorage.decryptString(payload, 'APP_DATA:task:1')
+      ).rejects.toMatchObject({ code: ErrorCode.ENCRYPTION_KEY_MISSING });
+      expect(secureItems.has(ENCRYPTION_KEY_NAME)).toBe(false);
+    });
+
+    it('should fail loading app data instead of returning empty data', async () => {
+      const store = createMemoryStorageAdapter();
+      const previousStart = restartApp();
+      previousStart.storage.setStorageAdapter(
+        previousStart.storageAdapter.createEncryptedStorageAdapter(store)
+      );
+      await previousStart.storage.saveAppData({
+        ...createEmptyData(),
+        tasks: [
+          {
+            id: '1',
+            title: 'Task',
+            items: [],
+            createdAt: '2025-11-06T00:00:00.000Z',
+            updatedAt: '2025-11-06T00:00:00.000Z',
+          },
+        ],
+      });
+      const [[, savedRecord]] = await store.multiGet(['APP_DATA:task:1']);
+      secureItems.clear();
+      const { storage, storageAdapter } = restartApp();
+      storage.setStorageAdapter(storageAdapter.createEncryptedStorageAdapter(store));
+
+      await expect(storage.loadAppData()).rejects.toMatchObject({
+        code: ErrorCode.ENCRYPTION_KEY_MISSING,
+      });
+      await expect(storage.saveAppData(createEmptyData())).rejects.toBeDefined();
+      expect(await store.multiGet(['APP_DATA:task:1'])).toEqual([['APP_DATA:task:1', savedRecord]]);
+    });
+
+    it('should save with a new key once the lost key is replaced', async () => {
+      await saveEncrypted('records', { total: 1 });
+      secureItems.clear();
+      const { encryptedStorage } = restartApp();
+
+      await encryptedStorage.replaceLostEncryptionKey();
+      await encryptedStorage.saveEncrypted('records', { total: 2 });
+
+      expect(await encryptedStorage.loadEncrypted('records')).toEqual({ total: 2 });
+      expect(await encryptedStorage.isEncryptionKeyMissing()).toBe(false);
+    });
+  });
+
+  describe('removeEncrypted', () => {
+    it('should remove the manifest, chunks and plain data', async () => {
+      await saveEncrypted('records', { total: 1 });
+      secureItems.set('records', '{}');
+
+      await removeEncrypted('records');
+
+      expect([...asyncItems.keys()]).toEqual([]);
+      expect(secureItems.has('records')).toBe(false);
+      expect(await loadEncrypted('records')).toBeNull();
+    });
+  });
+});
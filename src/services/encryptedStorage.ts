@@ -1,23 +1,100 @@
 /**
  * Encrypted Storage Service
  *
- * Provides secure encrypted storage for sensitive data using Expo SecureStore:
- * - iOS: Keychain Services
- * - Android: SharedPreferences with Android Keystore encryption
- * - Web: Falls back to AsyncStorage (not encrypted on web)
+ * Provides authenticated encrypted storage for app data:
+ * - A random 256-bit key is kept in Expo SecureStore
+ *   (iOS: Keychain Services, Android: Android Keystore)
+ * - Payloads are encrypted with XChaCha20-Poly1305 (AEAD) and stored in
+ *   AsyncStorage, split into chunks so large data never hits SecureStore's size limits
+ * - Tampered, truncated or swapped payloads fail authentication and are rejected
+ * - Web: the key is kept in AsyncStorage (no platform keystore on web)
  *
- * This service wraps expo-secure-store to provide:
- * - Automatic encryption/decryption
- * - Error handling
- * - Logging
- * - Type-safe operations
+ * Storage layout for a key `K`:
+ * - `ENCRYPTED:K`: manifest `{ version, generation, chunkCount }`
+ * - `ENCRYPTED:K:<generation>:<index>`: base64 chunks of `nonce + ciphertext`
+ *
+ * Each save writes a new generation of chunks before switching the manifest,
+ * so an interrupted save leaves the previous payload intact.
+ *
+ * Data written by older versions (plain JSON in SecureStore, or AsyncStorage on web)
+ * is migrated to the encrypted layout the first time it is loaded.
  */
 
 import * as SecureStore from 'expo-secure-store';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { ErrorCode } from '../types';
+import { createAppError, isAppError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * SecureStore key of the data encryption key
+ * Note: expo-secure-store only allows alphanumeric, ".", "-", and "_"
+ */
+const ENCRYPTION_KEY_NAME = 'split_todo.encryption_key';
+
+/**
+ * Encryption key length in bytes (XChaCha20-Poly1305 uses 256-bit keys)
+ */
+const KEY_LENGTH = 32;
+
+/**
+ * Nonce length in bytes (XChaCha20 nonces are long enough to pick at random)
+ */
+const NONCE_LENGTH = 24;
+
+/**
+ * Maximum length of a stored chunk (characters of base64)
+ * Keeps every AsyncStorage entry well below Android's 2MB row limit
+ */
+const CHUNK_SIZE = 512 * 1024;
+
+/**
+ * Prefix of the AsyncStorage keys used for encrypted payloads
+ */
+const ENCRYPTED_KEY_PREFIX = 'ENCRYPTED:';
+
+/**
+ * AsyncStorage key recording that data was encrypted on this install.
+ * Data encrypted outside the payload layout (e.g. app data records) has no
+ * prefix to recognize it by; the marker tells that a missing key was lost.
+ */
+const KEY_MARKER_NAME = 'ENCRYPTION_KEY_IN_USE';
+
+/**
+ * Version of the payload layout
+ */
+const PAYLOAD_VERSION = 1;
+
+// ============================================================================
+// MODULE STATE
+// ============================================================================
+
+/**
+ * Manifest of a stored payload
+ */
+interface PayloadManifest {
+  version: number;
+  generation: string;
+  chunkCount: number;
+}
+
+/**
+ * Encryption key, loaded (or created) once per app start
+ */
+let encryptionKeyPromise: Promise<Uint8Array> | null = null;
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
 /**
  * Saves data to encrypted storage.
  * @param key - Storage key
@@ -27,12 +104,28 @@ import { logger } from '../utils/logger';
 export async function saveEncrypted(key: string, data: any): Promise<void> {
   try {
     const serialized = JSON.stringify(data);
+    const previous = await readManifest(key);
+
+    const generation = bytesToHex(randomBytes(4));
+    const payload = await encryptString(serialized, getPayloadContext(key, generation));
+    const chunks = splitIntoChunks(payload, CHUNK_SIZE);
+
+    // Write the new chunks first, then point the manifest at them
+    await AsyncStorage.multiSet(
+      chunks.map((chunk, index) => [getChunkKey(key, generation, index), chunk])
+    );
+    const manifest: PayloadManifest = {
+      version: PAYLOAD_VERSION,
+      generation,
+      chunkCount: chunks.length,
+    };
+    await AsyncStorage.setItem(getManifestKey(key), JSON.stringify(manifest));
 
-    // Use AsyncStorage for web, SecureStore for native
-    if (Platform.OS === 'web') {
-      await AsyncStorage.setItem(key, serialized);
+    if (previous) {
+      await AsyncStorage.multiRemove(getChunkKeys(key, previous));
     } else {
-      await SecureStore.setItemAsync(key, serialized);
+      // First encrypted save: drop plain data left by older versions
+      await removeLegacyItem(key);
     }
   } catch (error) {
     logger.error(`Failed to save encrypted data for key: ${key}`, error as Error);
@@ -43,27 +136,363 @@ export async function saveEncrypted(key: string, data: any): Promise<void> {
 /**
  * Loads data from encrypted storage.
  * @param key - Storage key
- * @returns Promise that resolves with the data, or null if not found
+ * @returns Promise that resolves with the data, or null if not found (or if it fails authentication)
+ * @throws {AppError} ENCRYPTION_KEY_MISSING if the key of the stored data was lost
  */
 export async function loadEncrypted<T = any>(key: string): Promise<T | null> {
   try {
-    let serialized: string | null;
+    const manifest = await readManifest(key);
 
-    // Use AsyncStorage for web, SecureStore for native
-    if (Platform.OS === 'web') {
-      serialized = await AsyncStorage.getItem(key);
-    } else {
-      serialized = await SecureStore.getItemAsync(key);
+    if (!manifest) {
+      return await migrateLegacyItem<T>(key);
     }
 
-    if (!serialized) {
-      return null;
+    const pairs = await AsyncStorage.multiGet(getChunkKeys(key, manifest));
+
+    if (pairs.some(([, chunk]) => chunk === null)) {
+      throw createAppError(ErrorCode.DATA_CORRUPTED, '암호화된 데이터의 일부가 없습니다');
     }
 
-    const data = JSON.parse(serialized) as T;
-    return data;
+    const payload = pairs.map(([, chunk]) => chunk).join('');
+    const serialized = await decryptString(payload, getPayloadContext(key, manifest.generation));
+
+    return JSON.parse(serialized) as T;
   } catch (error) {
     logger.error(`Failed to load encrypted data for key: ${key}`, error as Error);
+    if (isAppError(error) && error.code === ErrorCode.ENCRYPTION_KEY_MISSING) {
+      throw error;
+    }
+    return null;
+  }
+}
+
+/**
+ * Removes data from encrypted storage.
+ * @param key - Storage key
+ * @returns Promise that resolves when the data is removed
+ */
+export async function removeEncrypted(key: string): Promise<void> {
+  try {
+    const manifest = await readManifest(key);
+
+    if (manifest) {
+      await AsyncStorage.multiRemove([getManifestKey(key), ...getChunkKeys(key, manifest)]);
+    }
+
+    await removeLegacyItem(key);
+  } catch (error) {
+    logger.error(`Failed to remove encrypted data for key: ${key}`, error as Error);
+    throw error;
+  }
+}
+
+/**
+ * Encrypts a string with the app's encryption key.
+ *
+ * @param plaintext - String to encrypt
+ * @param context - Where the value is stored (e.g. its storage key); must match on decryption
+ * @returns Base64 of `nonce + ciphertext`
+ *
+ * @example
+ * const payload = await encryptString(json, 'APP_DATA:meta');
+ */
+export async function encryptString(plaintext: string, context: string): Promise<string> {
+  const key = await getEncryptionKey();
+  const nonce = randomBytes(NONCE_LENGTH);
+  const ciphertext = xchacha20poly1305(key, nonce, utf8ToBytes(context)).encrypt(
+    utf8ToBytes(plaintext)
+  );
+
+  const sealed = new Uint8Array(NONCE_LENGTH + ciphertext.length);
+  sealed.set(nonce);
+  sealed.set(ciphertext, NONCE_LENGTH);
+  return bytesToBase64(sealed);
+}
+
+/**
+ * Decrypts a string encrypted with encryptString.
+ *
+ * @param payload - Base64 of `nonce + ciphertext`
+ * @param context - Context the value was encrypted with
+ * @returns Decrypted string
+ * @throws {AppError} DATA_CORRUPTED if the payload was modified or belongs to another context
+ * @throws {AppError} ENCRYPTION_KEY_MISSING if the encryption key was lost
+ *
+ * @example
+ * const json = await decryptString(payload, 'APP_DATA:meta');
+ */
+export async function decryptString(payload: string, context: string): Promise<string> {
+  const key = await getEncryptionKey(false);
+
+  try {
+    const sealed = base64ToBytes(payload);
+    const nonce = sealed.subarray(0, NONCE_LENGTH);
+    const ciphertext = sealed.subarray(NONCE_LENGTH);
+
+    return bytesToUtf8(xchacha20poly1305(key, nonce, utf8ToBytes(context)).decrypt(ciphertext));
+  } catch (error) {
+    throw createAppError(
+      ErrorCode.DATA_CORRUPTED,
+      '데이터 무결성 검사에 실패했습니다',
+      error as Error
+    );
+  }
+}
+
+/**
+ * Checks whether stored data can't be read because its encryption key was lost.
+ *
+ * @returns True if encrypted data exists without its key
+ */
+export async function isEncryptionKeyMissing(): Promise<boolean> {
+  try {
+    await getEncryptionKey();
+    return false;
+  } catch (error) {
+    if (isAppError(error) && error.code === ErrorCode.ENCRYPTION_KEY_MISSING) {
+      return true;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replaces a lost encryption key with a new one.
+ * Data encrypted with the lost key stays unreadable and is overwritten by
+ * later saves; only call this once the user chose to restore a backup.
+ *
+ * @returns Promise that resolves when the new key is stored
+ *
+ * @example
+ * if (await isEncryptionKeyMissing()) await replaceLostEncryptionKey();
+ */
+export async function replaceLostEncryptionKey(): Promise<void> {
+  const key = await createEncryptionKey();
+  encryptionKeyPromise = Promise.resolve(key);
+  logger.warn('Replaced the lost data encryption key');
+}
+
+// ============================================================================
+// HELPER FUNCTIONS (Internal)
+// ============================================================================
+
+/**
+ * Returns the encryption key, creating and storing one on first use.
+ * A failed lookup is retried on the next call.
+ *
+ * @param allowCreate - Whether a missing key may be created; decrypting
+ *   something proves the key existed, so it never creates one
+ */
+function getEncryptionKey(allowCreate = true): Promise<Uint8Array> {
+  if (!encryptionKeyPromise) {
+    encryptionKeyPromise = loadOrCreateEncryptionKey(allowCreate).catch((error) => {
+      encryptionKeyPromise = null;
+      throw error;
+    });
+  }
+
+  return encryptionKeyPromise;
+}
+
+/**
+ * Loads the encryption key from the platform keystore, or creates it.
+ * A key is only created while nothing encrypted is stored: data encrypted
+ * with a lost key (e.g. restored to a new device, or a reset keychain)
+ * would otherwise be overwritten as if there had never been any.
+ *
+ * @throws {AppError} ENCRYPTION_KEY_MISSING if encrypted data exists without its key,
+ *   or if the key is missing and may not be created
+ */
+async function loadOrCreateEncryptionKey(allowCreate: boolean): Promise<Uint8Array> {
+  const storedKey = await readSecureItem(ENCRYPTION_KEY_NAME);
+
+  if (storedKey) {
+    // Installs that encrypted data before the marker existed get it now
+    if (!(await AsyncStorage.getItem(KEY_MARKER_NAME))) {
+      await AsyncStorage.setItem(KEY_MARKER_NAME, '1');
+    }
+    return hexToBytes(storedKey);
+  }
+
+  if (!allowCreate || (await hasEncryptedData())) {
+    logger.error('Encrypted data exists but its encryption key is missing');
+    throw createAppError(ErrorCode.ENCRYPTION_KEY_MISSING);
+  }
+
+  return createEncryptionKey();
+}
+
+/**
+ * Creates a new encryption key and stores it in the platform keystore
+ */
+async function createEncryptionKey(): Promise<Uint8Array> {
+  const key = randomBytes(KEY_LENGTH);
+  await writeSecureItem(ENCRYPTION_KEY_NAME, bytesToHex(key));
+  await AsyncStorage.setItem(KEY_MARKER_NAME, '1');
+  logger.info('Created data encryption key');
+
+  return key;
+}
+
+/**
+ * Checks whether anything encrypted is stored
+ */
+async function hasEncryptedData(): Promise<boolean> {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys.some((key) => key === KEY_MARKER_NAME || key.startsWith(ENCRYPTED_KEY_PREFIX));
+}
+
+/**
+ * Loads data written by older versions (plain JSON under the same key)
+ * and re-saves it in the encrypted layout.
+ *
+ * @param key - Storage key
+ * @returns The data, or null if there is none
+ */
+async function migrateLegacyItem<T>(key: string): Promise<T | null> {
+  const serialized = await readSecureItem(key);
+
+  if (!serialized) {
     return null;
   }
+
+  const data = JSON.parse(serialized) as T;
+
+  try {
+    await saveEncrypted(key, data);
+    logger.info(`Migrated data to encrypted chunks for key: ${key}`);
+  } catch (error) {
+    // Keep the plain data; migration is retried on the next load
+    logger.warn(`Failed to migrate data for key: ${key}`, error as Error);
+  }
+
+  return data;
+}
+
+/**
+ * Removes plain data written by older versions
+ */
+async function removeLegacyItem(key: string): Promise<void> {
+  // Use AsyncStorage for web, SecureStore for native
+  if (Platform.OS === 'web') {
+    await AsyncStorage.removeItem(key);
+  } else {
+    await SecureStore.deleteItemAsync(key);
+  }
+}
+
+/**
+ * Reads a value from the platform keystore (AsyncStorage on web)
+ */
+async function readSecureItem(key: string): Promise<string | null> {
+  // Use AsyncStorage for web, SecureStore for native
+  if (Platform.OS === 'web') {
+    return AsyncStorage.getItem(key);
+  }
+
+  return SecureStore.getItemAsync(key);
+}
+
+/**
+ * Writes a value to the platform keystore (AsyncStorage on web)
+ */
+async function writeSecureItem(key: string, value: string): Promise<void> {
+  // Use AsyncStorage for web, SecureStore for native
+  if (Platform.OS === 'web') {
+    await AsyncStorage.setItem(key, value);
+  } else {
+    await SecureStore.setItemAsync(key, value);
+  }
+}
+
+/**
+ * Reads the manifest of a stored payload
+ *
+ * @returns Manifest, or null if nothing is stored in the encrypted layout
+ */
+async function readManifest(key: string): Promise<PayloadManifest | null> {
+  const serialized = await AsyncStorage.getItem(getManifestKey(key));
+  return serialized ? (JSON.parse(serialized) as PayloadManifest) : null;
+}
+
+/**
+ * AsyncStorage key of a payload manifest
+ */
+function getManifestKey(key: string): string {
+  return `${ENCRYPTED_KEY_PREFIX}${key}`;
+}
+
+/**
+ * AsyncStorage key of a payload chunk
+ */
+function getChunkKey(key: string, generation: string, index: number): string {
+  return `${ENCRYPTED_KEY_PREFIX}${key}:${generation}:${index}`;
+}
+
+/**
+ * AsyncStorage keys of every chunk listed in a manifest
+ */
+function getChunkKeys(key: string, manifest: PayloadManifest): string[] {
+  return Array.from({ length: manifest.chunkCount }, (_, index) =>
+    getChunkKey(key, manifest.generation, index)
+  );
 }
+
+/**
+ * Encryption context of a payload.
+ * Binds the ciphertext to its storage key and generation, so chunks
+ * copied from another key or an older save fail authentication.
+ */
+function getPayloadContext(key: string, generation: string): string {
+  return `${key}:${generation}`;
+}
+
+/**
+ * Splits a string into chunks of at most `size` characters
+ */
+function splitIntoChunks(value: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let start = 0; start < value.length; start += size) {
+    chunks.push(value.slice(start, start + size));
+  }
+  return chunks;
+}
+
+/**
+ * Encodes bytes as base64
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Convert in slices to stay below the argument limit of String.fromCharCode
+  for (let start = 0; start < bytes.length; start += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(start, start + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes base64 into bytes
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+/**
+ * Export constants for testing
+ */
+export const ENCRYPTION_CONSTANTS = {
+  ENCRYPTION_KEY_NAME,
+  KEY_MARKER_NAME,
+  CHUNK_SIZE,
+  ENCRYPTED_KEY_PREFIX,
+  PAYLOAD_VERSION,
+};
@@ -0,0 +1,218 @@
+/**
+ * Migrations Test Suite
+ *
+ * Tests the migration runner (ordering, rollback) and each registered step.
+ */
+
+import {
+  runMigrations,
+  validateRegistry,
+  appDataMigrations,
+  dailyRecordsMigrations,
+  MigrationContext,
+  MigrationRegistry,
+} from './migrations';
+import { AppData, ErrorCode, Task } from '../types';
+
+const context: MigrationContext = {
+  todayKey: '2025-11-06',
+  now: '2025-11-06T09:00:00.000Z',
+};
+
+// Helper function to create a test task
+function createTestTask(id: string, items: Task['items'] = []): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    items,
+    createdAt: '2025-11-01T00:00:00.000Z',
+    updatedAt: '2025-11-01T00:00:00.000Z',
+    schemaVersion: 3,
+  };
+}
+
+// Registry of steps that append their version to a log
+type LogData = { schemaVersion: number; log: number[] };
+
+function createLogRegistry(failAt?: number): MigrationRegistry<LogData> {
+  return {
+    name: 'Log',
+    latestVersion: 3,
+    steps: [0, 1, 2].map((from) => ({
+      from,
+      description: `Step ${from}`,
+      migrate: (data: LogData) => {
+        data.log.push(from);
+        if (from === failAt) {
+          throw new Error('Step failed');
+        }
+        return { ...data, schemaVersion: from + 1 };
+      },
+    })),
+  };
+}
+
+describe('runMigrations', () => {
+  it('should apply steps in order up to the latest version', () => {
+    const result = runMigrations({ schemaVersion: 0, log: [] }, createLogRegistry(), context);
+
+    expect(result.data).toEqual({ schemaVersion: 3, log: [0, 1, 2] });
+    expect(result.fromVersion).toBe(0);
+    expect(result.toVersion).toBe(3);
+    expect(result.applied).toEqual(['Step 0', 'Step 1', 'Step 2']);
+  });
+
+  it('should start from the stored version', () => {
+    const result = runMigrations({ schemaVersion: 2, log: [] }, createLogRegistry(), context);
+
+    expect(result.data.log).toEqual([2]);
+  });
+
+  it('should return data at the latest version as is', () => {
+    const data = { schemaVersion: 3, log: [] };
+
+    const result = runMigrations(data, createLogRegistry(), context);
+
+    expect(result.data).toBe(data);
+    expect(result.applied).toEqual([]);
+  });
+
+  it('should roll back and throw MIGRATION_FAILED when a step throws', () => {
+    const data = { schemaVersion: 0, log: [] };
+
+    expect(() => runMigrations(data, createLogRegistry(1), context)).toThrow(
+      expect.objectContaining({ code: ErrorCode.MIGRATION_FAILED })
+    );
+
+    // The pre-migration data is untouched
+    expect(data).toEqual({ schemaVersion: 0, log: [] });
+  });
+
+  it('should fail when a step is missing', () => {
+    const registry = createLogRegistry();
+    registry.steps = registry.steps.filter((step) => step.from !== 1);
+
+    expect(() => runMigrations({ schemaVersion: 0, log: [] }, registry, context)).toThrow(
+      expect.objectContaining({ code: ErrorCode.MIGRATION_FAILED })
+    );
+  });
+
+  it('should fail when a step does not set the next version', () => {
+    const registry: MigrationRegistry<LogData> = {
+      name: 'Broken',
+      latestVersion: 1,
+      steps: [{ from: 0, description: 'No version', migrate: (data) => data }],
+    };
+
+    expect(() => runMigrations({ schemaVersion: 0, log: [] }, registry, context)).toThrow(
+      expect.objectContaining({ code: ErrorCode.MIGRATION_FAILED })
+    );
+  });
+});
+
+describe('validateRegistry', () => {
+  it('should accept the registered migrations', () => {
+    expect(validateRegistry(appDataMigrations)).toEqual([]);
+    expect(validateRegistry(dailyRecordsMigrations)).toEqual([]);
+  });
+
+  it('should report gaps, duplicates and out-of-order steps', () => {
+    const step = { description: 'Step', migrate: (data: LogData) => data };
+    const registry: MigrationRegistry<LogData> = {
+      name: 'Bad',
+      latestVersion: 3,
+      steps: [
+        { ...step, from: 1 },
+        { ...step, from: 0 },
+        { ...step, from: 1 },
+      ],
+    };
+
+    expect(validateRegistry(registry)).toEqual(
+      expect.arrayContaining(['0 steps from v2', '2 steps from v1', 'step from v0 is out of order'])
+    );
+  });
+});
+
+describe('appDataMigrations', () => {
+  it('should keep settings and trash when migrating from v0', () => {
+    const data = {
+      tasks: [{ id: '1', title: 'Old', items: [] }],
+      settings: { celebrationEnabled: false, dailySaveHour: 0, weekStartsOn: 0 },
+      trash: [],
+    } as unknown as AppData;
+
+    const { data: migrated } = runMigrations(data, appDataMigrations, context);
+
+    expect(migrated.schemaVersion).toBe(appDataMigrations.latestVersion);
+    expect(migrated.settings).toEqual(data.settings);
+    expect(migrated.trash).toEqual([]);
+    expect(migrated.tasks[0].createdAt).toBe(context.now);
+  });
+
+  describe('v3 to v4 (isToday)', () => {
+    function migrateV3(items: Task['items']): Task['items'] {
+      const data: AppData = { schemaVersion: 3, tasks: [createTestTask('1', items)] };
+      return runMigrations(data, appDataMigrations, context).data.tasks[0].items;
+    }
+
+    it('should schedule isToday items for today and drop the flag', () => {
+      const [item] = migrateV3([
+        { id: 'a', title: 'A', done: false, isToday: true, scheduledDates: ['2025-11-10'] },
+      ]);
+
+      expect(item).not.toHaveProperty('isToday');
+      expect(item.scheduledDates).toEqual(['2025-11-06', '2025-11-10']);
+    });
+
+    it("should carry a done flag over to today's completion", () => {
+      const [item] = migrateV3([{ id: 'a', title: 'A', done: true, isToday: true }]);
+
+      expect(item.completions).toEqual({ '2025-11-06': '2025-11-01T00:00:00.000Z' });
+    });
+
+    it('should not complete recurring items', () => {
+      const [item] = migrateV3([
+        {
+          id: 'a',
+          title: 'A',
+          done: true,
+          isToday: true,
+          recurrence: { frequency: 'daily', startDate: '2025-11-01' },
+        },
+      ]);
+
+      expect(item.completions).toBeUndefined();
+    });
+
+    it('should only drop the flag of items already scheduled for today', () => {
+      const [item] = migrateV3([
+        { id: 'a', title: 'A', done: false, isToday: true, scheduledDates: ['2025-11-06'] },
+      ]);
+
+      expect(item).toEqual({ id: 'a', title: 'A', done: false, scheduledDates: ['2025-11-06'] });
+    });
+
+    it('should migrate nested items', () => {
+      const [parent] = migrateV3([
+        {
+          id: 'a',
+          title: 'Parent',
+          done: false,
+          children: [{ id: 'b', title: 'Child', done: false, isToday: true }],
+        },
+      ]);
+
+      expect(parent.children![0]).not.toHaveProperty('isToday');
+      expect(parent.children![0].scheduledDates).toEqual(['2025-11-06']);
+    });
+  });
+});
+
+describe('dailyRecordsMigrations', () => {
+  it('should add a version and a records map to unversioned data', () => {
+    const { data } = runMigrations({ records: 'broken' } as never, dailyRecordsMigrations, context);
+
+    expect(data).toEqual({ schemaVersion: 1, records: {} });
+  });
+});
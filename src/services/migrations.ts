@@ -0,0 +1,399 @@
+/**
+ * Migrations Module
+ *
+ * Registry of schema migrations for persisted data.
+ *
+ * Each registry lists ordered steps, one per version (vN → vN+1). Steps are
+ * pure: anything that depends on the current time (e.g. today's date) comes
+ * from the MigrationContext. The same registries are applied to data loaded
+ * from storage, storage backups and imported backup files.
+ *
+ * runMigrations works on a copy of the data (the pre-migration snapshot is
+ * never touched). If a step throws, the partial result is discarded and
+ * MIGRATION_FAILED is thrown, so the data stays at its previous version.
+ *
+ * Registries:
+ * - appDataMigrations: AppData (tasks, settings, trash)
+ * - dailyRecordsMigrations: DailyRecordsData (calendar records)
+ */
+
+import { AppData, ChecklistItem, DailyRecordsData, ErrorCode, Task } from '../types';
+import { createAppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { migrateItemCompletions } from '../utils/completion';
+import { normalizeItemTree } from '../utils/itemTree';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Values a migration step may depend on besides the data itself
+ */
+export interface MigrationContext {
+  /**
+   * Today's date (YYYY-MM-DD)
+   */
+  todayKey: string;
+
+  /**
+   * Current time (ISO 8601)
+   */
+  now: string;
+}
+
+/**
+ * A migration from one schema version to the next
+ */
+export interface MigrationStep<T> {
+  /**
+   * Version this step migrates from (to `from + 1`)
+   */
+  from: number;
+
+  /**
+   * What the step changes (for logs)
+   */
+  description: string;
+
+  /**
+   * Migrates the data; must return data with `schemaVersion: from + 1`
+   */
+  migrate: (data: T, context: MigrationContext) => T;
+}
+
+/**
+ * Ordered migration steps for one kind of data
+ */
+export interface MigrationRegistry<T> {
+  /**
+   * Name of the data (for logs and errors)
+   */
+  name: string;
+
+  /**
+   * Current schema version
+   */
+  latestVersion: number;
+
+  /**
+   * Steps ordered by `from`, covering every version below `latestVersion`
+   */
+  steps: MigrationStep<T>[];
+}
+
+/**
+ * Result of running migrations
+ */
+export interface MigrationResult<T> {
+  /**
+   * Migrated data (the input itself if no step ran)
+   */
+  data: T;
+
+  /**
+   * Version before migrating
+   */
+  fromVersion: number;
+
+  /**
+   * Version after migrating
+   */
+  toVersion: number;
+
+  /**
+   * Descriptions of the steps that ran, in order
+   */
+  applied: string[];
+}
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+/**
+ * Applies the steps of a registry to bring data to the latest version.
+ *
+ * Data without a version is treated as v0. Data that is already at (or
+ * above) the latest version is returned as is.
+ *
+ * @param data - Data to migrate (not modified)
+ * @param registry - Migration steps for this kind of data
+ * @param context - Current date and time
+ * @returns Migrated data and the steps that ran
+ * @throws {AppError} MIGRATION_FAILED if a step is missing or throws (nothing is migrated)
+ *
+ * @example
+ * const context = createMigrationContext(getTodayKey());
+ * const { data, applied } = runMigrations(loaded, appDataMigrations, context);
+ */
+export function runMigrations<T extends { schemaVersion: number }>(
+  data: T,
+  registry: MigrationRegistry<T>,
+  context: MigrationContext
+): MigrationResult<T> {
+  const fromVersion = data.schemaVersion || 0;
+
+  if (fromVersion >= registry.latestVersion) {
+    return { data, fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  logger.info(`Migrating ${registry.name}`, { from: fromVersion, to: registry.latestVersion });
+
+  // Steps run on a copy; the input stays as the pre-migration snapshot
+  let migrated = cloneData(data);
+  let version = fromVersion;
+  const applied: string[] = [];
+
+  try {
+    while (version < registry.latestVersion) {
+      const step = registry.steps.find((s) => s.from === version);
+      if (!step) {
+        throw new Error(`No ${registry.name} migration from v${version}`);
+      }
+
+      migrated = step.migrate(migrated, context);
+      if (migrated.schemaVersion !== version + 1) {
+        throw new Error(`${registry.name} migration from v${version} did not set v${version + 1}`);
+      }
+
+      version = migrated.schemaVersion;
+      applied.push(step.description);
+      logger.debug(`Applied ${registry.name} migration`, { version, step: step.description });
+    }
+  } catch (error) {
+    logger.error(`${registry.name} migration failed at v${version}, rolled back`, error as Error);
+    throw createAppError(ErrorCode.MIGRATION_FAILED, undefined, error as Error);
+  }
+
+  logger.info(`${registry.name} migration completed`, { version, steps: applied.length });
+
+  return { data: migrated, fromVersion, toVersion: version, applied };
+}
+
+/**
+ * Checks that a registry has exactly one step for every version below the latest.
+ *
+ * @param registry - Registry to check
+ * @returns Problems found (empty if the registry is complete)
+ */
+export function validateRegistry<T>(registry: MigrationRegistry<T>): string[] {
+  const problems: string[] = [];
+  const firstVersion = registry.steps.length > 0 ? registry.steps[0].from : registry.latestVersion;
+
+  for (let version = firstVersion; version < registry.latestVersion; version++) {
+    const count = registry.steps.filter((step) => step.from === version).length;
+    if (count !== 1) {
+      problems.push(`${count} steps from v${version}`);
+    }
+  }
+
+  registry.steps.forEach((step, index) => {
+    if (index > 0 && step.from <= registry.steps[index - 1].from) {
+      problems.push(`step from v${step.from} is out of order`);
+    }
+    if (step.from >= registry.latestVersion) {
+      problems.push(`step from v${step.from} is past the latest version`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Creates the context for migrating data now
+ *
+ * @param todayKey - Today's date (YYYY-MM-DD), from getTodayKey()
+ * @returns Migration context
+ */
+export function createMigrationContext(todayKey: string): MigrationContext {
+  return { todayKey, now: new Date().toISOString() };
+}
+
+// ============================================================================
+// APP DATA MIGRATIONS
+// ============================================================================
+
+/**
+ * Migrates AppData from v0 to v1.
+ *
+ * Initial schema version (v1):
+ * - Adds schemaVersion field to AppData
+ * - Ensures all tasks have createdAt and updatedAt timestamps
+ * - Ensures all tasks have schemaVersion field
+ */
+function migrateAppDataToV1(data: AppData, context: MigrationContext): AppData {
+  // Ensure tasks array exists
+  const tasks: Task[] = Array.isArray(data.tasks) ? data.tasks : [];
+
+  // Migrate each task
+  const migratedTasks = tasks.map((task) => ({
+    ...task,
+    // Ensure timestamps exist
+    createdAt: task.createdAt || context.now,
+    updatedAt: task.updatedAt || context.now,
+    // Ensure task has schema version
+    schemaVersion: task.schemaVersion || 1,
+    // Ensure items array exists
+    items: Array.isArray(task.items) ? task.items : [],
+  }));
+
+  return {
+    ...data,
+    schemaVersion: 1,
+    tasks: migratedTasks,
+  };
+}
+
+/**
+ * Migrates AppData from v1 to v2.
+ *
+ * Schema v2:
+ * - Checklist items track completion per date in a `completions` map
+ * - The shared `done` flag of scheduled items is copied to their past and
+ *   today's scheduled dates (future plans stay open)
+ */
+function migrateAppDataToV2(data: AppData, context: MigrationContext): AppData {
+  return {
+    ...data,
+    schemaVersion: 2,
+    tasks: data.tasks.map((task) => ({
+      ...task,
+      schemaVersion: 2,
+      items: task.items.map((item) =>
+        migrateItemCompletions(item, context.todayKey, task.updatedAt)
+      ),
+    })),
+  };
+}
+
+/**
+ * Migrates AppData from v2 to v3.
+ *
+ * Schema v3:
+ * - Checklist items may hold nested child items in `children`
+ * - Malformed or empty `children` fields are removed
+ */
+function migrateAppDataToV3(data: AppData): AppData {
+  return {
+    ...data,
+    schemaVersion: 3,
+    tasks: data.tasks.map((task) => ({
+      ...task,
+      schemaVersion: 3,
+      items: normalizeItemTree(task.items),
+    })),
+  };
+}
+
+/**
+ * Migrates AppData from v3 to v4.
+ *
+ * Schema v4:
+ * - The legacy `isToday` flag is replaced by today's date in `scheduledDates`
+ * - A done, non-recurring `isToday` item is completed for today
+ */
+function migrateAppDataToV4(data: AppData, context: MigrationContext): AppData {
+  return {
+    ...data,
+    schemaVersion: 4,
+    tasks: data.tasks.map((task) => ({
+      ...task,
+      schemaVersion: 4,
+      items: migrateIsTodayItems(task.items, context.todayKey, task.updatedAt),
+    })),
+  };
+}
+
+/**
+ * Replaces `isToday` with a scheduled date throughout an item tree
+ */
+function migrateIsTodayItems(
+  items: ChecklistItem[],
+  todayKey: string,
+  completedAt: string
+): ChecklistItem[] {
+  return items.map((item) => {
+    const { isToday, ...rest } = item;
+    let migrated: ChecklistItem = rest;
+
+    if (isToday === true && !(item.scheduledDates || []).includes(todayKey)) {
+      migrated = {
+        ...migrated,
+        scheduledDates: [...(item.scheduledDates || []), todayKey].sort(),
+        // Carry the legacy done flag over to today's completion
+        completions:
+          item.done && !item.recurrence
+            ? { ...item.completions, [todayKey]: completedAt }
+            : item.completions,
+      };
+    }
+
+    if (item.children) {
+      migrated = {
+        ...migrated,
+        children: migrateIsTodayItems(item.children, todayKey, completedAt),
+      };
+    }
+
+    return migrated;
+  });
+}
+
+/**
+ * AppData migrations (tasks, settings, trash)
+ */
+export const appDataMigrations: MigrationRegistry<AppData> = {
+  name: 'AppData',
+  latestVersion: 4,
+  steps: [
+    { from: 0, description: 'Initial schema', migrate: migrateAppDataToV1 },
+    { from: 1, description: 'Per-date completions', migrate: migrateAppDataToV2 },
+    { from: 2, description: 'Nested checklist items', migrate: migrateAppDataToV3 },
+    { from: 3, description: 'isToday to scheduled dates', migrate: migrateAppDataToV4 },
+  ],
+};
+
+// ============================================================================
+// DAILY RECORDS MIGRATIONS
+// ============================================================================
+
+/**
+ * Migrates DailyRecordsData from v0 to v1.
+ *
+ * Schema v1:
+ * - Adds schemaVersion field
+ * - Ensures the records map exists
+ */
+function migrateDailyRecordsToV1(data: DailyRecordsData): DailyRecordsData {
+  const records =
+    data.records && typeof data.records === 'object' && !Array.isArray(data.records)
+      ? data.records
+      : {};
+
+  return {
+    ...data,
+    schemaVersion: 1,
+    records,
+  };
+}
+
+/**
+ * DailyRecordsData migrations (calendar records)
+ */
+export const dailyRecordsMigrations: MigrationRegistry<DailyRecordsData> = {
+  name: 'DailyRecords',
+  latestVersion: 1,
+  steps: [{ from: 0, description: 'Initial schema', migrate: migrateDailyRecordsToV1 }],
+};
+
+// ============================================================================
+// HELPER FUNCTIONS (Internal)
+// ============================================================================
+
+/**
+ * Deep-copies JSON data
+ */
+function cloneData<T>(data: T): T {
+  return JSON.parse(JSON.stringify(data)) as T;
+}
@@ -0,0 +1,216 @@
+/**
+ * Save Journal Test Suite
+ *
+ * Tests journaling changes, compaction after a full save and replaying
+ * the journal on top of loaded data.
+ */
+
+import {
+  appendToJournal,
+  compactJournal,
+  createJournalEntry,
+  getJournalSeq,
+  loadJournal,
+  replayJournal,
+  setJournalAdapter,
+  startJournal,
+  JournalState,
+  JOURNAL_CONSTANTS,
+} from './saveJournal';
+import { StorageAdapter, createMemoryStorageAdapter } from './storageAdapter';
+import { AppData, AppSettings, Task } from '../types';
+
+const { JOURNAL_KEY_PREFIX } = JOURNAL_CONSTANTS;
+
+const settings: AppSettings = { celebrationEnabled: true, dailySaveHour: 0, weekStartsOn: 0 };
+
+// Helper function to create a test task
+function createTestTask(id: string, title: string = `Task ${id}`): Task {
+  return {
+    id,
+    title,
+    items: [],
+    createdAt: '2025-11-06T00:00:00.000Z',
+    updatedAt: '2025-11-06T00:00:00.000Z',
+    schemaVersion: 4,
+  };
+}
+
+// Helper function to create journaled state
+function createState(tasks: Task[]): JournalState {
+  return { tasks, settings, trash: [] };
+}
+
+// Helper function to create saved app data
+function createData(tasks: Task[], journalSeq?: number): AppData {
+  return { schemaVersion: 4, tasks, settings, trash: [], journalSeq };
+}
+
+describe('Save Journal', () => {
+  let adapter: StorageAdapter;
+
+  beforeEach(() => {
+    adapter = createMemoryStorageAdapter();
+    setJournalAdapter(adapter);
+  });
+
+  describe('createJournalEntry', () => {
+    it('should only include changed tasks', () => {
+      const unchanged = createTestTask('1');
+      const previous = createState([unchanged, createTestTask('2')]);
+      const changed = createTestTask('2', 'Renamed');
+
+      const entry = createJournalEntry(previous, { ...previous, tasks: [unchanged, changed] }, 1);
+
+      expect(entry).toMatchObject({ seq: 1, tasks: [changed] });
+      expect(entry).not.toHaveProperty('taskIds');
+      expect(entry).not.toHaveProperty('settings');
+      expect(entry).not.toHaveProperty('trash');
+    });
+
+    it('should record removed tasks and the new order', () => {
+      const [a, b, c] = ['a', 'b', 'c'].map((id) => createTestTask(id));
+
+      const entry = createJournalEntry(createState([a, b, c]), createState([c, a]), 1);
+
+      expect(entry).toMatchObject({ removedTaskIds: ['b'], taskIds: ['c', 'a'] });
+      expect(entry).not.toHaveProperty('tasks');
+    });
+
+    it('should record changed settings and trash', () => {
+      const previous = createState([]);
+      const next = {
+        tasks: previous.tasks,
+        settings: { ...settings, dailySaveHour: 6 },
+        trash: [],
+      };
+
+      expect(createJournalEntry(previous, next, 1)).toMatchObject({
+        settings: next.settings,
+        trash: [],
+      });
+    });
+
+    it('should return null when nothing changed', () => {
+      const state = createState([createTestTask('1')]);
+
+      expect(createJournalEntry(state, { ...state }, 1)).toBeNull();
+    });
+  });
+
+  describe('appendToJournal', () => {
+    it('should write one entry per change', async () => {
+      const task = createTestTask('1');
+      startJournal(createState([]), 0);
+
+      appendToJournal(createState([task]));
+      appendToJournal(createState([task, createTestTask('2')]));
+
+      const entries = await loadJournal();
+      expect(entries.map((entry) => entry.seq)).toEqual([1, 2]);
+      expect(entries[1].tasks!.map((t) => t.id)).toEqual(['2']);
+      expect(getJournalSeq()).toBe(2);
+    });
+
+    it('should not write an entry when nothing changed', async () => {
+      const state = createState([createTestTask('1')]);
+      startJournal(state, 5);
+
+      expect(appendToJournal(state)).toBe(5);
+      expect(await adapter.getAllKeys()).toEqual([]);
+    });
+
+    it('should not journal before the journal is started', async () => {
+      appendToJournal(createState([createTestTask('1')]));
+
+      expect(await loadJournal()).toEqual([]);
+    });
+  });
+
+  describe('compactJournal', () => {
+    it('should remove the entries included in the full save', async () => {
+      startJournal(createState([]), 0);
+      appendToJournal(createState([createTestTask('1')]));
+      appendToJournal(createState([createTestTask('2')]));
+      appendToJournal(createState([createTestTask('3')]));
+
+      await compactJournal(2);
+
+      expect((await loadJournal()).map((entry) => entry.seq)).toEqual([3]);
+    });
+
+    it('should keep keys that are not journal entries', async () => {
+      await adapter.multiSet([
+        ['APP_DATA:meta', '{}'],
+        [`${JOURNAL_KEY_PREFIX}1`, '{"seq":1}'],
+      ]);
+
+      await compactJournal(1);
+
+      expect(await adapter.getAllKeys()).toEqual(['APP_DATA:meta']);
+    });
+  });
+
+  describe('replayJournal', () => {
+    it('should replay the changes made after the full save', async () => {
+      const [a, b] = [createTestTask('a'), createTestTask('b')];
+      const renamed = createTestTask('a', 'Renamed');
+      startJournal(createState([a, b]), 3);
+      appendToJournal(createState([renamed, b]));
+      appendToJournal(createState([createTestTask('c'), b]));
+
+      const result = replayJournal(createData([a, b], 3), await loadJournal());
+
+      expect(result.data.tasks.map((task) => task.title)).toEqual(['Task c', 'Task b']);
+      expect(result.data.journalSeq).toBe(5);
+      expect(result.seq).toBe(5);
+      expect(result.replayed).toBe(2);
+    });
+
+    it('should skip entries already in the full save', async () => {
+      const task = createTestTask('1');
+      startJournal(createState([]), 0);
+      appendToJournal(createState([task]));
+
+      const data = createData([task], 1);
+      const result = replayJournal(data, await loadJournal());
+
+      expect(result.data).toBe(data);
+      expect(result.replayed).toBe(0);
+    });
+
+    it('should replay settings and trash', () => {
+      const newSettings = { ...settings, weekStartsOn: 1 as const };
+
+      const result = replayJournal(createData([], 0), [
+        { seq: 1, createdAt: '2025-11-06T09:00:00.000Z', settings: newSettings },
+      ]);
+
+      expect(result.data.settings).toEqual(newSettings);
+      expect(result.data.trash).toEqual([]);
+    });
+
+    it('should stop at a gap in the sequence numbers', () => {
+      const result = replayJournal(createData([], 0), [
+        { seq: 1, createdAt: '2025-11-06T09:00:00.000Z', tasks: [createTestTask('1')] },
+        { seq: 3, createdAt: '2025-11-06T09:01:00.000Z', tasks: [createTestTask('3')] },
+      ]);
+
+      expect(result.data.tasks.map((task) => task.id)).toEqual(['1']);
+      expect(result.replayed).toBe(1);
+      // New entries continue after the leftover entry
+      expect(result.seq).toBe(3);
+    });
+
+    it('should ignore the journal when the result is invalid', () => {
+      const data = createData([], 0);
+
+      const result = replayJournal(data, [
+        { seq: 1, createdAt: '2025-11-06T09:00:00.000Z', tasks: [{ id: 'broken' } as Task] },
+      ]);
+
+      expect(result.data).toBe(data);
+      expect(result.replayed).toBe(0);
+    });
+  });
+});
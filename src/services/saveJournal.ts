@@ -0,0 +1,426 @@
+/**
+ * Save Journal Module
+ *
+ * Append-only journal of store changes, so changes survive a crash between
+ * a mutation and the debounced full save (or in the middle of it).
+ *
+ * Every change is written right away as a small entry holding only what
+ * changed since the previous entry: added or changed tasks (compared by
+ * reference, as the store updates immutably), removed task IDs, the task
+ * order, settings, trash and tombstones. Each entry is its own record, so
+ * appending never rewrites earlier entries.
+ *
+ * The full save records the sequence number of the last entry it includes
+ * (AppData.journalSeq); the entries up to it are then removed. On startup,
+ * entries after the saved sequence number are replayed on top of the
+ * loaded data.
+ */
+
+import { AppData, AppSettings, Task, Tombstone, TrashEntry } from '../types';
+import { isValidAppData } from '../utils/validation';
+import { logger } from '../utils/logger';
+import {
+  StorageAdapter,
+  asyncStorageAdapter,
+  createEncryptedStorageAdapter,
+} from './storageAdapter';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Key prefix of journal entries (followed by the sequence number)
+ */
+const JOURNAL_KEY_PREFIX = 'SAVE_JOURNAL:';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * The parts of the app data a journal entry tracks
+ */
+export type JournalState = Pick<AppData, 'tasks' | 'settings' | 'trash' | 'tombstones'>;
+
+/**
+ * One journaled change, relative to the state after the previous entry
+ */
+export interface JournalEntry {
+  /**
+   * Sequence number (the first entry after a full save is `journalSeq + 1`)
+   */
+  seq: number;
+
+  /**
+   * When the change was made (ISO 8601)
+   */
+  createdAt: string;
+
+  /**
+   * Tasks added or changed
+   */
+  tasks?: Task[];
+
+  /**
+   * IDs of tasks removed
+   */
+  removedTaskIds?: string[];
+
+  /**
+   * Task IDs in order, when the order changed
+   */
+  taskIds?: string[];
+
+  /**
+   * Settings, when they changed
+   */
+  settings?: AppSettings;
+
+  /**
+   * Trash, when it changed
+   */
+  trash?: TrashEntry[];
+
+  /**
+   * Task tombstones, when they changed
+   */
+  tombstones?: Tombstone[];
+}
+
+// ============================================================================
+// MODULE STATE
+// ============================================================================
+
+/**
+ * Backend the entries are stored in
+ */
+let journalAdapter: StorageAdapter = createEncryptedStorageAdapter(asyncStorageAdapter);
+
+/**
+ * State after the last entry (null until the journal is started)
+ */
+let journaledState: JournalState | null = null;
+
+/**
+ * Sequence number of the last entry
+ */
+let lastSeq = 0;
+
+/**
+ * Pending writes, run one at a time in order
+ */
+let journalQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Replaces the journal backend.
+ *
+ * @param adapter - Storage backend to use
+ *
+ * @example
+ * setJournalAdapter(createMemoryStorageAdapter());
+ */
+export function setJournalAdapter(adapter: StorageAdapter): void {
+  journalAdapter = adapter;
+  journaledState = null;
+  lastSeq = 0;
+  journalQueue = Promise.resolve();
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Starts journaling changes relative to the given state.
+ * Called once the data is loaded (and the journal replayed).
+ *
+ * @param state - Current state
+ * @param seq - Sequence number of the last entry included in the state
+ */
+export function startJournal(state: JournalState, seq: number): void {
+  journaledState = state;
+  lastSeq = seq;
+}
+
+/**
+ * Returns the sequence number of the last entry.
+ * A full save of the current state includes every entry up to it.
+ */
+export function getJournalSeq(): number {
+  return lastSeq;
+}
+
+/**
+ * Journals the changes since the previous entry.
+ *
+ * The entry is written in the background; write failures are logged
+ * (the debounced full save still saves the change).
+ *
+ * @param state - State after the change
+ * @returns Sequence number of the last entry (unchanged if nothing changed)
+ *
+ * @example
+ * set({ tasks: updatedTasks });
+ * appendToJournal({ tasks: updatedTasks, settings, trash });
+ */
+export function appendToJournal(state: JournalState): number {
+  if (!journaledState) {
+    return lastSeq;
+  }
+
+  const entry = createJournalEntry(journaledState, state, lastSeq + 1);
+  if (!entry) {
+    return lastSeq;
+  }
+
+  journaledState = state;
+  lastSeq = entry.seq;
+
+  enqueue(async () => {
+    await journalAdapter.multiSet([[entryKey(entry.seq), JSON.stringify(entry)]]);
+  }, 'Failed to write journal entry');
+
+  return lastSeq;
+}
+
+/**
+ * Removes the entries included in a full save.
+ * Runs after the pending writes; failures are logged.
+ *
+ * @param seq - Sequence number recorded by the full save
+ */
+export async function compactJournal(seq: number): Promise<void> {
+  enqueue(async () => {
+    const keys = (await journalAdapter.getAllKeys()).filter((key) => {
+      const entrySeq = parseEntryKey(key);
+      return entrySeq !== null && entrySeq <= seq;
+    });
+
+    if (keys.length > 0) {
+      await journalAdapter.multiRemove(keys);
+      logger.debug('Compacted save journal', { seq, removed: keys.length });
+    }
+  }, 'Failed to compact journal');
+
+  await journalQueue;
+}
+
+/**
+ * Loads every stored entry (after the pending writes).
+ *
+ * @returns Entries ordered by sequence number (empty if the journal can't be read)
+ */
+export async function loadJournal(): Promise<JournalEntry[]> {
+  await journalQueue;
+
+  try {
+    const keys = (await journalAdapter.getAllKeys()).filter((key) => parseEntryKey(key) !== null);
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const pairs = await journalAdapter.multiGet(keys);
+    const entries: JournalEntry[] = [];
+
+    pairs.forEach(([key, json]) => {
+      try {
+        if (json) {
+          entries.push(JSON.parse(json));
+        }
+      } catch {
+        logger.warn('Skipping unreadable journal entry', { key });
+      }
+    });
+
+    return entries.sort((a, b) => a.seq - b.seq);
+  } catch (error) {
+    logger.error('Failed to load save journal', error as Error);
+    return [];
+  }
+}
+
+/**
+ * Replays the entries made after the data was saved.
+ *
+ * Only the unbroken run of entries starting at `journalSeq + 1` is applied,
+ * as each entry builds on the previous one. If the result fails validation,
+ * nothing is replayed.
+ *
+ * @param data - Loaded data
+ * @param entries - Stored entries, ordered by sequence number
+ * @returns Data with the changes applied (and its journalSeq updated), the
+ *   sequence number to continue journaling from, and the number of entries replayed
+ *
+ * @example
+ * const { data, seq, replayed } = replayJournal(await loadAppData(), await loadJournal());
+ */
+export function replayJournal(
+  data: AppData,
+  entries: JournalEntry[]
+): { data: AppData; seq: number; replayed: number } {
+  const savedSeq = data.journalSeq || 0;
+  let seq = savedSeq;
+  let replayedData = data;
+
+  for (const entry of entries) {
+    if (entry.seq <= savedSeq) {
+      continue; // Already in the full save (compaction didn't finish)
+    }
+    if (entry.seq !== seq + 1) {
+      logger.warn('Save journal has a gap, stopping replay', {
+        expected: seq + 1,
+        found: entry.seq,
+      });
+      break;
+    }
+
+    replayedData = applyJournalEntry(replayedData, entry);
+    seq = entry.seq;
+  }
+
+  // Keep the sequence numbers of leftover entries in use
+  const lastEntrySeq = entries.length > 0 ? entries[entries.length - 1].seq : 0;
+  const nextSeq = Math.max(seq, lastEntrySeq);
+
+  if (seq === savedSeq) {
+    return { data, seq: nextSeq, replayed: 0 };
+  }
+
+  if (!isValidAppData(replayedData)) {
+    logger.error('Replayed journal data is invalid, ignoring the journal');
+    return { data, seq: nextSeq, replayed: 0 };
+  }
+
+  logger.info('Replayed save journal', { from: savedSeq, to: seq });
+  return { data: { ...replayedData, journalSeq: seq }, seq: nextSeq, replayed: seq - savedSeq };
+}
+
+/**
+ * Creates the entry describing the changes between two states.
+ *
+ * @param previous - State after the previous entry
+ * @param next - State after the change
+ * @param seq - Sequence number of the new entry
+ * @returns The entry, or null if nothing changed
+ */
+export function createJournalEntry(
+  previous: JournalState,
+  next: JournalState,
+  seq: number
+): JournalEntry | null {
+  const previousTasks = new Set(previous.tasks);
+  const nextIds = new Set(next.tasks.map((task) => task.id));
+
+  const tasks = next.tasks.filter((task) => !previousTasks.has(task));
+  const removedTaskIds = previous.tasks
+    .map((task) => task.id)
+    .filter((taskId) => !nextIds.has(taskId));
+  const orderChanged =
+    previous.tasks.length !== next.tasks.length ||
+    previous.tasks.some((task, index) => task.id !== next.tasks[index].id);
+
+  const entry: JournalEntry = { seq, createdAt: new Date().toISOString() };
+  let changed = false;
+
+  if (tasks.length > 0) {
+    entry.tasks = tasks;
+    changed = true;
+  }
+  if (removedTaskIds.length > 0) {
+    entry.removedTaskIds = removedTaskIds;
+    changed = true;
+  }
+  if (orderChanged) {
+    entry.taskIds = next.tasks.map((task) => task.id);
+    changed = true;
+  }
+  if (next.settings !== previous.settings) {
+    entry.settings = next.settings;
+    changed = true;
+  }
+  if (next.trash !== previous.trash) {
+    entry.trash = next.trash;
+    changed = true;
+  }
+  if (next.tombstones !== previous.tombstones) {
+    entry.tombstones = next.tombstones;
+    changed = true;
+  }
+
+  return changed ? entry : null;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS (Internal)
+// ============================================================================
+
+/**
+ * Applies one entry to the data
+ */
+function applyJournalEntry(data: AppData, entry: JournalEntry): AppData {
+  const removed = new Set(entry.removedTaskIds || []);
+  const changed = new Map((entry.tasks || []).map((task) => [task.id, task]));
+
+  // Changed tasks replace their old version; new tasks go at the end
+  let tasks = data.tasks
+    .filter((task) => !removed.has(task.id))
+    .map((task) => changed.get(task.id) || task);
+  const existingIds = new Set(tasks.map((task) => task.id));
+  tasks = [...tasks, ...(entry.tasks || []).filter((task) => !existingIds.has(task.id))];
+
+  if (entry.taskIds) {
+    const order = entry.taskIds;
+    const position = new Map(order.map((taskId, index) => [taskId, index]));
+    tasks = [...tasks].sort(
+      (a, b) => (position.get(a.id) ?? order.length) - (position.get(b.id) ?? order.length)
+    );
+  }
+
+  return {
+    ...data,
+    tasks,
+    ...('settings' in entry && { settings: entry.settings }),
+    ...('trash' in entry && { trash: entry.trash }),
+    ...('tombstones' in entry && { tombstones: entry.tombstones }),
+  };
+}
+
+/**
+ * Runs a journal operation after the pending ones
+ */
+function enqueue(operation: () => Promise<void>, failureMessage: string): void {
+  journalQueue = journalQueue.then(operation).catch((error) => {
+    logger.error(failureMessage, error as Error);
+  });
+}
+
+/**
+ * Storage key of an entry
+ */
+function entryKey(seq: number): string {
+  return `${JOURNAL_KEY_PREFIX}${seq}`;
+}
+
+/**
+ * Sequence number of an entry key (null for other keys)
+ */
+function parseEntryKey(key: string): number | null {
+  if (!key.startsWith(JOURNAL_KEY_PREFIX)) {
+    return null;
+  }
+
+  const seq = Number(key.slice(JOURNAL_KEY_PREFIX.length));
+  return Number.isInteger(seq) ? seq : null;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+/**
+ * Export constants for testing and external use
+ */
+export const JOURNAL_CONSTANTS = {
+  JOURNAL_KEY_PREFIX,
+};
@@ -0,0 +1,240 @@
+/**
+ * Snapshots Test Suite
+ *
+ * Tests when snapshots are taken, how generations rotate, and loading
+ * snapshots for restore and backup recovery.
+ */
+
+import {
+  createSnapshotIfDue,
+  listSnapshots,
+  loadSnapshot,
+  loadNewestValidSnapshot,
+  getDueTiers,
+  rotateSnapshots,
+  SNAPSHOT_CONSTANTS,
+} from './snapshots';
+import { loadEncrypted, removeEncrypted, saveEncrypted } from './encryptedStorage';
+import { AppData, ErrorCode, SnapshotInfo, SnapshotTier, Task } from '../types';
+
+jest.mock('./encryptedStorage');
+
+const mockLoadEncrypted = loadEncrypted as jest.MockedFunction<typeof loadEncrypted>;
+const mockSaveEncrypted = saveEncrypted as jest.MockedFunction<typeof saveEncrypted>;
+const mockRemoveEncrypted = removeEncrypted as jest.MockedFunction<typeof removeEncrypted>;
+
+const { SNAPSHOT_INDEX_KEY, SNAPSHOT_KEY_PREFIX, SNAPSHOT_RETENTION } = SNAPSHOT_CONSTANTS;
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.parse('2025-11-06T09:00:00.000Z');
+
+// Helper function to create a test task
+function createTestTask(id: string, itemCount: number = 0): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    items: Array.from({ length: itemCount }, (_, i) => ({
+      id: `${id}-${i}`,
+      title: `Item ${i}`,
+      done: false,
+    })),
+    createdAt: '2025-11-01T00:00:00.000Z',
+    updatedAt: '2025-11-01T00:00:00.000Z',
+    schemaVersion: 4,
+  };
+}
+
+// Helper function to create app data
+function createData(taskCount: number): AppData {
+  return {
+    schemaVersion: 4,
+    tasks: Array.from({ length: taskCount }, (_, i) => createTestTask(String(i + 1), 2)),
+  };
+}
+
+// Helper function to create an index entry
+function createInfo(hoursAfterStart: number, tiers: SnapshotTier[]): SnapshotInfo {
+  const time = START + hoursAfterStart * HOUR;
+  return {
+    id: String(time),
+    createdAt: new Date(time).toISOString(),
+    tiers,
+    taskCount: 1,
+    itemCount: 0,
+    schemaVersion: 4,
+  };
+}
+
+describe('Snapshots', () => {
+  let stored: Map<string, unknown>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stored = new Map();
+
+    mockLoadEncrypted.mockImplementation(async (key) => (stored.get(key) as never) ?? null);
+    mockSaveEncrypted.mockImplementation(async (key, value) => {
+      stored.set(key, JSON.parse(JSON.stringify(value)));
+    });
+    mockRemoveEncrypted.mockImplementation(async (key) => {
+      stored.delete(key);
+    });
+  });
+
+  describe('getDueTiers', () => {
+    it('should make every generation due when there are no snapshots', () => {
+      expect(getDueTiers([], START)).toEqual(['hourly', 'daily', 'weekly']);
+    });
+
+    it('should make a generation due once its interval has passed', () => {
+      const index = [createInfo(0, ['hourly', 'daily', 'weekly'])];
+
+      expect(getDueTiers(index, START + 30 * 60 * 1000)).toEqual([]);
+      expect(getDueTiers(index, START + HOUR)).toEqual(['hourly']);
+      expect(getDueTiers(index, START + 24 * HOUR)).toEqual(['hourly', 'daily']);
+      expect(getDueTiers(index, START + 7 * 24 * HOUR)).toEqual(['hourly', 'daily', 'weekly']);
+    });
+
+    it('should use the newest snapshot of each generation', () => {
+      const index = [createInfo(23.5, ['hourly']), createInfo(0, ['hourly', 'daily'])];
+
+      expect(getDueTiers(index, START + 24 * HOUR)).toEqual(['daily', 'weekly']);
+    });
+  });
+
+  describe('rotateSnapshots', () => {
+    it('should keep the newest snapshots of each generation', () => {
+      const index = [0, 1, 2, 3].map((hour) => createInfo(hour, ['hourly']));
+
+      const { kept, removed } = rotateSnapshots(index);
+
+      expect(kept.map((s) => s.id)).toEqual([3, 2, 1].map((hour) => createInfo(hour, []).id));
+      expect(removed.map((s) => s.id)).toEqual([createInfo(0, []).id]);
+    });
+
+    it('should keep a snapshot that another generation still keeps', () => {
+      const index = [
+        createInfo(0, ['hourly', 'daily']),
+        ...[1, 2, 3].map((hour) => createInfo(hour, ['hourly'] as SnapshotTier[])),
+      ];
+
+      const { kept, removed } = rotateSnapshots(index);
+
+      expect(removed).toEqual([]);
+      expect(kept[kept.length - 1]).toMatchObject({ id: createInfo(0, []).id, tiers: ['daily'] });
+    });
+  });
+
+  describe('createSnapshotIfDue', () => {
+    it('should save the data and describe it in the index', async () => {
+      const data = createData(2);
+
+      const snapshot = await createSnapshotIfDue(data, new Date(START));
+
+      expect(snapshot).toEqual({
+        id: String(START),
+        createdAt: new Date(START).toISOString(),
+        tiers: ['hourly', 'daily', 'weekly'],
+        taskCount: 2,
+        itemCount: 4,
+        schemaVersion: 4,
+      });
+      expect(stored.get(`${SNAPSHOT_KEY_PREFIX}${START}`)).toEqual(data);
+      expect(await listSnapshots()).toEqual([snapshot]);
+    });
+
+    it('should not take a snapshot when no generation is due', async () => {
+      await createSnapshotIfDue(createData(1), new Date(START));
+
+      const snapshot = await createSnapshotIfDue(createData(2), new Date(START + 10 * 60 * 1000));
+
+      expect(snapshot).toBeNull();
+      expect(await listSnapshots()).toHaveLength(1);
+    });
+
+    it('should not snapshot invalid data', async () => {
+      const snapshot = await createSnapshotIfDue({ tasks: 'broken' } as never, new Date(START));
+
+      expect(snapshot).toBeNull();
+      expect(mockSaveEncrypted).not.toHaveBeenCalled();
+    });
+
+    it('should delete snapshots that rotated out', async () => {
+      // One save per hour for a day
+      for (let hour = 0; hour <= 24; hour++) {
+        await createSnapshotIfDue(createData(1), new Date(START + hour * HOUR));
+      }
+
+      const snapshots = await listSnapshots();
+      const countTier = (tier: SnapshotTier) =>
+        snapshots.filter((snapshot) => snapshot.tiers.includes(tier)).length;
+
+      expect(countTier('hourly')).toBe(SNAPSHOT_RETENTION.hourly);
+      expect(countTier('daily')).toBe(2);
+      expect(countTier('weekly')).toBe(1);
+
+      // Only the data of indexed snapshots is stored
+      const dataKeys = [...stored.keys()].filter((key) => key !== SNAPSHOT_INDEX_KEY).sort();
+      expect(dataKeys).toEqual(snapshots.map((s) => `${SNAPSHOT_KEY_PREFIX}${s.id}`).sort());
+    });
+
+    it('should not update the index when the data could not be saved', async () => {
+      mockSaveEncrypted.mockRejectedValueOnce(new Error('Disk full'));
+
+      await expect(createSnapshotIfDue(createData(1), new Date(START))).rejects.toThrow(
+        'Disk full'
+      );
+      expect(await listSnapshots()).toEqual([]);
+    });
+  });
+
+  describe('listSnapshots', () => {
+    it('should return snapshots newest first and drop malformed entries', async () => {
+      stored.set(SNAPSHOT_INDEX_KEY, [
+        createInfo(0, ['daily']),
+        { id: 1 },
+        createInfo(5, ['hourly']),
+      ]);
+
+      const snapshots = await listSnapshots();
+
+      expect(snapshots.map((s) => s.id)).toEqual([createInfo(5, []).id, createInfo(0, []).id]);
+    });
+
+    it('should return an empty list when the index cannot be read', async () => {
+      mockLoadEncrypted.mockRejectedValueOnce(new Error('Storage error'));
+
+      expect(await listSnapshots()).toEqual([]);
+    });
+  });
+
+  describe('loadSnapshot', () => {
+    it('should load the data of a snapshot', async () => {
+      const data = createData(1);
+      const snapshot = await createSnapshotIfDue(data, new Date(START));
+
+      expect(await loadSnapshot(snapshot!.id)).toEqual(data);
+    });
+
+    it('should throw DATA_CORRUPTED when the data is missing', async () => {
+      await expect(loadSnapshot('missing')).rejects.toMatchObject({
+        code: ErrorCode.DATA_CORRUPTED,
+      });
+    });
+  });
+
+  describe('loadNewestValidSnapshot', () => {
+    it('should skip snapshots that fail validation', async () => {
+      const older = createData(1);
+      await createSnapshotIfDue(older, new Date(START));
+      const newer = await createSnapshotIfDue(createData(2), new Date(START + HOUR));
+      stored.set(`${SNAPSHOT_KEY_PREFIX}${newer!.id}`, { tasks: 'broken' });
+
+      expect(await loadNewestValidSnapshot()).toEqual(older);
+    });
+
+    it('should return null when there are no snapshots', async () => {
+      expect(await loadNewestValidSnapshot()).toBeNull();
+    });
+  });
+});
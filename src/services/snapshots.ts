@@ -0,0 +1,307 @@
+/**
+ * Snapshots Service Module
+ *
+ * Keeps rotating point-in-time copies of the app data, separate from the
+ * live records and their backup (which are always written together and so
+ * can't recover from a bad save).
+ *
+ * After a successful save, a snapshot is taken if a generation is due:
+ * - hourly: at most once an hour, the newest 3 are kept
+ * - daily: at most once a day, the newest 3 are kept
+ * - weekly: at most once a week, the newest 2 are kept
+ *
+ * One snapshot can belong to several generations; it is deleted once no
+ * generation keeps it. Snapshot data is encrypted (see encryptedStorage),
+ * and a small index describes the stored snapshots for the settings screen.
+ */
+
+import { AppData, ErrorCode, SnapshotInfo, SnapshotTier } from '../types';
+import { isValidAppData } from '../utils/validation';
+import { createAppError } from '../utils/errors';
+import { countItems } from '../utils/itemTree';
+import { logger } from '../utils/logger';
+import { loadEncrypted, removeEncrypted, saveEncrypted } from './encryptedStorage';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Encrypted storage key of the snapshot index
+ */
+const SNAPSHOT_INDEX_KEY = 'split_todo.snapshots';
+
+/**
+ * Prefix of the encrypted storage key of each snapshot's data
+ */
+const SNAPSHOT_KEY_PREFIX = 'split_todo.snapshot.';
+
+/**
+ * Generations, from the shortest to the longest interval
+ */
+const SNAPSHOT_TIERS: SnapshotTier[] = ['hourly', 'daily', 'weekly'];
+
+/**
+ * Minimum time between two snapshots of a generation (milliseconds)
+ */
+const SNAPSHOT_INTERVALS: Record<SnapshotTier, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Number of snapshots kept per generation
+ * Kept small: every snapshot is a full copy of the data
+ */
+const SNAPSHOT_RETENTION: Record<SnapshotTier, number> = {
+  hourly: 3,
+  daily: 3,
+  weekly: 2,
+};
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/**
+ * Whether a snapshot is being taken (saves may overlap)
+ */
+let isTakingSnapshot = false;
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Takes a snapshot of the data if a generation is due, then deletes the
+ * snapshots no generation keeps anymore.
+ *
+ * Called by the storage service after a successful save. Invalid data is
+ * never snapshotted, so every snapshot can be restored.
+ *
+ * @param data - Data that was just saved
+ * @param now - Current time (for tests)
+ * @returns The new snapshot, or null if none was due
+ * @throws {Error} If the snapshot or the index could not be saved
+ *
+ * @example
+ * await saveAppData(data);
+ * await createSnapshotIfDue(data);
+ */
+export async function createSnapshotIfDue(
+  data: AppData,
+  now: Date = new Date()
+): Promise<SnapshotInfo | null> {
+  if (isTakingSnapshot || !isValidAppData(data)) {
+    return null;
+  }
+
+  isTakingSnapshot = true;
+
+  try {
+    const index = await loadIndex();
+    const tiers = getDueTiers(index, now.getTime());
+
+    if (tiers.length === 0) {
+      return null;
+    }
+
+    const snapshot: SnapshotInfo = {
+      id: String(now.getTime()),
+      createdAt: now.toISOString(),
+      tiers,
+      taskCount: data.tasks.length,
+      itemCount: data.tasks.reduce((sum, task) => sum + countItems(task.items), 0),
+      schemaVersion: data.schemaVersion,
+    };
+
+    // The data is saved before the index refers to it
+    await saveEncrypted(snapshotKey(snapshot.id), data);
+
+    const { kept, removed } = rotateSnapshots([snapshot, ...index]);
+    await saveEncrypted(SNAPSHOT_INDEX_KEY, kept);
+
+    logger.info('Snapshot created', { id: snapshot.id, tiers, removed: removed.length });
+
+    await removeSnapshotData(removed);
+
+    return snapshot;
+  } finally {
+    isTakingSnapshot = false;
+  }
+}
+
+/**
+ * Lists the stored snapshots.
+ *
+ * @returns Snapshots, newest first (empty if the index can't be read)
+ *
+ * @example
+ * const snapshots = await listSnapshots();
+ * console.log(`${snapshots.length} snapshots`);
+ */
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+  try {
+    return await loadIndex();
+  } catch (error) {
+    logger.error('Failed to load snapshot index', error as Error);
+    return [];
+  }
+}
+
+/**
+ * Loads the data of a snapshot.
+ *
+ * The data is returned in the schema version it was saved in;
+ * callers migrate it (see migrateSchema).
+ *
+ * @param id - Snapshot ID
+ * @returns Snapshot data
+ * @throws {AppError} DATA_CORRUPTED if the snapshot is missing or invalid
+ *
+ * @example
+ * const data = migrateSchema(await loadSnapshot(snapshot.id));
+ */
+export async function loadSnapshot(id: string): Promise<AppData> {
+  const data = await loadEncrypted<AppData>(snapshotKey(id));
+
+  if (!data || !isValidAppData(data)) {
+    logger.warn('Snapshot is missing or invalid', { id });
+    throw createAppError(ErrorCode.DATA_CORRUPTED, '자동 백업 데이터가 손상되었습니다');
+  }
+
+  return data;
+}
+
+/**
+ * Loads the newest snapshot that passes validation.
+ * Used as the last fallback when both primary storage and its backup fail.
+ *
+ * @returns Snapshot data, or null if no snapshot is usable
+ */
+export async function loadNewestValidSnapshot(): Promise<AppData | null> {
+  const snapshots = await listSnapshots();
+
+  for (const snapshot of snapshots) {
+    try {
+      const data = await loadSnapshot(snapshot.id);
+      logger.info('Loaded snapshot', { id: snapshot.id, createdAt: snapshot.createdAt });
+      return data;
+    } catch {
+      logger.warn('Skipping unusable snapshot', { id: snapshot.id });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns the generations due for a new snapshot.
+ *
+ * A generation is due when it has no snapshot yet, or when its newest
+ * snapshot is at least one interval old.
+ *
+ * @param index - Stored snapshots
+ * @param nowMs - Current time (milliseconds)
+ * @returns Due generations (empty if no snapshot is needed)
+ */
+export function getDueTiers(index: SnapshotInfo[], nowMs: number): SnapshotTier[] {
+  return SNAPSHOT_TIERS.filter((tier) => {
+    const newest = index
+      .filter((snapshot) => snapshot.tiers.includes(tier))
+      .reduce((latest, snapshot) => Math.max(latest, Date.parse(snapshot.createdAt)), -Infinity);
+
+    return nowMs - newest >= SNAPSHOT_INTERVALS[tier];
+  });
+}
+
+/**
+ * Applies the retention of each generation.
+ *
+ * Snapshots beyond the newest N of a generation leave that generation;
+ * snapshots left without a generation are removed.
+ *
+ * @param index - Stored snapshots
+ * @returns Snapshots to keep (newest first) and snapshots to delete
+ */
+export function rotateSnapshots(index: SnapshotInfo[]): {
+  kept: SnapshotInfo[];
+  removed: SnapshotInfo[];
+} {
+  const sorted = [...index].sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+  const tierCounts: Record<SnapshotTier, number> = { hourly: 0, daily: 0, weekly: 0 };
+
+  const rotated = sorted.map((snapshot) => ({
+    ...snapshot,
+    tiers: snapshot.tiers.filter((tier) => {
+      tierCounts[tier] += 1;
+      return tierCounts[tier] <= SNAPSHOT_RETENTION[tier];
+    }),
+  }));
+
+  return {
+    kept: rotated.filter((snapshot) => snapshot.tiers.length > 0),
+    removed: rotated.filter((snapshot) => snapshot.tiers.length === 0),
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS (Internal)
+// ============================================================================
+
+/**
+ * Loads the snapshot index, newest first
+ *
+ * Entries that don't look like snapshots are dropped.
+ */
+async function loadIndex(): Promise<SnapshotInfo[]> {
+  const stored = await loadEncrypted<unknown>(SNAPSHOT_INDEX_KEY);
+  const entries = Array.isArray(stored) ? stored : [];
+
+  return entries
+    .filter(
+      (entry): entry is SnapshotInfo =>
+        !!entry &&
+        typeof entry.id === 'string' &&
+        typeof entry.createdAt === 'string' &&
+        Array.isArray(entry.tiers)
+    )
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+}
+
+/**
+ * Deletes the data of removed snapshots
+ * Failures are only logged: the index no longer refers to them.
+ */
+async function removeSnapshotData(snapshots: SnapshotInfo[]): Promise<void> {
+  for (const snapshot of snapshots) {
+    try {
+      await removeEncrypted(snapshotKey(snapshot.id));
+    } catch {
+      logger.warn('Failed to remove snapshot data', { id: snapshot.id });
+    }
+  }
+}
+
+/**
+ * Encrypted storage key of a snapshot's data
+ */
+function snapshotKey(id: string): string {
+  return `${SNAPSHOT_KEY_PREFIX}${id}`;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+/**
+ * Export constants for testing and external use
+ */
+export const SNAPSHOT_CONSTANTS = {
+  SNAPSHOT_INDEX_KEY,
+  SNAPSHOT_KEY_PREFIX,
+  SNAPSHOT_TIERS,
+  SNAPSHOT_INTERVALS,
+  SNAPSHOT_RETENTION,
+};
@@ -1,25 +1,39 @@
 /**
  * Storage Service Test Suite
  *
- * Comprehensive tests for the AsyncStorage service layer.
- * Tests all major functionality including load, save, backup, migration, and cleanup.
+ * Comprehensive tests for the storage service layer.
+ * Tests all major functionality including load, save, backup, migration, and archiving.
+ * Records are stored in an in-memory StorageAdapter.
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   loadAppData,
   saveAppData,
   migrateSchema,
-  cleanOldCompletedTasks,
+  archiveOldCompletedTasks,
   createEmptyData,
+  setStorageAdapter,
   STORAGE_CONSTANTS,
 } from './storage';
+import { StorageAdapter, createMemoryStorageAdapter } from './storageAdapter';
+import { loadEncrypted, removeEncrypted, saveEncrypted } from './encryptedStorage';
+import { createSnapshotIfDue, loadNewestValidSnapshot } from './snapshots';
 import { AppData, Task, ErrorCode } from '../types';
 
-// Mock AsyncStorage
-jest.mock('@react-native-async-storage/async-storage');
+// Data of the old single-blob layout is read through encryptedStorage
+jest.mock('./encryptedStorage');
+jest.mock('./snapshots');
 
-const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+const mockLoadEncrypted = loadEncrypted as jest.MockedFunction<typeof loadEncrypted>;
+const mockRemoveEncrypted = removeEncrypted as jest.MockedFunction<typeof removeEncrypted>;
+const mockCreateSnapshotIfDue = createSnapshotIfDue as jest.MockedFunction<
+  typeof createSnapshotIfDue
+>;
+const mockLoadNewestValidSnapshot = loadNewestValidSnapshot as jest.MockedFunction<
+  typeof loadNewestValidSnapshot
+>;
+
+const { STORAGE_KEY, BACKUP_KEY, PRE_MIGRATION_KEY, LATEST_SCHEMA_VERSION } = STORAGE_CONSTANTS;
 
 // Helper function to create a test task
 function createTestTask(
@@ -45,9 +59,54 @@ function createTestTask(
   };
 }
 
+// Helper function to build the stored records of app data
+function createRecords(prefix: string, data: AppData): Record<string, string> {
+  const records: Record<string, string> = {
+    [`${prefix}:meta`]: JSON.stringify({
+      schemaVersion: data.schemaVersion,
+      taskIds: data.tasks.map((task) => task.id),
+    }),
+  };
+  data.tasks.forEach((task) => {
+    records[`${prefix}:task:${task.id}`] = JSON.stringify(task);
+  });
+  return records;
+}
+
+// Helper function to wrap an adapter with jest spies
+function spyOnAdapter(adapter: StorageAdapter): jest.Mocked<StorageAdapter> {
+  return {
+    multiGet: jest.fn(adapter.multiGet),
+    multiSet: jest.fn(adapter.multiSet),
+    multiRemove: jest.fn(adapter.multiRemove),
+    getAllKeys: jest.fn(adapter.getAllKeys),
+  };
+}
+
 describe('Storage Service', () => {
+  let adapter: jest.Mocked<StorageAdapter>;
+
+  // Installs an adapter holding the given records
+  function useRecords(records: Record<string, string> = {}): jest.Mocked<StorageAdapter> {
+    adapter = spyOnAdapter(createMemoryStorageAdapter(records));
+    setStorageAdapter(adapter);
+    return adapter;
+  }
+
+  // Reads every stored record
+  async function readAll(): Promise<Record<string, string>> {
+    const keys = await adapter.getAllKeys();
+    const pairs = await adapter.multiGet(keys);
+    return Object.fromEntries(pairs.map(([key, value]) => [key, value as string]));
+  }
+
   beforeEach(() => {
     jest.clearAllMocks();
+    mockLoadEncrypted.mockResolvedValue(null);
+    mockRemoveEncrypted.mockResolvedValue();
+    mockCreateSnapshotIfDue.mockResolvedValue(null);
+    mockLoadNewestValidSnapshot.mockResolvedValue(null);
+    useRecords();
   });
 
   // ========================================================================
@@ -79,64 +138,186 @@ describe('Storage Service', () => {
 
   describe('loadAppData', () => {
     it('should return empty data when no data exists', async () => {
-      mockAsyncStorage.getItem.mockResolvedValue(null);
-
       const result = await loadAppData();
 
       expect(result).toEqual(createEmptyData());
-      expect(mockAsyncStorage.getItem).toHaveBeenCalledWith(STORAGE_CONSTANTS.STORAGE_KEY);
+      expect(adapter.multiGet).toHaveBeenCalledWith([`${STORAGE_KEY}:meta`]);
     });
 
-    it('should load and parse valid data', async () => {
+    it('should load and assemble task records in order', async () => {
       const testData: AppData = {
-        schemaVersion: 1,
-        tasks: [createTestTask('1', 'Test Task', 3, 1)],
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('2', 'Second', 3, 1), createTestTask('1', 'First')],
       };
-
-      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(testData));
+      useRecords(createRecords(STORAGE_KEY, testData));
 
       const result = await loadAppData();
 
       expect(result).toEqual(testData);
-      expect(result.tasks).toHaveLength(1);
-      expect(result.tasks[0].title).toBe('Test Task');
+      expect(result.tasks.map((task) => task.title)).toEqual(['Second', 'First']);
+    });
+
+    it('should load settings and trash from the metadata record', async () => {
+      useRecords({
+        [`${STORAGE_KEY}:meta`]: JSON.stringify({
+          schemaVersion: LATEST_SCHEMA_VERSION,
+          settings: { archiveAfterDays: 7 },
+          trash: [],
+          taskIds: [],
+        }),
+      });
+
+      const result = await loadAppData();
+
+      expect(result).toEqual({
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        settings: { archiveAfterDays: 7 },
+        trash: [],
+        tasks: [],
+      });
     });
 
     it('should fallback to backup when primary data is corrupted', async () => {
       const validBackupData: AppData = {
-        schemaVersion: 1,
+        schemaVersion: LATEST_SCHEMA_VERSION,
         tasks: [createTestTask('1', 'Backup Task')],
       };
-
-      mockAsyncStorage.getItem
-        .mockResolvedValueOnce('{ invalid json }') // Primary fails
-        .mockResolvedValueOnce(JSON.stringify(validBackupData)); // Backup succeeds
+      useRecords({
+        [`${STORAGE_KEY}:meta`]: '{ invalid json }',
+        ...createRecords(BACKUP_KEY, validBackupData),
+      });
 
       const result = await loadAppData();
 
       expect(result).toEqual(validBackupData);
-      expect(mockAsyncStorage.getItem).toHaveBeenCalledTimes(2);
-      expect(mockAsyncStorage.getItem).toHaveBeenNthCalledWith(1, STORAGE_CONSTANTS.STORAGE_KEY);
-      expect(mockAsyncStorage.getItem).toHaveBeenNthCalledWith(2, STORAGE_CONSTANTS.BACKUP_KEY);
+    });
+
+    it('should fallback to backup when a task record is missing', async () => {
+      const data: AppData = {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('1', 'Task 1'), createTestTask('2', 'Task 2')],
+      };
+      const primary = createRecords(STORAGE_KEY, data);
+      delete primary[`${STORAGE_KEY}:task:2`];
+      useRecords({ ...primary, ...createRecords(BACKUP_KEY, data) });
+
+      const result = await loadAppData();
+
+      expect(result).toEqual(data);
     });
 
     it('should return empty data when both primary and backup fail', async () => {
-      mockAsyncStorage.getItem
-        .mockResolvedValueOnce('{ invalid json }') // Primary fails
-        .mockResolvedValueOnce('{ also invalid }'); // Backup fails
+      useRecords({
+        [`${STORAGE_KEY}:meta`]: '{ invalid json }',
+        [`${BACKUP_KEY}:meta`]: '{ also invalid }',
+      });
 
       const result = await loadAppData();
 
       expect(result).toEqual(createEmptyData());
     });
 
-    it('should handle AsyncStorage errors gracefully', async () => {
-      mockAsyncStorage.getItem.mockRejectedValue(new Error('AsyncStorage error'));
+    it('should handle storage errors gracefully', async () => {
+      useRecords().multiGet.mockRejectedValue(new Error('AsyncStorage error'));
 
       const result = await loadAppData();
 
       expect(result).toEqual(createEmptyData());
     });
+
+    it('should load data saved in the old single-blob layout', async () => {
+      const legacyData: AppData = {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('1', 'Legacy Task')],
+      };
+      mockLoadEncrypted.mockImplementation(async (key) =>
+        key === STORAGE_KEY ? legacyData : null
+      );
+
+      const result = await loadAppData();
+
+      expect(result).toEqual(legacyData);
+      expect(mockRemoveEncrypted).not.toHaveBeenCalled();
+    });
+
+    it('should fallback to the old backup blob when there are no backup records', async () => {
+      const legacyBackup: AppData = {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('1', 'Legacy Backup')],
+      };
+      mockLoadEncrypted.mockImplementation(async (key) =>
+        key === STORAGE_KEY ? { tasks: 'not an array' } : legacyBackup
+      );
+
+      const result = await loadAppData();
+
+      expect(result).toEqual(legacyBackup);
+    });
+
+    it('should fallback to the newest valid snapshot when the backup also fails', async () => {
+      const snapshotData: AppData = {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('1', 'Snapshot Task')],
+      };
+      useRecords({
+        [`${STORAGE_KEY}:meta`]: '{ invalid json }',
+        [`${BACKUP_KEY}:meta`]: '{ also invalid }',
+      });
+      mockLoadNewestValidSnapshot.mockResolvedValue(snapshotData);
+
+      const result = await loadAppData();
+
+      expect(result).toEqual(snapshotData);
+    });
+
+    it('should not use snapshots when the backup is valid', async () => {
+      const backupData: AppData = {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('1', 'Backup Task')],
+      };
+      useRecords({
+        [`${STORAGE_KEY}:meta`]: '{ invalid json }',
+        ...createRecords(BACKUP_KEY, backupData),
+      });
+
+      await loadAppData();
+
+      expect(mockLoadNewestValidSnapshot).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loadAppData migrations', () => {
+    it('should migrate old data, keep a snapshot and save the result', async () => {
+      const v3Data: AppData = {
+        schemaVersion: 3,
+        tasks: [
+          {
+            ...createTestTask('1', 'Old Task'),
+            items: [{ id: 'a', title: 'Today', done: false, isToday: true }],
+          },
+        ],
+      };
+      useRecords(createRecords(STORAGE_KEY, v3Data));
+
+      const result = await loadAppData();
+
+      expect(result.schemaVersion).toBe(LATEST_SCHEMA_VERSION);
+      expect(result.tasks[0].items[0]).not.toHaveProperty('isToday');
+      expect(result.tasks[0].items[0].scheduledDates).toHaveLength(1);
+      expect(saveEncrypted).toHaveBeenCalledWith(PRE_MIGRATION_KEY, v3Data);
+
+      // Saved in the new version, so the migration doesn't run again
+      const meta = JSON.parse((await readAll())[`${STORAGE_KEY}:meta`]);
+      expect(meta.schemaVersion).toBe(LATEST_SCHEMA_VERSION);
+    });
+
+    it('should not keep a snapshot when the data is up to date', async () => {
+      useRecords(createRecords(STORAGE_KEY, { schemaVersion: LATEST_SCHEMA_VERSION, tasks: [] }));
+
+      await loadAppData();
+
+      expect(saveEncrypted).not.toHaveBeenCalled();
+    });
   });
 
   // ========================================================================
@@ -144,66 +325,202 @@ describe('Storage Service', () => {
   // ========================================================================
 
   describe('saveAppData', () => {
-    it('should save data to both primary and backup storage', async () => {
+    it('should save one record per task to both primary and backup storage', async () => {
       const testData: AppData = {
-        schemaVersion: 1,
-        tasks: [createTestTask('1', 'Test Task')],
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('1', 'Test Task'), createTestTask('2', 'Other Task')],
       };
 
-      mockAsyncStorage.multiSet.mockResolvedValue();
-
       await saveAppData(testData);
 
-      expect(mockAsyncStorage.multiSet).toHaveBeenCalledWith([
-        [STORAGE_CONSTANTS.STORAGE_KEY, JSON.stringify(testData)],
-        [STORAGE_CONSTANTS.BACKUP_KEY, JSON.stringify(testData)],
-      ]);
+      expect(await readAll()).toEqual({
+        ...createRecords(STORAGE_KEY, testData),
+        ...createRecords(BACKUP_KEY, testData),
+      });
+    });
+
+    it('should write the metadata record after the task records', async () => {
+      await saveAppData({
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('1', 'Task')],
+      });
+
+      const keys = adapter.multiSet.mock.calls[0][0].map(([key]) => key);
+      expect(keys).toEqual([`${STORAGE_KEY}:task:1`, `${STORAGE_KEY}:meta`]);
+    });
+
+    it('should save and load the journal sequence number', async () => {
+      const data: AppData = { schemaVersion: LATEST_SCHEMA_VERSION, tasks: [], journalSeq: 7 };
+
+      await saveAppData(data);
+
+      expect(JSON.parse((await readAll())[`${STORAGE_KEY}:meta`]).journalSeq).toBe(7);
+      expect(await loadAppData()).toEqual(data);
+    });
+
+    it('should only write tasks that changed since the last save', async () => {
+      const unchanged = createTestTask('1', 'Unchanged');
+      const data: AppData = {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [unchanged, createTestTask('2', 'Before')],
+      };
+      await saveAppData(data);
+      adapter.multiSet.mockClear();
+
+      await saveAppData({ ...data, tasks: [unchanged, createTestTask('2', 'After')] });
+
+      const writtenKeys = adapter.multiSet.mock.calls.flatMap(([entries]) =>
+        entries.map(([key]) => key)
+      );
+      // The metadata record didn't change either (same task order)
+      expect(writtenKeys).toHaveLength(2);
+      expect(writtenKeys).toEqual(
+        expect.arrayContaining([`${STORAGE_KEY}:task:2`, `${BACKUP_KEY}:task:2`])
+      );
+    });
+
+    it('should only write tasks that changed since loading', async () => {
+      const data: AppData = {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('1', 'Task 1'), createTestTask('2', 'Task 2')],
+      };
+      useRecords({ ...createRecords(STORAGE_KEY, data), ...createRecords(BACKUP_KEY, data) });
+
+      const loaded = await loadAppData();
+      await loadAppData();
+      await saveAppData({
+        ...loaded,
+        tasks: [loaded.tasks[0], { ...loaded.tasks[1], title: 'Renamed' }],
+      });
+
+      const writtenKeys = adapter.multiSet.mock.calls.flatMap(([entries]) =>
+        entries.map(([key]) => key)
+      );
+      expect(writtenKeys).toContain(`${STORAGE_KEY}:task:2`);
+      expect(writtenKeys).not.toContain(`${STORAGE_KEY}:task:1`);
+    });
+
+    it('should remove records of deleted tasks', async () => {
+      const data: AppData = {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('1', 'Kept'), createTestTask('2', 'Deleted')],
+      };
+      await saveAppData(data);
+
+      await saveAppData({ ...data, tasks: [data.tasks[0]] });
+
+      const records = await readAll();
+      expect(records).not.toHaveProperty(`${STORAGE_KEY}:task:2`);
+      expect(records).not.toHaveProperty(`${BACKUP_KEY}:task:2`);
+      expect(records).toHaveProperty(`${STORAGE_KEY}:task:1`);
+    });
+
+    it('should remove stale records left from before the app started', async () => {
+      useRecords({
+        [`${STORAGE_KEY}:task:old`]: JSON.stringify(createTestTask('old', 'Old')),
+        OTHER_KEY: 'kept',
+      });
+
+      await saveAppData({ schemaVersion: LATEST_SCHEMA_VERSION, tasks: [] });
+
+      const records = await readAll();
+      expect(records).not.toHaveProperty(`${STORAGE_KEY}:task:old`);
+      expect(records).toHaveProperty('OTHER_KEY', 'kept');
+    });
+
+    it('should remove the old single-blob data after saving it as records', async () => {
+      const legacyData: AppData = {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('1', 'Legacy Task')],
+      };
+      mockLoadEncrypted.mockImplementation(async (key) =>
+        key === STORAGE_KEY ? legacyData : null
+      );
+
+      const loaded = await loadAppData();
+      await saveAppData(loaded);
+
+      expect(mockRemoveEncrypted).toHaveBeenCalledWith(STORAGE_KEY);
+      expect(mockRemoveEncrypted).toHaveBeenCalledWith(BACKUP_KEY);
+
+      mockLoadEncrypted.mockResolvedValue(null);
+      expect(await loadAppData()).toEqual(legacyData);
+    });
+
+    it('should keep the old single-blob data when the saved records cannot be read back', async () => {
+      const legacyData: AppData = {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('1', 'Legacy Task')],
+      };
+      mockLoadEncrypted.mockImplementation(async (key) =>
+        key === STORAGE_KEY ? legacyData : null
+      );
+
+      const loaded = await loadAppData();
+      adapter.multiGet.mockRejectedValueOnce(new Error('Decryption failed'));
+      await saveAppData(loaded);
+
+      expect(mockRemoveEncrypted).not.toHaveBeenCalled();
+
+      await saveAppData(loaded);
+      expect(mockRemoveEncrypted).toHaveBeenCalledWith(STORAGE_KEY);
     });
 
     it('should retry once on save failure', async () => {
       const testData = createEmptyData();
 
-      mockAsyncStorage.multiSet
-        .mockRejectedValueOnce(new Error('First attempt fails'))
-        .mockResolvedValueOnce(); // Second attempt succeeds
+      adapter.multiSet.mockRejectedValueOnce(new Error('First attempt fails'));
 
       await saveAppData(testData);
 
-      expect(mockAsyncStorage.multiSet).toHaveBeenCalledTimes(2);
+      expect(await readAll()).toHaveProperty(`${STORAGE_KEY}:meta`);
     });
 
     it('should throw error after retry fails', async () => {
       const testData = createEmptyData();
 
-      mockAsyncStorage.multiSet.mockRejectedValue(new Error('Persistent failure'));
+      adapter.multiSet.mockRejectedValue(new Error('Persistent failure'));
 
       await expect(saveAppData(testData)).rejects.toMatchObject({
         code: ErrorCode.UNKNOWN,
       });
 
-      expect(mockAsyncStorage.multiSet).toHaveBeenCalledTimes(
-        STORAGE_CONSTANTS.MAX_SAVE_RETRIES + 1
-      );
+      // Primary and backup are written on every attempt
+      expect(adapter.multiSet).toHaveBeenCalledTimes((STORAGE_CONSTANTS.MAX_SAVE_RETRIES + 1) * 2);
     });
 
-    it('should auto-cleanup when storage size exceeds limit', async () => {
-      // Create data that exceeds 5MB (simulate with many tasks)
-      const hugeTasks = Array.from({ length: 1000 }, (_, i) =>
-        createTestTask(`task-${i}`, `Task ${i}`, 50, 0)
-      );
+    it('should take a snapshot after saving', async () => {
+      const testData = createEmptyData();
 
-      const hugeData: AppData = {
-        schemaVersion: 1,
-        tasks: hugeTasks,
-      };
+      await saveAppData(testData);
+
+      expect(mockCreateSnapshotIfDue).toHaveBeenCalledWith(testData);
+    });
+
+    it('should save even when the snapshot fails', async () => {
+      mockCreateSnapshotIfDue.mockRejectedValue(new Error('Disk full'));
 
-      mockAsyncStorage.multiSet.mockResolvedValue();
+      await expect(saveAppData(createEmptyData())).resolves.toBeUndefined();
+      expect(await readAll()).toHaveProperty(`${STORAGE_KEY}:meta`);
+    });
 
-      // This should trigger auto-cleanup
-      await saveAppData(hugeData);
+    it('should not take a snapshot when the save fails', async () => {
+      adapter.multiSet.mockRejectedValue(new Error('Persistent failure'));
 
-      // Verify that data was saved (possibly after cleanup)
-      expect(mockAsyncStorage.multiSet).toHaveBeenCalled();
+      await expect(saveAppData(createEmptyData())).rejects.toBeDefined();
+      expect(mockCreateSnapshotIfDue).not.toHaveBeenCalled();
+    });
+
+    it('should throw STORAGE_FULL without writing when data exceeds the limit', async () => {
+      const hugeData: AppData = {
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        tasks: [createTestTask('1', 'x'.repeat(STORAGE_CONSTANTS.MAX_STORAGE_SIZE))],
+      };
+
+      await expect(saveAppData(hugeData)).rejects.toMatchObject({
+        code: ErrorCode.STORAGE_FULL,
+      });
+      expect(adapter.multiSet).not.toHaveBeenCalled();
     });
   });
 
@@ -238,12 +555,65 @@ describe('Storage Service', () => {
 
       const result = migrateSchema(oldData);
 
-      expect(result.schemaVersion).toBe(1);
+      expect(result.schemaVersion).toBe(STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION);
       expect(result.tasks[0]).toHaveProperty('createdAt');
       expect(result.tasks[0]).toHaveProperty('updatedAt');
       expect(result.tasks[0]).toHaveProperty('schemaVersion');
     });
 
+    it('should migrate done flags to per-date completions in v2', () => {
+      const v1Data = {
+        schemaVersion: 1,
+        tasks: [
+          {
+            ...createTestTask('1', 'Scheduled Task'),
+            items: [
+              { id: 'a', title: 'Past', done: true, scheduledDates: ['2000-01-01'] },
+              { id: 'b', title: 'Future', done: true, scheduledDates: ['2999-01-01'] },
+              { id: 'c', title: 'Open', done: false, scheduledDates: ['2000-01-01'] },
+            ],
+          },
+        ],
+        settings: { celebrationEnabled: true, dailySaveHour: 0, weekStartsOn: 0 },
+      };
+
+      const result = migrateSchema(v1Data);
+      const [past, future, open] = result.tasks[0].items;
+
+      expect(result.schemaVersion).toBe(STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION);
+      expect(result.settings).toEqual(v1Data.settings);
+      expect(Object.keys(past.completions || {})).toEqual(['2000-01-01']);
+      expect(future.completions).toEqual({});
+      expect(open.completions).toEqual({});
+    });
+
+    it('should keep nested items and drop malformed children in v3', () => {
+      const v2Data = {
+        schemaVersion: 2,
+        tasks: [
+          {
+            ...createTestTask('1', 'Nested Task'),
+            items: [
+              {
+                id: 'a',
+                title: 'Parent',
+                done: false,
+                children: [{ id: 'b', title: 'Child', done: true, children: [] }],
+              },
+              { id: 'c', title: 'Broken', done: false, children: 'oops' },
+            ],
+          },
+        ],
+      };
+
+      const result = migrateSchema(v2Data);
+      const [parent, broken] = result.tasks[0].items;
+
+      expect(result.schemaVersion).toBe(LATEST_SCHEMA_VERSION);
+      expect(parent.children).toEqual([{ id: 'b', title: 'Child', done: true }]);
+      expect(broken).not.toHaveProperty('children');
+    });
+
     it('should handle data without tasks array', () => {
       const invalidData = {
         schemaVersion: 0,
@@ -257,21 +627,21 @@ describe('Storage Service', () => {
   });
 
   // ========================================================================
-  // cleanOldCompletedTasks Tests
+  // archiveOldCompletedTasks Tests
   // ========================================================================
 
-  describe('cleanOldCompletedTasks', () => {
-    it('should remove completed tasks older than 30 days', () => {
+  describe('archiveOldCompletedTasks', () => {
+    it('should archive completed tasks older than 30 days instead of removing them', () => {
       const now = new Date();
       const oldDate = new Date(now);
       oldDate.setDate(oldDate.getDate() - 35); // 35 days ago
 
       const tasks = [
-        // This should be removed (100% complete and old)
+        // This should be archived (100% complete and old)
         createTestTask('1', 'Old Completed', 5, 5, oldDate.toISOString()),
-        // This should be kept (not old enough)
+        // This should be kept active (not old enough)
         createTestTask('2', 'Recent Completed', 5, 5, now.toISOString()),
-        // This should be kept (not fully completed)
+        // This should be kept active (not fully completed)
         createTestTask('3', 'Old Incomplete', 5, 3, oldDate.toISOString()),
       ];
 
@@ -280,20 +650,20 @@ describe('Storage Service', () => {
         tasks,
       };
 
-      const result = cleanOldCompletedTasks(data);
+      const result = archiveOldCompletedTasks(data);
 
-      expect(result.tasks).toHaveLength(2);
-      expect(result.tasks.find((t) => t.id === '1')).toBeUndefined();
-      expect(result.tasks.find((t) => t.id === '2')).toBeDefined();
-      expect(result.tasks.find((t) => t.id === '3')).toBeDefined();
+      expect(result.tasks).toHaveLength(3);
+      expect(result.tasks.find((t) => t.id === '1')?.archivedAt).toBeDefined();
+      expect(result.tasks.find((t) => t.id === '2')?.archivedAt).toBeUndefined();
+      expect(result.tasks.find((t) => t.id === '3')?.archivedAt).toBeUndefined();
     });
 
-    it('should keep empty tasks', () => {
+    it('should keep empty tasks active', () => {
       const oldDate = new Date();
       oldDate.setDate(oldDate.getDate() - 35);
 
       const tasks = [
-        // Empty task should be kept even if old
+        // Empty task should stay active even if old
         createTestTask('1', 'Empty Task', 0, 0, oldDate.toISOString()),
       ];
 
@@ -302,12 +672,12 @@ describe('Storage Service', () => {
         tasks,
       };
 
-      const result = cleanOldCompletedTasks(data);
+      const result = archiveOldCompletedTasks(data);
 
-      expect(result.tasks).toHaveLength(1);
+      expect(result.tasks[0].archivedAt).toBeUndefined();
     });
 
-    it('should not remove any tasks if none meet criteria', () => {
+    it('should return the same data if no task meets the criteria', () => {
       const now = new Date();
 
       const tasks = [
@@ -321,20 +691,28 @@ describe('Storage Service', () => {
         tasks,
       };
 
-      const result = cleanOldCompletedTasks(data);
+      const result = archiveOldCompletedTasks(data);
 
-      expect(result.tasks).toHaveLength(3);
+      expect(result).toBe(data);
     });
 
-    it('should handle tasks with no items', () => {
+    it('should use the archive threshold from settings (0 = off)', () => {
+      const oldDate = new Date();
+      oldDate.setDate(oldDate.getDate() - 10);
+
       const data: AppData = {
         schemaVersion: 1,
-        tasks: [createTestTask('1', 'No Items', 0, 0)],
+        tasks: [createTestTask('1', 'Completed', 3, 3, oldDate.toISOString())],
+        settings: {
+          celebrationEnabled: true,
+          dailySaveHour: 0,
+          weekStartsOn: 0,
+          archiveAfterDays: 7,
+        },
       };
 
-      const result = cleanOldCompletedTasks(data);
-
-      expect(result.tasks).toHaveLength(1);
+      expect(archiveOldCompletedTasks(data).tasks[0].archivedAt).toBeDefined();
+      expect(archiveOldCompletedTasks(data, 0)).toBe(data);
     });
   });
 
@@ -345,22 +723,13 @@ describe('Storage Service', () => {
   describe('Integration: Save and Load', () => {
     it('should successfully save and load data', async () => {
       const originalData: AppData = {
-        schemaVersion: 1,
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        settings: { archiveAfterDays: 14 },
+        trash: [],
         tasks: [createTestTask('1', 'Task 1', 3, 1), createTestTask('2', 'Task 2', 5, 5)],
       };
 
-      // Save
-      mockAsyncStorage.multiSet.mockResolvedValue();
       await saveAppData(originalData);
-
-      // Load
-      const savedData = mockAsyncStorage.multiSet.mock.calls[0][0];
-      const primaryData = savedData.find(([key]) => key === STORAGE_CONSTANTS.STORAGE_KEY);
-
-      if (primaryData) {
-        mockAsyncStorage.getItem.mockResolvedValue(primaryData[1]);
-      }
-
       const loadedData = await loadAppData();
 
       expect(loadedData).toEqual(originalData);
@@ -368,28 +737,23 @@ describe('Storage Service', () => {
     });
 
     it('should handle save-load cycle with large data', async () => {
-      const largeTasks = Array.from({ length: 100 }, (_, i) =>
+      const largeTasks = Array.from({ length: 1000 }, (_, i) =>
         createTestTask(`task-${i}`, `Task ${i}`, 10, 5)
       );
 
       const largeData: AppData = {
-        schemaVersion: 1,
+        schemaVersion: LATEST_SCHEMA_VERSION,
         tasks: largeTasks,
       };
 
-      mockAsyncStorage.multiSet.mockResolvedValue();
       await saveAppData(largeData);
 
-      const savedData = mockAsyncStorage.multiSet.mock.calls[0][0];
-      const primaryData = savedData.find(([key]) => key === STORAGE_CONSTANTS.STORAGE_KEY);
-
-      if (primaryData) {
-        mockAsyncStorage.getItem.mockResolvedValue(primaryData[1]);
-      }
-
+      // Start from a cold cache, like after an app restart
+      setStorageAdapter(adapter);
       const loadedData = await loadAppData();
 
-      expect(loadedData.tasks).toHaveLength(100);
+      expect(loadedData.tasks).toHaveLength(1000);
+      expect(loadedData.tasks[999].id).toBe('task-999');
     });
   });
 
@@ -398,47 +762,43 @@ describe('Storage Service', () => {
   // ========================================================================
 
   describe('Edge Cases', () => {
-    it('should handle null data gracefully', async () => {
-      mockAsyncStorage.getItem.mockResolvedValue(null);
+    it('should handle empty metadata record', async () => {
+      useRecords({ [`${STORAGE_KEY}:meta`]: '' });
 
       const result = await loadAppData();
 
       expect(result).toEqual(createEmptyData());
     });
 
-    it('should handle undefined data gracefully', async () => {
-      mockAsyncStorage.getItem.mockResolvedValue(undefined as any);
-
-      const result = await loadAppData();
-
-      expect(result).toEqual(createEmptyData());
-    });
-
-    it('should handle empty string data', async () => {
-      mockAsyncStorage.getItem.mockResolvedValue('');
+    it('should handle malformed task record', async () => {
+      useRecords({
+        [`${STORAGE_KEY}:meta`]: JSON.stringify({
+          schemaVersion: LATEST_SCHEMA_VERSION,
+          taskIds: ['1'],
+        }),
+        [`${STORAGE_KEY}:task:1`]: '{incomplete',
+      });
 
       const result = await loadAppData();
 
       expect(result).toEqual(createEmptyData());
     });
 
-    it('should handle malformed JSON gracefully', async () => {
-      mockAsyncStorage.getItem.mockResolvedValueOnce('{incomplete').mockResolvedValueOnce(null);
+    it('should handle metadata without task IDs', async () => {
+      useRecords({
+        [`${STORAGE_KEY}:meta`]: JSON.stringify({ schemaVersion: LATEST_SCHEMA_VERSION }),
+      });
 
       const result = await loadAppData();
 
-      expect(result).toEqual(createEmptyData());
+      expect(result).toEqual({ schemaVersion: LATEST_SCHEMA_VERSION, tasks: [] });
     });
 
     it('should handle data with missing required fields', async () => {
-      const invalidData = {
+      useRecords({
         // Missing schemaVersion
-        tasks: 'not an array',
-      };
-
-      mockAsyncStorage.getItem
-        .mockResolvedValueOnce(JSON.stringify(invalidData))
-        .mockResolvedValueOnce(null);
+        [`${STORAGE_KEY}:meta`]: JSON.stringify({ taskIds: [] }),
+      });
 
       const result = await loadAppData();
 
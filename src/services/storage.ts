@@ -4,38 +4,66 @@
  * Provides encrypted storage-based persistence layer for the Split TODO application.
  * Handles data loading, saving, backup/recovery, schema migrations, and automatic cleanup.
  *
+ * Data is stored through a pluggable StorageAdapter as individual records:
+ * one metadata record (schema version, settings, trash, tombstones, task order) plus one
+ * record per task. Saves only write the records that changed.
+ *
  * Features:
- * - Platform-native encryption (iOS: Keychain, Android: EncryptedSharedPreferences)
+ * - Record-per-task layout (encrypted AsyncStorage by default, in-memory in tests)
+ * - Authenticated encryption of every record (key kept in SecureStore)
+ * - Only changed tasks are serialized and written on save
  * - Automatic backup on every save
+ * - Rotating hourly/daily/weekly snapshots (see snapshots.ts)
+ * - Migration from the previous single-blob encrypted layout
  * - 1 retry on save failure
  * - Backup recovery on load failure
  * - Storage size validation (5MB limit)
- * - Automatic cleanup of old completed tasks (30 days)
+ * - Archiving of old completed tasks (30 days by default)
  * - Schema version migration support
  * - Comprehensive error handling with AppError
  */
 
-import { AppData, ErrorCode } from '../types';
+import { AppData, AppSettings, ErrorCode, Tombstone, TrashEntry } from '../types';
 import { isValidAppData } from '../utils/validation';
-import { calculateStorageSize, checkStorageLimit } from '../utils/validation';
-import { createAppError, logAppError } from '../utils/errors';
+import { calculateStringSize, checkStorageLimit } from '../utils/validation';
+import { createAppError, isAppError, logAppError } from '../utils/errors';
 import { logger } from '../utils/logger';
-import { saveEncrypted, loadEncrypted } from './encryptedStorage';
+import { DEFAULT_ARCHIVE_AFTER_DAYS, setTaskArchived, shouldAutoArchive } from '../utils/archive';
+import { loadEncrypted, removeEncrypted, saveEncrypted } from './encryptedStorage';
+import {
+  StorageAdapter,
+  asyncStorageAdapter,
+  createEncryptedStorageAdapter,
+} from './storageAdapter';
+import { getTodayKey } from './dailyRecords';
+import { appDataMigrations, createMigrationContext, runMigrations } from './migrations';
+import { createSnapshotIfDue, loadNewestValidSnapshot } from './snapshots';
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
 /**
- * Storage key for the main application data
+ * Key prefix for the main application data records
+ * (also the key of the single-blob data written by older versions)
  */
 const STORAGE_KEY = 'APP_DATA';
 
 /**
- * Storage key for backup data (used for recovery)
+ * Key prefix for the backup records (used for recovery)
  */
 const BACKUP_KEY = 'APP_DATA_BACKUP';
 
+/**
+ * Record key suffix of the metadata record
+ */
+const META_RECORD = 'meta';
+
+/**
+ * Record key suffix prefix of task records (followed by the task ID)
+ */
+const TASK_RECORD_PREFIX = 'task:';
+
 /**
  * Maximum storage size (5MB)
  * AsyncStorage has platform-dependent limits, we enforce 5MB for consistency
@@ -43,36 +71,109 @@ const BACKUP_KEY = 'APP_DATA_BACKUP';
 const MAX_STORAGE_SIZE = 5 * 1024 * 1024; // 5MB in bytes
 
 /**
- * Current schema version for AppData
- * Increment this when making breaking changes to the data structure
+ * Storage key of the data as it was before the last schema migration
+ * (kept so a faulty migration never loses the original data)
  */
-const LATEST_SCHEMA_VERSION = 1;
+const PRE_MIGRATION_KEY = 'APP_DATA_PRE_MIGRATION';
 
 /**
- * Number of days after which completed tasks are auto-deleted
+ * Key older versions stored the haptic feedback setting under (unencrypted)
  */
-const CLEANUP_THRESHOLD_DAYS = 30;
+const LEGACY_HAPTIC_KEY = 'HAPTIC_ENABLED';
+
+/**
+ * Current schema version for AppData
+ * Add a migration step in migrations.ts when making breaking changes to the data structure
+ */
+const LATEST_SCHEMA_VERSION = appDataMigrations.latestVersion;
 
 /**
  * Maximum number of retry attempts for save operations
  */
 const MAX_SAVE_RETRIES = 1;
 
+// ============================================================================
+// MODULE STATE
+// ============================================================================
+
+/**
+ * Metadata record: everything in AppData except the tasks,
+ * plus the task IDs in order
+ */
+interface MetaRecord {
+  schemaVersion: number;
+  settings?: AppSettings;
+  trash?: TrashEntry[];
+  tombstones?: Tombstone[];
+  journalSeq?: number;
+  taskIds: string[];
+}
+
+/**
+ * A serialized record and the object it was serialized from
+ */
+interface SerializedRecord {
+  source: unknown;
+  json: string;
+  size: number;
+}
+
+/**
+ * Records by key suffix ('meta', 'task:<id>')
+ */
+type RecordSet = Map<string, SerializedRecord>;
+
+/**
+ * Backend the records are stored in
+ */
+let storageAdapter: StorageAdapter = createEncryptedStorageAdapter(asyncStorageAdapter);
+
+/**
+ * Records last read or written per key prefix.
+ * Used to skip unchanged records on save; a prefix without an entry
+ * has not been read or written since the app started.
+ */
+const storedRecords = new Map<string, RecordSet>();
+
+/**
+ * Whether data was loaded from the single-blob layout of older versions
+ * (removed after the first successful save in the record layout)
+ */
+let hasLegacyData = false;
+
+/**
+ * Replaces the storage backend.
+ * Clears the record cache, so the next save rewrites every record.
+ *
+ * @param adapter - Storage backend to use
+ *
+ * @example
+ * setStorageAdapter(createMemoryStorageAdapter());
+ */
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  storageAdapter = adapter;
+  storedRecords.clear();
+  hasLegacyData = false;
+}
+
 // ============================================================================
 // MAIN FUNCTIONS
 // ============================================================================
 
 /**
- * Loads application data from AsyncStorage.
+ * Loads application data from the storage adapter.
  *
  * Implements a robust loading strategy with multiple fallback mechanisms:
- * 1. Try loading from primary storage (APP_DATA)
- * 2. Validate loaded data using type guard
- * 3. If validation fails, attempt to load from backup (APP_DATA_BACKUP)
- * 4. If backup also fails, return empty data structure
- * 5. Run schema migration if needed
+ * 1. Try loading the records of primary storage (APP_DATA)
+ * 2. If there are none, load data saved by older versions (single encrypted blob)
+ * 3. Validate loaded data using type guard
+ * 4. If validation fails (or a task record is missing), attempt to load from backup (APP_DATA_BACKUP)
+ * 5. If backup also fails, load the newest valid snapshot, or return empty data structure
+ * 6. Run schema migration if needed (keeping a pre-migration snapshot)
  *
  * @returns Promise resolving to AppData (empty if no valid data found)
+ * @throws {AppError} ENCRYPTION_KEY_MISSING if the data can't be decrypted because its key was lost
+ *   (returning empty data would let the next save overwrite it)
  *
  * @example
  * const data = await loadAppData();
@@ -90,19 +191,24 @@ export async function loadAppData(): Promise<AppData> {
   const timer = logger.startTimer('Load app data');
 
   try {
-    logger.debug('Loading data from EncryptedStorage', { key: STORAGE_KEY });
+    logger.debug('Loading data records', { prefix: STORAGE_KEY });
+
+    // Step 1: Load the records of primary storage
+    let parsedData = await readRecordsSafely(STORAGE_KEY);
 
-    // Step 1: Load from primary storage (encrypted)
-    const parsedData = await loadEncrypted<AppData>(STORAGE_KEY);
+    // Step 2: No records yet, the data may still be in the old single-blob layout
+    if (parsedData === null) {
+      parsedData = await loadLegacyData();
+    }
 
-    // Step 2: If no data exists, return empty data
-    if (!parsedData) {
+    // Step 3: If no data exists, return empty data
+    if (parsedData === null) {
       logger.info('No existing data found, returning empty data');
       timer.end();
       return createEmptyData();
     }
 
-    // Step 3: Validate data structure
+    // Step 4: Validate data structure
     if (!isValidAppData(parsedData)) {
       logger.warn('Data validation failed, attempting backup recovery');
       const backupData = await loadFromBackup();
@@ -110,8 +216,8 @@ export async function loadAppData(): Promise<AppData> {
       return backupData;
     }
 
-    // Step 4: Run schema migration if needed
-    const migratedData = migrateSchema(parsedData);
+    // Step 5: Run schema migration if needed
+    const migratedData = await migrateLoadedData(parsedData);
 
     logger.info('Data loaded successfully', {
       taskCount: migratedData.tasks.length,
@@ -121,6 +227,12 @@ export async function loadAppData(): Promise<AppData> {
     timer.end();
     return migratedData;
   } catch (error) {
+    if (isAppError(error) && error.code === ErrorCode.ENCRYPTION_KEY_MISSING) {
+      logAppError(error);
+      timer.end();
+      throw error;
+    }
+
     logger.error('Error loading data, returning empty data', error as Error);
 
     // Log the error but don't throw - return empty data instead
@@ -137,14 +249,16 @@ export async function loadAppData(): Promise<AppData> {
 }
 
 /**
- * Saves application data to encrypted storage with backup and retry logic.
+ * Saves application data to the storage adapter with backup and retry logic.
  *
  * Implements a robust saving strategy:
- * 1. Validate storage size (5MB limit)
- * 2. If size exceeded, auto-cleanup old completed tasks
- * 3. Save to both primary storage (APP_DATA) and backup (APP_DATA_BACKUP) with encryption
- * 4. If save fails, retry once
- * 5. If retry fails, throw AppError
+ * 1. Serialize the records, reusing the JSON of tasks that didn't change
+ * 2. Validate storage size (5MB limit)
+ * 3. If size exceeded, throw STORAGE_FULL (nothing is deleted automatically)
+ * 4. Write the changed records to both primary storage (APP_DATA) and backup (APP_DATA_BACKUP)
+ * 5. If save fails, retry once
+ * 6. If retry fails, throw AppError
+ * 7. Take a snapshot if one is due (a failed snapshot doesn't fail the save)
  *
  * @param data - AppData to save
  * @throws {AppError} If save fails after retry or if storage is full
@@ -168,13 +282,14 @@ export async function saveAppData(data: AppData): Promise<void> {
   const timer = logger.startTimer('Save app data');
 
   try {
-    logger.debug('Saving data to AsyncStorage', {
+    logger.debug('Saving data records', {
       taskCount: data.tasks.length,
       schemaVersion: data.schemaVersion,
     });
 
-    // Step 1: Check storage size
-    const sizeInBytes = calculateStorageSize(data);
+    // Step 1: Serialize records and check storage size
+    const records = serializeRecords(data);
+    const sizeInBytes = calculateRecordsSize(records);
     const storageLimitCheck = checkStorageLimit(sizeInBytes);
 
     logger.debug('Storage size check', {
@@ -183,38 +298,20 @@ export async function saveAppData(data: AppData): Promise<void> {
       valid: storageLimitCheck.valid,
     });
 
-    // Step 2: If size exceeded, auto-cleanup and retry
+    // Step 2: If size exceeded, stop (the user decides what to delete)
     if (!storageLimitCheck.valid) {
-      logger.warn('Storage size exceeded, attempting auto-cleanup', {
+      logger.warn('Storage size exceeded', {
         sizeInBytes,
         maxSize: MAX_STORAGE_SIZE,
       });
 
-      const cleanedData = cleanOldCompletedTasks(data);
-      const cleanedSize = calculateStorageSize(cleanedData);
-
-      // Check if cleanup helped
-      if (cleanedSize >= MAX_STORAGE_SIZE) {
-        const error = createAppError(
-          ErrorCode.STORAGE_FULL,
-          '저장 공간이 부족합니다. 자동 정리 후에도 크기가 초과되었습니다.'
-        );
-        logAppError(error);
-        timer.end();
-        throw error;
-      }
-
-      logger.info('Auto-cleanup successful', {
-        originalSize: sizeInBytes,
-        cleanedSize,
-        tasksBefore: data.tasks.length,
-        tasksAfter: cleanedData.tasks.length,
-      });
-
-      // Save cleaned data instead
-      await performSave(cleanedData);
+      const error = createAppError(
+        ErrorCode.STORAGE_FULL,
+        '저장 공간이 부족합니다. 보관함에서 필요 없는 할 일을 삭제해주세요.'
+      );
+      logAppError(error);
       timer.end();
-      return;
+      throw error;
     }
 
     // Step 3: Log warning if approaching limit
@@ -223,13 +320,20 @@ export async function saveAppData(data: AppData): Promise<void> {
     }
 
     // Step 4: Perform save with retry
-    await performSave(data);
+    await performSave(records);
 
     logger.info('Data saved successfully', {
       taskCount: data.tasks.length,
       sizeInBytes,
     });
 
+    // Step 5: Keep a point-in-time copy if a generation is due
+    try {
+      await createSnapshotIfDue(data);
+    } catch (error) {
+      logger.warn('Failed to create snapshot', error as Error);
+    }
+
     timer.end();
   } catch (error) {
     logger.error('Failed to save data', error as Error);
@@ -241,128 +345,91 @@ export async function saveAppData(data: AppData): Promise<void> {
 /**
  * Migrates data from older schema versions to the latest version.
  *
- * Handles backward compatibility by transforming old data structures
- * to match the current schema. Currently supports:
- * - Schema v1: Current version (no migration needed)
- * - Future versions: Add migration logic as needed
+ * Applies the registered AppData migration steps (see migrations.ts):
+ * - Schema v1: Initial schema
+ * - Schema v2: Per-date completions on checklist items
+ * - Schema v3: Nested checklist items
+ * - Schema v4: Legacy isToday flags become scheduled dates
  *
  * @param data - Raw data (possibly from older schema version)
  * @returns Migrated AppData with latest schema version
+ * @throws {AppError} MIGRATION_FAILED if a step fails (the input is left unchanged)
  *
  * @example
- * const oldData = { version: 0, tasks: [...] }; // Old format
+ * const oldData = { tasks: [...] }; // No schemaVersion (v0)
  * const newData = migrateSchema(oldData);
- * // Returns: { schemaVersion: 1, tasks: [...] } // New format
+ * // Returns: { schemaVersion: 4, tasks: [...] } // New format
  */
 export function migrateSchema(data: any): AppData {
-  const currentVersion = data.schemaVersion || 0;
-
-  // Already at latest version
-  if (currentVersion === LATEST_SCHEMA_VERSION) {
-    logger.debug('Data already at latest schema version', { version: currentVersion });
-    return data as AppData;
-  }
-
-  logger.info('Migrating schema', {
-    from: currentVersion,
-    to: LATEST_SCHEMA_VERSION,
-  });
-
-  let migratedData = { ...data };
-
-  // Migration from v0 to v1 (initial schema)
-  if (currentVersion < 1) {
-    migratedData = migrateToV1(migratedData);
-  }
-
-  // Future migrations will go here
-  // if (currentVersion < 2) {
-  //   migratedData = migrateToV2(migratedData);
-  // }
-
-  logger.info('Schema migration completed', {
-    version: migratedData.schemaVersion,
-  });
+  const { data: migratedData } = runMigrations<AppData>(
+    data,
+    appDataMigrations,
+    createMigrationContext(getTodayKey())
+  );
 
   return migratedData;
 }
 
 /**
- * Removes old completed tasks to free up storage space.
+ * Moves old completed tasks to the archive.
  *
- * Automatically cleans up tasks that are:
+ * Archives tasks that are:
  * - 100% completed (all checklist items done)
- * - Last updated more than 30 days ago
+ * - Last updated more than `thresholdDays` ago
  *
- * This helps maintain storage efficiency while preserving active tasks.
+ * Archived tasks are kept (hidden from the task list, restorable from the
+ * archive screen) instead of being deleted, so no history is lost.
  *
- * @param data - AppData to clean
- * @returns New AppData with old completed tasks removed
+ * @param data - AppData to check
+ * @param thresholdDays - Days without updates (default: settings.archiveAfterDays or 30, 0 = never)
+ * @returns New AppData with old completed tasks archived (the same object if nothing changed)
  *
  * @example
- * const data = { schemaVersion: 1, tasks: [...100 tasks...] };
- * const cleaned = cleanOldCompletedTasks(data);
- * console.log(`Removed ${data.tasks.length - cleaned.tasks.length} tasks`);
+ * const data = { schemaVersion: 3, tasks: [...100 tasks...] };
+ * const archived = archiveOldCompletedTasks(data);
  *
  * @example
- * // Tasks removed in cleanup:
- * // - Task completed 35 days ago -> REMOVED
+ * // Tasks archived:
+ * // - Task completed 35 days ago -> ARCHIVED
  * // - Task completed 20 days ago -> KEPT
  * // - Task 80% completed (old) -> KEPT
  */
-export function cleanOldCompletedTasks(data: AppData): AppData {
-  logger.debug('Cleaning old completed tasks', { totalTasks: data.tasks.length });
+export function archiveOldCompletedTasks(
+  data: AppData,
+  thresholdDays: number = data.settings?.archiveAfterDays ?? DEFAULT_ARCHIVE_AFTER_DAYS
+): AppData {
+  logger.debug('Archiving old completed tasks', { totalTasks: data.tasks.length, thresholdDays });
 
   const now = Date.now();
-  const thresholdMs = CLEANUP_THRESHOLD_DAYS * 24 * 60 * 60 * 1000;
-
-  const cleanedTasks = data.tasks.filter((task) => {
-    // Keep tasks with no items (empty tasks)
-    if (task.items.length === 0) {
-      return true;
-    }
-
-    // Check if task is 100% complete
-    const completedItems = task.items.filter((item) => item.done).length;
-    const isFullyCompleted = completedItems === task.items.length;
-
-    // Keep if not fully completed
-    if (!isFullyCompleted) {
-      return true;
-    }
-
-    // Check if task is old (based on updatedAt)
-    const updatedAt = new Date(task.updatedAt).getTime();
-    const ageMs = now - updatedAt;
-    const isOld = ageMs > thresholdMs;
+  const archivedAt = new Date(now).toISOString();
+  let archivedCount = 0;
 
-    // Keep if not old enough
-    if (!isOld) {
-      return true;
+  const tasks = data.tasks.map((task) => {
+    if (!shouldAutoArchive(task, thresholdDays, now)) {
+      return task;
     }
 
-    // Remove this task (fully completed and old)
-    logger.debug('Removing old completed task', {
+    archivedCount++;
+    logger.debug('Archiving old completed task', {
       id: task.id,
       title: task.title,
-      ageInDays: Math.floor(ageMs / (24 * 60 * 60 * 1000)),
     });
 
-    return false;
+    return setTaskArchived(task, true, archivedAt);
   });
 
-  const removedCount = data.tasks.length - cleanedTasks.length;
-
-  if (removedCount > 0) {
-    logger.info('Cleanup completed', {
-      removed: removedCount,
-      remaining: cleanedTasks.length,
-    });
+  if (archivedCount === 0) {
+    return data;
   }
 
+  logger.info('Archived old completed tasks', {
+    archived: archivedCount,
+    active: tasks.filter((task) => !task.archivedAt).length,
+  });
+
   return {
     ...data,
-    tasks: cleanedTasks,
+    tasks,
   };
 }
 
@@ -387,6 +454,39 @@ export function createEmptyData(): AppData {
   };
 }
 
+/**
+ * Removes the copy of the data saved before the last schema migration.
+ * Frees space once the migrated data is known to be fine.
+ *
+ * @throws {Error} If the copy could not be removed
+ */
+export async function clearPreMigrationData(): Promise<void> {
+  await removeEncrypted(PRE_MIGRATION_KEY);
+  logger.info('Pre-migration snapshot removed');
+}
+
+/**
+ * Takes the haptic feedback setting older versions stored on its own,
+ * so it can move into the app settings. The old key is removed.
+ *
+ * @returns Stored setting, or undefined if there is none
+ */
+export async function takeLegacyHapticSetting(): Promise<boolean | undefined> {
+  try {
+    const [[, json]] = await asyncStorageAdapter.multiGet([LEGACY_HAPTIC_KEY]);
+    if (json === null) {
+      return undefined;
+    }
+
+    await asyncStorageAdapter.multiRemove([LEGACY_HAPTIC_KEY]);
+    const value: unknown = JSON.parse(json);
+    return typeof value === 'boolean' ? value : undefined;
+  } catch (error) {
+    logger.error('Failed to read legacy haptic setting', error as Error);
+    return undefined;
+  }
+}
+
 // ============================================================================
 // HELPER FUNCTIONS (Internal)
 // ============================================================================
@@ -395,24 +495,24 @@ export function createEmptyData(): AppData {
  * Loads data from backup storage.
  *
  * Internal helper function used when primary storage fails.
- * Attempts to load from APP_DATA_BACKUP key.
+ * Attempts to load the APP_DATA_BACKUP records, then the backup blob
+ * written by older versions, then the newest snapshot that passes validation.
  *
- * @returns Promise resolving to AppData (empty if backup also fails)
+ * @returns Promise resolving to AppData (empty if backup and snapshots also fail)
  */
 async function loadFromBackup(): Promise<AppData> {
   try {
     logger.info('Attempting to load from backup');
 
-    const parsedBackup = await loadEncrypted<AppData>(BACKUP_KEY);
+    let parsedBackup = await readRecordsSafely(BACKUP_KEY);
 
-    if (!parsedBackup) {
-      logger.warn('No backup data found');
-      return createEmptyData();
+    if (parsedBackup === null) {
+      parsedBackup = await loadEncrypted<AppData>(BACKUP_KEY);
     }
 
-    if (!isValidAppData(parsedBackup)) {
-      logger.error('Backup data validation failed');
-      return createEmptyData();
+    if (!parsedBackup || !isValidAppData(parsedBackup)) {
+      logger.warn(parsedBackup ? 'Backup data validation failed' : 'No backup data found');
+      return await loadFromSnapshot();
     }
 
     logger.info('Backup data loaded successfully', {
@@ -420,25 +520,304 @@ async function loadFromBackup(): Promise<AppData> {
     });
 
     // Migrate backup data if needed
-    return migrateSchema(parsedBackup);
+    return await migrateLoadedData(parsedBackup);
   } catch (error) {
     logger.error('Failed to load backup data', error as Error);
     return createEmptyData();
   }
 }
 
+/**
+ * Loads the newest valid snapshot.
+ *
+ * Internal helper function used when both primary storage and backup fail.
+ *
+ * @returns Promise resolving to AppData (empty if no snapshot is usable)
+ */
+async function loadFromSnapshot(): Promise<AppData> {
+  const snapshotData = await loadNewestValidSnapshot();
+
+  if (!snapshotData) {
+    logger.error('No valid snapshot found');
+    return createEmptyData();
+  }
+
+  logger.info('Snapshot data loaded successfully', {
+    taskCount: snapshotData.tasks.length,
+  });
+
+  return await migrateLoadedData(snapshotData);
+}
+
+/**
+ * Migrates loaded data to the latest schema version and saves the result,
+ * so each migration runs only once.
+ *
+ * Before migrating, the data is saved as it is under PRE_MIGRATION_KEY,
+ * so it can still be recovered if a migration step turns out to be wrong.
+ *
+ * @param data - Valid data in any schema version
+ * @returns Migrated AppData
+ * @throws {AppError} MIGRATION_FAILED if a step fails
+ */
+async function migrateLoadedData(data: AppData): Promise<AppData> {
+  if ((data.schemaVersion || 0) >= LATEST_SCHEMA_VERSION) {
+    return data;
+  }
+
+  try {
+    await saveEncrypted(PRE_MIGRATION_KEY, data);
+    logger.info('Saved pre-migration snapshot', { version: data.schemaVersion });
+  } catch (error) {
+    logger.warn('Failed to save pre-migration snapshot', error as Error);
+  }
+
+  const migratedData = migrateSchema(data);
+
+  try {
+    await saveAppData(migratedData);
+  } catch (error) {
+    // The migration runs again on the next load
+    logger.warn('Failed to save migrated data', error as Error);
+  }
+
+  return migratedData;
+}
+
+/**
+ * Reads the records stored under a key prefix and assembles them into app data.
+ *
+ * Internal helper function. The result is not validated: a missing task
+ * record shows up as `null` in `tasks`, which fails validation.
+ * Remembers the records read, so the next save only writes what changed.
+ *
+ * @param prefix - Key prefix (STORAGE_KEY or BACKUP_KEY)
+ * @returns Unvalidated app data, or null if nothing is stored under the prefix
+ * @throws {SyntaxError} If a record is not valid JSON
+ */
+async function readRecords(prefix: string): Promise<unknown> {
+  const [[, metaJson]] = await storageAdapter.multiGet([recordKey(prefix, META_RECORD)]);
+
+  if (!metaJson) {
+    return null;
+  }
+
+  const meta = JSON.parse(metaJson) as MetaRecord;
+  const taskIds = Array.isArray(meta.taskIds) ? meta.taskIds : [];
+  const taskPairs = await storageAdapter.multiGet(
+    taskIds.map((id) => recordKey(prefix, TASK_RECORD_PREFIX + id))
+  );
+
+  const records: RecordSet = new Map();
+  records.set(META_RECORD, { source: meta, json: metaJson, size: calculateStringSize(metaJson) });
+
+  const tasks = taskPairs.map(([, json], index) => {
+    if (!json) {
+      logger.warn('Task record missing', { prefix, taskId: taskIds[index] });
+      return null;
+    }
+
+    const task = JSON.parse(json);
+    records.set(TASK_RECORD_PREFIX + taskIds[index], {
+      source: task,
+      json,
+      size: calculateStringSize(json),
+    });
+    return task;
+  });
+
+  storedRecords.set(prefix, records);
+
+  const { taskIds: _taskIds, ...rest } = meta;
+  return { ...rest, tasks };
+}
+
+/**
+ * Reads records like readRecords, treating unreadable records
+ * (invalid JSON or failed decryption) as corrupted data.
+ *
+ * @param prefix - Key prefix (STORAGE_KEY or BACKUP_KEY)
+ * @returns Unvalidated app data, null if nothing is stored, undefined if the records are corrupted
+ */
+async function readRecordsSafely(prefix: string): Promise<unknown> {
+  try {
+    return await readRecords(prefix);
+  } catch (error) {
+    const isCorrupted =
+      error instanceof SyntaxError ||
+      (isAppError(error) && error.code === ErrorCode.DATA_CORRUPTED);
+    if (!isCorrupted) {
+      throw error;
+    }
+
+    logger.warn('Failed to read data records', { prefix, message: (error as Error).message });
+    return undefined;
+  }
+}
+
+/**
+ * Loads data saved by older versions as a single encrypted blob.
+ *
+ * The blob is kept until the data has been saved in the record layout,
+ * so nothing is lost if the app closes before the first save.
+ *
+ * @returns Unvalidated app data, or null if there is none
+ */
+async function loadLegacyData(): Promise<unknown> {
+  const legacyData = await loadEncrypted<AppData>(STORAGE_KEY);
+
+  if (legacyData) {
+    logger.info('Found data in the single-blob layout, migrating to records');
+    hasLegacyData = true;
+  }
+
+  return legacyData;
+}
+
+/**
+ * Removes the single-blob data of older versions once it has been saved as records.
+ * The blob is only removed after the records read back as valid data.
+ * Failures are only logged; removal is retried after the next save.
+ */
+async function removeLegacyData(): Promise<void> {
+  try {
+    if (!isValidAppData(await readRecords(STORAGE_KEY))) {
+      logger.warn('Saved records failed validation, keeping the single-blob data');
+      return;
+    }
+
+    await Promise.all([removeEncrypted(STORAGE_KEY), removeEncrypted(BACKUP_KEY)]);
+    hasLegacyData = false;
+    logger.info('Removed data in the single-blob layout');
+  } catch (error) {
+    logger.warn('Failed to remove data in the single-blob layout', error as Error);
+  }
+}
+
+/**
+ * Serializes app data into records.
+ *
+ * Tasks that are the same object as when they were last stored reuse their
+ * JSON, so only changed tasks are serialized (tasks are updated immutably).
+ *
+ * @param data - AppData to serialize
+ * @returns Records by key suffix (task records first, metadata last)
+ */
+function serializeRecords(data: AppData): RecordSet {
+  const previous = storedRecords.get(STORAGE_KEY);
+  const records: RecordSet = new Map();
+
+  data.tasks.forEach((task) => {
+    const suffix = TASK_RECORD_PREFIX + task.id;
+    const stored = previous?.get(suffix);
+
+    if (stored && stored.source === task) {
+      records.set(suffix, stored);
+      return;
+    }
+
+    const json = JSON.stringify(task);
+    records.set(suffix, { source: task, json, size: calculateStringSize(json) });
+  });
+
+  const meta: MetaRecord = {
+    schemaVersion: data.schemaVersion,
+    settings: data.settings,
+    trash: data.trash,
+    tombstones: data.tombstones,
+    journalSeq: data.journalSeq,
+    taskIds: data.tasks.map((task) => task.id),
+  };
+  const metaJson = JSON.stringify(meta);
+  records.set(META_RECORD, { source: meta, json: metaJson, size: calculateStringSize(metaJson) });
+
+  return records;
+}
+
+/**
+ * Calculates the total size of a set of records in bytes
+ *
+ * @param records - Serialized records
+ * @returns Size in bytes
+ */
+function calculateRecordsSize(records: RecordSet): number {
+  let size = 0;
+  records.forEach((record) => {
+    size += record.size;
+  });
+  return size;
+}
+
+/**
+ * Writes records under a key prefix.
+ *
+ * Only records whose JSON differs from what is stored are written,
+ * with the metadata record last so it never lists a task that isn't stored yet.
+ * Records of tasks that no longer exist are removed afterwards.
+ *
+ * @param prefix - Key prefix (STORAGE_KEY or BACKUP_KEY)
+ * @param records - Records to store
+ */
+async function writeRecords(prefix: string, records: RecordSet): Promise<void> {
+  const previous = storedRecords.get(prefix);
+
+  const changedEntries: Array<[string, string]> = [];
+  records.forEach((record, suffix) => {
+    if (previous?.get(suffix)?.json !== record.json) {
+      changedEntries.push([recordKey(prefix, suffix), record.json]);
+    }
+  });
+
+  // Without a previous read/write, look up what is stored under the prefix
+  const storedSuffixes = previous
+    ? [...previous.keys()]
+    : (await storageAdapter.getAllKeys())
+        .filter((key) => key.startsWith(`${prefix}:`))
+        .map((key) => key.slice(prefix.length + 1));
+  const staleKeys = storedSuffixes
+    .filter((suffix) => !records.has(suffix))
+    .map((suffix) => recordKey(prefix, suffix));
+
+  if (changedEntries.length > 0) {
+    await storageAdapter.multiSet(changedEntries);
+  }
+
+  if (staleKeys.length > 0) {
+    await storageAdapter.multiRemove(staleKeys);
+  }
+
+  storedRecords.set(prefix, records);
+
+  logger.debug('Data records written', {
+    prefix,
+    written: changedEntries.length,
+    removed: staleKeys.length,
+  });
+}
+
+/**
+ * Builds the storage key of a record
+ *
+ * @param prefix - Key prefix (STORAGE_KEY or BACKUP_KEY)
+ * @param suffix - Record key suffix ('meta' or 'task:<id>')
+ * @returns Storage key, e.g. 'APP_DATA:task:123'
+ */
+function recordKey(prefix: string, suffix: string): string {
+  return `${prefix}:${suffix}`;
+}
+
 /**
  * Performs the actual save operation with retry logic.
  *
  * Internal helper function that handles:
- * - JSON serialization
- * - Saving to both primary and backup storage
+ * - Writing changed records to both primary and backup storage
  * - Retry on failure (1 retry)
+ * - Removing data of the old single-blob layout after the first save
  *
- * @param data - AppData to save
+ * @param records - Serialized records to save
  * @throws {AppError} If save fails after retry
  */
-async function performSave(data: AppData): Promise<void> {
+async function performSave(records: RecordSet): Promise<void> {
   let lastError: Error | null = null;
 
   // Try saving with retry
@@ -448,10 +827,15 @@ async function performSave(data: AppData): Promise<void> {
         logger.warn('Retrying save operation', { attempt });
       }
 
-      // Save to both primary and backup storage (encrypted)
-      await Promise.all([saveEncrypted(STORAGE_KEY, data), saveEncrypted(BACKUP_KEY, data)]);
+      // Save to both primary and backup storage
+      await Promise.all([writeRecords(STORAGE_KEY, records), writeRecords(BACKUP_KEY, records)]);
 
       logger.debug('Data saved to storage and backup');
+
+      if (hasLegacyData) {
+        await removeLegacyData();
+      }
+
       return; // Success!
     } catch (error) {
       lastError = error as Error;
@@ -473,45 +857,6 @@ async function performSave(data: AppData): Promise<void> {
   throw createAppError(ErrorCode.UNKNOWN, '데이터 저장에 실패했습니다', lastError || undefined);
 }
 
-/**
- * Migrates data from schema v0 to v1.
- *
- * Initial schema version (v1):
- * - Adds schemaVersion field to AppData
- * - Ensures all tasks have createdAt and updatedAt timestamps
- * - Ensures all tasks have schemaVersion field
- *
- * @param data - Data in v0 format (or unknown format)
- * @returns Data in v1 format
- */
-function migrateToV1(data: any): AppData {
-  logger.debug('Migrating to schema v1');
-
-  const now = new Date().toISOString();
-
-  // Ensure tasks array exists
-  const tasks = Array.isArray(data.tasks) ? data.tasks : [];
-
-  // Migrate each task
-  const migratedTasks = tasks.map((task: any) => {
-    return {
-      ...task,
-      // Ensure timestamps exist
-      createdAt: task.createdAt || now,
-      updatedAt: task.updatedAt || now,
-      // Ensure task has schema version
-      schemaVersion: task.schemaVersion || 1,
-      // Ensure items array exists
-      items: Array.isArray(task.items) ? task.items : [],
-    };
-  });
-
-  return {
-    schemaVersion: 1,
-    tasks: migratedTasks,
-  };
-}
-
 // ============================================================================
 // EXPORTS
 // ============================================================================
@@ -522,8 +867,9 @@ function migrateToV1(data: any): AppData {
 export const STORAGE_CONSTANTS = {
   STORAGE_KEY,
   BACKUP_KEY,
+  PRE_MIGRATION_KEY,
+  TASK_RECORD_PREFIX,
   MAX_STORAGE_SIZE,
   LATEST_SCHEMA_VERSION,
-  CLEANUP_THRESHOLD_DAYS,
   MAX_SAVE_RETRIES,
 };
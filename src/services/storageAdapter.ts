@@ -0,0 +1,118 @@
+/**
+ * Storage Adapter Module
+ *
+ * Key-value backends used by the storage service to persist app data as
+ * individual records (one key per task plus a small metadata record).
+ *
+ * Implementations:
+ * - asyncStorageAdapter: AsyncStorage
+ * - createEncryptedStorageAdapter(): encrypts values of another adapter, used by the app
+ * - createMemoryStorageAdapter(): in-memory map, used by tests
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { encryptString, decryptString } from './encryptedStorage';
+
+/**
+ * StorageAdapter is a minimal batched key-value store.
+ * Values are strings (records are serialized as JSON by the caller).
+ */
+export interface StorageAdapter {
+  /**
+   * Reads several keys at once
+   * @returns Key/value pairs in the order of `keys` (null for missing keys)
+   */
+  multiGet(keys: string[]): Promise<Array<[string, string | null]>>;
+
+  /**
+   * Writes several key/value pairs at once
+   */
+  multiSet(entries: Array<[string, string]>): Promise<void>;
+
+  /**
+   * Removes several keys at once
+   */
+  multiRemove(keys: string[]): Promise<void>;
+
+  /**
+   * Lists every stored key
+   */
+  getAllKeys(): Promise<string[]>;
+}
+
+/**
+ * AsyncStorage-backed adapter (one AsyncStorage entry per record)
+ */
+export const asyncStorageAdapter: StorageAdapter = {
+  multiGet: async (keys) => {
+    const pairs = await AsyncStorage.multiGet(keys);
+    return pairs.map(([key, value]) => [key, value] as [string, string | null]);
+  },
+  multiSet: (entries) => AsyncStorage.multiSet(entries),
+  multiRemove: (keys) => AsyncStorage.multiRemove(keys),
+  getAllKeys: async () => [...(await AsyncStorage.getAllKeys())],
+};
+
+/**
+ * Wraps an adapter so every value is stored encrypted (see encryptedStorage).
+ * Each value is bound to its key, so values moved between keys fail to decrypt.
+ *
+ * @param adapter - Adapter the encrypted values are stored in
+ * @returns Adapter reading and writing plain values
+ * @throws {AppError} DATA_CORRUPTED from multiGet if a stored value was tampered with
+ *
+ * @example
+ * setStorageAdapter(createEncryptedStorageAdapter(asyncStorageAdapter));
+ */
+export function createEncryptedStorageAdapter(adapter: StorageAdapter): StorageAdapter {
+  return {
+    multiGet: async (keys) => {
+      const pairs = await adapter.multiGet(keys);
+      return Promise.all(
+        pairs.map(
+          async ([key, value]) =>
+            [key, value === null ? null : await decryptString(value, key)] as [
+              string,
+              string | null,
+            ]
+        )
+      );
+    },
+    multiSet: async (entries) => {
+      const encrypted = await Promise.all(
+        entries.map(
+          async ([key, value]) => [key, await encryptString(value, key)] as [string, string]
+        )
+      );
+      await adapter.multiSet(encrypted);
+    },
+    multiRemove: (keys) => adapter.multiRemove(keys),
+    getAllKeys: () => adapter.getAllKeys(),
+  };
+}
+
+/**
+ * Creates an adapter that keeps everything in memory.
+ * Used in tests; nothing survives an app restart.
+ *
+ * @param initial - Optional initial key/value pairs
+ * @returns Adapter backed by a Map
+ *
+ * @example
+ * const adapter = createMemoryStorageAdapter();
+ * setStorageAdapter(adapter);
+ */
+export function createMemoryStorageAdapter(initial: Record<string, string> = {}): StorageAdapter {
+  const store = new Map<string, string>(Object.entries(initial));
+
+  return {
+    multiGet: async (keys) => keys.map((key) => [key, store.get(key) ?? null]),
+    multiSet: async (entries) => {
+      entries.forEach(([key, value]) => store.set(key, value));
+    },
+    multiRemove: async (keys) => {
+      keys.forEach((key) => store.delete(key));
+    },
+    getAllKeys: async () => [...store.keys()],
+  };
+}
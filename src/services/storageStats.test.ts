@@ -0,0 +1,152 @@
+/**
+ * Storage Stats Test Suite
+ *
+ * Tests measuring every stored key, grouping keys by kind of data,
+ * per-task sizes and warnings near the storage limits.
+ */
+
+import {
+  categorizeKey,
+  formatStorageSize,
+  getStorageStats,
+  getStorageWarningLevel,
+  STORAGE_STATS_CONSTANTS,
+} from './storageStats';
+import { createMemoryStorageAdapter } from './storageAdapter';
+import { AppData, ChecklistItem, Task } from '../types';
+
+const { DEVICE_STORAGE_LIMIT, LARGEST_ITEMS_COUNT } = STORAGE_STATS_CONSTANTS;
+
+// Helper function to create a test item
+function createTestItem(id: string, title: string = `Item ${id}`): ChecklistItem {
+  return { id, title, done: false };
+}
+
+// Helper function to create a test task
+function createTestTask(id: string, items: ChecklistItem[] = []): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    items,
+    createdAt: '2025-11-01T00:00:00.000Z',
+    updatedAt: '2025-11-01T00:00:00.000Z',
+  };
+}
+
+// Helper function to create app data
+function createData(tasks: Task[]): AppData {
+  return { schemaVersion: 4, tasks };
+}
+
+describe('Storage Stats', () => {
+  describe('categorizeKey', () => {
+    it('should group the keys the app stores', () => {
+      expect(categorizeKey('APP_DATA:meta')).toBe('appData');
+      expect(categorizeKey('APP_DATA:task:123')).toBe('appData');
+      expect(categorizeKey('APP_DATA_BACKUP:task:123')).toBe('backup');
+      expect(categorizeKey('ENCRYPTED:APP_DATA_PRE_MIGRATION')).toBe('preMigration');
+      expect(categorizeKey('ENCRYPTED:split_todo.daily_records')).toBe('dailyRecords');
+      expect(categorizeKey('ENCRYPTED:split_todo.daily_records:abc:0')).toBe('dailyRecords');
+      expect(categorizeKey('ENCRYPTED:split_todo.snapshots')).toBe('snapshots');
+      expect(categorizeKey('ENCRYPTED:split_todo.snapshot.1700000000000:abc:0')).toBe('snapshots');
+      expect(categorizeKey('SAVE_JOURNAL:12')).toBe('journal');
+      expect(categorizeKey('SYNC_OUTBOX')).toBe('outbox');
+      expect(categorizeKey('sb-abcdefgh-auth-token')).toBe('session');
+      expect(categorizeKey('HAPTIC_ENABLED')).toBe('other');
+    });
+  });
+
+  describe('getStorageStats', () => {
+    it('should measure every key and group the sizes', async () => {
+      const adapter = createMemoryStorageAdapter({
+        'APP_DATA:meta': 'x'.repeat(200),
+        'APP_DATA_BACKUP:meta': 'x'.repeat(100),
+        'ENCRYPTED:split_todo.daily_records:abc:0': 'x'.repeat(1000),
+        'sb-project-auth-token': 'x'.repeat(50),
+      });
+
+      const stats = await getStorageStats(createData([]), adapter);
+
+      expect(stats.categories.map((usage) => usage.category)).toEqual([
+        'dailyRecords',
+        'appData',
+        'backup',
+        'session',
+      ]);
+      expect(stats.categories[0]).toEqual({
+        category: 'dailyRecords',
+        sizeInBytes: 'ENCRYPTED:split_todo.daily_records:abc:0'.length + 1000,
+        keyCount: 1,
+      });
+      expect(stats.sizeInBytes).toBe(
+        stats.categories.reduce((sum, usage) => sum + usage.sizeInBytes, 0)
+      );
+    });
+
+    it('should report the stored size of each task, largest first', async () => {
+      const tasks = [createTestTask('small'), createTestTask('large'), createTestTask('unsaved')];
+      const adapter = createMemoryStorageAdapter({
+        'APP_DATA:task:small': 'x'.repeat(10),
+        'APP_DATA:task:large': 'x'.repeat(5000),
+      });
+
+      const stats = await getStorageStats(createData(tasks), adapter);
+
+      expect(stats.tasks.map((usage) => usage.taskId)).toEqual(['large', 'unsaved', 'small']);
+      expect(stats.tasks[0]).toEqual({
+        taskId: 'large',
+        title: 'Task large',
+        sizeInBytes: 'APP_DATA:task:large'.length + 5000,
+      });
+    });
+
+    it('should list the largest items, nested items included', async () => {
+      const nested: ChecklistItem = {
+        ...createTestItem('parent', 'Parent'),
+        children: [createTestItem('child', 'x'.repeat(500))],
+      };
+      const items = [
+        nested,
+        ...Array.from({ length: 6 }, (_, i) => createTestItem(String(i), `Longer item ${i}`)),
+      ];
+
+      const stats = await getStorageStats(
+        createData([createTestTask('a', items)]),
+        createMemoryStorageAdapter()
+      );
+
+      expect(stats.itemCount).toBe(8);
+      expect(stats.largestItems).toHaveLength(LARGEST_ITEMS_COUNT);
+      expect(stats.largestItems[0]).toMatchObject({ taskId: 'a', itemId: 'child' });
+      // An item is measured without its nested items
+      expect(stats.largestItems.map((usage) => usage.itemId)).not.toContain('parent');
+    });
+
+    it('should warn when the device storage is close to its limit', async () => {
+      const adapter = createMemoryStorageAdapter({
+        'ENCRYPTED:split_todo.daily_records': 'x'.repeat(Math.round(DEVICE_STORAGE_LIMIT * 0.85)),
+      });
+
+      const stats = await getStorageStats(createData([]), adapter);
+
+      expect(stats.percentUsed).toBe(85);
+      expect(stats.warningLevel).toBe('warning');
+    });
+  });
+
+  describe('getStorageWarningLevel', () => {
+    it('should grade usage by percentage', () => {
+      expect(getStorageWarningLevel(50)).toBe('ok');
+      expect(getStorageWarningLevel(80)).toBe('warning');
+      expect(getStorageWarningLevel(95)).toBe('critical');
+    });
+  });
+
+  describe('formatStorageSize', () => {
+    it('should use B, KB or MB', () => {
+      expect(formatStorageSize(512)).toBe('512 B');
+      expect(formatStorageSize(250880)).toBe('245.00 KB');
+      expect(formatStorageSize(3 * 1024 * 1024)).toBe('3.00 MB');
+    });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Storage Stats Service
+ *
+ * Measures the space used by every key the app stores: the app data records,
+ * their backup copy, daily records, automatic snapshots, the save journal,
+ * the sync outbox and the account session. Values are measured as stored
+ * (encrypted values included), so the numbers match what the device actually holds.
+ *
+ * Two limits are watched:
+ * - The device storage limit (AsyncStorage's default database size on Android)
+ * - The app data limit, past which saving fails (see storage.ts)
+ */
+
+import {
+  AppData,
+  EntryStorageUsage,
+  StorageCategory,
+  StorageCategoryUsage,
+  StorageStats,
+  StorageWarningLevel,
+} from '../types';
+import { calculateStorageSize, calculateStringSize } from '../utils/validation';
+import { countItems, flattenItems } from '../utils/itemTree';
+import { logger } from '../utils/logger';
+import { StorageAdapter, asyncStorageAdapter } from './storageAdapter';
+import { STORAGE_CONSTANTS } from './storage';
+import { ENCRYPTION_CONSTANTS } from './encryptedStorage';
+import { DAILY_RECORDS_CONSTANTS } from './dailyRecords';
+import { SNAPSHOT_CONSTANTS } from './snapshots';
+import { JOURNAL_CONSTANTS } from './saveJournal';
+import { OUTBOX_CONSTANTS } from './syncOutbox';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Device storage limit in bytes
+ * AsyncStorage's database is limited to 6MB on Android by default
+ */
+const DEVICE_STORAGE_LIMIT = 6 * 1024 * 1024;
+
+/**
+ * Percentage of a limit from which usage is reported as a warning
+ */
+const WARNING_PERCENT = 80;
+
+/**
+ * Percentage of a limit from which usage is reported as critical
+ */
+const CRITICAL_PERCENT = 95;
+
+/**
+ * Number of checklist items listed as the largest
+ */
+const LARGEST_ITEMS_COUNT = 5;
+
+/**
+ * Storage key of the account session (Supabase stores it as `sb-<project>-auth-token`)
+ */
+const SESSION_KEY_PATTERN = /^sb-.+-auth-token/;
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Measures the storage used by the app.
+ *
+ * @param data - Current app data (tasks, settings and trash)
+ * @param adapter - Storage to measure (AsyncStorage by default)
+ * @returns Storage usage with the per-group, per-task and largest item breakdown
+ * @throws {Error} If the storage can't be read
+ *
+ * @example
+ * const stats = await getStorageStats({ schemaVersion: 4, tasks, settings, trash });
+ * if (stats.warningLevel !== 'ok') {
+ *   showStorageWarning(stats.percentUsed);
+ * }
+ */
+export async function getStorageStats(
+  data: AppData,
+  adapter: StorageAdapter = asyncStorageAdapter
+): Promise<StorageStats> {
+  try {
+    const keys = await adapter.getAllKeys();
+    const pairs = keys.length > 0 ? await adapter.multiGet(keys) : [];
+
+    const categoryUsage = new Map<StorageCategory, StorageCategoryUsage>();
+    const taskRecordSizes = new Map<string, number>();
+    const taskRecordPrefix = `${STORAGE_CONSTANTS.STORAGE_KEY}:${STORAGE_CONSTANTS.TASK_RECORD_PREFIX}`;
+    let sizeInBytes = 0;
+
+    pairs.forEach(([key, value]) => {
+      const size = calculateStringSize(key) + calculateStringSize(value || '');
+      const category = categorizeKey(key);
+      const usage = categoryUsage.get(category) || { category, sizeInBytes: 0, keyCount: 0 };
+
+      categoryUsage.set(category, {
+        ...usage,
+        sizeInBytes: usage.sizeInBytes + size,
+        keyCount: usage.keyCount + 1,
+      });
+      sizeInBytes += size;
+
+      if (key.startsWith(taskRecordPrefix)) {
+        taskRecordSizes.set(key.slice(taskRecordPrefix.length), size);
+      }
+    });
+
+    // Tasks not saved yet are measured as they would be serialized
+    const tasks: EntryStorageUsage[] = data.tasks
+      .map((task) => ({
+        taskId: task.id,
+        title: task.title,
+        sizeInBytes: taskRecordSizes.get(task.id) ?? calculateStorageSize(task),
+      }))
+      .sort((a, b) => b.sizeInBytes - a.sizeInBytes);
+
+    const appDataSizeInBytes = calculateStorageSize(data);
+    const percentUsed = toPercent(sizeInBytes, DEVICE_STORAGE_LIMIT);
+    const appDataPercentUsed = toPercent(appDataSizeInBytes, STORAGE_CONSTANTS.MAX_STORAGE_SIZE);
+
+    const stats: StorageStats = {
+      taskCount: data.tasks.length,
+      itemCount: data.tasks.reduce((sum, task) => sum + countItems(task.items), 0),
+      sizeInBytes,
+      sizeFormatted: formatStorageSize(sizeInBytes),
+      percentUsed,
+      appDataSizeInBytes,
+      appDataPercentUsed,
+      warningLevel: getStorageWarningLevel(Math.max(percentUsed, appDataPercentUsed)),
+      categories: [...categoryUsage.values()].sort((a, b) => b.sizeInBytes - a.sizeInBytes),
+      tasks,
+      largestItems: getLargestItems(data),
+    };
+
+    logger.debug('Storage measured', {
+      sizeInBytes,
+      keyCount: keys.length,
+      warningLevel: stats.warningLevel,
+    });
+
+    return stats;
+  } catch (error) {
+    logger.error('Failed to measure storage', error as Error);
+    throw error;
+  }
+}
+
+/**
+ * Determines the group a storage key belongs to.
+ * Encrypted payloads (`ENCRYPTED:<key>` and their chunks) belong to the group of `<key>`.
+ *
+ * @param key - Storage key
+ * @returns Group of the key
+ *
+ * @example
+ * categorizeKey('APP_DATA:task:123'); // 'appData'
+ * categorizeKey('ENCRYPTED:split_todo.daily_records:abc:0'); // 'dailyRecords'
+ */
+export function categorizeKey(key: string): StorageCategory {
+  const { ENCRYPTED_KEY_PREFIX } = ENCRYPTION_CONSTANTS;
+  const name = key.startsWith(ENCRYPTED_KEY_PREFIX)
+    ? key.slice(ENCRYPTED_KEY_PREFIX.length).split(':')[0]
+    : key.split(':')[0];
+
+  if (name === STORAGE_CONSTANTS.STORAGE_KEY) {
+    return 'appData';
+  }
+  if (name === STORAGE_CONSTANTS.BACKUP_KEY) {
+    return 'backup';
+  }
+  if (name === STORAGE_CONSTANTS.PRE_MIGRATION_KEY) {
+    return 'preMigration';
+  }
+  if (name === DAILY_RECORDS_CONSTANTS.DAILY_RECORDS_KEY) {
+    return 'dailyRecords';
+  }
+  if (
+    name === SNAPSHOT_CONSTANTS.SNAPSHOT_INDEX_KEY ||
+    name.startsWith(SNAPSHOT_CONSTANTS.SNAPSHOT_KEY_PREFIX)
+  ) {
+    return 'snapshots';
+  }
+  if (key.startsWith(JOURNAL_CONSTANTS.JOURNAL_KEY_PREFIX)) {
+    return 'journal';
+  }
+  if (key === OUTBOX_CONSTANTS.OUTBOX_KEY) {
+    return 'outbox';
+  }
+  if (SESSION_KEY_PATTERN.test(key)) {
+    return 'session';
+  }
+  return 'other';
+}
+
+/**
+ * Determines how close usage is to a limit.
+ *
+ * @param percentUsed - Percentage of the limit used
+ * @returns 'critical' from 95%, 'warning' from 80%, otherwise 'ok'
+ */
+export function getStorageWarningLevel(percentUsed: number): StorageWarningLevel {
+  if (percentUsed >= CRITICAL_PERCENT) {
+    return 'critical';
+  }
+  if (percentUsed >= WARNING_PERCENT) {
+    return 'warning';
+  }
+  return 'ok';
+}
+
+/**
+ * Formats a size for display.
+ *
+ * @param sizeInBytes - Size in bytes
+ * @returns Size in B, KB or MB
+ *
+ * @example
+ * formatStorageSize(512); // "512 B"
+ * formatStorageSize(250880); // "245.00 KB"
+ */
+export function formatStorageSize(sizeInBytes: number): string {
+  if (sizeInBytes < 1024) {
+    return `${sizeInBytes} B`;
+  }
+  if (sizeInBytes < 1024 * 1024) {
+    return `${(sizeInBytes / 1024).toFixed(2)} KB`;
+  }
+  return `${(sizeInBytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS (Internal)
+// ============================================================================
+
+/**
+ * Percentage of a limit used, between 0 and 100
+ */
+function toPercent(sizeInBytes: number, limit: number): number {
+  return Math.min(100, Math.round((sizeInBytes / limit) * 100));
+}
+
+/**
+ * Finds the largest checklist items, measured without their nested items
+ */
+function getLargestItems(data: AppData): EntryStorageUsage[] {
+  const items: EntryStorageUsage[] = [];
+
+  data.tasks.forEach((task) => {
+    flattenItems(task.items).forEach((item) => {
+      items.push({
+        taskId: task.id,
+        itemId: item.id,
+        title: item.title,
+        sizeInBytes: calculateStorageSize({ ...item, children: undefined }),
+      });
+    });
+  });
+
+  return items.sort((a, b) => b.sizeInBytes - a.sizeInBytes).slice(0, LARGEST_ITEMS_COUNT);
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+/**
+ * Export constants for testing and external use
+ */
+export const STORAGE_STATS_CONSTANTS = {
+  DEVICE_STORAGE_LIMIT,
+  WARNING_PERCENT,
+  CRITICAL_PERCENT,
+  LARGEST_ITEMS_COUNT,
+};
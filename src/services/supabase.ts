@@ -15,6 +15,8 @@
  * 4. Create a .env file in the root directory with:
  *    EXPO_PUBLIC_SUPABASE_URL=your_supabase_url
  *    EXPO_PUBLIC_SUPABASE_ANON_KEY=your_supabase_anon_key
+ * 5. Apply the SQL migrations in supabase/migrations (e.g. `supabase db push`);
+ *    they add the columns and tables of the types below
  */
 
 import 'react-native-url-polyfill/auto';
@@ -40,6 +42,13 @@ export interface Database {
           created_at: string;
           updated_at: string;
           schema_version: number;
+          sort_order: number | null;
+          archived_at: string | null;
+          tags: unknown; // JSON field (the task's tags with name and color)
+          fields_updated_at: string | null;
+          deleted_items: unknown; // JSON field (tombstones of deleted items)
+          deleted_at: string | null; // Set on rows of deleted tasks
+          synced_at: string; // Set by the server on every write (delta sync cursor)
         };
         Insert: {
           id: string;
@@ -49,6 +58,12 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           schema_version?: number;
+          sort_order?: number | null;
+          archived_at?: string | null;
+          tags?: unknown;
+          fields_updated_at?: string | null;
+          deleted_items?: unknown;
+          deleted_at?: string | null;
         };
         Update: {
           id?: string;
@@ -58,7 +73,14 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           schema_version?: number;
+          sort_order?: number | null;
+          archived_at?: string | null;
+          tags?: unknown;
+          fields_updated_at?: string | null;
+          deleted_items?: unknown;
+          deleted_at?: string | null;
         };
+        Relationships: [];
       };
       daily_records: {
         Row: {
@@ -91,8 +113,34 @@ export interface Database {
           saved_at?: string;
           items?: any;
         };
+        Relationships: [];
+      };
+      user_settings: {
+        Row: {
+          user_id: string;
+          settings: unknown; // JSON field (values of the roaming settings)
+          settings_updated_at: unknown; // JSON field (when each setting was changed)
+          updated_at: string;
+        };
+        Insert: {
+          user_id?: string;
+          settings: unknown;
+          settings_updated_at: unknown;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          settings?: unknown;
+          settings_updated_at?: unknown;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
     };
+    Views: { [_ in never]: never };
+    Functions: { [_ in never]: never };
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
   };
 }
 
@@ -0,0 +1,253 @@
+/**
+ * Sync Outbox Test Suite
+ *
+ * Tests creating and coalescing operations, storing the queue, and
+ * flushing it automatically with retries.
+ */
+
+import {
+  acknowledgeOperations,
+  coalesceOperations,
+  createSyncOperations,
+  flushOutbox,
+  getOutboxStatus,
+  getPendingOperations,
+  getRetryDelay,
+  loadOutbox,
+  queueOperations,
+  setOutboxAdapter,
+  startOutbox,
+  OUTBOX_CONSTANTS,
+} from './syncOutbox';
+import { StorageAdapter, createMemoryStorageAdapter } from './storageAdapter';
+import { AppSettings, SyncOperation, Task } from '../types';
+
+const { AUTO_SYNC_DELAY_MS, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS } = OUTBOX_CONSTANTS;
+
+const NOW = '2025-11-06T12:00:00.000Z';
+
+const settings: AppSettings = { celebrationEnabled: true, dailySaveHour: 0, weekStartsOn: 0 };
+
+// Helper function to create a test task
+function createTestTask(id: string, title: string = `Task ${id}`): Task {
+  return {
+    id,
+    title,
+    items: [],
+    createdAt: '2025-11-06T00:00:00.000Z',
+    updatedAt: '2025-11-06T00:00:00.000Z',
+  };
+}
+
+// Helper function to create a task operation
+function taskOperation(
+  type: 'upsertTask' | 'deleteTask',
+  recordId: string,
+  queuedAt: string = NOW
+): SyncOperation {
+  return { type, recordId, queuedAt };
+}
+
+// Helper function to create outbox handlers. A successful flush acknowledges
+// the queued operations, like a sync does.
+function createHandlers(flushResult: { success: boolean; error?: string } = { success: true }) {
+  return {
+    hasSession: jest.fn(async () => true),
+    flush: jest.fn(async (): Promise<{ success: boolean; error?: string }> => {
+      if (flushResult.success) {
+        acknowledgeOperations(getPendingOperations());
+      }
+      return flushResult;
+    }),
+    onChange: jest.fn(),
+  };
+}
+
+describe('Sync Outbox', () => {
+  let adapter: StorageAdapter;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    adapter = createMemoryStorageAdapter();
+    setOutboxAdapter(adapter);
+  });
+
+  afterEach(() => {
+    setOutboxAdapter(adapter);
+    jest.useRealTimers();
+  });
+
+  describe('createSyncOperations', () => {
+    it('should queue changed, new and deleted tasks', () => {
+      const unchanged = createTestTask('1');
+      const previous = { tasks: [unchanged, createTestTask('2'), createTestTask('3')], settings };
+      const next = {
+        tasks: [unchanged, createTestTask('2', 'Renamed'), createTestTask('4')],
+        settings,
+      };
+
+      expect(createSyncOperations(previous, next, NOW)).toEqual([
+        taskOperation('upsertTask', '2'),
+        taskOperation('upsertTask', '4'),
+        taskOperation('deleteTask', '3'),
+      ]);
+    });
+
+    it('should queue tag list changes', () => {
+      const tasks = [createTestTask('1')];
+      const next = { tasks, settings: { ...settings, tags: [] } };
+
+      expect(createSyncOperations({ tasks, settings }, next, NOW)).toEqual([
+        { type: 'updateTags', recordId: 'tags', queuedAt: NOW },
+      ]);
+    });
+
+    it('should queue synced setting changes', () => {
+      const tasks = [createTestTask('1')];
+      const next = { tasks, settings: { ...settings, settingsUpdatedAt: { weekStartsOn: NOW } } };
+
+      expect(createSyncOperations({ tasks, settings }, next, NOW)).toEqual([
+        { type: 'updateSettings', recordId: 'settings', queuedAt: NOW },
+      ]);
+    });
+
+    it('should return nothing when no synced data changed', () => {
+      const state = { tasks: [createTestTask('1')], settings };
+
+      expect(createSyncOperations(state, { ...state, settings: { ...settings } }, NOW)).toEqual([]);
+    });
+  });
+
+  describe('coalesceOperations', () => {
+    it('should keep only the latest operation per record, last changed last', () => {
+      const queued = [
+        taskOperation('upsertTask', '1'),
+        taskOperation('upsertTask', '2'),
+        { type: 'updateTags' as const, recordId: 'tags', queuedAt: NOW },
+      ];
+      const deleted = taskOperation('deleteTask', '1', '2025-11-06T12:01:00.000Z');
+
+      expect(coalesceOperations(queued, [deleted])).toEqual([queued[1], queued[2], deleted]);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay after every failure up to the maximum', () => {
+      expect(getRetryDelay(1)).toBe(RETRY_BASE_DELAY_MS);
+      expect(getRetryDelay(2)).toBe(RETRY_BASE_DELAY_MS * 2);
+      expect(getRetryDelay(3)).toBe(RETRY_BASE_DELAY_MS * 4);
+      expect(getRetryDelay(50)).toBe(RETRY_MAX_DELAY_MS);
+    });
+  });
+
+  describe('loadOutbox', () => {
+    it('should restore the queue stored before a restart', async () => {
+      queueOperations([taskOperation('upsertTask', '1')]);
+      await loadOutbox(); // Waits for the write
+
+      setOutboxAdapter(adapter);
+      expect(getPendingOperations()).toEqual([]);
+
+      expect(await loadOutbox()).toEqual([taskOperation('upsertTask', '1')]);
+    });
+
+    it('should skip invalid stored operations', async () => {
+      await adapter.multiSet([
+        [
+          OUTBOX_CONSTANTS.OUTBOX_KEY,
+          JSON.stringify([taskOperation('upsertTask', '1'), { type: 'unknown' }]),
+        ],
+      ]);
+
+      expect(await loadOutbox()).toEqual([taskOperation('upsertTask', '1')]);
+    });
+  });
+
+  describe('automatic flush', () => {
+    it('should flush once, shortly after the last change', async () => {
+      const handlers = createHandlers();
+      startOutbox(handlers);
+
+      queueOperations([taskOperation('upsertTask', '1')]);
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_DELAY_MS - 1);
+      queueOperations([taskOperation('upsertTask', '2')]);
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_DELAY_MS);
+
+      expect(handlers.flush).toHaveBeenCalledTimes(1);
+      expect(getPendingOperations()).toEqual([]);
+      expect(handlers.onChange).toHaveBeenLastCalledWith({ pendingCount: 0, failureCount: 0 });
+    });
+
+    it('should wait for a session', async () => {
+      const handlers = createHandlers();
+      handlers.hasSession.mockResolvedValue(false);
+      startOutbox(handlers);
+
+      queueOperations([taskOperation('upsertTask', '1')]);
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_DELAY_MS);
+
+      expect(handlers.flush).not.toHaveBeenCalled();
+      expect(getOutboxStatus()).toEqual({ pendingCount: 1, failureCount: 0 });
+    });
+
+    it('should retry failed flushes with exponential backoff', async () => {
+      const handlers = createHandlers({ success: false, error: 'Network request failed' });
+      startOutbox(handlers);
+
+      queueOperations([taskOperation('upsertTask', '1')]);
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_DELAY_MS);
+      expect(handlers.flush).toHaveBeenCalledTimes(1);
+      expect(getOutboxStatus()).toMatchObject({ pendingCount: 1, failureCount: 1 });
+      expect(getOutboxStatus().nextRetryAt).toBeDefined();
+
+      // New changes don't cut the backoff short
+      queueOperations([taskOperation('upsertTask', '2')]);
+      await jest.advanceTimersByTimeAsync(RETRY_BASE_DELAY_MS - 1);
+      expect(handlers.flush).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(handlers.flush).toHaveBeenCalledTimes(2);
+
+      await jest.advanceTimersByTimeAsync(RETRY_BASE_DELAY_MS * 2);
+      expect(handlers.flush).toHaveBeenCalledTimes(3);
+      expect(getOutboxStatus()).toMatchObject({ pendingCount: 2, failureCount: 3 });
+    });
+
+    it('should reset the backoff after a successful sync', async () => {
+      const handlers = createHandlers({ success: false });
+      startOutbox(handlers);
+
+      queueOperations([taskOperation('upsertTask', '1')]);
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_DELAY_MS);
+
+      acknowledgeOperations(getPendingOperations());
+
+      expect(getOutboxStatus()).toEqual({ pendingCount: 0, failureCount: 0 });
+      await jest.advanceTimersByTimeAsync(RETRY_MAX_DELAY_MS);
+      expect(handlers.flush).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep changes made during a sync queued', async () => {
+      const handlers = createHandlers();
+      startOutbox(handlers);
+      handlers.flush.mockImplementationOnce(async () => {
+        const included = getPendingOperations();
+        queueOperations([taskOperation('upsertTask', '1', '2025-11-06T12:01:00.000Z')]);
+        acknowledgeOperations(included);
+        return { success: true };
+      });
+
+      queueOperations([taskOperation('upsertTask', '1')]);
+      await flushOutbox();
+
+      expect(getPendingOperations()).toEqual([
+        taskOperation('upsertTask', '1', '2025-11-06T12:01:00.000Z'),
+      ]);
+
+      // The change is flushed next
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_DELAY_MS);
+      expect(handlers.flush).toHaveBeenCalledTimes(2);
+      expect(getPendingOperations()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,545 @@
+/**
+ * Sync Outbox Module
+ *
+ * Queue of local changes waiting to be sent to the cloud, so changes made
+ * offline (or while syncing fails) are synced later instead of waiting for
+ * a manual sync.
+ *
+ * - The store queues an operation for every task created, changed or
+ *   deleted and for every change to the tag list or the synced settings.
+ *   Only the latest operation per record is kept.
+ * - The queue is stored on the device, so it survives a restart.
+ * - A flush runs shortly after the last change (debounced), when signed in.
+ *   Without a session the queue waits; signing in syncs everything.
+ * - A failed flush is retried with exponential backoff.
+ * - A successful sync acknowledges the operations it included; operations
+ *   queued while it ran stay queued for the next flush.
+ */
+
+import { AppSettings, SyncOperation, SyncOperationType, Task } from '../types';
+import { logger } from '../utils/logger';
+import { StorageAdapter, asyncStorageAdapter } from './storageAdapter';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Storage key of the queued operations
+ */
+const OUTBOX_KEY = 'SYNC_OUTBOX';
+
+/**
+ * Delay after the last change before the queue is flushed (ms)
+ */
+const AUTO_SYNC_DELAY_MS = 3000;
+
+/**
+ * Delay before the first retry after a failed flush (ms), doubled after every failure
+ */
+const RETRY_BASE_DELAY_MS = 5000;
+
+/**
+ * Longest delay between retries (ms)
+ */
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+/**
+ * Record ID of the tag list operation
+ */
+const TAGS_RECORD_ID = 'tags';
+
+/**
+ * Record ID of the settings operation
+ */
+const SETTINGS_RECORD_ID = 'settings';
+
+/**
+ * Operation types that can be stored
+ */
+const OPERATION_TYPES: ReadonlySet<SyncOperationType> = new Set([
+  'upsertTask',
+  'deleteTask',
+  'updateTags',
+  'updateSettings',
+]);
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * State of the outbox, shown in settings
+ */
+export interface OutboxStatus {
+  /**
+   * Number of queued operations
+   */
+  pendingCount: number;
+
+  /**
+   * Number of flushes that failed in a row
+   */
+  failureCount: number;
+
+  /**
+   * When the next retry runs (ISO 8601), if a flush failed
+   */
+  nextRetryAt?: string;
+}
+
+/**
+ * What the outbox needs from the app to flush
+ */
+export interface OutboxHandlers {
+  /**
+   * Checks whether a user is signed in
+   */
+  hasSession: () => Promise<boolean>;
+
+  /**
+   * Syncs with the cloud. On success, the sync acknowledges the operations
+   * it included (see acknowledgeOperations).
+   */
+  flush: () => Promise<{ success: boolean; error?: string }>;
+
+  /**
+   * Called whenever the status changes
+   */
+  onChange?: (status: OutboxStatus) => void;
+}
+
+// ============================================================================
+// MODULE STATE
+// ============================================================================
+
+/**
+ * Backend the queue is stored in
+ */
+let outboxAdapter: StorageAdapter = asyncStorageAdapter;
+
+/**
+ * Queued operations, oldest first
+ */
+let operations: SyncOperation[] = [];
+
+/**
+ * Handlers registered by startOutbox (null while stopped)
+ */
+let outboxHandlers: OutboxHandlers | null = null;
+
+/**
+ * Number of flushes that failed in a row
+ */
+let failureCount = 0;
+
+/**
+ * Time of the scheduled retry in ms (null if no retry is scheduled)
+ */
+let nextRetryAt: number | null = null;
+
+/**
+ * Timer of the next flush (debounced auto-sync or retry)
+ */
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Flush currently running
+ */
+let flushInProgress: Promise<void> | null = null;
+
+/**
+ * Pending writes, run one at a time in order
+ */
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Replaces the outbox backend and resets the outbox.
+ *
+ * @param adapter - Storage backend to use
+ *
+ * @example
+ * setOutboxAdapter(createMemoryStorageAdapter());
+ */
+export function setOutboxAdapter(adapter: StorageAdapter): void {
+  stopOutbox();
+  outboxAdapter = adapter;
+  operations = [];
+  failureCount = 0;
+  nextRetryAt = null;
+  flushInProgress = null;
+  writeQueue = Promise.resolve();
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Loads the stored operations. Operations queued before loading are kept.
+ *
+ * @returns Queued operations (only those queued since startup if the queue can't be read)
+ */
+export async function loadOutbox(): Promise<SyncOperation[]> {
+  await writeQueue;
+
+  try {
+    const [[, json]] = await outboxAdapter.multiGet([OUTBOX_KEY]);
+    const stored: unknown = json ? JSON.parse(json) : [];
+    const storedOperations = Array.isArray(stored) ? stored.filter(isValidSyncOperation) : [];
+
+    operations = coalesceOperations(storedOperations, operations);
+    logger.debug('Sync outbox loaded', { pendingCount: operations.length });
+  } catch (error) {
+    logger.error('Failed to load sync outbox', error as Error);
+  }
+
+  notifyChange();
+  return operations;
+}
+
+/**
+ * Starts flushing the queue automatically.
+ *
+ * @param handlers - Session check, sync and status listener
+ *
+ * @example
+ * startOutbox({ hasSession: isSignedIn, flush: syncWithCloud });
+ */
+export function startOutbox(handlers: OutboxHandlers): void {
+  outboxHandlers = handlers;
+  notifyChange();
+}
+
+/**
+ * Stops flushing the queue. Queued operations stay stored.
+ */
+export function stopOutbox(): void {
+  clearFlushTimer();
+  outboxHandlers = null;
+}
+
+/**
+ * Returns the queued operations, oldest first.
+ * A sync reads them before it starts and acknowledges them when it succeeds.
+ */
+export function getPendingOperations(): SyncOperation[] {
+  return operations;
+}
+
+/**
+ * Returns the current outbox status
+ */
+export function getOutboxStatus(): OutboxStatus {
+  return {
+    pendingCount: operations.length,
+    failureCount,
+    ...(nextRetryAt !== null && { nextRetryAt: new Date(nextRetryAt).toISOString() }),
+  };
+}
+
+/**
+ * Queues operations and schedules a flush after AUTO_SYNC_DELAY_MS.
+ * While a retry is scheduled, the retry delay is kept.
+ *
+ * @param added - Operations to queue
+ *
+ * @example
+ * queueOperations(createSyncOperations(previous, next, new Date().toISOString()));
+ */
+export function queueOperations(added: SyncOperation[]): void {
+  if (added.length === 0) {
+    return;
+  }
+
+  operations = coalesceOperations(operations, added);
+  persistOperations();
+  notifyChange();
+
+  if (nextRetryAt === null) {
+    scheduleFlush(AUTO_SYNC_DELAY_MS);
+  }
+}
+
+/**
+ * Removes the operations a successful sync included and resets the backoff.
+ * Operations replaced by a newer change since the sync started stay queued.
+ *
+ * @param included - Operations read with getPendingOperations before the sync
+ */
+export function acknowledgeOperations(included: SyncOperation[]): void {
+  const acknowledged = new Set(included);
+  const remaining = operations.filter((operation) => !acknowledged.has(operation));
+  const changed = remaining.length !== operations.length;
+
+  operations = remaining;
+  failureCount = 0;
+  if (nextRetryAt !== null) {
+    nextRetryAt = null;
+    clearFlushTimer();
+  }
+
+  if (changed) {
+    persistOperations();
+  }
+  notifyChange();
+
+  // Changes made during the sync are flushed next
+  if (operations.length > 0 && !flushTimer) {
+    scheduleFlush(AUTO_SYNC_DELAY_MS);
+  }
+}
+
+/**
+ * Removes every queued operation (e.g. after signing out).
+ */
+export function clearOutbox(): void {
+  operations = [];
+  failureCount = 0;
+  nextRetryAt = null;
+  clearFlushTimer();
+  persistOperations();
+  notifyChange();
+}
+
+/**
+ * Flushes the queue now: syncs if operations are queued and a user is
+ * signed in. A failed flush schedules a retry with exponential backoff.
+ * Never throws; a flush already running is awaited instead of starting another.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushInProgress) {
+    flushInProgress = runFlush().finally(() => {
+      flushInProgress = null;
+    });
+  }
+  return flushInProgress;
+}
+
+/**
+ * Creates the operations for a change to the tasks, the tag list or the
+ * synced settings. Tasks are compared by reference, as the store updates immutably.
+ *
+ * @param previous - Tasks and settings before the change
+ * @param next - Tasks and settings after the change
+ * @param now - ISO 8601 timestamp of the change
+ * @returns Operations to queue (empty if nothing synced changed)
+ *
+ * @example
+ * createSyncOperations({ tasks, settings }, { tasks: updatedTasks, settings }, now);
+ * // Returns: [{ type: 'upsertTask', recordId: 'task-1', queuedAt: now }]
+ */
+export function createSyncOperations(
+  previous: { tasks: Task[]; settings: AppSettings },
+  next: { tasks: Task[]; settings: AppSettings },
+  now: string
+): SyncOperation[] {
+  const result: SyncOperation[] = [];
+
+  if (previous.tasks !== next.tasks) {
+    const previousTasks = new Set(previous.tasks);
+    const nextIds = new Set(next.tasks.map((task) => task.id));
+
+    next.tasks
+      .filter((task) => !previousTasks.has(task))
+      .forEach((task) => result.push({ type: 'upsertTask', recordId: task.id, queuedAt: now }));
+    previous.tasks
+      .filter((task) => !nextIds.has(task.id))
+      .forEach((task) => result.push({ type: 'deleteTask', recordId: task.id, queuedAt: now }));
+  }
+
+  if (previous.settings.tags !== next.settings.tags) {
+    result.push({ type: 'updateTags', recordId: TAGS_RECORD_ID, queuedAt: now });
+  }
+
+  // Synced settings get new change times when they change (see utils/settingsSync.ts)
+  if (
+    previous.settings.settingsUpdatedAt !== next.settings.settingsUpdatedAt ||
+    previous.settings.deviceLocalSettings !== next.settings.deviceLocalSettings
+  ) {
+    result.push({ type: 'updateSettings', recordId: SETTINGS_RECORD_ID, queuedAt: now });
+  }
+
+  return result;
+}
+
+/**
+ * Adds operations to a queue. An operation replaces the queued operation
+ * for the same record (a task's upsert and delete replace each other) and
+ * moves to the end.
+ *
+ * @param queued - Queued operations
+ * @param added - Operations to add, oldest first
+ * @returns The combined queue
+ *
+ * @example
+ * coalesceOperations([upsertTask1], [deleteTask1]); // [deleteTask1]
+ */
+export function coalesceOperations(
+  queued: SyncOperation[],
+  added: SyncOperation[]
+): SyncOperation[] {
+  const byRecord = new Map(queued.map((operation) => [recordKey(operation), operation]));
+
+  added.forEach((operation) => {
+    const key = recordKey(operation);
+    byRecord.delete(key);
+    byRecord.set(key, operation);
+  });
+
+  return Array.from(byRecord.values());
+}
+
+/**
+ * Calculates the delay before a retry: RETRY_BASE_DELAY_MS doubled for
+ * every earlier failure, at most RETRY_MAX_DELAY_MS.
+ *
+ * @param failures - Number of flushes that failed in a row (1 or more)
+ * @returns Delay in ms
+ *
+ * @example
+ * getRetryDelay(1); // 5000
+ * getRetryDelay(3); // 20000
+ */
+export function getRetryDelay(failures: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, failures - 1), RETRY_MAX_DELAY_MS);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS (Internal)
+// ============================================================================
+
+/**
+ * Runs one flush
+ */
+async function runFlush(): Promise<void> {
+  clearFlushTimer();
+
+  const handlers = outboxHandlers;
+  if (!handlers || operations.length === 0) {
+    return;
+  }
+
+  try {
+    if (!(await handlers.hasSession())) {
+      logger.debug('Sync outbox waiting for a session', { pendingCount: operations.length });
+      return;
+    }
+
+    logger.debug('Flushing sync outbox', { pendingCount: operations.length });
+    const result = await handlers.flush();
+
+    if (!result.success) {
+      scheduleRetry(result.error);
+    }
+  } catch (error) {
+    scheduleRetry((error as Error).message);
+  }
+}
+
+/**
+ * Schedules the next retry after a failed flush
+ */
+function scheduleRetry(error?: string): void {
+  failureCount += 1;
+  const delay = getRetryDelay(failureCount);
+  nextRetryAt = Date.now() + delay;
+
+  logger.warn('Sync outbox flush failed, retrying later', {
+    error,
+    failureCount,
+    retryInMs: delay,
+  });
+
+  scheduleFlush(delay);
+  notifyChange();
+}
+
+/**
+ * Schedules a flush, replacing the scheduled one
+ */
+function scheduleFlush(delay: number): void {
+  clearFlushTimer();
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushOutbox();
+  }, delay);
+}
+
+/**
+ * Cancels the scheduled flush
+ */
+function clearFlushTimer(): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+}
+
+/**
+ * Stores the current queue in the background; failures are logged
+ * (the next change stores the queue again)
+ */
+function persistOperations(): void {
+  const json = JSON.stringify(operations);
+  const isEmpty = operations.length === 0;
+
+  writeQueue = writeQueue
+    .then(() =>
+      isEmpty
+        ? outboxAdapter.multiRemove([OUTBOX_KEY])
+        : outboxAdapter.multiSet([[OUTBOX_KEY, json]])
+    )
+    .catch((error) => {
+      logger.error('Failed to store sync outbox', error as Error);
+    });
+}
+
+/**
+ * Reports the current status to the registered listener
+ */
+function notifyChange(): void {
+  outboxHandlers?.onChange?.(getOutboxStatus());
+}
+
+/**
+ * Key identifying the record an operation applies to
+ */
+function recordKey(operation: SyncOperation): string {
+  switch (operation.type) {
+    case 'updateTags':
+      return TAGS_RECORD_ID;
+    case 'updateSettings':
+      return SETTINGS_RECORD_ID;
+    default:
+      return `task:${operation.recordId}`;
+  }
+}
+
+/**
+ * Checks whether stored data is a valid operation
+ */
+function isValidSyncOperation(data: unknown): data is SyncOperation {
+  const operation = data as SyncOperation;
+  return (
+    !!operation &&
+    typeof operation === 'object' &&
+    OPERATION_TYPES.has(operation.type) &&
+    typeof operation.recordId === 'string' &&
+    typeof operation.queuedAt === 'string'
+  );
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+/**
+ * Export constants for testing and external use
+ */
+export const OUTBOX_CONSTANTS = {
+  OUTBOX_KEY,
+  AUTO_SYNC_DELAY_MS,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+};
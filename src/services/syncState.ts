@@ -0,0 +1,83 @@
+/**
+ * Sync State Module
+ *
+ * Stores how far this device has synced (see SyncState), so syncs after
+ * the first one only exchange what changed. The state belongs to the
+ * signed-in account and is cleared on sign-out; without it, the next sync
+ * is a full one.
+ */
+
+import { SyncState } from '../types';
+import { logger } from '../utils/logger';
+import { StorageAdapter, asyncStorageAdapter } from './storageAdapter';
+
+/**
+ * Storage key of the sync state
+ */
+const SYNC_STATE_KEY = 'SYNC_STATE';
+
+/**
+ * Backend the state is stored in
+ */
+let syncStateAdapter: StorageAdapter = asyncStorageAdapter;
+
+/**
+ * Replaces the sync state backend.
+ *
+ * @param adapter - Storage backend to use
+ */
+export function setSyncStateAdapter(adapter: StorageAdapter): void {
+  syncStateAdapter = adapter;
+}
+
+/**
+ * Loads the sync state.
+ *
+ * @returns Stored state (empty if nothing was synced yet or it can't be read)
+ */
+export async function loadSyncState(): Promise<SyncState> {
+  try {
+    const [[, json]] = await syncStateAdapter.multiGet([SYNC_STATE_KEY]);
+    const state: unknown = json ? JSON.parse(json) : {};
+    return state && typeof state === 'object' ? (state as SyncState) : {};
+  } catch (error) {
+    logger.error('Failed to load sync state', error as Error);
+    return {};
+  }
+}
+
+/**
+ * Updates some fields of the sync state.
+ * Failures are logged; the next sync then repeats more than needed.
+ *
+ * @param changes - Fields to update
+ *
+ * @example
+ * await updateSyncState({ recordsSyncedDate: getTodayKey() });
+ */
+export async function updateSyncState(changes: Partial<SyncState>): Promise<void> {
+  try {
+    const state = { ...(await loadSyncState()), ...changes };
+    await syncStateAdapter.multiSet([[SYNC_STATE_KEY, JSON.stringify(state)]]);
+  } catch (error) {
+    logger.error('Failed to save sync state', error as Error);
+  }
+}
+
+/**
+ * Forgets the sync state, so the next sync is a full one.
+ */
+export async function clearSyncState(): Promise<void> {
+  try {
+    await syncStateAdapter.multiRemove([SYNC_STATE_KEY]);
+  } catch (error) {
+    logger.error('Failed to clear sync state', error as Error);
+  }
+}
+
+/**
+ * Export constants for testing and external use
+ */
+export const SYNC_STATE_CONSTANTS = {
+  SYNC_STATE_KEY,
+};
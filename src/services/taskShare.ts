@@ -0,0 +1,134 @@
+/**
+ * Task Share Service Module
+ *
+ * Shares tasks as Markdown, CSV or plain text.
+ * Markdown and CSV are written to a file and opened in the share sheet;
+ * plain text is shared as a message so it can be pasted into a chat.
+ */
+
+import { Alert, AlertButton, Platform, Share } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { ErrorCode, Task } from '../types';
+import { createAppError, isAppError } from '../utils/errors';
+import { EXPORT_FORMAT_LABELS, ExportFormat, formatTasks } from '../utils/exportFormat';
+import { logger } from '../utils/logger';
+import { getTodayKey } from './dailyRecords';
+
+/**
+ * File details for the formats shared as a file
+ */
+const FILE_FORMATS: Record<
+  Exclude<ExportFormat, 'text'>,
+  { extension: string; mimeType: string; UTI: string }
+> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown', UTI: 'net.daringfireball.markdown' },
+  csv: { extension: 'csv', mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+};
+
+/**
+ * Byte order mark so spreadsheet apps read Korean CSV text as UTF-8
+ */
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Formats offered to the user, in menu order
+ */
+const FORMAT_OPTIONS: ExportFormat[] = ['markdown', 'csv', 'text'];
+
+/**
+ * Asks the user which format to export in.
+ * Android alerts hold at most three buttons, so there the dialog is
+ * cancelled by tapping outside instead of with a cancel button.
+ *
+ * @param title - Menu title
+ * @returns The picked format, or null if cancelled
+ *
+ * @example
+ * const format = await pickExportFormat('내보내기 형식');
+ * if (format) await shareTasks(tasks, format);
+ */
+export function pickExportFormat(title: string): Promise<ExportFormat | null> {
+  return new Promise((resolve) => {
+    const buttons: AlertButton[] = FORMAT_OPTIONS.map((format) => ({
+      text: EXPORT_FORMAT_LABELS[format],
+      onPress: () => resolve(format),
+    }));
+
+    if (Platform.OS === 'ios') {
+      buttons.push({ text: '취소', style: 'cancel', onPress: () => resolve(null) });
+    }
+
+    Alert.alert(title, undefined, buttons, {
+      cancelable: true,
+      onDismiss: () => resolve(null),
+    });
+  });
+}
+
+/**
+ * Shares tasks in the given format.
+ *
+ * @param tasks - Tasks to share
+ * @param format - Export format
+ * @throws AppError with code PERMISSION_DENIED if file system access is denied
+ * @throws AppError with code UNKNOWN for other file system or sharing errors
+ *
+ * @example
+ * await shareTasks([task], 'markdown');
+ */
+export async function shareTasks(tasks: Task[], format: ExportFormat): Promise<void> {
+  const content = formatTasks(tasks, format, getTodayKey());
+
+  try {
+    if (format === 'text') {
+      await Share.share({ message: content });
+      logger.info('Tasks shared as text', { taskCount: tasks.length });
+      return;
+    }
+
+    const { extension, mimeType, UTI } = FILE_FORMATS[format];
+
+    // Format: split-todo-YYYY-MM-DD-HHMMSS.md
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/:/g, '')
+      .replace(/\..+/, '')
+      .replace('T', '-');
+    const filePath = `${FileSystem.documentDirectory}split-todo-${timestamp}.${extension}`;
+
+    await FileSystem.writeAsStringAsync(filePath, format === 'csv' ? UTF8_BOM + content : content);
+
+    const isAvailable = await Sharing.isAvailableAsync();
+    if (!isAvailable) {
+      logger.warn('Sharing is not available on this device');
+      throw createAppError(ErrorCode.UNKNOWN, '이 기기에서는 공유 기능을 사용할 수 없습니다');
+    }
+
+    await Sharing.shareAsync(filePath, {
+      mimeType,
+      dialogTitle: 'Split TODO 내보내기',
+      UTI,
+    });
+
+    logger.info('Tasks shared as file', { format, taskCount: tasks.length, filePath });
+  } catch (error) {
+    if (isAppError(error)) {
+      throw error;
+    }
+
+    const originalError = error as Error;
+
+    if (/permission|denied/i.test(originalError?.message || '')) {
+      logger.error('File permission denied', originalError);
+      throw createAppError(
+        ErrorCode.PERMISSION_DENIED,
+        '파일 저장 권한이 필요합니다',
+        originalError
+      );
+    }
+
+    logger.error('Share tasks failed', originalError);
+    throw createAppError(ErrorCode.UNKNOWN, '내보내기에 실패했습니다', originalError);
+  }
+}
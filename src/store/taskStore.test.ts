@@ -2,19 +2,36 @@
  * Task Store Tests
  *
  * Tests for Zustand task store including CRUD operations,
- * auto-save, undo functionality, and state management.
+ * auto-save, trash restore, and state management.
  */
 
 import { renderHook, act, waitFor } from '@testing-library/react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Haptics from 'expo-haptics';
 import { useTaskStore } from './taskStore';
-import { loadAppData, saveAppData } from '../services/storage';
+import * as storage from '../services/storage';
+import * as saveJournal from '../services/saveJournal';
+import { getPendingOperations } from '../services/syncOutbox';
+import { performFullSync, isSignedIn } from '../services/cloudSync';
 import { AppData, Task } from '../types';
 
-// Mocks are configured in jest.setup.js
+// Mocks are configured in jest.setup.js; cloud sync is mocked here
+jest.mock('../services/cloudSync', () => ({
+  performFullSync: jest.fn(),
+  signInAnonymously: jest.fn(),
+  isSignedIn: jest.fn(async () => false),
+  isSupabaseConfigured: jest.fn(() => false),
+  signInWithSocial: jest.fn(),
+  signInWithEmail: jest.fn(),
+  signOut: jest.fn(),
+  getCurrentUser: jest.fn(async () => null),
+  compactCloudDailyRecords: jest.fn(),
+  mergeTasks: jest.fn(),
+}));
 const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
 const mockHaptics = Haptics as jest.Mocked<typeof Haptics>;
+const mockPerformFullSync = performFullSync as jest.MockedFunction<typeof performFullSync>;
+const mockIsSignedIn = isSignedIn as jest.MockedFunction<typeof isSignedIn>;
 
 // Helper to create a test task
 function createTestTask(
@@ -38,7 +55,9 @@ describe('TaskStore', () => {
     // Reset the store state before each test
     useTaskStore.setState({
       tasks: [],
-      deletedTasks: [],
+      trash: [],
+      undoStack: [],
+      redoStack: [],
       isLoading: false,
       error: null,
     });
@@ -60,7 +79,7 @@ describe('TaskStore', () => {
       // Reset store state before test
       useTaskStore.setState({
         tasks: [],
-        deletedTasks: [],
+        trash: [],
         isLoading: true,
         error: null,
       });
@@ -124,6 +143,32 @@ describe('TaskStore', () => {
       expect(result.current.error).toBe('데이터를 불러오는 데 실패했습니다');
     });
 
+    it('should archive old completed tasks as a change to sync', async () => {
+      const finishedTask: Task = {
+        ...createTestTask('1', 'Finished task', [{ id: 'i1', title: 'Done', done: true }]),
+        updatedAt: '2020-01-01T00:00:00.000Z',
+      };
+      const storedData: AppData = {
+        schemaVersion: storage.STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION,
+        tasks: [finishedTask],
+      };
+      jest.spyOn(storage, 'loadAppData').mockResolvedValueOnce(storedData);
+      const appendToJournalSpy = jest.spyOn(saveJournal, 'appendToJournal');
+      useTaskStore.setState({ isLoading: true });
+
+      await act(async () => {
+        await useTaskStore.getState().initialize();
+      });
+
+      // Journaled with the sync timestamp of the change, and queued for sync
+      const [journaled] = appendToJournalSpy.mock.calls[0];
+      expect(journaled.tasks[0].archivedAt).toBeDefined();
+      expect(journaled.tasks[0].fieldsUpdatedAt).toBeDefined();
+      expect(getPendingOperations()).toEqual(
+        expect.arrayContaining([expect.objectContaining({ type: 'upsertTask', recordId: '1' })])
+      );
+    });
+
     it('should load empty tasks when no data exists', async () => {
       mockAsyncStorage.getItem.mockResolvedValue(null);
 
@@ -199,9 +244,11 @@ describe('TaskStore', () => {
       expect(result.current.tasks).toHaveLength(0);
     });
 
-    it('should reject when task limit (200) is reached', async () => {
-      // Set up store with 200 tasks
-      const tasks = Array.from({ length: 200 }, (_, i) => createTestTask(`task-${i}`, `Task ${i}`));
+    it('should reject when task limit (2000) is reached', async () => {
+      // Set up store with 2000 tasks
+      const tasks = Array.from({ length: 2000 }, (_, i) =>
+        createTestTask(`task-${i}`, `Task ${i}`)
+      );
 
       useTaskStore.setState({ tasks });
 
@@ -209,12 +256,12 @@ describe('TaskStore', () => {
 
       let response;
       await act(async () => {
-        response = await result.current.addTask('Task 201');
+        response = await result.current.addTask('Task 2001');
       });
 
       expect(response.success).toBe(false);
-      expect(response.error).toContain('최대 200개');
-      expect(result.current.tasks).toHaveLength(200);
+      expect(response.error).toContain('최대 2000개');
+      expect(result.current.tasks).toHaveLength(2000);
     });
 
     it('should add task to the beginning of the array', async () => {
@@ -305,7 +352,7 @@ describe('TaskStore', () => {
   });
 
   describe('deleteTask', () => {
-    it('should delete task and add to deletedTasks', async () => {
+    it('should delete task and add it to the trash', async () => {
       useTaskStore.setState({
         tasks: [createTestTask('1', 'Task to Delete')],
       });
@@ -319,9 +366,11 @@ describe('TaskStore', () => {
       });
 
       expect(result.current.tasks).toHaveLength(0);
-      expect(result.current.deletedTasks).toHaveLength(1);
-      expect(result.current.deletedTasks[0].id).toBe('1');
-      expect(result.current.deletedTasks[0].task.title).toBe('Task to Delete');
+      expect(result.current.trash).toHaveLength(1);
+      expect(result.current.trash[0]).toMatchObject({ type: 'task', index: 0 });
+      expect(result.current.trash[0].type === 'task' && result.current.trash[0].task.title).toBe(
+        'Task to Delete'
+      );
     });
 
     it('should handle deleting non-existent task gracefully', async () => {
@@ -336,7 +385,7 @@ describe('TaskStore', () => {
       });
 
       expect(result.current.tasks).toHaveLength(1);
-      expect(result.current.deletedTasks).toHaveLength(0);
+      expect(result.current.trash).toHaveLength(0);
     });
 
     it('should set deletedAt timestamp', async () => {
@@ -355,81 +404,182 @@ describe('TaskStore', () => {
       });
 
       const afterTime = Date.now();
+      const deletedAt = new Date(result.current.trash[0].deletedAt).getTime();
 
-      expect(result.current.deletedTasks[0].deletedAt).toBeGreaterThanOrEqual(beforeTime);
-      expect(result.current.deletedTasks[0].deletedAt).toBeLessThanOrEqual(afterTime);
+      expect(deletedAt).toBeGreaterThanOrEqual(beforeTime);
+      expect(deletedAt).toBeLessThanOrEqual(afterTime);
     });
   });
 
-  describe('undoDeleteTask', () => {
-    it('should restore deleted task', async () => {
-      const task = createTestTask('1', 'Deleted Task');
-
+  describe('restoreFromTrash', () => {
+    it('should restore a deleted task to its original position', async () => {
       useTaskStore.setState({
-        tasks: [],
-        deletedTasks: [
-          {
-            id: '1',
-            task,
-            deletedAt: Date.now(),
-          },
+        tasks: [
+          createTestTask('1', 'First'),
+          createTestTask('2', 'Deleted Task'),
+          createTestTask('3', 'Last'),
         ],
+        trash: [],
       });
 
       const { result } = renderHook(() => useTaskStore());
 
       mockAsyncStorage.multiSet.mockResolvedValue();
 
+      await act(async () => {
+        await result.current.deleteTask('2');
+      });
+
       act(() => {
-        result.current.undoDeleteTask('1');
+        expect(result.current.restoreFromTrash(result.current.trash[0].id).success).toBe(true);
       });
 
-      expect(result.current.tasks).toHaveLength(1);
-      expect(result.current.tasks[0].title).toBe('Deleted Task');
-      expect(result.current.deletedTasks).toHaveLength(0);
+      expect(result.current.tasks.map((task) => task.id)).toEqual(['1', '2', '3']);
+      expect(result.current.trash).toHaveLength(0);
     });
 
-    it('should add restored task to beginning of array', async () => {
-      const deletedTask = createTestTask('1', 'Deleted Task');
-      const existingTask = createTestTask('2', 'Existing Task');
+    it('should restore a deleted item under its parent', async () => {
+      const task = createTestTask('1', 'Test Task', [
+        { id: 'item-1', title: 'Item 1', done: false },
+        { id: 'item-2', title: 'Item 2', done: false },
+      ]);
 
-      useTaskStore.setState({
-        tasks: [existingTask],
-        deletedTasks: [
-          {
-            id: '1',
-            task: deletedTask,
-            deletedAt: Date.now(),
-          },
-        ],
+      useTaskStore.setState({ tasks: [task], trash: [] });
+
+      const { result } = renderHook(() => useTaskStore());
+
+      mockAsyncStorage.multiSet.mockResolvedValue();
+
+      act(() => {
+        result.current.deleteChecklistItem('1', 'item-1');
+      });
+
+      act(() => {
+        expect(result.current.restoreFromTrash(result.current.trash[0].id).success).toBe(true);
       });
 
+      expect(result.current.tasks[0].items.map((item) => item.id)).toEqual(['item-1', 'item-2']);
+    });
+
+    it('should refuse to restore an item whose task is in the trash', async () => {
+      const task = createTestTask('1', 'Test Task', [
+        { id: 'item-1', title: 'Item 1', done: false },
+      ]);
+
+      useTaskStore.setState({ tasks: [task], trash: [] });
+
       const { result } = renderHook(() => useTaskStore());
 
       mockAsyncStorage.multiSet.mockResolvedValue();
 
       act(() => {
-        result.current.undoDeleteTask('1');
+        result.current.deleteChecklistItem('1', 'item-1');
       });
 
-      expect(result.current.tasks[0].title).toBe('Deleted Task');
-      expect(result.current.tasks[1].title).toBe('Existing Task');
+      await act(async () => {
+        await result.current.deleteTask('1');
+      });
+
+      const itemEntry = result.current.trash.find((entry) => entry.type === 'item')!;
+      const restoreResult = result.current.restoreFromTrash(itemEntry.id);
+
+      expect(restoreResult.success).toBe(false);
+      expect(result.current.trash).toHaveLength(2);
     });
 
-    it('should handle undoing non-existent deletion', async () => {
+    it('should handle restoring non-existent entry', async () => {
       useTaskStore.setState({
         tasks: [],
-        deletedTasks: [],
+        trash: [],
       });
 
       const { result } = renderHook(() => useTaskStore());
 
       act(() => {
-        result.current.undoDeleteTask('non-existent');
+        expect(result.current.restoreFromTrash('non-existent').success).toBe(false);
       });
 
       expect(result.current.tasks).toHaveLength(0);
-      expect(result.current.deletedTasks).toHaveLength(0);
+    });
+  });
+
+  describe('undo / redo', () => {
+    it('should undo and redo an item toggle', () => {
+      const task = createTestTask('1', 'Test Task', [
+        { id: 'item-1', title: 'Item 1', done: false },
+      ]);
+      useTaskStore.setState({ tasks: [task] });
+
+      const { result } = renderHook(() => useTaskStore());
+
+      mockAsyncStorage.multiSet.mockResolvedValue();
+
+      act(() => {
+        result.current.toggleChecklistItem('1', 'item-1');
+      });
+      const toggledItem = result.current.tasks[0].items[0];
+
+      act(() => {
+        expect(result.current.undo()).toEqual({ success: true, label: '항목 체크' });
+      });
+      expect(result.current.tasks[0].items[0]).toEqual({
+        ...task.items[0],
+        updatedAt: expect.any(String),
+      });
+      expect(result.current.redoStack).toHaveLength(1);
+
+      act(() => {
+        expect(result.current.redo().success).toBe(true);
+      });
+      expect(result.current.tasks[0].items[0]).toEqual({
+        ...toggledItem,
+        updatedAt: expect.any(String),
+      });
+    });
+
+    it('should bring a deleted item back out of the trash', () => {
+      const task = createTestTask('1', 'Test Task', [
+        { id: 'item-1', title: 'Item 1', done: false },
+      ]);
+      useTaskStore.setState({ tasks: [task] });
+
+      const { result } = renderHook(() => useTaskStore());
+
+      mockAsyncStorage.multiSet.mockResolvedValue();
+
+      act(() => {
+        result.current.deleteChecklistItem('1', 'item-1');
+      });
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tasks[0].items).toHaveLength(1);
+      expect(result.current.trash).toHaveLength(0);
+    });
+
+    it('should clear the redo stack on a new change', () => {
+      useTaskStore.setState({ tasks: [createTestTask('1', 'Test Task')] });
+
+      const { result } = renderHook(() => useTaskStore());
+
+      mockAsyncStorage.multiSet.mockResolvedValue();
+
+      act(() => {
+        result.current.setTaskDueDate('1', '2025-12-01');
+        result.current.undo();
+        result.current.setTaskDueDate('1', '2025-12-02');
+      });
+
+      expect(result.current.redoStack).toHaveLength(0);
+      expect(result.current.redo().success).toBe(false);
+    });
+
+    it('should report when there is nothing to undo', () => {
+      const { result } = renderHook(() => useTaskStore());
+
+      expect(result.current.undo().success).toBe(false);
     });
   });
 
@@ -497,8 +647,8 @@ describe('TaskStore', () => {
       expect(response.error).toBe('제목을 입력해주세요');
     });
 
-    it('should reject when item limit (50) is reached', async () => {
-      const items = Array.from({ length: 50 }, (_, i) => ({
+    it('should reject when item limit (500) is reached', async () => {
+      const items = Array.from({ length: 500 }, (_, i) => ({
         id: `item-${i}`,
         title: `Item ${i}`,
         done: false,
@@ -512,11 +662,11 @@ describe('TaskStore', () => {
 
       let response;
       await act(async () => {
-        response = await result.current.addChecklistItem('1', 'Item 51');
+        response = await result.current.addChecklistItem('1', 'Item 501');
       });
 
       expect(response.success).toBe(false);
-      expect(response.error).toContain('최대 50개');
+      expect(response.error).toContain('최대 500개');
     });
 
     it('should return error for non-existent task', async () => {
@@ -686,6 +836,7 @@ describe('TaskStore', () => {
 
       expect(result.current.tasks[0].items).toHaveLength(1);
       expect(result.current.tasks[0].items[0].id).toBe('item-2');
+      expect(result.current.trash[0]).toMatchObject({ type: 'item', taskId: '1', index: 0 });
     });
 
     it('should handle deleting last item', async () => {
@@ -725,8 +876,8 @@ describe('TaskStore', () => {
       });
 
       expect(mockAsyncStorage.multiSet).toHaveBeenCalled();
-      const savedData = JSON.parse(mockAsyncStorage.multiSet.mock.calls[0][0][0][1]);
-      expect(savedData.tasks).toHaveLength(1);
+      const savedKeys = mockAsyncStorage.multiSet.mock.calls[0][0].map(([key]) => key);
+      expect(savedKeys).toContain('APP_DATA:task:1');
     });
 
     it('should set error on save failure', async () => {
@@ -747,4 +898,58 @@ describe('TaskStore', () => {
       });
     });
   });
+
+  // ========================================================================
+  // CLOUD SYNC
+  // ========================================================================
+
+  describe('syncWithCloud', () => {
+    it('should keep changes made while a sync is running', async () => {
+      const task = createTestTask('1', 'A');
+      const cloudTask = createTestTask('2', 'X from cloud');
+      useTaskStore.setState({ tasks: [task], tombstones: [] });
+
+      const { result } = renderHook(() => useTaskStore());
+
+      mockAsyncStorage.multiSet.mockResolvedValue();
+      mockIsSignedIn.mockResolvedValueOnce(true);
+      let finishSync: () => void = () => {};
+      mockPerformFullSync.mockImplementationOnce(
+        (tasks, tags = [], tombstones = []) =>
+          new Promise((resolve) => {
+            finishSync = () =>
+              resolve({
+                result: { success: true },
+                tasks: [...tasks, cloudTask],
+                tags,
+                tombstones,
+                settings: null,
+                recordDates: [],
+              });
+          })
+      );
+
+      let syncing: Promise<{ success: boolean }> = Promise.resolve({ success: false });
+      act(() => {
+        syncing = result.current.syncWithCloud();
+      });
+      await waitFor(() => expect(mockPerformFullSync).toHaveBeenCalled());
+
+      await act(async () => {
+        await result.current.addTask('B');
+      });
+
+      await act(async () => {
+        finishSync();
+        expect((await syncing).success).toBe(true);
+      });
+
+      expect(result.current.tasks.map((item) => item.title).sort()).toEqual([
+        'A',
+        'B',
+        'X from cloud',
+      ]);
+      expect(result.current.tombstones).toEqual([]);
+    });
+  });
 });
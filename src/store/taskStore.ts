@@ -7,7 +7,14 @@
  * Features:
  * - Task CRUD operations with validation
  * - Checklist item CRUD operations
- * - Undo delete functionality (3-second window)
+ * - Trash for deleted tasks and items (restorable, emptied automatically)
+ * - Multi-level undo/redo of task and item changes
+ * - Per-item change timestamps and tombstones for merging during sync
+ * - Sync outbox: changes are queued and synced automatically, with retries
+ * - Delta sync: only changes since the last sync are exchanged (full resync on request)
+ * - Two-way sync of daily records
+ * - Settings roaming across devices (per setting, last change wins)
+ * - Archive of old completed tasks (restorable)
  * - Auto-save with 500ms debounce
  * - Immediate save on app background
  * - Haptic feedback integration
@@ -18,17 +25,119 @@ import { create } from 'zustand';
 import { AppState, AppStateStatus } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { debounce } from 'lodash';
-import { Task, DeletedTask, AppData, ChecklistItem, AppSettings, SyncConfig } from '../types';
+import {
+  Task,
+  TrashEntry,
+  Tombstone,
+  AppData,
+  ChecklistItem,
+  AppSettings,
+  SyncConfig,
+  RecurrenceRule,
+  Tag,
+  HistoryEntry,
+  HistorySnapshot,
+  IntegrityIssue,
+  SyncedSettingKey,
+  ErrorCode,
+} from '../types';
 import { generateId } from '../utils/uuid';
-import { validateTitle, normalizeTitle, checkTaskLimit, checkItemLimit } from '../utils/validation';
-import { loadAppData, saveAppData } from '../services/storage';
+import {
+  validateTitle,
+  normalizeTitle,
+  checkTaskLimit,
+  checkItemLimit,
+  checkItemDepth,
+  validateTagName,
+  checkTagLimit,
+} from '../utils/validation';
+import { isItemScheduledOn, validateRecurrenceRule } from '../utils/recurrence';
+import { resolveItemForDate, toggleItemOnDate, toggleItemDone } from '../utils/completion';
+import { validateDueDate } from '../utils/dueDate';
+import {
+  addChildItem,
+  countItems,
+  findItem,
+  flattenItems,
+  getItemDepth,
+  removeItemFromTree,
+  updateItemInTree,
+} from '../utils/itemTree';
+import {
+  applyTaskOrder,
+  getFirstTaskOrder,
+  moveItem,
+  normalizeTaskOrder,
+  sortByPlanOrder,
+  sortTasksByOrder,
+} from '../utils/reorder';
+import { mergeTags, removeTagFromTasks } from '../utils/tags';
+import { getActiveTasks, getArchivedTasks, setTaskArchived } from '../utils/archive';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  createTrashedTask,
+  createTrashedItem,
+  restoreTrashedTask,
+  restoreTrashedItem,
+  removeTrashEntry,
+  purgeExpiredTrash,
+} from '../utils/trash';
+import { pushHistoryEntry, restoreTasksSnapshot } from '../utils/history';
+import { checkIntegrity, repairIntegrity } from '../utils/integrity';
+import { DEFAULT_RECORD_DETAIL_DAYS, getRecordDetailCutoff } from '../utils/recordRetention';
+import {
+  mergeTaskLists,
+  mergeTombstones,
+  pruneExpiredTombstones,
+  removeTombstonesFor,
+  trackTaskChanges,
+} from '../utils/syncMerge';
+import { mergeRoamingSettings, trackSettingChanges } from '../utils/settingsSync';
+import {
+  loadAppData,
+  saveAppData,
+  archiveOldCompletedTasks,
+  migrateSchema,
+  takeLegacyHapticSetting,
+  STORAGE_CONSTANTS,
+} from '../services/storage';
+import { applyImport, ImportMode } from '../services/backup';
+import { loadSnapshot } from '../services/snapshots';
+import { isEncryptionKeyMissing, replaceLostEncryptionKey } from '../services/encryptedStorage';
+import {
+  appendToJournal,
+  compactJournal,
+  getJournalSeq,
+  JournalState,
+  loadJournal,
+  replayJournal,
+  startJournal,
+} from '../services/saveJournal';
+import {
+  acknowledgeOperations,
+  clearOutbox,
+  createSyncOperations,
+  flushOutbox,
+  getPendingOperations,
+  loadOutbox,
+  queueOperations,
+  startOutbox,
+  stopOutbox,
+} from '../services/syncOutbox';
+import { clearSyncState } from '../services/syncState';
 import { logger } from '../utils/logger';
+import { isAppError, toAppError } from '../utils/errors';
 import {
   startDailySaveScheduler,
   updateDailySaveScheduler,
   saveTodayRecordRealtime,
 } from '../services/dailySaveScheduler';
-import { getTodayKey } from '../services/dailyRecords';
+import {
+  compactDailyRecordsBefore,
+  getTodayKey,
+  loadDailyRecords,
+  saveDailyRecords,
+} from '../services/dailyRecords';
 import {
   performFullSync,
   signInAnonymously,
@@ -38,6 +147,7 @@ import {
   signInWithEmail,
   signOut,
   getCurrentUser,
+  compactCloudDailyRecords,
 } from '../services/cloudSync';
 
 // ============================================================================
@@ -50,11 +160,16 @@ import {
 interface TaskStore {
   // State
   tasks: Task[];
-  deletedTasks: DeletedTask[];
+  trash: TrashEntry[];
+  tombstones: Tombstone[];
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
   isLoading: boolean;
   error: string | null;
   settings: AppSettings;
   syncConfig: SyncConfig;
+  /** Increased when daily records were updated from the cloud, so screens reload them */
+  dailyRecordsVersion: number;
 
   // Initialization
   initialize: () => Promise<void>;
@@ -66,15 +181,29 @@ interface TaskStore {
     newTitle: string
   ) => Promise<{ success: boolean; error?: string }>;
   deleteTask: (taskId: string) => Promise<void>;
-  undoDeleteTask: (taskId: string) => void;
   getTask: (taskId: string) => Task | undefined;
+  setTaskDueDate: (taskId: string, dueDate: string | null) => { success: boolean; error?: string };
+  reorderTasks: (fromIndex: number, toIndex: number) => void;
+
+  // Archive
+  unarchiveTask: (taskId: string) => { success: boolean; error?: string };
+
+  // Trash
+  restoreFromTrash: (entryId: string) => { success: boolean; error?: string };
+  deleteFromTrash: (entryId: string) => void;
+  emptyTrash: () => void;
+
+  // Undo/Redo
+  undo: () => { success: boolean; label?: string; error?: string };
+  redo: () => { success: boolean; label?: string; error?: string };
 
   // ChecklistItem CRUD
   addChecklistItem: (
     taskId: string,
-    itemTitle: string
+    itemTitle: string,
+    parentId?: string
   ) => Promise<{ success: boolean; error?: string }>;
-  toggleChecklistItem: (taskId: string, itemId: string) => void;
+  toggleChecklistItem: (taskId: string, itemId: string, date?: string) => void;
   updateChecklistItem: (
     taskId: string,
     itemId: string,
@@ -84,6 +213,23 @@ interface TaskStore {
   toggleChecklistItemToday: (taskId: string, itemId: string) => void;
   scheduleItemForDate: (taskId: string, itemId: string, date: string) => void;
   unscheduleItemFromDate: (taskId: string, itemId: string, date: string) => void;
+  setItemRecurrence: (
+    taskId: string,
+    itemId: string,
+    rule: RecurrenceRule | null
+  ) => { success: boolean; error?: string };
+  setItemDueDate: (
+    taskId: string,
+    itemId: string,
+    dueDate: string | null
+  ) => { success: boolean; error?: string };
+  reorderChecklistItems: (
+    taskId: string,
+    parentId: string | null,
+    fromIndex: number,
+    toIndex: number
+  ) => void;
+  reorderDayPlan: (date: string, itemIds: string[]) => void;
   getItemsForDate: (date: string) => Array<{ task: Task; item: ChecklistItem }>;
   getTodayItems: () => Array<{ task: Task; item: ChecklistItem }>;
 
@@ -91,11 +237,31 @@ interface TaskStore {
   toggleCelebration: () => void;
   updateDailySaveHour: (hour: number) => void;
   toggleWeekStartsOn: () => void;
+  updateArchiveAfterDays: (days: number) => void;
+  updateTrashRetentionDays: (days: number) => void;
+  updateRecordDetailDays: (days: number) => void;
+  setHapticEnabled: (enabled: boolean) => void;
+  setSettingRoaming: (key: SyncedSettingKey, roaming: boolean) => void;
+
+  // Tags
+  addTag: (name: string, color: string) => { success: boolean; error?: string };
+  updateTag: (tagId: string, name: string, color: string) => { success: boolean; error?: string };
+  deleteTag: (tagId: string) => void;
+  setTaskTags: (taskId: string, tagIds: string[]) => void;
+
+  // Backup
+  importBackup: (data: AppData, mode: ImportMode) => Promise<{ success: boolean; error?: string }>;
+  restoreSnapshot: (snapshotId: string) => Promise<{ success: boolean; error?: string }>;
+
+  // Data integrity
+  runIntegrityCheck: () => Promise<{ success: boolean; issues?: IntegrityIssue[]; error?: string }>;
+  repairIntegrityIssues: () => Promise<{ success: boolean; fixedCount?: number; error?: string }>;
 
   // Cloud Sync
   enableCloudSync: () => Promise<{ success: boolean; error?: string }>;
   disableCloudSync: () => void;
   syncWithCloud: () => Promise<{ success: boolean; error?: string }>;
+  resyncWithCloud: () => Promise<{ success: boolean; error?: string }>;
   signInWithSocialProvider: (
     provider: 'google' | 'apple'
   ) => Promise<{ success: boolean; error?: string }>;
@@ -119,26 +285,56 @@ let appStateListener: { remove: () => void } | null = null;
 let lastKnownDate: string = getTodayKey();
 
 /**
- * Schedules a save operation with 500ms debounce.
+ * History state after changes that can't be undone
+ * (sync, backup import, permanent deletes, ...)
+ */
+const CLEARED_HISTORY: { undoStack: HistoryEntry[]; redoStack: HistoryEntry[] } = {
+  undoStack: [],
+  redoStack: [],
+};
+
+/**
+ * Saves the full data, then removes the journal entries it includes.
+ * The data must be the state after the last journal entry.
+ */
+async function saveFullData(state: JournalState) {
+  const journalSeq = getJournalSeq();
+
+  await saveAppData({
+    schemaVersion: STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION,
+    ...state,
+    journalSeq,
+  });
+
+  await compactJournal(journalSeq);
+}
+
+/**
+ * Returns the parts of the store state that are saved
+ */
+function getSavedState(): JournalState {
+  const { tasks, settings, trash, tombstones } = useTaskStore.getState();
+  return { tasks, settings, trash, tombstones };
+}
+
+/**
+ * Runs the full save with 500ms debounce.
  * Prevents excessive saves during rapid user input.
+ * The state is read from the store when the save runs, so the latest
+ * change is always included.
  */
-const scheduleSave = debounce(
-  async (tasks: Task[], settings: AppSettings) => {
+const debouncedSave = debounce(
+  async () => {
     if (!storeInstance) {
       logger.warn('Store instance not available for scheduled save');
       return;
     }
 
     try {
-      logger.debug('Scheduled save executing', { taskCount: tasks.length });
+      const state = getSavedState();
+      logger.debug('Scheduled save executing', { taskCount: state.tasks.length });
 
-      const appData: AppData = {
-        schemaVersion: 1,
-        tasks,
-        settings,
-      };
-
-      await saveAppData(appData);
+      await saveFullData(state);
     } catch (error) {
       logger.error('Failed to save data', error as Error);
 
@@ -154,10 +350,46 @@ const scheduleSave = debounce(
 );
 
 /**
- * Delete timers for undo functionality
- * Maps task IDs to their deletion timeout
+ * Saves a change: journals it right away (so it survives a crash),
+ * then schedules the debounced full save.
+ * Called after the store state was updated; the current state is saved,
+ * including the sync timestamps and tombstones the update recorded.
+ */
+function scheduleSave(): void {
+  appendToJournal(getSavedState());
+  debouncedSave();
+}
+
+/**
+ * Checks the loaded data for integrity problems and logs them.
+ * Runs in the background on startup; problems are only repaired
+ * from the diagnostics screen.
+ */
+async function logIntegrityIssues(data: AppData): Promise<void> {
+  const issues = checkIntegrity(data, await loadDailyRecords(), getTodayKey());
+
+  if (issues.length > 0) {
+    logger.warn('Integrity check found problems', {
+      count: issues.length,
+      types: [...new Set(issues.map((issue) => issue.type))],
+    });
+  }
+}
+
+/**
+ * Compacts daily records older than the detail period, on the device
+ * and in the cloud. Runs in the background; the cloud is brought in line
+ * on a later run if it can't be reached now.
  */
-const deleteTimers: Map<string, NodeJS.Timeout> = new Map();
+async function applyRecordRetention(detailDays: number): Promise<void> {
+  const cutoffDate = getRecordDetailCutoff(getTodayKey(), detailDays);
+  await compactDailyRecordsBefore(cutoffDate);
+
+  const cloudResult = await compactCloudDailyRecords(cutoffDate);
+  if (!cloudResult.success) {
+    logger.debug('Cloud daily records not compacted', { error: cloudResult.error });
+  }
+}
 
 /**
  * Checks if the date has changed and handles the transition.
@@ -182,11 +414,14 @@ const handleDateChange = async () => {
 // ZUSTAND STORE DEFINITION
 // ============================================================================
 
-export const useTaskStore = create<TaskStore>((set, get) => {
+export const useTaskStore = create<TaskStore>((setState, get) => {
   // Store the instance for auto-save access
   storeInstance = {
     tasks: [],
-    deletedTasks: [],
+    trash: [],
+    tombstones: [],
+    undoStack: [],
+    redoStack: [],
     isLoading: false,
     error: null,
     settings: {
@@ -198,12 +433,20 @@ export const useTaskStore = create<TaskStore>((set, get) => {
       status: 'idle',
       enabled: false,
     },
+    dailyRecordsVersion: 0,
     initialize: async () => {},
     addTask: async () => ({ success: false }),
     updateTaskTitle: async () => ({ success: false }),
     deleteTask: async () => {},
-    undoDeleteTask: () => {},
     getTask: () => undefined,
+    setTaskDueDate: () => ({ success: false }),
+    reorderTasks: () => {},
+    unarchiveTask: () => ({ success: false }),
+    restoreFromTrash: () => ({ success: false }),
+    deleteFromTrash: () => {},
+    emptyTrash: () => {},
+    undo: () => ({ success: false }),
+    redo: () => ({ success: false }),
     addChecklistItem: async () => ({ success: false }),
     toggleChecklistItem: () => {},
     updateChecklistItem: async () => ({ success: false }),
@@ -211,14 +454,32 @@ export const useTaskStore = create<TaskStore>((set, get) => {
     toggleChecklistItemToday: () => {},
     scheduleItemForDate: () => {},
     unscheduleItemFromDate: () => {},
+    setItemRecurrence: () => ({ success: false }),
+    setItemDueDate: () => ({ success: false }),
+    reorderChecklistItems: () => {},
+    reorderDayPlan: () => {},
     getItemsForDate: () => [],
     getTodayItems: () => [],
     toggleCelebration: () => {},
     updateDailySaveHour: () => {},
     toggleWeekStartsOn: () => {},
+    updateArchiveAfterDays: () => {},
+    updateTrashRetentionDays: () => {},
+    updateRecordDetailDays: () => {},
+    setHapticEnabled: () => {},
+    setSettingRoaming: () => {},
+    addTag: () => ({ success: false }),
+    updateTag: () => ({ success: false }),
+    deleteTag: () => {},
+    setTaskTags: () => {},
+    importBackup: async () => ({ success: false }),
+    restoreSnapshot: async () => ({ success: false }),
+    runIntegrityCheck: async () => ({ success: false }),
+    repairIntegrityIssues: async () => ({ success: false }),
     enableCloudSync: async () => ({ success: false }),
     disableCloudSync: () => {},
     syncWithCloud: async () => ({ success: false }),
+    resyncWithCloud: async () => ({ success: false }),
     signInWithSocialProvider: async () => ({ success: false }),
     signInWithEmailPassword: async () => ({ success: false }),
     signOutUser: async () => ({ success: false }),
@@ -226,12 +487,104 @@ export const useTaskStore = create<TaskStore>((set, get) => {
     saveImmediately: async () => {},
   } as TaskStore;
 
+  /**
+   * Updates the store state.
+   * Changes to the tasks are recorded for sync: edited items and task fields
+   * get a new timestamp, and deleted tasks and items leave tombstones
+   * (see utils/syncMerge.ts). Changed synced settings get a new change time
+   * (see utils/settingsSync.ts). Changed tasks, tags and settings are queued
+   * in the sync outbox.
+   * Loading the data isn't a change, and neither is a merge result from the
+   * cloud (`fromSync`): it carries its own timestamps and tombstones.
+   */
+  const set = (changes: Partial<TaskStore>, options: { fromSync?: boolean } = {}) => {
+    const previous = get();
+    const now = new Date().toISOString();
+
+    const partial =
+      changes.settings &&
+      changes.settings !== previous.settings &&
+      !previous.isLoading &&
+      !options.fromSync
+        ? { ...changes, settings: trackSettingChanges(previous.settings, changes.settings, now) }
+        : changes;
+
+    if (
+      !partial.tasks ||
+      partial.tasks === previous.tasks ||
+      previous.isLoading ||
+      options.fromSync
+    ) {
+      setState(partial);
+    } else {
+      setState({
+        ...partial,
+        ...trackTaskChanges(
+          previous.tasks,
+          partial.tasks,
+          partial.tombstones ?? previous.tombstones,
+          now
+        ),
+      });
+    }
+
+    if (!previous.isLoading && !options.fromSync) {
+      queueOperations(createSyncOperations(previous, get(), now));
+    }
+  };
+
+  /**
+   * Returns the history state for a change: the state from before the change
+   * goes on the undo stack and the redo stack is cleared.
+   */
+  const withHistory = (label: string, snapshot: HistorySnapshot) => ({
+    undoStack: pushHistoryEntry(get().undoStack, { label, snapshot }),
+    redoStack: [] as HistoryEntry[],
+  });
+
+  /**
+   * Moves one step from one history stack to the other and restores its snapshot.
+   * The current state is recorded on the other stack so the step can be reversed.
+   */
+  const applyHistoryStep = (direction: 'undo' | 'redo') => {
+    const { tasks, trash, undoStack, redoStack } = get();
+    const [from, to] = direction === 'undo' ? [undoStack, redoStack] : [redoStack, undoStack];
+
+    const entry = from[from.length - 1];
+    if (!entry) {
+      return undefined;
+    }
+
+    const { snapshot } = entry;
+    const updatedTasks = restoreTasksSnapshot(tasks, snapshot.tasks, new Date().toISOString());
+    const reverse: HistoryEntry = {
+      label: entry.label,
+      snapshot: { tasks, ...(snapshot.trash && { trash }) },
+    };
+    const [updatedFrom, updatedTo] = [from.slice(0, -1), pushHistoryEntry(to, reverse)];
+
+    set({
+      tasks: updatedTasks,
+      ...(snapshot.trash && { trash: snapshot.trash }),
+      undoStack: direction === 'undo' ? updatedFrom : updatedTo,
+      redoStack: direction === 'undo' ? updatedTo : updatedFrom,
+    });
+
+    // Schedule save
+    scheduleSave();
+
+    return entry.label;
+  };
+
   return {
     // ========================================================================
     // INITIAL STATE
     // ========================================================================
     tasks: [],
-    deletedTasks: [],
+    trash: [],
+    tombstones: [],
+    undoStack: [],
+    redoStack: [],
     isLoading: true,
     error: null,
     settings: {
@@ -243,6 +596,7 @@ export const useTaskStore = create<TaskStore>((set, get) => {
       status: 'idle',
       enabled: false,
     },
+    dailyRecordsVersion: 0,
 
     // ========================================================================
     // INITIALIZATION
@@ -254,45 +608,92 @@ export const useTaskStore = create<TaskStore>((set, get) => {
         logger.info('Starting app...');
         set({ isLoading: true, error: null });
 
-        // Load data from storage
-        const appData = await loadAppData();
+        // Load data from storage and replay changes made after the last full save
+        const journal = replayJournal(await loadAppData(), await loadJournal());
+        const appData = journal.data;
 
-        // Migrate isToday to scheduledDates
-        const todayKey = getTodayKey();
-        const migratedTasks = appData.tasks.map((task) => ({
-          ...task,
-          items: task.items.map((item) => {
-            // If isToday is true but scheduledDates doesn't include today, migrate it
-            if (item.isToday === true) {
-              const scheduledDates = item.scheduledDates || [];
-              if (!scheduledDates.includes(todayKey)) {
-                return {
-                  ...item,
-                  scheduledDates: [...scheduledDates, todayKey].sort(),
-                };
-              }
-            }
-            return item;
-          }),
-        }));
+        // Tasks without a manual order get one after the ordered tasks
+        const normalizedTasks = normalizeTaskOrder(appData.tasks);
+
+        // Forget deletions older than the tombstone retention period
+        const loadedTombstones = appData.tombstones || [];
+        const { tasks: migratedTasks, tombstones } = pruneExpiredTombstones(
+          normalizedTasks,
+          loadedTombstones,
+          new Date()
+        );
 
         // Update state
-        const loadedSettings = appData.settings || {
+        const storedSettings = appData.settings || {
           celebrationEnabled: true,
           dailySaveHour: 0,
           weekStartsOn: 0,
         };
 
+        // Older versions stored the haptic setting on its own
+        const legacyHaptic =
+          storedSettings.hapticEnabled === undefined ? await takeLegacyHapticSetting() : undefined;
+        const loadedSettings =
+          legacyHaptic === undefined
+            ? storedSettings
+            : { ...storedSettings, hapticEnabled: legacyHaptic };
+
+        // Empty trash entries older than the retention period
+        const loadedTrash = appData.trash || [];
+        const trash = purgeExpiredTrash(
+          loadedTrash,
+          loadedSettings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
+          Date.now()
+        );
+
         set({
           tasks: migratedTasks,
+          trash,
+          tombstones,
+          ...CLEARED_HISTORY,
           settings: loadedSettings,
           isLoading: false,
           error: null,
         });
 
-        // Save migrated data if any migration occurred
-        if (JSON.stringify(appData.tasks) !== JSON.stringify(migratedTasks)) {
-          await saveAppData({ schemaVersion: 1, tasks: migratedTasks, settings: loadedSettings });
+        // Journal further changes relative to the loaded state
+        const loadedState = { tasks: migratedTasks, settings: loadedSettings, trash, tombstones };
+        startJournal(loadedState, journal.seq);
+
+        // Sync changes queued before the restart, and further changes, automatically
+        await loadOutbox();
+        startOutbox({
+          hasSession: isSignedIn,
+          flush: () => get().syncWithCloud(),
+          onChange: ({ pendingCount, nextRetryAt }) => {
+            setState({
+              syncConfig: { ...get().syncConfig, pendingChanges: pendingCount, nextRetryAt },
+            });
+          },
+        });
+
+        // Save migrated data if any migration, purge or journal replay occurred
+        if (
+          JSON.stringify(appData.tasks) !== JSON.stringify(migratedTasks) ||
+          trash !== loadedTrash ||
+          tombstones !== loadedTombstones ||
+          loadedSettings !== storedSettings ||
+          journal.replayed > 0
+        ) {
+          await saveFullData(loadedState);
+        }
+
+        // Move old completed tasks to the archive. Unlike the steps above this
+        // is a change to the tasks, so it runs once loading is done: the
+        // archived tasks get their sync timestamps and are queued for sync
+        const archivedTasks = archiveOldCompletedTasks({
+          schemaVersion: STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION,
+          tasks: migratedTasks,
+          settings: loadedSettings,
+        }).tasks;
+        if (archivedTasks !== migratedTasks) {
+          set({ tasks: archivedTasks });
+          scheduleSave();
         }
 
         // Setup AppState listener for background save
@@ -304,6 +705,22 @@ export const useTaskStore = create<TaskStore>((set, get) => {
         // Check for date change on app start
         await handleDateChange();
 
+        // Look for integrity problems without delaying startup
+        logIntegrityIssues({
+          schemaVersion: STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION,
+          tasks: migratedTasks,
+          trash,
+        }).catch((error) => {
+          logger.error('Failed to check data integrity', error);
+        });
+
+        // Compact old daily records without delaying startup
+        applyRecordRetention(loadedSettings.recordDetailDays ?? DEFAULT_RECORD_DETAIL_DAYS).catch(
+          (error) => {
+            logger.error('Failed to apply daily record retention', error);
+          }
+        );
+
         // Load user profile (check if user is already logged in)
         // Don't fail initialization if profile loading fails
         try {
@@ -313,14 +730,22 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           // Continue initialization even if profile loading fails
         }
 
+        // Send changes left in the outbox (waits for a session if signed out)
+        flushOutbox();
+
         logger.info(`App ready (${appData.tasks.length} tasks)`);
         timer.end();
       } catch (error) {
         logger.error('Failed to initialize store', error as Error);
-        set({
+        // Not a change to the tasks: it mustn't leave tombstones or queue deletions
+        setState({
           tasks: [],
           isLoading: false,
-          error: '데이터를 불러오는 데 실패했습니다',
+          // A lost encryption key can only be recovered from a backup, so say so
+          error:
+            isAppError(error) && error.code === ErrorCode.ENCRYPTION_KEY_MISSING
+              ? error.message
+              : '데이터를 불러오는 데 실패했습니다',
         });
         timer.end();
       }
@@ -347,12 +772,13 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           };
         }
 
-        const { tasks, settings } = get();
+        const { tasks } = get();
 
-        // Check task limit (200 tasks max)
-        const limitCheck = checkTaskLimit(tasks.length);
+        // Check task limit (2000 tasks max, archived tasks don't count)
+        const activeCount = getActiveTasks(tasks).length;
+        const limitCheck = checkTaskLimit(activeCount);
         if (!limitCheck.valid) {
-          logger.warn('Task limit exceeded', { currentCount: tasks.length });
+          logger.warn('Task limit exceeded', { currentCount: activeCount });
           return {
             success: false,
             error: limitCheck.error || '최대 할 일 개수를 초과했습니다',
@@ -367,15 +793,16 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           items: [],
           createdAt: now,
           updatedAt: now,
-          schemaVersion: 1,
+          order: getFirstTaskOrder(tasks),
+          schemaVersion: STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION,
         };
 
         // Add task to the beginning of the array
         const updatedTasks = [newTask, ...tasks];
-        set({ tasks: updatedTasks });
+        set({ tasks: updatedTasks, ...withHistory('할 일 추가', { tasks }) });
 
         // Schedule save
-        scheduleSave(updatedTasks, settings);
+        scheduleSave();
 
         return { success: true };
       } catch (error) {
@@ -404,7 +831,7 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           };
         }
 
-        const { tasks, settings } = get();
+        const { tasks } = get();
         const normalizedTitle = normalizeTitle(newTitle);
 
         // Update task
@@ -419,10 +846,10 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           return task;
         });
 
-        set({ tasks: updatedTasks });
+        set({ tasks: updatedTasks, ...withHistory('할 일 이름 변경', { tasks }) });
 
         // Schedule save
-        scheduleSave(updatedTasks, settings);
+        scheduleSave();
 
         return { success: true };
       } catch (error) {
@@ -435,17 +862,17 @@ export const useTaskStore = create<TaskStore>((set, get) => {
     },
 
     /**
-     * Deletes a task with undo support (3-second window).
+     * Deletes a task by moving it to the trash.
      */
     deleteTask: async (taskId: string) => {
       try {
         logger.debug('Deleting task', { taskId });
 
-        const { tasks, settings } = get();
+        const { tasks, trash } = get();
 
-        // Find the task to delete
-        const taskToDelete = tasks.find((task) => task.id === taskId);
-        if (!taskToDelete) {
+        // Remember the task and its position for restoring
+        const entry = createTrashedTask(tasks, taskId, generateId(), new Date().toISOString());
+        if (!entry) {
           logger.warn('Task not found for deletion', { taskId });
           return;
         }
@@ -453,85 +880,321 @@ export const useTaskStore = create<TaskStore>((set, get) => {
         // Remove from tasks array
         const updatedTasks = tasks.filter((task) => task.id !== taskId);
 
-        // Add to deletedTasks
-        const deletedTask: DeletedTask = {
-          id: taskId,
-          task: taskToDelete,
-          deletedAt: Date.now(),
-        };
-
         set({
           tasks: updatedTasks,
-          deletedTasks: [...get().deletedTasks, deletedTask],
+          trash: [entry, ...trash],
+          ...withHistory('할 일 삭제', { tasks, trash }),
+        });
+
+        // Schedule save
+        scheduleSave();
+      } catch (error) {
+        logger.error('Failed to delete task', error as Error);
+      }
+    },
+
+    /**
+     * Retrieves a task by ID.
+     */
+    getTask: (taskId: string) => {
+      const { tasks } = get();
+      return tasks.find((task) => task.id === taskId);
+    },
+
+    /**
+     * Sets or clears a task's due date.
+     * Pass null to remove the deadline.
+     */
+    setTaskDueDate: (taskId: string, dueDate: string | null) => {
+      try {
+        logger.debug('Setting task due date', { taskId, dueDate });
+
+        if (dueDate) {
+          const dueDateValidation = validateDueDate(dueDate);
+          if (!dueDateValidation.valid) {
+            logger.warn('Due date validation failed', { error: dueDateValidation.error });
+            return {
+              success: false,
+              error: dueDateValidation.error || '마감일이 올바르지 않습니다',
+            };
+          }
+        }
+
+        const { tasks } = get();
+
+        // Update task
+        const updatedTasks = tasks.map((task) => {
+          if (task.id === taskId) {
+            const { dueDate: _previous, ...rest } = task;
+            return {
+              ...rest,
+              ...(dueDate ? { dueDate } : {}),
+              updatedAt: new Date().toISOString(),
+            };
+          }
+          return task;
         });
 
+        set({ tasks: updatedTasks, ...withHistory('마감일 변경', { tasks }) });
+
         // Schedule save
-        scheduleSave(updatedTasks, settings);
+        scheduleSave();
+
+        return { success: true };
+      } catch (error) {
+        logger.error('Failed to set task due date', error as Error);
+        return {
+          success: false,
+          error: '마감일 설정에 실패했습니다',
+        };
+      }
+    },
+
+    /**
+     * Moves a task to a new position in the task list (drag-and-drop).
+     * Tasks whose position changes get a new order and updatedAt.
+     */
+    reorderTasks: (fromIndex: number, toIndex: number) => {
+      try {
+        logger.debug('Reordering tasks', { fromIndex, toIndex });
 
-        // Set timer for permanent deletion (3 seconds)
-        const deleteTimer = setTimeout(() => {
-          logger.debug('Permanently deleting task', { taskId });
+        if (fromIndex === toIndex) {
+          return;
+        }
 
-          const { deletedTasks } = get();
-          const updatedDeletedTasks = deletedTasks.filter((dt) => dt.id !== taskId);
-          set({ deletedTasks: updatedDeletedTasks });
+        // Indexes refer to the task list, which doesn't show archived tasks
+        const { tasks } = get();
+        const updatedTasks = [
+          ...applyTaskOrder(
+            moveItem(getActiveTasks(tasks), fromIndex, toIndex),
+            new Date().toISOString()
+          ),
+          ...getArchivedTasks(tasks),
+        ];
 
-          deleteTimers.delete(taskId);
-        }, 3000);
+        set({ tasks: updatedTasks, ...withHistory('할 일 순서 변경', { tasks }) });
 
-        deleteTimers.set(taskId, deleteTimer);
+        // Schedule save
+        scheduleSave();
       } catch (error) {
-        logger.error('Failed to delete task', error as Error);
+        logger.error('Failed to reorder tasks', error as Error);
       }
     },
 
+    // ========================================================================
+    // ARCHIVE
+    // ========================================================================
+
     /**
-     * Undoes a task deletion within the 3-second window.
+     * Restores an archived task to the top of the task list.
+     * Fails if the task list is already full.
      */
-    undoDeleteTask: (taskId: string) => {
+    unarchiveTask: (taskId: string) => {
       try {
-        logger.debug('Undoing task deletion', { taskId });
+        logger.debug('Restoring archived task', { taskId });
 
-        const { deletedTasks, tasks, settings } = get();
+        const { tasks } = get();
+        const task = tasks.find((t) => t.id === taskId);
+        if (!task || !task.archivedAt) {
+          logger.warn('Archived task not found', { taskId });
+          return { success: false, error: '보관된 할 일을 찾을 수 없습니다' };
+        }
 
-        // Find the deleted task
-        const deletedTask = deletedTasks.find((dt) => dt.id === taskId);
-        if (!deletedTask) {
-          logger.warn('Deleted task not found for undo', { taskId });
-          return;
+        // Restored tasks count toward the task limit again
+        const activeTasks = getActiveTasks(tasks);
+        const limitCheck = checkTaskLimit(activeTasks.length);
+        if (!limitCheck.valid) {
+          logger.warn('Task limit exceeded', { currentCount: activeTasks.length });
+          return {
+            success: false,
+            error: limitCheck.error || '최대 할 일 개수를 초과했습니다',
+          };
         }
 
-        // Cancel the permanent deletion timer
-        const timer = deleteTimers.get(taskId);
-        if (timer) {
-          clearTimeout(timer);
-          deleteTimers.delete(taskId);
+        const restoredTask = {
+          ...setTaskArchived(task, false, new Date().toISOString()),
+          order: getFirstTaskOrder(activeTasks),
+        };
+        const updatedTasks = [restoredTask, ...tasks.filter((t) => t.id !== taskId)];
+
+        set({ tasks: updatedTasks, ...withHistory('보관함에서 복원', { tasks }) });
+
+        // Schedule save
+        scheduleSave();
+
+        return { success: true };
+      } catch (error) {
+        logger.error('Failed to restore archived task', error as Error);
+        return {
+          success: false,
+          error: '할 일 복원에 실패했습니다',
+        };
+      }
+    },
+
+    // ========================================================================
+    // TRASH
+    // ========================================================================
+
+    /**
+     * Restores a deleted task or checklist item to its original position.
+     * Fails if the task list (or the item's task) is already full, or if the
+     * item's task no longer exists.
+     */
+    restoreFromTrash: (entryId: string) => {
+      try {
+        logger.debug('Restoring from trash', { entryId });
+
+        const { tasks, trash } = get();
+        const entry = trash.find((e) => e.id === entryId);
+        if (!entry) {
+          logger.warn('Trash entry not found', { entryId });
+          return { success: false, error: '휴지통에서 항목을 찾을 수 없습니다' };
         }
 
-        // Restore task to the beginning of the array
-        const updatedTasks = [deletedTask.task, ...tasks];
+        const now = new Date().toISOString();
+        let updatedTasks: Task[];
+
+        if (entry.type === 'task') {
+          // Archived tasks go back to the archive and don't count toward the limit
+          if (!entry.task.archivedAt) {
+            const activeCount = getActiveTasks(tasks).length;
+            const limitCheck = checkTaskLimit(activeCount);
+            if (!limitCheck.valid) {
+              logger.warn('Task limit exceeded', { currentCount: activeCount });
+              return {
+                success: false,
+                error: limitCheck.error || '최대 할 일 개수를 초과했습니다',
+              };
+            }
+          }
+
+          updatedTasks = restoreTrashedTask(
+            tasks.filter((t) => t.id !== entry.task.id),
+            entry,
+            now
+          );
+        } else {
+          const task = tasks.find((t) => t.id === entry.taskId);
+          if (!task) {
+            const taskInTrash = trash.some((e) => e.type === 'task' && e.task.id === entry.taskId);
+            logger.warn('Task not found for restoring item', { entryId, taskId: entry.taskId });
+            return {
+              success: false,
+              error: taskInTrash
+                ? `'${entry.taskTitle}'이(가) 휴지통에 있습니다. 할 일을 먼저 복원해주세요`
+                : '원래 할 일이 삭제되어 복원할 수 없습니다',
+            };
+          }
+
+          // The restored item brings its sub-items back as well
+          const restoredCount = countItems(task.items) + countItems([entry.item]) - 1;
+          const limitCheck = checkItemLimit(restoredCount);
+          if (!limitCheck.valid) {
+            logger.warn('Item limit exceeded', { taskId: task.id, currentCount: restoredCount });
+            return {
+              success: false,
+              error: limitCheck.error || '최대 항목 개수를 초과했습니다',
+            };
+          }
 
-        // Remove from deletedTasks
-        const updatedDeletedTasks = deletedTasks.filter((dt) => dt.id !== taskId);
+          const restoredTask = restoreTrashedItem(task, entry, now);
+          updatedTasks = tasks.map((t) => (t.id === task.id ? restoredTask : t));
+        }
 
         set({
           tasks: updatedTasks,
-          deletedTasks: updatedDeletedTasks,
+          trash: trash.filter((e) => e.id !== entryId),
+          ...withHistory('휴지통에서 복원', { tasks, trash }),
         });
 
         // Schedule save
-        scheduleSave(updatedTasks, settings);
+        scheduleSave();
+
+        return { success: true };
       } catch (error) {
-        logger.error('Failed to undo task deletion', error as Error);
+        logger.error('Failed to restore from trash', error as Error);
+        return {
+          success: false,
+          error: '복원에 실패했습니다',
+        };
       }
     },
 
     /**
-     * Retrieves a task by ID.
+     * Removes an entry from the trash for good.
      */
-    getTask: (taskId: string) => {
-      const { tasks } = get();
-      return tasks.find((task) => task.id === taskId);
+    deleteFromTrash: (entryId: string) => {
+      try {
+        logger.debug('Deleting from trash', { entryId });
+
+        const { trash } = get();
+        // Undo could otherwise bring back what was removed for good
+        set({ trash: removeTrashEntry(trash, entryId), ...CLEARED_HISTORY });
+
+        // Schedule save
+        scheduleSave();
+      } catch (error) {
+        logger.error('Failed to delete from trash', error as Error);
+      }
+    },
+
+    /**
+     * Removes everything in the trash for good.
+     */
+    emptyTrash: () => {
+      try {
+        logger.debug('Emptying trash', { count: get().trash.length });
+
+        set({ trash: [], ...CLEARED_HISTORY });
+
+        // Schedule save
+        scheduleSave();
+      } catch (error) {
+        logger.error('Failed to empty trash', error as Error);
+      }
+    },
+
+    // ========================================================================
+    // UNDO / REDO
+    // ========================================================================
+
+    /**
+     * Undoes the most recent change.
+     * @returns The undone change's label on success
+     */
+    undo: () => {
+      try {
+        const label = applyHistoryStep('undo');
+        if (!label) {
+          return { success: false, error: '되돌릴 작업이 없습니다' };
+        }
+
+        logger.debug('Undid change', { label });
+        return { success: true, label };
+      } catch (error) {
+        logger.error('Failed to undo', error as Error);
+        return { success: false, error: '실행 취소에 실패했습니다' };
+      }
+    },
+
+    /**
+     * Redoes the most recently undone change.
+     * @returns The redone change's label on success
+     */
+    redo: () => {
+      try {
+        const label = applyHistoryStep('redo');
+        if (!label) {
+          return { success: false, error: '다시 실행할 작업이 없습니다' };
+        }
+
+        logger.debug('Redid change', { label });
+        return { success: true, label };
+      } catch (error) {
+        logger.error('Failed to redo', error as Error);
+        return { success: false, error: '다시 실행에 실패했습니다' };
+      }
     },
 
     // ========================================================================
@@ -540,10 +1203,11 @@ export const useTaskStore = create<TaskStore>((set, get) => {
 
     /**
      * Adds a checklist item to a task with validation.
+     * With a parentId, the item is added as a child of that item.
      */
-    addChecklistItem: async (taskId: string, itemTitle: string) => {
+    addChecklistItem: async (taskId: string, itemTitle: string, parentId?: string) => {
       try {
-        logger.debug('Adding checklist item', { taskId, itemTitle });
+        logger.debug('Adding checklist item', { taskId, itemTitle, parentId });
 
         // Validate title
         const titleValidation = validateTitle(itemTitle);
@@ -555,7 +1219,7 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           };
         }
 
-        const { tasks, settings } = get();
+        const { tasks } = get();
 
         // Find the task
         const task = tasks.find((t) => t.id === taskId);
@@ -567,16 +1231,38 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           };
         }
 
-        // Check item limit (50 items max per task)
-        const limitCheck = checkItemLimit(task.items.length);
+        // Check item limit (500 items max per task, nested items included)
+        const currentCount = countItems(task.items);
+        const limitCheck = checkItemLimit(currentCount);
         if (!limitCheck.valid) {
-          logger.warn('Item limit exceeded', { taskId, currentCount: task.items.length });
+          logger.warn('Item limit exceeded', { taskId, currentCount });
           return {
             success: false,
             error: limitCheck.error || '최대 항목 개수를 초과했습니다',
           };
         }
 
+        // Check the parent item and nesting depth
+        if (parentId) {
+          const parentDepth = getItemDepth(task.items, parentId);
+          if (parentDepth === -1) {
+            logger.warn('Parent item not found for adding item', { taskId, parentId });
+            return {
+              success: false,
+              error: '상위 항목을 찾을 수 없습니다',
+            };
+          }
+
+          const depthCheck = checkItemDepth(parentDepth + 1);
+          if (!depthCheck.valid) {
+            logger.warn('Item depth exceeded', { taskId, parentId, parentDepth });
+            return {
+              success: false,
+              error: depthCheck.error || '더 이상 하위 항목을 추가할 수 없습니다',
+            };
+          }
+        }
+
         // Create new checklist item
         const newItem = {
           id: generateId(),
@@ -589,17 +1275,17 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           if (t.id === taskId) {
             return {
               ...t,
-              items: [...t.items, newItem],
+              items: parentId ? addChildItem(t.items, parentId, newItem) : [...t.items, newItem],
               updatedAt: new Date().toISOString(),
             };
           }
           return t;
         });
 
-        set({ tasks: updatedTasks });
+        set({ tasks: updatedTasks, ...withHistory('항목 추가', { tasks }) });
 
         // Schedule save
-        scheduleSave(updatedTasks, settings);
+        scheduleSave();
 
         return { success: true };
       } catch (error) {
@@ -613,22 +1299,21 @@ export const useTaskStore = create<TaskStore>((set, get) => {
 
     /**
      * Toggles a checklist item's done status with haptic feedback.
+     * With a date, only that date's completion is toggled (Today/calendar views).
+     * Without a date, the overall status is toggled (recurring items: today's occurrence).
      */
-    toggleChecklistItem: (taskId: string, itemId: string) => {
+    toggleChecklistItem: (taskId: string, itemId: string, date?: string) => {
       try {
-        logger.debug('Toggling checklist item', { taskId, itemId });
+        logger.debug('Toggling checklist item', { taskId, itemId, date });
 
-        const { tasks, settings } = get();
+        const { tasks } = get();
 
         // Update item's done status
         const updatedTasks = tasks.map((task) => {
           if (task.id === taskId) {
-            const updatedItems = task.items.map((item) => {
-              if (item.id === itemId) {
-                return { ...item, done: !item.done };
-              }
-              return item;
-            });
+            const updatedItems = updateItemInTree(task.items, itemId, (item) =>
+              date ? toggleItemOnDate(item, date) : toggleItemDone(item, getTodayKey())
+            );
 
             return {
               ...task,
@@ -639,10 +1324,10 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           return task;
         });
 
-        set({ tasks: updatedTasks });
+        set({ tasks: updatedTasks, ...withHistory('항목 체크', { tasks }) });
 
         // Schedule save
-        scheduleSave(updatedTasks, settings);
+        scheduleSave();
 
         // Haptic feedback
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch((error) => {
@@ -672,325 +1357,950 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           };
         }
 
-        const { tasks, settings } = get();
+        const { tasks } = get();
         const normalizedTitle = normalizeTitle(newTitle);
 
         // Update item
         const updatedTasks = tasks.map((task) => {
           if (task.id === taskId) {
-            const updatedItems = task.items.map((item) => {
-              if (item.id === itemId) {
-                return { ...item, title: normalizedTitle };
+            const updatedItems = updateItemInTree(task.items, itemId, (item) => ({
+              ...item,
+              title: normalizedTitle,
+            }));
+
+            return {
+              ...task,
+              items: updatedItems,
+              updatedAt: new Date().toISOString(),
+            };
+          }
+          return task;
+        });
+
+        set({ tasks: updatedTasks, ...withHistory('항목 수정', { tasks }) });
+
+        // Schedule save
+        scheduleSave();
+
+        return { success: true };
+      } catch (error) {
+        logger.error('Failed to update checklist item', error as Error);
+        return {
+          success: false,
+          error: '항목 수정에 실패했습니다',
+        };
+      }
+    },
+
+    /**
+     * Deletes a checklist item (and its child items) from a task.
+     */
+    deleteChecklistItem: (taskId: string, itemId: string) => {
+      try {
+        logger.debug('Deleting checklist item', { taskId, itemId });
+
+        const { tasks, trash } = get();
+
+        const task = tasks.find((t) => t.id === taskId);
+        const now = new Date().toISOString();
+
+        // Remember the item (with its sub-items) and its position for restoring
+        const entry = task && createTrashedItem(task, itemId, generateId(), now);
+        if (!entry) {
+          logger.warn('Item not found for deletion', { taskId, itemId });
+          return;
+        }
+
+        // Remove item from task
+        const updatedTasks = tasks.map((t) => {
+          if (t.id === taskId) {
+            const updatedItems = removeItemFromTree(t.items, itemId);
+
+            return {
+              ...t,
+              items: updatedItems,
+              updatedAt: now,
+            };
+          }
+          return t;
+        });
+
+        set({
+          tasks: updatedTasks,
+          trash: [entry, ...trash],
+          ...withHistory('항목 삭제', { tasks, trash }),
+        });
+
+        // Schedule save
+        scheduleSave();
+      } catch (error) {
+        logger.error('Failed to delete checklist item', error as Error);
+      }
+    },
+
+    /**
+     * Toggles a checklist item's isToday status.
+     * @deprecated Use scheduleItemForDate/unscheduleItemFromDate instead
+     */
+    toggleChecklistItemToday: (taskId: string, itemId: string) => {
+      try {
+        logger.debug('Toggling checklist item today status (legacy)', { taskId, itemId });
+
+        const todayKey = getTodayKey();
+        const { tasks } = get();
+
+        // Find the item
+        const task = tasks.find((t) => t.id === taskId);
+        const item = task ? findItem(task.items, itemId) : undefined;
+
+        if (!item) {
+          logger.warn('Item not found', { taskId, itemId });
+          return;
+        }
+
+        // Check if item is scheduled for today
+        const scheduledDates = item.scheduledDates || [];
+        const isScheduledToday = scheduledDates.includes(todayKey);
+
+        // Update item's scheduledDates
+        const updatedTasks = tasks.map((t) => {
+          if (t.id === taskId) {
+            const updatedItems = updateItemInTree(t.items, itemId, (i) => {
+              const currentDates = i.scheduledDates || [];
+              const newDates = isScheduledToday
+                ? currentDates.filter((d) => d !== todayKey)
+                : [...currentDates, todayKey].sort();
+
+              return {
+                ...i,
+                scheduledDates: newDates,
+              };
+            });
+
+            return {
+              ...t,
+              items: updatedItems,
+              updatedAt: new Date().toISOString(),
+            };
+          }
+          return t;
+        });
+
+        set({ tasks: updatedTasks, ...withHistory('오늘 할 일 변경', { tasks }) });
+
+        // Schedule save
+        scheduleSave();
+
+        // Haptic feedback
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch((error) => {
+          logger.debug('Haptic feedback failed', { error });
+        });
+
+        logger.debug('Checklist item today status toggled', { taskId, itemId, isScheduledToday });
+      } catch (error) {
+        logger.error('Failed to toggle checklist item today status', error as Error);
+      }
+    },
+
+    /**
+     * Schedules an item for a specific date.
+     */
+    scheduleItemForDate: (taskId: string, itemId: string, date: string) => {
+      try {
+        logger.debug('Scheduling item for date', { taskId, itemId, date });
+
+        const { tasks } = get();
+
+        // Update item's scheduledDates
+        const updatedTasks = tasks.map((task) => {
+          if (task.id === taskId) {
+            const updatedItems = updateItemInTree(task.items, itemId, (item) => {
+              const scheduledDates = item.scheduledDates || [];
+
+              // Add date if not already scheduled
+              if (!scheduledDates.includes(date)) {
+                return {
+                  ...item,
+                  scheduledDates: [...scheduledDates, date].sort(),
+                };
               }
               return item;
             });
 
-            return {
-              ...task,
-              items: updatedItems,
-              updatedAt: new Date().toISOString(),
-            };
-          }
-          return task;
-        });
+            return {
+              ...task,
+              items: updatedItems,
+              updatedAt: new Date().toISOString(),
+            };
+          }
+          return task;
+        });
+
+        set({ tasks: updatedTasks, ...withHistory('일정 추가', { tasks }) });
+
+        // Schedule save
+        scheduleSave();
+
+        // Haptic feedback
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch((error) => {
+          logger.debug('Haptic feedback failed', { error });
+        });
+      } catch (error) {
+        logger.error('Failed to schedule item for date', error as Error);
+      }
+    },
+
+    /**
+     * Unschedules an item from a specific date.
+     */
+    unscheduleItemFromDate: (taskId: string, itemId: string, date: string) => {
+      try {
+        logger.debug('Unscheduling item from date', { taskId, itemId, date });
+
+        const { tasks } = get();
+
+        // Update item's scheduledDates
+        const updatedTasks = tasks.map((task) => {
+          if (task.id === taskId) {
+            const updatedItems = updateItemInTree(task.items, itemId, (item) => {
+              const scheduledDates = item.scheduledDates || [];
+
+              // Remove date
+              return {
+                ...item,
+                scheduledDates: scheduledDates.filter((d) => d !== date),
+              };
+            });
+
+            return {
+              ...task,
+              items: updatedItems,
+              updatedAt: new Date().toISOString(),
+            };
+          }
+          return task;
+        });
+
+        set({ tasks: updatedTasks, ...withHistory('일정에서 제외', { tasks }) });
+
+        // Schedule save
+        scheduleSave();
+
+        // Haptic feedback
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch((error) => {
+          logger.debug('Haptic feedback failed', { error });
+        });
+      } catch (error) {
+        logger.error('Failed to unschedule item from date', error as Error);
+      }
+    },
+
+    /**
+     * Sets or clears the recurrence rule of a checklist item.
+     * Pass null to make the item non-recurring again.
+     */
+    setItemRecurrence: (taskId: string, itemId: string, rule: RecurrenceRule | null) => {
+      try {
+        logger.debug('Setting item recurrence', { taskId, itemId, rule });
+
+        if (rule) {
+          const ruleValidation = validateRecurrenceRule(rule);
+          if (!ruleValidation.valid) {
+            logger.warn('Recurrence rule validation failed', { error: ruleValidation.error });
+            return {
+              success: false,
+              error: ruleValidation.error || '반복 규칙이 올바르지 않습니다',
+            };
+          }
+        }
+
+        const { tasks } = get();
+
+        // Update item's recurrence rule
+        const updatedTasks = tasks.map((task) => {
+          if (task.id === taskId) {
+            const updatedItems = updateItemInTree(task.items, itemId, (item) => {
+              if (rule) {
+                return { ...item, recurrence: rule };
+              }
+
+              const { recurrence: _recurrence, ...rest } = item;
+              return rest;
+            });
+
+            return {
+              ...task,
+              items: updatedItems,
+              updatedAt: new Date().toISOString(),
+            };
+          }
+          return task;
+        });
+
+        set({ tasks: updatedTasks, ...withHistory('반복 설정 변경', { tasks }) });
+
+        // Schedule save
+        scheduleSave();
+
+        return { success: true };
+      } catch (error) {
+        logger.error('Failed to set item recurrence', error as Error);
+        return {
+          success: false,
+          error: '반복 설정에 실패했습니다',
+        };
+      }
+    },
+
+    /**
+     * Sets or clears a checklist item's due date.
+     * Pass null to remove the deadline.
+     */
+    setItemDueDate: (taskId: string, itemId: string, dueDate: string | null) => {
+      try {
+        logger.debug('Setting item due date', { taskId, itemId, dueDate });
+
+        if (dueDate) {
+          const dueDateValidation = validateDueDate(dueDate);
+          if (!dueDateValidation.valid) {
+            logger.warn('Due date validation failed', { error: dueDateValidation.error });
+            return {
+              success: false,
+              error: dueDateValidation.error || '마감일이 올바르지 않습니다',
+            };
+          }
+        }
+
+        const { tasks } = get();
+
+        // Update item's due date
+        const updatedTasks = tasks.map((task) => {
+          if (task.id === taskId) {
+            const updatedItems = updateItemInTree(task.items, itemId, (item) => {
+              const { dueDate: _previous, ...rest } = item;
+              return dueDate ? { ...rest, dueDate } : rest;
+            });
+
+            return {
+              ...task,
+              items: updatedItems,
+              updatedAt: new Date().toISOString(),
+            };
+          }
+          return task;
+        });
+
+        set({ tasks: updatedTasks, ...withHistory('항목 마감일 변경', { tasks }) });
+
+        // Schedule save
+        scheduleSave();
+
+        return { success: true };
+      } catch (error) {
+        logger.error('Failed to set item due date', error as Error);
+        return {
+          success: false,
+          error: '마감일 설정에 실패했습니다',
+        };
+      }
+    },
+
+    /**
+     * Moves a checklist item among its siblings (drag-and-drop).
+     * Pass parentId null for top-level items.
+     */
+    reorderChecklistItems: (
+      taskId: string,
+      parentId: string | null,
+      fromIndex: number,
+      toIndex: number
+    ) => {
+      try {
+        logger.debug('Reordering checklist items', { taskId, parentId, fromIndex, toIndex });
+
+        if (fromIndex === toIndex) {
+          return;
+        }
+
+        const { tasks } = get();
+
+        // Move the item within its parent's list
+        const updatedTasks = tasks.map((task) => {
+          if (task.id === taskId) {
+            const updatedItems = parentId
+              ? updateItemInTree(task.items, parentId, (parent) => ({
+                  ...parent,
+                  children: moveItem(parent.children || [], fromIndex, toIndex),
+                }))
+              : moveItem(task.items, fromIndex, toIndex);
+
+            return {
+              ...task,
+              items: updatedItems,
+              updatedAt: new Date().toISOString(),
+            };
+          }
+          return task;
+        });
+
+        set({ tasks: updatedTasks, ...withHistory('항목 순서 변경', { tasks }) });
+
+        // Schedule save
+        scheduleSave();
+      } catch (error) {
+        logger.error('Failed to reorder checklist items', error as Error);
+      }
+    },
+
+    /**
+     * Saves the arranged order of a day's plan.
+     * itemIds lists the date's items in their new order.
+     */
+    reorderDayPlan: (date: string, itemIds: string[]) => {
+      try {
+        logger.debug('Reordering day plan', { date, itemCount: itemIds.length });
+
+        const { tasks } = get();
+        const positions = new Map(itemIds.map((itemId, index) => [itemId, index]));
+        const now = new Date().toISOString();
+
+        // Update each item's position for the date
+        const updatedTasks = tasks.map((task) => {
+          let updatedItems = task.items;
+
+          flattenItems(task.items).forEach((item) => {
+            const position = positions.get(item.id);
+            if (position !== undefined && item.planOrder?.[date] !== position) {
+              updatedItems = updateItemInTree(updatedItems, item.id, (current) => ({
+                ...current,
+                planOrder: { ...current.planOrder, [date]: position },
+              }));
+            }
+          });
+
+          if (updatedItems === task.items) {
+            return task;
+          }
+
+          return {
+            ...task,
+            items: updatedItems,
+            updatedAt: now,
+          };
+        });
+
+        set({ tasks: updatedTasks, ...withHistory('계획 순서 변경', { tasks }) });
+
+        // Schedule save
+        scheduleSave();
+      } catch (error) {
+        logger.error('Failed to reorder day plan', error as Error);
+      }
+    },
+
+    /**
+     * Gets all checklist items scheduled for a specific date.
+     * Recurring items are expanded on the fly and each item's `done` flag
+     * reflects its completion on that date. Nested items are included.
+     * Items are sorted by the day's plan as arranged on the Today screen.
+     * Archived tasks are skipped.
+     */
+    getItemsForDate: (date: string) => {
+      const { tasks } = get();
+      const items: Array<{ task: Task; item: ChecklistItem }> = [];
+
+      getActiveTasks(tasks).forEach((task) => {
+        flattenItems(task.items).forEach((item) => {
+          if (isItemScheduledOn(item, date)) {
+            items.push({ task, item: resolveItemForDate(item, date) });
+          }
+        });
+      });
+
+      logger.debug('Retrieved items for date', { date, count: items.length });
+      return sortByPlanOrder(items, date);
+    },
+
+    /**
+     * Retrieves all checklist items marked as today's tasks.
+     * Returns an array of objects containing both the task and the item.
+     * Supports both legacy isToday and new scheduledDates.
+     */
+    getTodayItems: () => {
+      const todayKey = getTodayKey();
+      return get().getItemsForDate(todayKey);
+    },
+
+    // ========================================================================
+    // SETTINGS
+    // ========================================================================
+
+    /**
+     * Toggles celebration animation setting.
+     */
+    toggleCelebration: () => {
+      const { settings } = get();
+      const newSettings = {
+        ...settings,
+        celebrationEnabled: !settings.celebrationEnabled,
+      };
+
+      set({ settings: newSettings });
+      scheduleSave();
+    },
+
+    /**
+     * Updates the daily save hour setting.
+     * @param hour - Hour (0-23) to auto-save at
+     */
+    updateDailySaveHour: (hour: number) => {
+      if (hour < 0 || hour > 23) {
+        const error = new Error(`Invalid dailySaveHour: ${hour}`);
+        logger.error('Invalid dailySaveHour', error);
+        return;
+      }
+
+      const { settings } = get();
+      const newSettings = {
+        ...settings,
+        dailySaveHour: hour,
+      };
+
+      set({ settings: newSettings });
+      scheduleSave();
+
+      // Update the scheduler
+      updateDailySaveScheduler(hour, () => get().tasks);
+    },
+
+    /**
+     * Toggles the week starts on setting (Sunday <-> Monday).
+     */
+    toggleWeekStartsOn: () => {
+      const { settings } = get();
+      const newWeekStartsOn: 0 | 1 = settings.weekStartsOn === 0 ? 1 : 0;
+      const newSettings = {
+        ...settings,
+        weekStartsOn: newWeekStartsOn,
+      };
+
+      set({ settings: newSettings });
+      scheduleSave();
+    },
+
+    /**
+     * Updates after how many days finished tasks are archived.
+     * The new threshold is applied to the current tasks right away.
+     * @param days - Days without updates (0 = never archive automatically)
+     */
+    updateArchiveAfterDays: (days: number) => {
+      if (!Number.isInteger(days) || days < 0) {
+        const error = new Error(`Invalid archiveAfterDays: ${days}`);
+        logger.error('Invalid archiveAfterDays', error);
+        return;
+      }
+
+      const { settings, tasks } = get();
+      const newSettings = {
+        ...settings,
+        archiveAfterDays: days,
+      };
+      const updatedTasks = archiveOldCompletedTasks({
+        schemaVersion: STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION,
+        tasks,
+        settings: newSettings,
+      }).tasks;
+
+      set({
+        settings: newSettings,
+        tasks: updatedTasks,
+        ...(updatedTasks !== tasks && CLEARED_HISTORY),
+      });
+      scheduleSave();
+    },
+
+    /**
+     * Updates how many days deleted tasks and items stay in the trash.
+     * Entries older than the new period are removed right away.
+     * @param days - Days entries are kept (at least 1)
+     */
+    updateTrashRetentionDays: (days: number) => {
+      if (!Number.isInteger(days) || days < 1) {
+        const error = new Error(`Invalid trashRetentionDays: ${days}`);
+        logger.error('Invalid trashRetentionDays', error);
+        return;
+      }
+
+      const { settings, trash } = get();
+      const newSettings = {
+        ...settings,
+        trashRetentionDays: days,
+      };
+
+      set({ settings: newSettings, trash: purgeExpiredTrash(trash, days, Date.now()) });
+      scheduleSave();
+    },
+
+    /**
+     * Updates how many days daily records keep their item snapshots.
+     * Records outside the new period are compacted right away.
+     */
+    updateRecordDetailDays: (days: number) => {
+      if (!Number.isInteger(days) || days < 1) {
+        const error = new Error(`Invalid recordDetailDays: ${days}`);
+        logger.error('Invalid recordDetailDays', error);
+        return;
+      }
+
+      const { settings } = get();
+      const newSettings = {
+        ...settings,
+        recordDetailDays: days,
+      };
+
+      set({ settings: newSettings });
+      scheduleSave();
+
+      applyRecordRetention(days).catch((error) => {
+        logger.error('Failed to apply daily record retention', error);
+      });
+    },
+
+    /**
+     * Turns haptic feedback on or off.
+     * @param enabled - Whether haptic feedback is enabled
+     */
+    setHapticEnabled: (enabled: boolean) => {
+      const { settings } = get();
+      const newSettings = {
+        ...settings,
+        hapticEnabled: enabled,
+      };
+
+      set({ settings: newSettings });
+      scheduleSave();
+    },
+
+    /**
+     * Chooses whether a setting roams across devices or stays on this one.
+     * A setting that roams again takes whichever value was changed last,
+     * here or on another device, at the next sync.
+     * @param key - Setting
+     * @param roaming - True to sync the setting, false to keep it on this device
+     */
+    setSettingRoaming: (key: SyncedSettingKey, roaming: boolean) => {
+      const { settings } = get();
+      const deviceLocalSettings = (settings.deviceLocalSettings || []).filter(
+        (localKey) => localKey !== key
+      );
+      const newSettings = {
+        ...settings,
+        deviceLocalSettings: roaming ? deviceLocalSettings : [...deviceLocalSettings, key],
+      };
+
+      set({ settings: newSettings });
+      scheduleSave();
+    },
+
+    // ========================================================================
+    // TAGS
+    // ========================================================================
+
+    /**
+     * Creates a new tag.
+     */
+    addTag: (name: string, color: string) => {
+      try {
+        logger.debug('Adding tag', { name, color });
+
+        const { settings } = get();
+        const tags = settings.tags || [];
+
+        const limitCheck = checkTagLimit(tags.length);
+        if (!limitCheck.valid) {
+          return {
+            success: false,
+            error: limitCheck.error || '최대 태그 개수를 초과했습니다',
+          };
+        }
+
+        const nameValidation = validateTagName(name, tags);
+        if (!nameValidation.valid) {
+          return {
+            success: false,
+            error: nameValidation.error || '태그 이름이 유효하지 않습니다',
+          };
+        }
 
-        set({ tasks: updatedTasks });
+        const newTag: Tag = {
+          id: generateId(),
+          name: name.trim(),
+          color,
+        };
+        const newSettings = {
+          ...settings,
+          tags: [...tags, newTag],
+        };
 
-        // Schedule save
-        scheduleSave(updatedTasks, settings);
+        set({ settings: newSettings });
+        scheduleSave();
 
         return { success: true };
       } catch (error) {
-        logger.error('Failed to update checklist item', error as Error);
+        logger.error('Failed to add tag', error as Error);
         return {
           success: false,
-          error: '항목 수정에 실패했습니다',
+          error: '태그 추가에 실패했습니다',
         };
       }
     },
 
     /**
-     * Deletes a checklist item from a task.
+     * Renames or recolors a tag.
      */
-    deleteChecklistItem: (taskId: string, itemId: string) => {
+    updateTag: (tagId: string, name: string, color: string) => {
       try {
-        logger.debug('Deleting checklist item', { taskId, itemId });
+        logger.debug('Updating tag', { tagId, name, color });
 
-        const { tasks, settings } = get();
+        const { settings } = get();
+        const tags = settings.tags || [];
 
-        // Remove item from task
-        const updatedTasks = tasks.map((task) => {
-          if (task.id === taskId) {
-            const updatedItems = task.items.filter((item) => item.id !== itemId);
+        if (!tags.some((tag) => tag.id === tagId)) {
+          return {
+            success: false,
+            error: '태그를 찾을 수 없습니다',
+          };
+        }
 
-            return {
-              ...task,
-              items: updatedItems,
-              updatedAt: new Date().toISOString(),
-            };
-          }
-          return task;
-        });
+        const nameValidation = validateTagName(name, tags, tagId);
+        if (!nameValidation.valid) {
+          return {
+            success: false,
+            error: nameValidation.error || '태그 이름이 유효하지 않습니다',
+          };
+        }
 
-        set({ tasks: updatedTasks });
+        const newSettings = {
+          ...settings,
+          tags: tags.map((tag) => (tag.id === tagId ? { ...tag, name: name.trim(), color } : tag)),
+        };
 
-        // Schedule save
-        scheduleSave(updatedTasks, settings);
+        set({ settings: newSettings });
+        scheduleSave();
+
+        return { success: true };
       } catch (error) {
-        logger.error('Failed to delete checklist item', error as Error);
+        logger.error('Failed to update tag', error as Error);
+        return {
+          success: false,
+          error: '태그 수정에 실패했습니다',
+        };
       }
     },
 
     /**
-     * Toggles a checklist item's isToday status.
-     * @deprecated Use scheduleItemForDate/unscheduleItemFromDate instead
+     * Deletes a tag and removes it from all tasks.
      */
-    toggleChecklistItemToday: (taskId: string, itemId: string) => {
+    deleteTag: (tagId: string) => {
       try {
-        logger.debug('Toggling checklist item today status (legacy)', { taskId, itemId });
+        logger.debug('Deleting tag', { tagId });
 
-        const todayKey = getTodayKey();
         const { tasks, settings } = get();
+        const newSettings = {
+          ...settings,
+          tags: (settings.tags || []).filter((tag) => tag.id !== tagId),
+        };
+        const updatedTasks = removeTagFromTasks(tasks, tagId, new Date().toISOString());
 
-        // Find the item
-        const task = tasks.find((t) => t.id === taskId);
-        const item = task?.items.find((i) => i.id === itemId);
-
-        if (!item) {
-          logger.warn('Item not found', { taskId, itemId });
-          return;
-        }
-
-        // Check if item is scheduled for today
-        const scheduledDates = item.scheduledDates || [];
-        const isScheduledToday = scheduledDates.includes(todayKey);
-
-        // Update item's scheduledDates
-        const updatedTasks = tasks.map((t) => {
-          if (t.id === taskId) {
-            const updatedItems = t.items.map((i) => {
-              if (i.id === itemId) {
-                const currentDates = i.scheduledDates || [];
-                const newDates = isScheduledToday
-                  ? currentDates.filter((d) => d !== todayKey)
-                  : [...currentDates, todayKey].sort();
-
-                return {
-                  ...i,
-                  scheduledDates: newDates,
-                };
-              }
-              return i;
-            });
-
-            return {
-              ...t,
-              items: updatedItems,
-              updatedAt: new Date().toISOString(),
-            };
-          }
-          return t;
-        });
-
-        set({ tasks: updatedTasks });
-
-        // Schedule save
-        scheduleSave(updatedTasks, settings);
-
-        // Haptic feedback
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch((error) => {
-          logger.debug('Haptic feedback failed', { error });
-        });
-
-        logger.debug('Checklist item today status toggled', { taskId, itemId, isScheduledToday });
+        set({ tasks: updatedTasks, settings: newSettings, ...CLEARED_HISTORY });
+        scheduleSave();
       } catch (error) {
-        logger.error('Failed to toggle checklist item today status', error as Error);
+        logger.error('Failed to delete tag', error as Error);
       }
     },
 
     /**
-     * Schedules an item for a specific date.
+     * Replaces the tags attached to a task.
      */
-    scheduleItemForDate: (taskId: string, itemId: string, date: string) => {
+    setTaskTags: (taskId: string, tagIds: string[]) => {
       try {
-        logger.debug('Scheduling item for date', { taskId, itemId, date });
+        logger.debug('Setting task tags', { taskId, tagIds });
 
         const { tasks, settings } = get();
+        const knownTagIds = new Set((settings.tags || []).map((tag) => tag.id));
+        const validTagIds = tagIds.filter((tagId) => knownTagIds.has(tagId));
 
-        // Update item's scheduledDates
         const updatedTasks = tasks.map((task) => {
           if (task.id === taskId) {
-            const updatedItems = task.items.map((item) => {
-              if (item.id === itemId) {
-                const scheduledDates = item.scheduledDates || [];
-
-                // Add date if not already scheduled
-                if (!scheduledDates.includes(date)) {
-                  return {
-                    ...item,
-                    scheduledDates: [...scheduledDates, date].sort(),
-                  };
-                }
-              }
-              return item;
-            });
-
+            const { tagIds: _previous, ...rest } = task;
             return {
-              ...task,
-              items: updatedItems,
+              ...rest,
+              ...(validTagIds.length > 0 ? { tagIds: validTagIds } : {}),
               updatedAt: new Date().toISOString(),
             };
           }
           return task;
         });
 
-        set({ tasks: updatedTasks });
+        set({ tasks: updatedTasks, ...withHistory('태그 변경', { tasks }) });
 
         // Schedule save
-        scheduleSave(updatedTasks, settings);
-
-        // Haptic feedback
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch((error) => {
-          logger.debug('Haptic feedback failed', { error });
-        });
+        scheduleSave();
       } catch (error) {
-        logger.error('Failed to schedule item for date', error as Error);
+        logger.error('Failed to set task tags', error as Error);
       }
     },
 
+    // ========================================================================
+    // BACKUP
+    // ========================================================================
+
     /**
-     * Unschedules an item from a specific date.
+     * Applies validated backup data to the store.
+     * In replace mode, settings from the backup are restored as well;
+     * in merge mode only the backup's unknown tags are added.
      */
-    unscheduleItemFromDate: (taskId: string, itemId: string, date: string) => {
+    importBackup: async (data: AppData, mode: ImportMode) => {
       try {
-        logger.debug('Unscheduling item from date', { taskId, itemId, date });
+        logger.info('Importing backup', { mode, taskCount: data.tasks.length });
 
         const { tasks, settings } = get();
+        const importedTasks = normalizeTaskOrder(applyImport(tasks, data, mode));
+        // Merging keeps the current settings, but adds the backup's tags its tasks refer to
+        const importedSettings =
+          mode === 'replace' && data.settings
+            ? data.settings
+            : { ...settings, tags: mergeTags(settings.tags || [], data.settings?.tags || []) };
+
+        // Data under a lost encryption key can't be read anymore; restoring
+        // a backup is how the user recovers from that, so it may start over
+        if (await isEncryptionKeyMissing()) {
+          await replaceLostEncryptionKey();
+        }
 
-        // Update item's scheduledDates
-        const updatedTasks = tasks.map((task) => {
-          if (task.id === taskId) {
-            const updatedItems = task.items.map((item) => {
-              if (item.id === itemId) {
-                const scheduledDates = item.scheduledDates || [];
-
-                // Remove date
-                return {
-                  ...item,
-                  scheduledDates: scheduledDates.filter((d) => d !== date),
-                };
-              }
-              return item;
-            });
-
-            return {
-              ...task,
-              items: updatedItems,
-              updatedAt: new Date().toISOString(),
-            };
-          }
-          return task;
-        });
+        set({ tasks: importedTasks, settings: importedSettings, ...CLEARED_HISTORY });
 
-        set({ tasks: updatedTasks });
+        if (importedSettings.dailySaveHour !== settings.dailySaveHour) {
+          updateDailySaveScheduler(importedSettings.dailySaveHour, () => get().tasks);
+        }
 
-        // Schedule save
-        scheduleSave(updatedTasks, settings);
+        // Persist right away instead of waiting for the debounce
+        await get().saveImmediately();
 
-        // Haptic feedback
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch((error) => {
-          logger.debug('Haptic feedback failed', { error });
-        });
+        logger.info('Backup imported successfully', { taskCount: importedTasks.length });
+        return { success: true };
       } catch (error) {
-        logger.error('Failed to unschedule item from date', error as Error);
+        logger.error('Failed to import backup', error as Error);
+        return {
+          success: false,
+          error: toAppError(error).message || '백업 복원에 실패했습니다',
+        };
       }
     },
 
     /**
-     * Gets all checklist items scheduled for a specific date.
+     * Replaces tasks, settings and trash with an automatic snapshot.
+     * The snapshot is migrated to the current schema first.
      */
-    getItemsForDate: (date: string) => {
-      const { tasks } = get();
-      const items: Array<{ task: Task; item: ChecklistItem }> = [];
+    restoreSnapshot: async (snapshotId: string) => {
+      try {
+        logger.info('Restoring snapshot', { snapshotId });
 
-      tasks.forEach((task) => {
-        task.items.forEach((item) => {
-          const scheduledDates = item.scheduledDates || [];
-          if (scheduledDates.includes(date)) {
-            items.push({ task, item });
-          }
+        const { settings } = get();
+        const data = migrateSchema(await loadSnapshot(snapshotId));
+        const restoredTasks = normalizeTaskOrder(data.tasks);
+        const restoredSettings = data.settings || settings;
+
+        set({
+          tasks: restoredTasks,
+          settings: restoredSettings,
+          trash: data.trash || [],
+          ...CLEARED_HISTORY,
         });
-      });
 
-      logger.debug('Retrieved items for date', { date, count: items.length });
-      return items;
-    },
+        if (restoredSettings.dailySaveHour !== settings.dailySaveHour) {
+          updateDailySaveScheduler(restoredSettings.dailySaveHour, () => get().tasks);
+        }
 
-    /**
-     * Retrieves all checklist items marked as today's tasks.
-     * Returns an array of objects containing both the task and the item.
-     * Supports both legacy isToday and new scheduledDates.
-     */
-    getTodayItems: () => {
-      const todayKey = getTodayKey();
-      return get().getItemsForDate(todayKey);
+        // Persist right away instead of waiting for the debounce
+        await get().saveImmediately();
+
+        logger.info('Snapshot restored successfully', { taskCount: restoredTasks.length });
+        return { success: true };
+      } catch (error) {
+        logger.error('Failed to restore snapshot', error as Error);
+        return {
+          success: false,
+          error: toAppError(error).message || '자동 백업 복원에 실패했습니다',
+        };
+      }
     },
 
     // ========================================================================
-    // SETTINGS
+    // DATA INTEGRITY
     // ========================================================================
 
     /**
-     * Toggles celebration animation setting.
+     * Checks tasks and daily records for integrity problems.
+     * @returns The problems found on success
      */
-    toggleCelebration: () => {
-      const { settings, tasks } = get();
-      const newSettings = {
-        ...settings,
-        celebrationEnabled: !settings.celebrationEnabled,
-      };
-
-      set({ settings: newSettings });
-      scheduleSave(tasks, newSettings);
+    runIntegrityCheck: async () => {
+      try {
+        const { tasks, trash } = get();
+        const records = await loadDailyRecords();
+        const issues = checkIntegrity(
+          { schemaVersion: STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION, tasks, trash },
+          records,
+          getTodayKey()
+        );
+
+        logger.info('Integrity check completed', { issueCount: issues.length });
+        return { success: true, issues };
+      } catch (error) {
+        logger.error('Failed to check data integrity', error as Error);
+        return { success: false, error: '데이터 점검에 실패했습니다' };
+      }
     },
 
     /**
-     * Updates the daily save hour setting.
-     * @param hour - Hour (0-23) to auto-save at
+     * Repairs every integrity problem found.
+     * Repairs change IDs, so they can't be undone and the history is cleared.
+     * @returns The number of problems repaired on success
      */
-    updateDailySaveHour: (hour: number) => {
-      if (hour < 0 || hour > 23) {
-        const error = new Error(`Invalid dailySaveHour: ${hour}`);
-        logger.error('Invalid dailySaveHour', error);
-        return;
-      }
+    repairIntegrityIssues: async () => {
+      try {
+        const { tasks, trash } = get();
+        const records = await loadDailyRecords();
+        const data: AppData = {
+          schemaVersion: STORAGE_CONSTANTS.LATEST_SCHEMA_VERSION,
+          tasks,
+          trash,
+        };
+        const todayKey = getTodayKey();
 
-      const { settings, tasks } = get();
-      const newSettings = {
-        ...settings,
-        dailySaveHour: hour,
-      };
+        const issueCount = checkIntegrity(data, records, todayKey).length;
+        const repaired = repairIntegrity(data, records, todayKey, generateId);
 
-      set({ settings: newSettings });
-      scheduleSave(tasks, newSettings);
+        if (repaired.records !== records) {
+          await saveDailyRecords(repaired.records);
+        }
 
-      // Update the scheduler
-      updateDailySaveScheduler(hour, () => get().tasks);
-    },
+        if (repaired.data !== data) {
+          set({ tasks: repaired.data.tasks, ...CLEARED_HISTORY });
 
-    /**
-     * Toggles the week starts on setting (Sunday <-> Monday).
-     */
-    toggleWeekStartsOn: () => {
-      const { settings, tasks } = get();
-      const newWeekStartsOn: 0 | 1 = settings.weekStartsOn === 0 ? 1 : 0;
-      const newSettings = {
-        ...settings,
-        weekStartsOn: newWeekStartsOn,
-      };
+          // Schedule save
+          scheduleSave();
+        }
 
-      set({ settings: newSettings });
-      scheduleSave(tasks, newSettings);
+        const fixedCount =
+          issueCount - checkIntegrity(repaired.data, repaired.records, todayKey).length;
+
+        logger.info('Integrity problems repaired', { fixedCount });
+        return { success: true, fixedCount };
+      } catch (error) {
+        logger.error('Failed to repair integrity problems', error as Error);
+        return { success: false, error: '데이터 복구에 실패했습니다' };
+      }
     },
 
     // ========================================================================
@@ -1096,12 +2406,14 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           status: 'idle',
           enabled: false,
           lastSyncedAt: get().syncConfig.lastSyncedAt,
+          pendingChanges: get().syncConfig.pendingChanges,
         },
       });
     },
 
     /**
-     * Syncs data with cloud storage
+     * Syncs data with cloud storage.
+     * After the first sync, only what changed since the last one is exchanged.
      */
     syncWithCloud: async () => {
       // Check if user is signed in (instead of checking enabled flag)
@@ -1123,8 +2435,18 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           },
         });
 
-        const { tasks } = get();
-        const syncResult = await performFullSync(tasks);
+        // The queued changes are all included in this sync
+        const pendingOperations = getPendingOperations();
+
+        const { tasks, settings, tombstones } = get();
+        const localTags = settings.tags || [];
+        const syncResult = await performFullSync(
+          tasks,
+          localTags,
+          tombstones,
+          settings,
+          pendingOperations
+        );
 
         if (!syncResult.result.success) {
           set({
@@ -1141,15 +2463,63 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           };
         }
 
+        // The sync ran on a snapshot: merge its result into the current state,
+        // so changes made while it was running are kept
+        const current = get();
+
+        // Add tags that were created on other devices
+        const pulledTags = syncResult.tags.filter(
+          (tag) => !localTags.some((localTag) => localTag.id === tag.id)
+        );
+        const currentTags = current.settings.tags || [];
+        const mergedTags = mergeTags(currentTags, pulledTags);
+        if (mergedTags !== currentTags) {
+          set({ settings: { ...current.settings, tags: mergedTags } }, { fromSync: true });
+        }
+
         // Update tasks if they changed during merge
-        if (
-          syncResult.tasks.length !== tasks.length ||
-          JSON.stringify(syncResult.tasks) !== JSON.stringify(tasks)
-        ) {
-          set({ tasks: syncResult.tasks });
-          scheduleSave(syncResult.tasks, get().settings);
+        const mergedTombstones = mergeTombstones(current.tombstones, syncResult.tombstones);
+        const mergedTasks = sortTasksByOrder(
+          mergeTaskLists(current.tasks, syncResult.tasks, mergedTombstones)
+        );
+        const nextTombstones = removeTombstonesFor(mergedTombstones, mergedTasks);
+        const tasksChanged =
+          mergedTasks.length !== current.tasks.length ||
+          JSON.stringify(mergedTasks) !== JSON.stringify(current.tasks);
+        const tombstonesChanged = nextTombstones !== current.tombstones;
+
+        if (tasksChanged) {
+          set(
+            { tasks: mergedTasks, tombstones: nextTombstones, ...CLEARED_HISTORY },
+            { fromSync: true }
+          );
+        } else if (tombstonesChanged) {
+          set({ tombstones: nextTombstones }, { fromSync: true });
+        }
+        if (tasksChanged || tombstonesChanged) {
+          scheduleSave();
+        }
+
+        // Apply settings changed on other devices (changes made during the sync are kept)
+        if (syncResult.settings) {
+          const previousSettings = get().settings;
+          const merged = mergeRoamingSettings(previousSettings, syncResult.settings);
+          if (merged.pulledKeys.length > 0) {
+            set({ settings: merged.settings }, { fromSync: true });
+            scheduleSave();
+            if (merged.settings.dailySaveHour !== previousSettings.dailySaveHour) {
+              updateDailySaveScheduler(merged.settings.dailySaveHour, () => get().tasks);
+            }
+          }
+        }
+
+        // Daily records are saved by the sync; screens showing them reload
+        if (syncResult.recordDates.length > 0) {
+          set({ dailyRecordsVersion: get().dailyRecordsVersion + 1 });
         }
 
+        acknowledgeOperations(pendingOperations);
+
         set({
           syncConfig: {
             ...get().syncConfig,
@@ -1180,6 +2550,16 @@ export const useTaskStore = create<TaskStore>((set, get) => {
       }
     },
 
+    /**
+     * Syncs everything again: all tasks and daily records are pulled and pushed,
+     * as on the first sync. A fallback for when a sync may have missed changes.
+     */
+    resyncWithCloud: async () => {
+      logger.info('Full resync requested');
+      await clearSyncState();
+      return get().syncWithCloud();
+    },
+
     /**
      * Sign in with social provider (Google or Apple)
      */
@@ -1299,6 +2679,11 @@ export const useTaskStore = create<TaskStore>((set, get) => {
           },
         });
 
+        // Changes of the signed-out account aren't sent to the next one;
+        // signing in syncs everything on the device anyway
+        clearOutbox();
+        await clearSyncState();
+
         logger.info('Sign out completed');
         return { success: true };
       } catch (error) {
@@ -1350,17 +2735,14 @@ export const useTaskStore = create<TaskStore>((set, get) => {
         logger.debug('Saving immediately');
 
         // Cancel any pending debounced save
-        scheduleSave.cancel();
+        debouncedSave.cancel();
 
-        const { tasks, settings } = get();
+        const state = getSavedState();
 
-        const appData: AppData = {
-          schemaVersion: 1,
-          tasks,
-          settings,
-        };
+        // Journal changes made without scheduleSave (backup import, snapshot restore)
+        appendToJournal(state);
 
-        await saveAppData(appData);
+        await saveFullData(state);
       } catch (error) {
         logger.error('Failed to save immediately', error as Error);
         set({ error: '데이터 저장에 실패했습니다' });
@@ -1401,6 +2783,9 @@ function handleAppStateChange(nextAppState: AppStateStatus) {
     handleDateChange().catch((error) => {
       logger.error('Failed to handle date change', error);
     });
+
+    // Retry queued changes right away (the network may be back)
+    flushOutbox();
   }
 }
 
@@ -1422,11 +2807,10 @@ export function cleanupTaskStore() {
   }
 
   // Cancel pending saves
-  scheduleSave.cancel();
+  debouncedSave.cancel();
 
-  // Clear all delete timers
-  deleteTimers.forEach((timer) => clearTimeout(timer));
-  deleteTimers.clear();
+  // Stop automatic sync (queued changes stay stored)
+  stopOutbox();
 
   logger.info('Task store cleanup completed');
 }
@@ -27,6 +27,7 @@ export interface ChecklistItem {
   /**
    * Completion status of the item
    * true = completed, false = not completed
+   * Scheduled dates and recurring occurrences use `completions` instead
    */
   done: boolean;
 
@@ -34,7 +35,7 @@ export interface ChecklistItem {
    * Whether this checklist item is marked as "today's task"
    * Used to filter items in the Today screen
    * Default: false
-   * @deprecated Use scheduledDates instead
+   * @deprecated Use scheduledDates instead (migrated in schema v4)
    */
   isToday?: boolean;
 
@@ -44,6 +45,109 @@ export interface ChecklistItem {
    * Default: []
    */
   scheduledDates?: string[];
+
+  /**
+   * Repeat rule for recurring items (e.g. a daily habit)
+   * Occurrences are expanded on the fly and combined with scheduledDates
+   * Default: undefined (not recurring)
+   */
+  recurrence?: RecurrenceRule;
+
+  /**
+   * Per-date completion state, keyed by date (YYYY-MM-DD)
+   * Value is the ISO 8601 timestamp when that date's occurrence was completed
+   * Only completed dates are present; unchecking removes the entry
+   * Default: {}
+   * @example { "2025-11-06": "2025-11-06T21:10:00.000Z" }
+   */
+  completions?: Record<string, string>;
+
+  /**
+   * Deadline (YYYY-MM-DD) by which the item must be finished
+   * Independent of scheduledDates, which say when the item is worked on
+   * Default: undefined (no deadline)
+   * @example "2025-11-20"
+   */
+  dueDate?: string;
+
+  /**
+   * Nested child items (sub-steps of this item)
+   * An item with children is done when all of its children are done,
+   * and task progress counts the items without children
+   * Default: undefined (no children)
+   */
+  children?: ChecklistItem[];
+
+  /**
+   * Manual position of the item in a day's plan, keyed by date (YYYY-MM-DD)
+   * Set when the Today screen is rearranged; dates without an entry use the default order
+   * Default: undefined
+   * @example { "2025-11-06": 0 }
+   */
+  planOrder?: Record<string, number>;
+
+  /**
+   * ISO 8601 timestamp when the item's own fields last changed
+   * (changes to its children don't count). Used to merge items one by one
+   * during sync
+   * Default: undefined (items saved by older versions)
+   */
+  updatedAt?: string;
+}
+
+/**
+ * How often a recurring checklist item repeats
+ * - daily: every day
+ * - weekdays: Monday to Friday
+ * - interval: every N days counted from startDate
+ * - weekly: on specific days of the week
+ * - monthly: on a specific day of the month
+ */
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'interval' | 'weekly' | 'monthly';
+
+/**
+ * RecurrenceRule describes when a recurring checklist item occurs.
+ */
+export interface RecurrenceRule {
+  /**
+   * Repeat frequency
+   */
+  frequency: RecurrenceFrequency;
+
+  /**
+   * First date (YYYY-MM-DD) the rule applies to
+   * Also the anchor for 'interval' rules
+   * @example "2025-11-06"
+   */
+  startDate: string;
+
+  /**
+   * Last date (YYYY-MM-DD) the rule applies to (inclusive)
+   * Default: undefined (repeats forever)
+   */
+  endDate?: string;
+
+  /**
+   * Number of days between occurrences
+   * Required for 'interval' rules (1-365)
+   * @example 3
+   */
+  interval?: number;
+
+  /**
+   * Days of the week the item occurs on (0 = Sunday ... 6 = Saturday)
+   * Required for 'weekly' rules
+   * @example [1, 3, 5]
+   */
+  daysOfWeek?: number[];
+
+  /**
+   * Day of the month the item occurs on (1-31)
+   * Required for 'monthly' rules
+   * Clamped to the last day in shorter months
+   * @example 15
+   */
+  dayOfMonth?: number;
 }
 
 /**
@@ -66,7 +170,7 @@ export interface Task {
 
   /**
    * Array of checklist items that make up this task
-   * Maximum 50 items per task (AsyncStorage limitation)
+   * Maximum 500 items per task
    */
   items: ChecklistItem[];
 
@@ -83,6 +187,49 @@ export interface Task {
    */
   updatedAt: string;
 
+  /**
+   * ISO 8601 timestamp when the task's own fields (title, due date, order,
+   * tags, archive state) last changed. Unlike `updatedAt`, item changes
+   * don't count, so sync can merge them separately
+   * Default: undefined (falls back to updatedAt)
+   */
+  fieldsUpdatedAt?: string;
+
+  /**
+   * Checklist items deleted from the task, kept so sync removes them
+   * on other devices too instead of bringing them back
+   * Default: undefined (none)
+   */
+  deletedItems?: Tombstone[];
+
+  /**
+   * Deadline (YYYY-MM-DD) by which the whole task must be finished
+   * Default: undefined (no deadline)
+   * @example "2025-11-30"
+   */
+  dueDate?: string;
+
+  /**
+   * Manual position of the task in the task list (ascending)
+   * New tasks get an order before the first task
+   * Default: undefined (placed after ordered tasks)
+   */
+  order?: number;
+
+  /**
+   * IDs of the tags attached to the task (see AppSettings.tags)
+   * Default: undefined (no tags)
+   */
+  tagIds?: string[];
+
+  /**
+   * When the task was moved to the archive (ISO 8601)
+   * Archived tasks are hidden from the task list and plans, and don't count
+   * toward the task limit
+   * Default: undefined (active)
+   */
+  archivedAt?: string;
+
   /**
    * Schema version for future migrations
    * Optional field, defaults to 1 if not present
@@ -91,6 +238,47 @@ export interface Task {
   schemaVersion?: number;
 }
 
+/**
+ * Tombstone records that a task or checklist item was deleted.
+ * Sync removes the record on every device unless it was changed
+ * after the deletion.
+ */
+export interface Tombstone {
+  /**
+   * ID of the deleted task or item
+   */
+  id: string;
+
+  /**
+   * When it was deleted (ISO 8601)
+   */
+  deletedAt: string;
+}
+
+/**
+ * Tag represents a user-defined label for categorizing tasks
+ * (e.g. 업무, 개인, 공부)
+ */
+export interface Tag {
+  /**
+   * Unique identifier for the tag (UUID v4)
+   */
+  id: string;
+
+  /**
+   * Display name of the tag
+   * Must be between 1-20 characters after trimming
+   * @example "업무"
+   */
+  name: string;
+
+  /**
+   * Tag color (hex)
+   * @example "#6366f1"
+   */
+  color: string;
+}
+
 /**
  * AppSettings represents user preferences and configuration
  */
@@ -114,6 +302,87 @@ export interface AppSettings {
    * Default: 0 (Sunday)
    */
   weekStartsOn: 0 | 1;
+
+  /**
+   * User-defined tags that can be attached to tasks
+   * Optional for backward compatibility
+   * Default: undefined (no tags)
+   */
+  tags?: Tag[];
+
+  /**
+   * Days after which a finished, untouched task is moved to the archive
+   * 0 = never archive automatically
+   * Optional for backward compatibility
+   * Default: undefined (30 days)
+   */
+  archiveAfterDays?: number;
+
+  /**
+   * Days deleted tasks and items stay in the trash before being removed for good
+   * Optional for backward compatibility
+   * Default: undefined (30 days)
+   */
+  trashRetentionDays?: number;
+
+  /**
+   * Days daily records keep their item snapshots;
+   * older records keep only their counts and completion rate
+   * Optional for backward compatibility
+   * Default: undefined (90 days)
+   */
+  recordDetailDays?: number;
+
+  /**
+   * Whether haptic feedback is enabled
+   * Optional for backward compatibility
+   * Default: undefined (enabled)
+   */
+  hapticEnabled?: boolean;
+
+  /**
+   * When each synced setting was last changed on any device (ISO 8601),
+   * used to merge settings field by field (see utils/settingsSync.ts)
+   * Optional for backward compatibility
+   * Default: undefined (never changed)
+   */
+  settingsUpdatedAt?: Partial<Record<SyncedSettingKey, string>>;
+
+  /**
+   * Synced settings that stay on this device instead of roaming
+   * Never synced itself
+   * Default: undefined (every setting roams)
+   */
+  deviceLocalSettings?: SyncedSettingKey[];
+}
+
+/**
+ * SyncedSettingKey names a setting that can roam across devices
+ * (tags are synced with the tasks instead)
+ */
+export type SyncedSettingKey =
+  | 'celebrationEnabled'
+  | 'dailySaveHour'
+  | 'weekStartsOn'
+  | 'hapticEnabled'
+  | 'archiveAfterDays'
+  | 'trashRetentionDays'
+  | 'recordDetailDays';
+
+/**
+ * RoamingSettings are the synced settings as stored in the cloud:
+ * the values and when each was last changed
+ */
+export interface RoamingSettings {
+  /**
+   * Setting values by key
+   */
+  values: Partial<Pick<AppSettings, SyncedSettingKey>>;
+
+  /**
+   * When each setting was last changed (ISO 8601)
+   */
+  updatedAt: Partial<Record<SyncedSettingKey, string>>;
 }
 
 /**
@@ -124,13 +393,13 @@ export interface AppData {
   /**
    * Schema version for the entire app data structure
    * Used for migrations when data format changes
-   * Current version: 1
+   * Current version: 4 (see services/migrations.ts)
    */
   schemaVersion: number;
 
   /**
    * Array of all tasks in the application
-   * Maximum 200 tasks (AsyncStorage limitation)
+   * Maximum 2000 tasks (stored as one record per task)
    */
   tasks: Task[];
 
@@ -139,6 +408,24 @@ export interface AppData {
    * Optional for backward compatibility
    */
   settings?: AppSettings;
+
+  /**
+   * Deleted tasks and checklist items that can still be restored
+   * Optional for backward compatibility
+   */
+  trash?: TrashEntry[];
+
+  /**
+   * Tasks deleted on this device or synced from others (see utils/syncMerge.ts)
+   * Optional for backward compatibility
+   */
+  tombstones?: Tombstone[];
+
+  /**
+   * Sequence number of the last save journal entry included in this data
+   * Entries after it are replayed on startup (see services/saveJournal.ts)
+   */
+  journalSeq?: number;
 }
 
 /**
@@ -168,28 +455,214 @@ export interface Progress {
 }
 
 /**
- * DeletedTask represents a task that has been deleted but can still be undone.
- * Stored temporarily (3 seconds) to allow undo functionality.
+ * TrashedTask is a deleted task kept in the trash.
+ * Restoring it puts the task back at its position in the task list.
  */
-export interface DeletedTask {
+export interface TrashedTask {
   /**
-   * The ID of the deleted task (same as Task.id)
-   * Used to identify which task to restore if user undoes
+   * Unique identifier for the trash entry (UUID v4)
    */
   id: string;
 
+  /**
+   * Entry kind
+   */
+  type: 'task';
+
   /**
    * The complete task object that was deleted
-   * Contains all task data needed for restoration
    */
   task: Task;
 
   /**
-   * Timestamp (milliseconds since epoch) when the task was deleted
-   * Used to determine when to permanently delete (after 3 seconds)
-   * @example 1699275600000
+   * Position of the task in the task list when it was deleted
+   */
+  index: number;
+
+  /**
+   * ISO 8601 timestamp when the task was deleted
+   * Used to empty the trash automatically after the retention period
+   * @example "2025-11-06T10:30:00.000Z"
+   */
+  deletedAt: string;
+}
+
+/**
+ * TrashedItem is a deleted checklist item (with its sub-items) kept in the trash.
+ * Restoring it puts the item back under its parent at its original position.
+ */
+export interface TrashedItem {
+  /**
+   * Unique identifier for the trash entry (UUID v4)
+   */
+  id: string;
+
+  /**
+   * Entry kind
+   */
+  type: 'item';
+
+  /**
+   * The deleted item, including its nested children
+   */
+  item: ChecklistItem;
+
+  /**
+   * ID of the task the item belonged to
+   */
+  taskId: string;
+
+  /**
+   * Title of that task when the item was deleted (shown in the trash)
+   */
+  taskTitle: string;
+
+  /**
+   * ID of the parent item, or null for a top-level item
+   */
+  parentId: string | null;
+
+  /**
+   * Position among its siblings when it was deleted
+   */
+  index: number;
+
+  /**
+   * ISO 8601 timestamp when the item was deleted
+   * @example "2025-11-06T10:30:00.000Z"
    */
-  deletedAt: number;
+  deletedAt: string;
+}
+
+/**
+ * TrashEntry is anything in the trash: a deleted task or a deleted checklist item.
+ */
+export type TrashEntry = TrashedTask | TrashedItem;
+
+/**
+ * HistorySnapshot is the state an undo (or redo) step goes back to.
+ */
+export interface HistorySnapshot {
+  /**
+   * All tasks before the change
+   */
+  tasks: Task[];
+
+  /**
+   * Trash before the change
+   * Only set for changes that move things in or out of the trash
+   */
+  trash?: TrashEntry[];
+}
+
+/**
+ * HistoryEntry is one step in the undo/redo history.
+ */
+export interface HistoryEntry {
+  /**
+   * Short description of the change, shown in the undo toast
+   * @example "항목 삭제"
+   */
+  label: string;
+
+  /**
+   * State to restore when this step is undone (or redone)
+   */
+  snapshot: HistorySnapshot;
+}
+
+/**
+ * SnapshotTier is a retention generation of automatic local snapshots.
+ * - 'hourly': taken at most once an hour
+ * - 'daily': taken at most once a day
+ * - 'weekly': taken at most once a week
+ */
+export type SnapshotTier = 'hourly' | 'daily' | 'weekly';
+
+/**
+ * SnapshotInfo describes an automatic local snapshot of the app data.
+ * The data itself is stored separately (see services/snapshots.ts).
+ */
+export interface SnapshotInfo {
+  /**
+   * Unique identifier of the snapshot
+   */
+  id: string;
+
+  /**
+   * When the snapshot was taken (ISO 8601)
+   */
+  createdAt: string;
+
+  /**
+   * Generations that keep this snapshot
+   * A snapshot is deleted once no generation keeps it anymore
+   */
+  tiers: SnapshotTier[];
+
+  /**
+   * Number of tasks in the snapshot
+   */
+  taskCount: number;
+
+  /**
+   * Number of checklist items in the snapshot (including nested items)
+   */
+  itemCount: number;
+
+  /**
+   * Schema version of the snapshot data
+   */
+  schemaVersion: number;
+}
+
+/**
+ * Kinds of problems the integrity checker looks for
+ * - duplicateTaskId: two tasks share an ID
+ * - duplicateItemId: two checklist items share an ID
+ * - invalidScheduledDate: a scheduled date isn't a valid YYYY-MM-DD date
+ * - missingDailyRecord: a past date has scheduled items but no daily record
+ * - orphanedRecordItem: a daily record refers to a task that no longer exists
+ * - invalidTimestamps: a task was updated before it was created
+ */
+export type IntegrityIssueType =
+  | 'duplicateTaskId'
+  | 'duplicateItemId'
+  | 'invalidScheduledDate'
+  | 'missingDailyRecord'
+  | 'orphanedRecordItem'
+  | 'invalidTimestamps';
+
+/**
+ * IntegrityIssue is one problem found by the integrity checker
+ * (see utils/integrity.ts). Every kind of issue can be repaired automatically.
+ */
+export interface IntegrityIssue {
+  /**
+   * Kind of problem
+   */
+  type: IntegrityIssueType;
+
+  /**
+   * Description shown in the diagnostics screen
+   * @example "'운동하기'의 ID가 다른 할 일과 같습니다"
+   */
+  message: string;
+
+  /**
+   * Affected task, if any
+   */
+  taskId?: string;
+
+  /**
+   * Affected checklist item, if any
+   */
+  itemId?: string;
+
+  /**
+   * Affected date (YYYY-MM-DD), if any
+   */
+  date?: string;
 }
 
 /**
@@ -215,12 +688,12 @@ export enum ErrorCode {
   DATA_CORRUPTED = 'DATA_CORRUPTED',
 
   /**
-   * Task limit exceeded (200 tasks max)
+   * Task limit exceeded (2000 tasks max)
    */
   TASK_LIMIT_EXCEEDED = 'TASK_LIMIT_EXCEEDED',
 
   /**
-   * Checklist item limit exceeded (50 items per task max)
+   * Checklist item limit exceeded (500 items per task max)
    */
   ITEM_LIMIT_EXCEEDED = 'ITEM_LIMIT_EXCEEDED',
 
@@ -234,6 +707,18 @@ export enum ErrorCode {
    */
   INVALID_BACKUP = 'INVALID_BACKUP',
 
+  /**
+   * Stored data could not be migrated to the current schema version
+   * The data is left at its previous version
+   */
+  MIGRATION_FAILED = 'MIGRATION_FAILED',
+
+  /**
+   * Stored data is encrypted but its encryption key is missing
+   * (e.g. the keychain was reset); it can only be restored from a backup
+   */
+  ENCRYPTION_KEY_MISSING = 'ENCRYPTION_KEY_MISSING',
+
   /**
    * Unknown or unexpected error
    */
@@ -312,9 +797,86 @@ export interface BackupMetadata {
   };
 }
 
+/**
+ * Groups of storage keys shown in the storage usage breakdown
+ * - appData: tasks, settings and trash
+ * - backup: backup copy of the app data
+ * - preMigration: copy of the app data kept from before the last schema migration
+ * - dailyRecords: daily completion records
+ * - snapshots: automatic hourly/daily/weekly snapshots
+ * - journal: changes not yet included in a full save
+ * - outbox: changes waiting to be synced to the cloud
+ * - session: signed-in account session
+ * - other: everything else (e.g. preferences)
+ */
+export type StorageCategory =
+  | 'appData'
+  | 'backup'
+  | 'preMigration'
+  | 'dailyRecords'
+  | 'snapshots'
+  | 'journal'
+  | 'outbox'
+  | 'session'
+  | 'other';
+
+/**
+ * Space used by one group of storage keys
+ */
+export interface StorageCategoryUsage {
+  /**
+   * Group of keys
+   */
+  category: StorageCategory;
+
+  /**
+   * Stored size in bytes (keys and values)
+   */
+  sizeInBytes: number;
+
+  /**
+   * Number of stored keys
+   */
+  keyCount: number;
+}
+
+/**
+ * Space used by one task or checklist item
+ */
+export interface EntryStorageUsage {
+  /**
+   * Task ID
+   */
+  taskId: string;
+
+  /**
+   * Checklist item ID (only for items)
+   */
+  itemId?: string;
+
+  /**
+   * Task or item title
+   */
+  title: string;
+
+  /**
+   * Size in bytes
+   */
+  sizeInBytes: number;
+}
+
+/**
+ * How close storage is to its limits
+ * - ok: below the warning threshold
+ * - warning: getting close to a limit
+ * - critical: saving may fail soon
+ */
+export type StorageWarningLevel = 'ok' | 'warning' | 'critical';
+
 /**
  * StorageStats provides information about storage usage.
  * Used in settings screen to show user their data consumption.
+ * Measured by services/storageStats.ts over every key the app stores.
  */
 export interface StorageStats {
   /**
@@ -328,7 +890,7 @@ export interface StorageStats {
   itemCount: number;
 
   /**
-   * Estimated storage size in bytes
+   * Stored size of every key the app owns, in bytes
    */
   sizeInBytes: number;
 
@@ -339,10 +901,40 @@ export interface StorageStats {
   sizeFormatted: string;
 
   /**
-   * Percentage of storage limit used (0-100)
-   * Based on 5MB limit
+   * Percentage of the device storage limit used (0-100)
    */
   percentUsed: number;
+
+  /**
+   * Size of the app data as saved (tasks, settings, trash), in bytes
+   */
+  appDataSizeInBytes: number;
+
+  /**
+   * Percentage of the app data limit used (0-100)
+   * Saving fails once the app data reaches the limit
+   */
+  appDataPercentUsed: number;
+
+  /**
+   * How close storage is to its limits (the higher of the two percentages)
+   */
+  warningLevel: StorageWarningLevel;
+
+  /**
+   * Space used by each group of keys, largest first (empty groups left out)
+   */
+  categories: StorageCategoryUsage[];
+
+  /**
+   * Stored size of each task, largest first
+   */
+  tasks: EntryStorageUsage[];
+
+  /**
+   * Largest checklist items (without their nested items), largest first
+   */
+  largestItems: EntryStorageUsage[];
 }
 
 /**
@@ -397,8 +989,9 @@ export interface SearchOptions {
 export interface SortOptions {
   /**
    * Field to sort by
+   * dueDate: tasks without a due date go last in either direction
    */
-  field: 'title' | 'createdAt' | 'updatedAt' | 'progress';
+  field: 'title' | 'createdAt' | 'updatedAt' | 'progress' | 'dueDate';
 
   /**
    * Sort direction
@@ -483,8 +1076,15 @@ export interface DailyRecordItem {
 
   /**
    * Display order within the day
+   * Follows the day's plan as arranged on the Today screen
    */
   order: number;
+
+  /**
+   * ID of the parent checklist item when the item is nested
+   * Default: undefined (top-level item)
+   */
+  parentId?: string;
 }
 
 /**
@@ -594,6 +1194,68 @@ export interface SyncConfig {
    * Authentication method
    */
   authMethod?: 'anonymous' | 'google' | 'apple' | 'email';
+
+  /**
+   * Number of local changes waiting to be synced
+   */
+  pendingChanges?: number;
+
+  /**
+   * When the next automatic retry runs after a failed sync (ISO 8601)
+   */
+  nextRetryAt?: string;
+}
+
+/**
+ * SyncState records how far this device has synced, so later syncs can be
+ * incremental. Kept per device and cleared on sign-out.
+ */
+export interface SyncState {
+  /**
+   * Date of the last successful daily record sync (YYYY-MM-DD)
+   */
+  recordsSyncedDate?: string;
+
+  /**
+   * When daily records were last pushed (ISO 8601)
+   */
+  recordsPushedAt?: string;
+
+  /**
+   * Latest `synced_at` of the task rows pulled so far (high-water mark);
+   * later syncs only pull rows written after it
+   */
+  tasksSyncedUntil?: string;
+}
+
+/**
+ * SyncOperationType is the kind of change waiting in the sync outbox.
+ * - upsertTask: a task was created or changed
+ * - deleteTask: a task was deleted
+ * - updateTags: the tag list changed
+ * - updateSettings: a synced setting changed
+ */
+export type SyncOperationType = 'upsertTask' | 'deleteTask' | 'updateTags' | 'updateSettings';
+
+/**
+ * SyncOperation is a local change waiting to be sent to the cloud.
+ * Only the latest operation per record is kept.
+ */
+export interface SyncOperation {
+  /**
+   * Kind of change
+   */
+  type: SyncOperationType;
+
+  /**
+   * ID of the changed record (task ID, 'tags' for the tag list or 'settings')
+   */
+  recordId: string;
+
+  /**
+   * When the change was queued (ISO 8601)
+   */
+  queuedAt: string;
 }
 
 /**
@@ -0,0 +1,89 @@
+/**
+ * Archive Utility Test Suite
+ *
+ * Tests archive detection, the automatic archive rule and restoring tasks.
+ */
+
+import {
+  isArchived,
+  getActiveTasks,
+  getArchivedTasks,
+  shouldAutoArchive,
+  setTaskArchived,
+} from './archive';
+import { Task } from '../types';
+
+const NOW = new Date('2025-12-10T00:00:00.000Z').getTime();
+
+// Helper function to create a test task
+function createTestTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    items: [
+      { id: `${id}-1`, title: 'Step 1', done: true },
+      { id: `${id}-2`, title: 'Step 2', done: true },
+    ],
+    createdAt: '2025-11-01T00:00:00.000Z',
+    updatedAt: '2025-11-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Archive Utils', () => {
+  describe('getActiveTasks / getArchivedTasks', () => {
+    const tasks = [
+      createTestTask('a'),
+      createTestTask('b', { archivedAt: '2025-12-01T00:00:00.000Z' }),
+      createTestTask('c'),
+      createTestTask('d', { archivedAt: '2025-12-05T00:00:00.000Z' }),
+    ];
+
+    it('should split tasks by archived state', () => {
+      expect(isArchived(tasks[1])).toBe(true);
+      expect(getActiveTasks(tasks).map((task) => task.id)).toEqual(['a', 'c']);
+    });
+
+    it('should list archived tasks most recent first', () => {
+      expect(getArchivedTasks(tasks).map((task) => task.id)).toEqual(['d', 'b']);
+    });
+  });
+
+  describe('shouldAutoArchive', () => {
+    it('should archive finished tasks untouched for longer than the threshold', () => {
+      expect(shouldAutoArchive(createTestTask('a'), 30, NOW)).toBe(true);
+      expect(shouldAutoArchive(createTestTask('a'), 60, NOW)).toBe(false);
+    });
+
+    it('should skip unfinished, empty and already archived tasks', () => {
+      const unfinished = createTestTask('a', {
+        items: [{ id: 'x', title: 'Step', done: false }],
+      });
+      const empty = createTestTask('b', { items: [] });
+      const archived = createTestTask('c', { archivedAt: '2025-11-02T00:00:00.000Z' });
+
+      expect(shouldAutoArchive(unfinished, 30, NOW)).toBe(false);
+      expect(shouldAutoArchive(empty, 30, NOW)).toBe(false);
+      expect(shouldAutoArchive(archived, 30, NOW)).toBe(false);
+    });
+
+    it('should never archive when the threshold is 0', () => {
+      expect(shouldAutoArchive(createTestTask('a'), 0, NOW)).toBe(false);
+    });
+  });
+
+  describe('setTaskArchived', () => {
+    it('should archive and restore a task, bumping updatedAt', () => {
+      const now = '2025-12-10T09:00:00.000Z';
+      const archived = setTaskArchived(createTestTask('a'), true, now);
+
+      expect(archived.archivedAt).toBe(now);
+      expect(archived.updatedAt).toBe(now);
+
+      const restored = setTaskArchived(archived, false, now);
+
+      expect(restored).not.toHaveProperty('archivedAt');
+      expect(restored.items).toEqual(archived.items);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Archive Utility Module
+ *
+ * Helpers for archived tasks.
+ *
+ * Finished tasks that haven't been touched for a while move to the archive
+ * instead of being deleted. Archived tasks stay in the task list data (so
+ * backups, sync and past daily records keep them) but are hidden from the
+ * task list and plans and don't count toward the task limit.
+ */
+
+import { Task } from '../types';
+import { isTaskDone } from './dueDate';
+
+/**
+ * Days after which a finished task is archived when not configured
+ */
+export const DEFAULT_ARCHIVE_AFTER_DAYS = 30;
+
+/**
+ * Milliseconds per day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks whether a task is in the archive.
+ */
+export function isArchived(task: Task): boolean {
+  return !!task.archivedAt;
+}
+
+/**
+ * Returns the tasks that are not archived, keeping their order.
+ */
+export function getActiveTasks(tasks: Task[]): Task[] {
+  return tasks.filter((task) => !isArchived(task));
+}
+
+/**
+ * Returns the archived tasks, most recently archived first.
+ */
+export function getArchivedTasks(tasks: Task[]): Task[] {
+  return tasks
+    .filter(isArchived)
+    .sort((a, b) => (a.archivedAt! < b.archivedAt! ? 1 : a.archivedAt! > b.archivedAt! ? -1 : 0));
+}
+
+/**
+ * Checks whether a task should be archived automatically:
+ * every item is done and the task hasn't been updated for `thresholdDays`.
+ * Tasks without items are never archived automatically.
+ *
+ * @param task - Task to check
+ * @param thresholdDays - Days without updates (0 = never)
+ * @param now - Current time in milliseconds
+ * @returns True if the task should move to the archive
+ */
+export function shouldAutoArchive(task: Task, thresholdDays: number, now: number): boolean {
+  if (thresholdDays <= 0 || isArchived(task) || !isTaskDone(task)) {
+    return false;
+  }
+
+  const ageMs = now - new Date(task.updatedAt).getTime();
+  return ageMs > thresholdDays * DAY_MS;
+}
+
+/**
+ * Moves a task to the archive or restores it.
+ *
+ * @param task - Task to update
+ * @param archived - Whether the task should be archived
+ * @param now - ISO 8601 timestamp (used for archivedAt and updatedAt)
+ * @returns Updated task (updatedAt is bumped so the change wins in sync)
+ */
+export function setTaskArchived(task: Task, archived: boolean, now: string): Task {
+  const { archivedAt: _previous, ...rest } = task;
+
+  return {
+    ...rest,
+    ...(archived && { archivedAt: now }),
+    updatedAt: now,
+  };
+}
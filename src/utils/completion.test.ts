@@ -0,0 +1,239 @@
+/**
+ * Completion Utility Test Suite
+ *
+ * Tests per-date completion state, toggling and migration from the legacy done flag.
+ */
+
+import {
+  isItemDoneOn,
+  isItemDone,
+  resolveItemForDate,
+  resolveItem,
+  toggleItemOnDate,
+  toggleItemDone,
+  migrateItemCompletions,
+} from './completion';
+import { ChecklistItem, RecurrenceRule } from '../types';
+
+const MONDAY = '2025-11-03';
+const WEDNESDAY = '2025-11-05';
+const COMPLETED_AT = '2025-11-03T09:00:00.000Z';
+
+// Helper function to create a test item
+function createTestItem(overrides: Partial<ChecklistItem> = {}): ChecklistItem {
+  return {
+    id: 'item-1',
+    title: 'Stretch 10 minutes',
+    done: false,
+    ...overrides,
+  };
+}
+
+describe('Completion Utils', () => {
+  const recurrence: RecurrenceRule = { frequency: 'daily', startDate: '2025-11-01' };
+
+  describe('isItemDoneOn', () => {
+    it('should track completion separately for each scheduled date', () => {
+      const item = createTestItem({
+        done: true,
+        scheduledDates: [MONDAY, WEDNESDAY],
+        completions: { [MONDAY]: COMPLETED_AT },
+      });
+
+      expect(isItemDoneOn(item, MONDAY)).toBe(true);
+      expect(isItemDoneOn(item, WEDNESDAY)).toBe(false);
+    });
+
+    it('should not complete recurring occurrences without an entry', () => {
+      const item = createTestItem({ recurrence, done: true });
+
+      expect(isItemDoneOn(item, MONDAY)).toBe(false);
+    });
+
+    it('should fall back to the done flag for unscheduled dates', () => {
+      const item = createTestItem({ done: true, scheduledDates: [MONDAY] });
+
+      expect(isItemDoneOn(item, '2025-11-10')).toBe(true);
+    });
+  });
+
+  describe('isItemDone', () => {
+    it('should use the done flag for non-recurring items', () => {
+      const item = createTestItem({ done: true, scheduledDates: [WEDNESDAY] });
+
+      expect(isItemDone(item, WEDNESDAY)).toBe(true);
+    });
+
+    it("should use today's occurrence for recurring items", () => {
+      const item = createTestItem({ recurrence, completions: { [MONDAY]: COMPLETED_AT } });
+
+      expect(isItemDone(item, MONDAY)).toBe(true);
+      expect(isItemDone(item, WEDNESDAY)).toBe(false);
+    });
+  });
+
+  describe('toggleItemOnDate', () => {
+    it('should only complete the toggled date', () => {
+      const item = createTestItem({ scheduledDates: [MONDAY, WEDNESDAY] });
+
+      const result = toggleItemOnDate(item, MONDAY);
+
+      expect(isItemDoneOn(result, MONDAY)).toBe(true);
+      expect(isItemDoneOn(result, WEDNESDAY)).toBe(false);
+      expect(result.done).toBe(true);
+    });
+
+    it('should remove the entry when unchecking', () => {
+      const item = createTestItem({
+        done: true,
+        scheduledDates: [MONDAY],
+        completions: { [MONDAY]: COMPLETED_AT },
+      });
+
+      const result = toggleItemOnDate(item, MONDAY);
+
+      expect(result.completions).toEqual({});
+      expect(result.done).toBe(false);
+    });
+
+    it('should leave the done flag of recurring items untouched', () => {
+      const item = createTestItem({ recurrence });
+
+      const result = toggleItemOnDate(item, MONDAY);
+
+      expect(isItemDoneOn(result, MONDAY)).toBe(true);
+      expect(result.done).toBe(false);
+    });
+  });
+
+  describe('toggleItemDone', () => {
+    it("should keep today's plan in sync for scheduled items", () => {
+      const item = createTestItem({ scheduledDates: [MONDAY, WEDNESDAY] });
+
+      const result = toggleItemDone(item, MONDAY);
+
+      expect(result.done).toBe(true);
+      expect(isItemDoneOn(result, MONDAY)).toBe(true);
+      expect(isItemDoneOn(result, WEDNESDAY)).toBe(false);
+    });
+
+    it('should only flip the done flag for unscheduled items', () => {
+      const item = createTestItem();
+
+      const result = toggleItemDone(item, MONDAY);
+
+      expect(result.done).toBe(true);
+      expect(result.completions).toBeUndefined();
+    });
+  });
+
+  describe('resolveItemForDate', () => {
+    it('should reflect the completion on the given date', () => {
+      const item = createTestItem({ recurrence, completions: { [MONDAY]: COMPLETED_AT } });
+
+      expect(resolveItemForDate(item, MONDAY).done).toBe(true);
+      expect(resolveItemForDate(item, WEDNESDAY).done).toBe(false);
+    });
+
+    it('should return the same object when nothing changes', () => {
+      const item = createTestItem();
+
+      expect(resolveItemForDate(item, MONDAY)).toBe(item);
+    });
+  });
+
+  describe('nested items', () => {
+    const createParent = (childDone: boolean) =>
+      createTestItem({
+        id: 'parent',
+        children: [
+          createTestItem({ id: 'child-1', done: true }),
+          createTestItem({ id: 'child-2', done: childDone }),
+        ],
+      });
+
+    it('should derive completion from the children', () => {
+      expect(isItemDone(createParent(false), MONDAY)).toBe(false);
+      expect(isItemDone(createParent(true), MONDAY)).toBe(true);
+    });
+
+    it('should apply a toggle to the whole subtree', () => {
+      const result = toggleItemDone(createParent(false), MONDAY);
+
+      expect(result.children!.every((child) => child.done)).toBe(true);
+      expect(isItemDone(toggleItemDone(result, MONDAY), MONDAY)).toBe(false);
+    });
+
+    it('should apply a date toggle to the whole subtree', () => {
+      const parent = createTestItem({
+        id: 'parent',
+        scheduledDates: [MONDAY],
+        children: [createTestItem({ id: 'child-1', scheduledDates: [MONDAY, WEDNESDAY] })],
+      });
+
+      const result = toggleItemOnDate(parent, MONDAY);
+
+      expect(isItemDoneOn(result, MONDAY)).toBe(true);
+      expect(isItemDoneOn(result, WEDNESDAY)).toBe(false);
+    });
+
+    it('should resolve children for display', () => {
+      const parent = createTestItem({
+        id: 'parent',
+        children: [
+          createTestItem({ id: 'child-1', recurrence, completions: { [MONDAY]: COMPLETED_AT } }),
+        ],
+      });
+
+      const result = resolveItem(parent, MONDAY);
+
+      expect(result.done).toBe(true);
+      expect(result.children![0].done).toBe(true);
+    });
+  });
+
+  describe('migrateItemCompletions', () => {
+    it('should copy the done flag to past and today scheduled dates only', () => {
+      const item = createTestItem({
+        done: true,
+        scheduledDates: ['2025-11-01', MONDAY, WEDNESDAY],
+      });
+
+      const result = migrateItemCompletions(item, MONDAY, COMPLETED_AT);
+
+      expect(result.completions).toEqual({
+        '2025-11-01': COMPLETED_AT,
+        [MONDAY]: COMPLETED_AT,
+      });
+    });
+
+    it('should create an empty map for unfinished items', () => {
+      const item = createTestItem({ scheduledDates: [MONDAY] });
+
+      expect(migrateItemCompletions(item, MONDAY, COMPLETED_AT).completions).toEqual({});
+    });
+
+    it('should turn the completed occurrences of recurring items into completions', () => {
+      const item = {
+        ...createTestItem({ recurrence }),
+        completedDates: ['2025-11-01', MONDAY],
+      };
+
+      const result = migrateItemCompletions(item, MONDAY, COMPLETED_AT);
+
+      expect(result.completions).toEqual({
+        '2025-11-01': COMPLETED_AT,
+        [MONDAY]: COMPLETED_AT,
+      });
+      expect(result).not.toHaveProperty('completedDates');
+      expect(isItemDoneOn(result, MONDAY)).toBe(true);
+      expect(isItemDoneOn(result, WEDNESDAY)).toBe(false);
+    });
+
+    it('should leave already migrated items unchanged', () => {
+      const item = createTestItem({ done: true, scheduledDates: [MONDAY], completions: {} });
+
+      expect(migrateItemCompletions(item, MONDAY, COMPLETED_AT)).toBe(item);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Completion Utility Module
+ *
+ * Tracks checklist item completion per date.
+ *
+ * An item scheduled on several dates (or recurring) keeps a `completions`
+ * map keyed by date, so checking it off on Monday doesn't also complete
+ * Wednesday's plan. The single `done` flag remains the overall state of
+ * non-recurring items (task progress, task detail screen).
+ *
+ * Items with children have no completion of their own: they are done when all
+ * of their children are done, and toggling them applies to the whole subtree.
+ *
+ * All dates are YYYY-MM-DD keys in the local timezone.
+ */
+
+import { ChecklistItem } from '../types';
+import { isRecurring, isItemScheduledOn } from './recurrence';
+import { hasChildren } from './itemTree';
+
+/**
+ * Returns the completion state of an item on a specific date.
+ *
+ * - Items with children are done when all children are done on that date
+ * - Dates with a completion entry are done
+ * - Recurring occurrences and scheduled dates without an entry are not done
+ * - Other dates fall back to the item's `done` flag
+ *
+ * @param item - Checklist item to check
+ * @param dateKey - Date to check (YYYY-MM-DD)
+ * @returns True if the item is completed on that date
+ *
+ * @example
+ * const item = { id: '1', title: 'Stretch', done: true, scheduledDates: ['2025-11-03', '2025-11-05'],
+ *   completions: { '2025-11-03': '2025-11-03T09:00:00.000Z' } };
+ * isItemDoneOn(item, '2025-11-03'); // Returns: true
+ * isItemDoneOn(item, '2025-11-05'); // Returns: false
+ */
+export function isItemDoneOn(item: ChecklistItem, dateKey: string): boolean {
+  if (hasChildren(item)) {
+    return item.children!.every((child) => isItemDoneOn(child, dateKey));
+  }
+
+  if (item.completions && item.completions[dateKey]) {
+    return true;
+  }
+
+  if (isRecurring(item) || (item.scheduledDates || []).includes(dateKey)) {
+    return false;
+  }
+
+  return item.done;
+}
+
+/**
+ * Returns the overall completion state of an item.
+ * Recurring items have no overall state, so today's occurrence is used.
+ * Items with children are done when all children are done.
+ *
+ * @param item - Checklist item to check
+ * @param todayKey - Today's date (YYYY-MM-DD)
+ * @returns True if the item counts as completed
+ */
+export function isItemDone(item: ChecklistItem, todayKey: string): boolean {
+  if (hasChildren(item)) {
+    return item.children!.every((child) => isItemDone(child, todayKey));
+  }
+
+  return isRecurring(item) ? isItemDoneOn(item, todayKey) : item.done;
+}
+
+/**
+ * Returns a copy of the item whose `done` flag reflects the given date.
+ * Lets views that only read `done` display per-date state correctly.
+ * Children are resolved as well.
+ *
+ * @param item - Checklist item to resolve
+ * @param dateKey - Date to resolve for (YYYY-MM-DD)
+ * @returns The same item if nothing changes, otherwise a resolved copy
+ */
+export function resolveItemForDate(item: ChecklistItem, dateKey: string): ChecklistItem {
+  const done = isItemDoneOn(item, dateKey);
+  const children = item.children?.map((child) => resolveItemForDate(child, dateKey));
+  const childrenChanged = !!children && children.some((child, i) => child !== item.children![i]);
+
+  if (done === item.done && !childrenChanged) {
+    return item;
+  }
+  return childrenChanged ? { ...item, done, children } : { ...item, done };
+}
+
+/**
+ * Returns a copy of the item whose `done` flag reflects its overall state
+ * (recurring items: today's occurrence, parents: their children).
+ * Children are resolved as well.
+ *
+ * @param item - Checklist item to resolve
+ * @param todayKey - Today's date (YYYY-MM-DD)
+ * @returns The same item if nothing changes, otherwise a resolved copy
+ */
+export function resolveItem(item: ChecklistItem, todayKey: string): ChecklistItem {
+  const done = isItemDone(item, todayKey);
+  const children = item.children?.map((child) => resolveItem(child, todayKey));
+  const childrenChanged = !!children && children.some((child, i) => child !== item.children![i]);
+
+  if (done === item.done && !childrenChanged) {
+    return item;
+  }
+  return childrenChanged ? { ...item, done, children } : { ...item, done };
+}
+
+/**
+ * Sets the completion entry of an item for a date.
+ */
+function setCompletion(item: ChecklistItem, dateKey: string, done: boolean): ChecklistItem {
+  const { [dateKey]: _previous, ...rest } = item.completions || {};
+  const completions = done ? { ...rest, [dateKey]: new Date().toISOString() } : rest;
+
+  return { ...item, completions };
+}
+
+/**
+ * Sets completion of an item (and its subtree) on a specific date.
+ */
+function setItemDoneOn(item: ChecklistItem, dateKey: string, done: boolean): ChecklistItem {
+  if (hasChildren(item)) {
+    return {
+      ...item,
+      done,
+      children: item.children!.map((child) => setItemDoneOn(child, dateKey, done)),
+    };
+  }
+
+  const updated = setCompletion(item, dateKey, done);
+  return isRecurring(item) ? updated : { ...updated, done };
+}
+
+/**
+ * Toggles completion of an item on a specific date (Today/calendar views).
+ * Non-recurring items also update their overall `done` flag.
+ * Items with children apply the new state to their whole subtree.
+ *
+ * @param item - Checklist item to toggle
+ * @param dateKey - Date of the occurrence (YYYY-MM-DD)
+ * @returns Updated item
+ */
+export function toggleItemOnDate(item: ChecklistItem, dateKey: string): ChecklistItem {
+  return setItemDoneOn(item, dateKey, !isItemDoneOn(item, dateKey));
+}
+
+/**
+ * Sets the overall completion of an item (and its subtree).
+ */
+function setItemDone(item: ChecklistItem, todayKey: string, done: boolean): ChecklistItem {
+  if (hasChildren(item)) {
+    return {
+      ...item,
+      done,
+      children: item.children!.map((child) => setItemDone(child, todayKey, done)),
+    };
+  }
+
+  if (isRecurring(item)) {
+    return setItemDoneOn(item, todayKey, done);
+  }
+
+  const updated = isItemScheduledOn(item, todayKey) ? setCompletion(item, todayKey, done) : item;
+  return { ...updated, done };
+}
+
+/**
+ * Toggles the overall completion of an item (task detail view).
+ * Recurring items toggle today's occurrence; non-recurring items flip `done`
+ * and keep today's plan in sync when scheduled for today.
+ * Items with children apply the new state to their whole subtree.
+ *
+ * @param item - Checklist item to toggle
+ * @param todayKey - Today's date (YYYY-MM-DD)
+ * @returns Updated item
+ */
+export function toggleItemDone(item: ChecklistItem, todayKey: string): ChecklistItem {
+  return setItemDone(item, todayKey, !isItemDone(item, todayKey));
+}
+
+/**
+ * Converts the legacy shared `done` flag into per-date completions.
+ *
+ * Previously a single `done` flag covered every scheduled date, so a done item
+ * is treated as completed on all scheduled dates up to today. Future dates stay open.
+ * Recurring items listed their completed occurrences in `completedDates`;
+ * each of those dates becomes a completion.
+ *
+ * @param item - Checklist item in the legacy format
+ * @param todayKey - Today's date (YYYY-MM-DD)
+ * @param completedAt - Timestamp to record for migrated completions
+ * @returns Item with a completions map
+ */
+export function migrateItemCompletions(
+  item: ChecklistItem,
+  todayKey: string,
+  completedAt: string
+): ChecklistItem {
+  if (item.completions) {
+    return item;
+  }
+
+  const { completedDates, ...rest } = item as ChecklistItem & { completedDates?: unknown };
+  const completions: Record<string, string> = {};
+
+  if (item.done) {
+    (item.scheduledDates || [])
+      .filter((date) => date <= todayKey)
+      .forEach((date) => {
+        completions[date] = completedAt;
+      });
+  }
+
+  if (Array.isArray(completedDates)) {
+    completedDates
+      .filter((date): date is string => typeof date === 'string')
+      .forEach((date) => {
+        completions[date] = completedAt;
+      });
+  }
+
+  return { ...rest, completions };
+}
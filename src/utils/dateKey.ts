@@ -0,0 +1,63 @@
+/**
+ * Date Key Utility Module
+ *
+ * Helpers for YYYY-MM-DD date keys (local timezone) shared by
+ * recurrence rules, per-date completions and due dates.
+ */
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Splits a YYYY-MM-DD key into numeric parts.
+ */
+export function parseDateKey(dateKey: string): { year: number; month: number; day: number } {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return { year, month, day };
+}
+
+/**
+ * Returns the number of whole days from one date key to another.
+ * Uses UTC arithmetic so DST transitions don't skew the result.
+ *
+ * @example
+ * daysBetween('2025-11-06', '2025-11-09'); // Returns: 3
+ * daysBetween('2025-11-06', '2025-11-04'); // Returns: -2
+ */
+export function daysBetween(fromKey: string, toKey: string): number {
+  const from = parseDateKey(fromKey);
+  const to = parseDateKey(toKey);
+  const fromMs = Date.UTC(from.year, from.month - 1, from.day);
+  const toMs = Date.UTC(to.year, to.month - 1, to.day);
+  return Math.round((toMs - fromMs) / MS_PER_DAY);
+}
+
+/**
+ * Checks whether a value is a valid YYYY-MM-DD date key.
+ *
+ * @example
+ * isValidDateKey('2025-02-28'); // Returns: true
+ * isValidDateKey('2025-02-30'); // Returns: false
+ */
+export function isValidDateKey(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_KEY_PATTERN.test(value)) {
+    return false;
+  }
+
+  const { year, month, day } = parseDateKey(value);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Returns the date key a number of days after another.
+ * Uses UTC arithmetic so DST transitions don't skew the result.
+ *
+ * @example
+ * addDaysToDateKey('2025-11-06', 30); // Returns: '2025-12-06'
+ * addDaysToDateKey('2025-03-01', -1); // Returns: '2025-02-28'
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const { year, month, day } = parseDateKey(dateKey);
+  return new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
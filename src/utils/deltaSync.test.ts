@@ -0,0 +1,113 @@
+/**
+ * Delta Sync Utility Test Suite
+ *
+ * Tests the pull cursor, advancing the high-water mark and selecting the
+ * tasks and tombstones to push.
+ */
+
+import {
+  advanceHighWaterMark,
+  getTaskPullCursor,
+  selectTasksToPush,
+  selectTombstonesToPush,
+  DELTA_SYNC_OVERLAP_MS,
+} from './deltaSync';
+import { SyncOperation, Task } from '../types';
+
+const T0 = '2025-11-06T12:00:00.000Z';
+const T1 = '2025-11-06T13:00:00.000Z';
+
+// Helper function to create a test task
+function createTestTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    items: [],
+    createdAt: T0,
+    updatedAt: T0,
+    ...overrides,
+  };
+}
+
+// Helper function to create a queued operation
+function operation(type: SyncOperation['type'], recordId: string): SyncOperation {
+  return { type, recordId, queuedAt: T1 };
+}
+
+describe('Delta Sync Utils', () => {
+  describe('getTaskPullCursor', () => {
+    it('should pull from shortly before the high-water mark', () => {
+      expect(getTaskPullCursor(T0)).toBe(
+        new Date(new Date(T0).getTime() - DELTA_SYNC_OVERLAP_MS).toISOString()
+      );
+    });
+
+    it('should pull everything without a valid high-water mark', () => {
+      expect(getTaskPullCursor(undefined)).toBeUndefined();
+      expect(getTaskPullCursor('not a date')).toBeUndefined();
+    });
+  });
+
+  describe('advanceHighWaterMark', () => {
+    it('should keep the later timestamp', () => {
+      expect(advanceHighWaterMark(T0, T1)).toBe(T1);
+      expect(advanceHighWaterMark(T1, T0)).toBe(T1);
+      expect(advanceHighWaterMark(undefined, T0)).toBe(T0);
+      expect(advanceHighWaterMark(T0, undefined)).toBe(T0);
+    });
+  });
+
+  describe('selectTasksToPush', () => {
+    it('should push only tasks changed on this device', () => {
+      const local = [createTestTask('a'), createTestTask('b')];
+
+      const result = selectTasksToPush(local, local, [], [operation('upsertTask', 'b')]);
+
+      expect(result).toEqual([local[1]]);
+    });
+
+    it('should push every task with tags when the tag list changed', () => {
+      const local = [createTestTask('a', { tagIds: ['work'] }), createTestTask('b')];
+
+      expect(selectTasksToPush(local, local, [], [operation('updateTags', 'tags')])).toEqual([
+        local[0],
+      ]);
+    });
+
+    it('should push tasks the merge combined, but not tasks taken from the cloud', () => {
+      const local = [createTestTask('a'), createTestTask('b')];
+      const pulled = [createTestTask('a', { title: 'Renamed' }), createTestTask('b')];
+      // 'a' combines both versions; 'b' is the cloud version with keys in another order
+      const combined = createTestTask('a', {
+        title: 'Renamed',
+        items: [{ id: '1', title: 'Added here', done: false }],
+      });
+      const fromCloud = { updatedAt: T0, createdAt: T0, items: [], title: 'Task b', id: 'b' };
+
+      const result = selectTasksToPush([combined, fromCloud], local, pulled, []);
+
+      expect(result).toEqual([combined]);
+    });
+
+    it('should not push tasks the cloud brought nothing new for', () => {
+      const local = [createTestTask('a')];
+
+      expect(selectTasksToPush(local, local, [createTestTask('a', { title: 'Old' })], [])).toEqual(
+        []
+      );
+    });
+  });
+
+  describe('selectTombstonesToPush', () => {
+    it('should push only tombstones of tasks deleted on this device', () => {
+      const tombstones = [
+        { id: 'a', deletedAt: T0 },
+        { id: 'b', deletedAt: T1 },
+      ];
+
+      expect(selectTombstonesToPush(tombstones, [operation('deleteTask', 'b')])).toEqual([
+        tombstones[1],
+      ]);
+    });
+  });
+});
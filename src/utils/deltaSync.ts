@@ -0,0 +1,127 @@
+/**
+ * Delta Sync Utility Module
+ *
+ * Decides what a task sync exchanges after the first one:
+ * - Pull: only task rows written after this device's high-water mark. Rows
+ *   are compared on `synced_at`, which the server sets on every write, not
+ *   on the task's `updated_at`: a change made offline is sent later than it
+ *   was made and would otherwise fall behind the mark. Only server time is
+ *   compared, so device clocks don't matter. A few minutes of overlap cover
+ *   writes whose transaction committed after rows with a later `synced_at`
+ *   had already been pulled.
+ * - Push: only tasks changed on this device (queued in the sync outbox) and
+ *   tasks the merge combined with a newer cloud version.
+ *
+ * Without a high-water mark (first sync, after signing in again or a full
+ * resync), everything is pulled and pushed.
+ */
+
+import { SyncOperation, Task, Tombstone } from '../types';
+
+/**
+ * Overlap before the high-water mark, for writes committed after later rows were pulled (ms)
+ */
+export const DELTA_SYNC_OVERLAP_MS = 5 * 60 * 1000;
+
+/**
+ * Returns the time from which task rows are pulled.
+ *
+ * @param syncedUntil - High-water mark of the last sync (ISO 8601)
+ * @returns ISO 8601 timestamp, or undefined to pull every row
+ *
+ * @example
+ * getTaskPullCursor('2025-11-06T12:00:00.000Z'); // '2025-11-06T11:55:00.000Z'
+ * getTaskPullCursor(undefined); // undefined
+ */
+export function getTaskPullCursor(syncedUntil?: string): string | undefined {
+  const time = syncedUntil ? new Date(syncedUntil).getTime() : NaN;
+  return Number.isNaN(time) ? undefined : new Date(time - DELTA_SYNC_OVERLAP_MS).toISOString();
+}
+
+/**
+ * Returns the later of two high-water marks.
+ *
+ * @param current - Stored high-water mark
+ * @param pulled - Latest `synced_at` of the rows just pulled (server time)
+ * @returns The later timestamp (undefined if both are)
+ */
+export function advanceHighWaterMark(current?: string, pulled?: string): string | undefined {
+  if (!current || !pulled) {
+    return current || pulled;
+  }
+  return new Date(pulled).getTime() > new Date(current).getTime() ? pulled : current;
+}
+
+/**
+ * Selects the merged tasks the cloud needs:
+ * - Tasks with a queued change
+ * - Every task with tags when the tag list changed (rows store the tag names and colors)
+ * - Tasks the merge combined from both versions (content differing from the version just pulled)
+ *
+ * @param merged - Tasks after merging
+ * @param local - Tasks on this device before merging
+ * @param pulled - Tasks pulled from the cloud in this sync
+ * @param operations - Changes queued in the sync outbox
+ * @returns Tasks to push
+ */
+export function selectTasksToPush(
+  merged: Task[],
+  local: Task[],
+  pulled: Task[],
+  operations: SyncOperation[]
+): Task[] {
+  const changedIds = new Set(
+    operations
+      .filter((operation) => operation.type === 'upsertTask')
+      .map((operation) => operation.recordId)
+  );
+  const tagsChanged = operations.some((operation) => operation.type === 'updateTags');
+  const localById = new Map(local.map((task) => [task.id, task]));
+  const pulledById = new Map(pulled.map((task) => [task.id, task]));
+
+  return merged.filter((task) => {
+    if (changedIds.has(task.id) || (tagsChanged && task.tagIds?.length)) {
+      return true;
+    }
+    // The merge returns the local task itself when the cloud brought nothing new
+    const pulledTask = pulledById.get(task.id);
+    return (
+      pulledTask !== undefined &&
+      localById.get(task.id) !== task &&
+      toComparableJson(pulledTask) !== toComparableJson(task)
+    );
+  });
+}
+
+/**
+ * Selects the tombstones of tasks deleted on this device since the last sync.
+ *
+ * @param tombstones - Tombstones after merging
+ * @param operations - Changes queued in the sync outbox
+ * @returns Tombstones to push
+ */
+export function selectTombstonesToPush(
+  tombstones: Tombstone[],
+  operations: SyncOperation[]
+): Tombstone[] {
+  const deletedIds = new Set(
+    operations
+      .filter((operation) => operation.type === 'deleteTask')
+      .map((operation) => operation.recordId)
+  );
+  return tombstones.filter((tombstone) => deletedIds.has(tombstone.id));
+}
+
+/**
+ * Serializes a value with sorted object keys, so equal content compares
+ * equal whatever the key order
+ */
+function toComparableJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : nested
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * Due Date Utility Test Suite
+ *
+ * Tests deadline status, badge labels, the "due soon" list and due date sorting.
+ */
+
+import {
+  getDueStatus,
+  formatDueLabel,
+  isTaskOverdue,
+  isItemOverdue,
+  getDueSoonEntries,
+  compareTasksByDueDate,
+  validateDueDate,
+} from './dueDate';
+import { Task, ChecklistItem } from '../types';
+
+const TODAY = '2025-11-06';
+
+// Helper function to create a test item
+function createTestItem(overrides: Partial<ChecklistItem> = {}): ChecklistItem {
+  return {
+    id: 'item-1',
+    title: 'Write report',
+    done: false,
+    ...overrides,
+  };
+}
+
+// Helper function to create a test task
+function createTestTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Quarterly review',
+    items: [createTestItem()],
+    createdAt: '2025-11-01T00:00:00.000Z',
+    updatedAt: '2025-11-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Due Date Utils', () => {
+  describe('getDueStatus', () => {
+    it('should classify deadlines relative to today', () => {
+      expect(getDueStatus('2025-11-05', TODAY)).toBe('overdue');
+      expect(getDueStatus(TODAY, TODAY)).toBe('dueToday');
+      expect(getDueStatus('2025-11-09', TODAY)).toBe('dueSoon');
+      expect(getDueStatus('2025-11-10', TODAY)).toBe('upcoming');
+    });
+  });
+
+  describe('formatDueLabel', () => {
+    it('should format each deadline state', () => {
+      expect(formatDueLabel('2025-11-04', TODAY)).toBe('2일 지남');
+      expect(formatDueLabel(TODAY, TODAY)).toBe('오늘 마감');
+      expect(formatDueLabel('2025-11-08', TODAY)).toBe('D-2');
+      expect(formatDueLabel('2025-11-20', TODAY)).toBe('11월 20일 마감');
+    });
+  });
+
+  describe('overdue detection', () => {
+    it('should not flag finished tasks or items as overdue', () => {
+      const doneItem = createTestItem({ done: true, dueDate: '2025-11-01' });
+      const task = createTestTask({ dueDate: '2025-11-01', items: [doneItem] });
+
+      expect(isTaskOverdue(task, TODAY)).toBe(false);
+      expect(isItemOverdue(doneItem, TODAY)).toBe(false);
+    });
+
+    it('should flag unfinished tasks and items past their deadline', () => {
+      const item = createTestItem({ dueDate: '2025-11-01' });
+      const task = createTestTask({ dueDate: '2025-11-01', items: [item] });
+
+      expect(isTaskOverdue(task, TODAY)).toBe(true);
+      expect(isItemOverdue(item, TODAY)).toBe(true);
+    });
+  });
+
+  describe('getDueSoonEntries', () => {
+    it('should list overdue and soon-due entries sorted by deadline', () => {
+      const tasks = [
+        createTestTask({
+          id: 'task-1',
+          dueDate: '2025-11-08',
+          items: [
+            createTestItem({ id: 'item-1', dueDate: '2025-11-04' }),
+            createTestItem({ id: 'item-2', dueDate: '2025-11-20' }),
+            createTestItem({ id: 'item-3', dueDate: TODAY, done: true }),
+          ],
+        }),
+        createTestTask({ id: 'task-2', dueDate: TODAY }),
+      ];
+
+      const entries = getDueSoonEntries(tasks, TODAY);
+
+      expect(entries.map((entry) => [entry.task.id, entry.item?.id, entry.status])).toEqual([
+        ['task-1', 'item-1', 'overdue'],
+        ['task-2', undefined, 'dueToday'],
+        ['task-1', undefined, 'dueSoon'],
+      ]);
+    });
+  });
+
+  describe('compareTasksByDueDate', () => {
+    it('should sort by deadline and keep tasks without one last', () => {
+      const tasks = [
+        createTestTask({ id: 'none' }),
+        createTestTask({ id: 'late', dueDate: '2025-12-01' }),
+        createTestTask({ id: 'early', dueDate: '2025-11-07' }),
+      ];
+
+      expect([...tasks].sort(compareTasksByDueDate).map((task) => task.id)).toEqual([
+        'early',
+        'late',
+        'none',
+      ]);
+    });
+  });
+
+  describe('validateDueDate', () => {
+    it('should reject malformed dates', () => {
+      expect(validateDueDate('2025-11-06').valid).toBe(true);
+      expect(validateDueDate('2025-13-01').valid).toBe(false);
+      expect(validateDueDate('11/06/2025').valid).toBe(false);
+    });
+  });
+});
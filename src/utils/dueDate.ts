@@ -0,0 +1,186 @@
+/**
+ * Due Date Utility Module
+ *
+ * Deadline helpers for tasks and checklist items: overdue detection,
+ * badge labels, the "due soon" list and sorting by due date.
+ *
+ * A due date is when something must be finished. It is independent of
+ * scheduledDates, which say on which days an item is worked on.
+ */
+
+import { Task, ChecklistItem, ValidationResult } from '../types';
+import { daysBetween, isValidDateKey, parseDateKey } from './dateKey';
+import { calcProgress } from './progress';
+import { isItemDone } from './completion';
+import { flattenItems } from './itemTree';
+
+/**
+ * Number of days ahead that counts as "due soon"
+ */
+export const DUE_SOON_DAYS = 3;
+
+/**
+ * Deadline state relative to today
+ * - overdue: deadline has passed
+ * - dueToday: deadline is today
+ * - dueSoon: deadline within DUE_SOON_DAYS
+ * - upcoming: deadline further away
+ */
+export type DueStatus = 'overdue' | 'dueToday' | 'dueSoon' | 'upcoming';
+
+/**
+ * Entry in the "due soon" list (a task, or an item within a task)
+ */
+export interface DueEntry {
+  task: Task;
+  item?: ChecklistItem;
+  dueDate: string;
+  status: DueStatus;
+}
+
+/**
+ * Returns the deadline state of a due date relative to today.
+ *
+ * @param dueDate - Deadline (YYYY-MM-DD)
+ * @param todayKey - Today's date (YYYY-MM-DD)
+ * @returns DueStatus
+ *
+ * @example
+ * getDueStatus('2025-11-05', '2025-11-06'); // Returns: 'overdue'
+ * getDueStatus('2025-11-08', '2025-11-06'); // Returns: 'dueSoon'
+ */
+export function getDueStatus(dueDate: string, todayKey: string): DueStatus {
+  const daysLeft = daysBetween(todayKey, dueDate);
+
+  if (daysLeft < 0) {
+    return 'overdue';
+  }
+  if (daysLeft === 0) {
+    return 'dueToday';
+  }
+  if (daysLeft <= DUE_SOON_DAYS) {
+    return 'dueSoon';
+  }
+  return 'upcoming';
+}
+
+/**
+ * Returns a short Korean badge label for a due date.
+ *
+ * @example
+ * formatDueLabel('2025-11-04', '2025-11-06'); // Returns: "2일 지남"
+ * formatDueLabel('2025-11-06', '2025-11-06'); // Returns: "오늘 마감"
+ * formatDueLabel('2025-11-08', '2025-11-06'); // Returns: "D-2"
+ * formatDueLabel('2025-11-20', '2025-11-06'); // Returns: "11월 20일 마감"
+ */
+export function formatDueLabel(dueDate: string, todayKey: string): string {
+  const daysLeft = daysBetween(todayKey, dueDate);
+
+  if (daysLeft < 0) {
+    return `${-daysLeft}일 지남`;
+  }
+  if (daysLeft === 0) {
+    return '오늘 마감';
+  }
+  if (daysLeft <= DUE_SOON_DAYS) {
+    return `D-${daysLeft}`;
+  }
+
+  const { month, day } = parseDateKey(dueDate);
+  return `${month}월 ${day}일 마감`;
+}
+
+/**
+ * Checks whether a task is finished (all items done, at least one item).
+ */
+export function isTaskDone(task: Task): boolean {
+  const progress = calcProgress(task);
+  return progress.total > 0 && progress.done === progress.total;
+}
+
+/**
+ * Checks whether a task's deadline has passed while it is unfinished.
+ */
+export function isTaskOverdue(task: Task, todayKey: string): boolean {
+  return !!task.dueDate && !isTaskDone(task) && getDueStatus(task.dueDate, todayKey) === 'overdue';
+}
+
+/**
+ * Checks whether an item's deadline has passed while it is unfinished.
+ */
+export function isItemOverdue(item: ChecklistItem, todayKey: string): boolean {
+  return (
+    !!item.dueDate &&
+    !isItemDone(item, todayKey) &&
+    getDueStatus(item.dueDate, todayKey) === 'overdue'
+  );
+}
+
+/**
+ * Collects unfinished tasks and items (nested ones included) that are overdue or
+ * due within DUE_SOON_DAYS.
+ * Sorted by due date (earliest first), tasks before their items.
+ *
+ * @param tasks - All tasks
+ * @param todayKey - Today's date (YYYY-MM-DD)
+ * @returns Due entries for the "due soon" section
+ */
+export function getDueSoonEntries(tasks: Task[], todayKey: string): DueEntry[] {
+  const entries: DueEntry[] = [];
+
+  tasks.forEach((task) => {
+    if (task.dueDate && !isTaskDone(task)) {
+      const status = getDueStatus(task.dueDate, todayKey);
+      if (status !== 'upcoming') {
+        entries.push({ task, dueDate: task.dueDate, status });
+      }
+    }
+
+    flattenItems(task.items).forEach((item) => {
+      if (item.dueDate && !isItemDone(item, todayKey)) {
+        const status = getDueStatus(item.dueDate, todayKey);
+        if (status !== 'upcoming') {
+          entries.push({ task, item, dueDate: item.dueDate, status });
+        }
+      }
+    });
+  });
+
+  return entries.sort((a, b) => {
+    if (a.dueDate !== b.dueDate) {
+      return a.dueDate < b.dueDate ? -1 : 1;
+    }
+    return (a.item ? 1 : 0) - (b.item ? 1 : 0);
+  });
+}
+
+/**
+ * Comparator that sorts tasks by due date (earliest first).
+ * Tasks without a due date go last and keep their relative order.
+ */
+export function compareTasksByDueDate(a: Task, b: Task): number {
+  if (a.dueDate && b.dueDate) {
+    return a.dueDate < b.dueDate ? -1 : a.dueDate > b.dueDate ? 1 : 0;
+  }
+  if (a.dueDate) {
+    return -1;
+  }
+  if (b.dueDate) {
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * Validates a due date entered by the user.
+ *
+ * @param dueDate - Deadline (YYYY-MM-DD)
+ * @returns ValidationResult with a user-facing error message if invalid
+ */
+export function validateDueDate(dueDate: string): ValidationResult {
+  if (!isValidDateKey(dueDate)) {
+    return { valid: false, error: '마감일은 YYYY-MM-DD 형식이어야 합니다' };
+  }
+
+  return { valid: true };
+}
@@ -22,7 +22,7 @@ import { ErrorCode, AppError } from '../types';
  *
  * @example
  * getUserFriendlyMessage(ErrorCode.TASK_LIMIT_EXCEEDED);
- * // Returns: '최대 200개의 할 일만 생성할 수 있습니다. 완료된 할 일을 정리하세요.'
+ * // Returns: '최대 2000개의 할 일만 생성할 수 있습니다. 완료된 할 일을 정리하세요.'
  *
  * @example
  * getUserFriendlyMessage(ErrorCode.INVALID_INPUT);
@@ -38,15 +38,21 @@ export function getUserFriendlyMessage(errorCode: ErrorCode): string {
     [ErrorCode.DATA_CORRUPTED]: '저장된 데이터가 손상되었습니다. 백업에서 복원을 시도합니다.',
 
     [ErrorCode.TASK_LIMIT_EXCEEDED]:
-      '최대 200개의 할 일만 생성할 수 있습니다. 완료된 할 일을 정리하세요.',
+      '최대 2000개의 할 일만 생성할 수 있습니다. 완료된 할 일을 정리하세요.',
 
     [ErrorCode.ITEM_LIMIT_EXCEEDED]:
-      '최대 50개의 항목만 추가할 수 있습니다. 새로운 할 일로 분리하세요.',
+      '최대 500개의 항목만 추가할 수 있습니다. 새로운 할 일로 분리하세요.',
 
     [ErrorCode.INVALID_INPUT]: '입력 내용을 확인해주세요. 제목은 1-120자 사이여야 합니다.',
 
     [ErrorCode.INVALID_BACKUP]: '백업 파일이 유효하지 않습니다. 다른 파일을 선택해주세요.',
 
+    [ErrorCode.MIGRATION_FAILED]:
+      '데이터를 새 버전으로 변환하지 못했습니다. 앱을 재시작하거나 문의해주세요.',
+
+    [ErrorCode.ENCRYPTION_KEY_MISSING]:
+      '데이터 암호화 키를 찾을 수 없어 저장된 데이터를 열 수 없습니다. 백업 파일에서 복원해주세요.',
+
     [ErrorCode.UNKNOWN]: '알 수 없는 오류가 발생했습니다. 앱을 재시작하거나 문의해주세요.',
   };
 
@@ -114,6 +120,10 @@ export function createAppError(code: ErrorCode, message?: string, originalError?
 
     [ErrorCode.INVALID_BACKUP]: '올바른 백업 파일을 선택해주세요',
 
+    [ErrorCode.MIGRATION_FAILED]: '앱을 최신 버전으로 업데이트하거나 개발자에게 문의해주세요',
+
+    [ErrorCode.ENCRYPTION_KEY_MISSING]: '설정에서 백업 파일을 가져와 복원하세요',
+
     [ErrorCode.UNKNOWN]: '앱을 재시작하거나 개발자에게 문의해주세요',
   };
 
@@ -0,0 +1,149 @@
+/**
+ * Export Format Utility Test Suite
+ *
+ * Tests rendering tasks as Markdown, CSV and plain-text checklists.
+ */
+
+import {
+  escapeCsvField,
+  formatTasks,
+  formatTasksAsCsv,
+  formatTasksAsMarkdown,
+  formatTasksAsText,
+} from './exportFormat';
+import { ChecklistItem, Task } from '../types';
+
+const TODAY = '2025-11-06';
+
+// Helper function to create a test item
+function createTestItem(
+  id: string,
+  title: string,
+  done: boolean = false,
+  overrides: Partial<ChecklistItem> = {}
+): ChecklistItem {
+  return { id, title, done, ...overrides };
+}
+
+// Helper function to create a test task
+function createTestTask(title: string, items: ChecklistItem[] = []): Task {
+  return {
+    id: title,
+    title,
+    items,
+    createdAt: '2025-11-01T00:00:00.000Z',
+    updatedAt: '2025-11-01T00:00:00.000Z',
+  };
+}
+
+const website = createTestTask('Website', [
+  createTestItem('1', 'Design', true),
+  createTestItem('2', 'Build', false, {
+    children: [
+      createTestItem('2a', 'Frontend', true),
+      createTestItem('2b', 'Backend', false, { scheduledDates: ['2025-11-07', '2025-11-08'] }),
+    ],
+  }),
+]);
+
+describe('Export Format Utils', () => {
+  describe('formatTasksAsMarkdown', () => {
+    it('should render a heading per task with nested checklist items', () => {
+      const markdown = formatTasksAsMarkdown([website, createTestTask('Empty')], TODAY);
+
+      expect(markdown).toBe(
+        [
+          '## Website',
+          '',
+          '- [x] Design',
+          '- [ ] Build',
+          '  - [x] Frontend',
+          '  - [ ] Backend',
+          '',
+          '## Empty',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should use the rolled-up state of parent items', () => {
+      const task = createTestTask('Task', [
+        createTestItem('p', 'Parent', false, { children: [createTestItem('c', 'Child', true)] }),
+      ]);
+
+      expect(formatTasksAsMarkdown([task], TODAY)).toContain('- [x] Parent');
+    });
+  });
+
+  describe('formatTasksAsCsv', () => {
+    it('should render one row per item with the item path and scheduled dates', () => {
+      const csv = formatTasksAsCsv([website], TODAY);
+
+      expect(csv.split('\r\n')).toEqual([
+        '할 일,세부 단계,완료,예정일',
+        'Website,Design,Y,',
+        'Website,Build,N,',
+        'Website,Build > Frontend,Y,',
+        'Website,Build > Backend,N,2025-11-07 2025-11-08',
+        '',
+      ]);
+    });
+
+    it('should keep tasks without items', () => {
+      expect(formatTasksAsCsv([createTestTask('Empty')], TODAY)).toContain('\r\nEmpty,,,\r\n');
+    });
+  });
+
+  describe('escapeCsvField', () => {
+    it('should quote fields with commas, quotes or line breaks', () => {
+      expect(escapeCsvField('plain')).toBe('plain');
+      expect(escapeCsvField('a, b')).toBe('"a, b"');
+      expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvField('two\nlines')).toBe('"two\nlines"');
+    });
+
+    it('should keep spreadsheets from evaluating formulas', () => {
+      expect(escapeCsvField('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)");
+      expect(escapeCsvField('@cmd')).toBe("'@cmd");
+    });
+  });
+
+  describe('formatTasksAsText', () => {
+    it('should render titles with progress and marked items', () => {
+      const text = formatTasksAsText([website, createTestTask('Empty')], TODAY);
+
+      expect(text).toBe(
+        [
+          'Website (2/3)',
+          '✅ Design',
+          '⬜ Build',
+          '  ✅ Frontend',
+          '  ⬜ Backend',
+          '',
+          'Empty (0/0)',
+        ].join('\n')
+      );
+    });
+
+    it("should use today's occurrence of recurring items", () => {
+      const task = createTestTask('Habits', [
+        createTestItem('r', 'Stretch', false, {
+          recurrence: { frequency: 'daily', startDate: '2025-11-01' },
+          completions: { [TODAY]: `${TODAY}T09:00:00.000Z` },
+        }),
+      ]);
+
+      expect(formatTasksAsText([task], TODAY)).toBe('Habits (1/1)\n✅ Stretch');
+    });
+  });
+
+  describe('formatTasks', () => {
+    it('should render the selected format', () => {
+      expect(formatTasks([website], 'markdown', TODAY)).toBe(
+        formatTasksAsMarkdown([website], TODAY)
+      );
+      expect(formatTasks([website], 'csv', TODAY)).toBe(formatTasksAsCsv([website], TODAY));
+      expect(formatTasks([website], 'text', TODAY)).toBe(formatTasksAsText([website], TODAY));
+    });
+  });
+});
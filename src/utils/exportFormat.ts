@@ -0,0 +1,177 @@
+/**
+ * Export Format Utility Module
+ *
+ * Renders tasks in formats other apps can read, unlike the JSON backup
+ * which only this app can restore:
+ * - Markdown: a heading per task with `- [x]` checklist items
+ * - CSV: one row per checklist item for spreadsheets
+ * - Plain text: a checklist ready to paste into a chat
+ *
+ * Nested items are included. Completion uses the item's overall state
+ * (recurring items: today's occurrence), like the task detail screen.
+ */
+
+import { ChecklistItem, Task } from '../types';
+import { isItemDone } from './completion';
+import { getLeafItems } from './itemTree';
+
+/**
+ * Formats tasks can be exported in
+ */
+export type ExportFormat = 'markdown' | 'csv' | 'text';
+
+/**
+ * Label shown for each export format
+ */
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  csv: 'CSV',
+  text: '텍스트',
+};
+
+/**
+ * CSV header row
+ */
+const CSV_HEADER = ['할 일', '세부 단계', '완료', '예정일'];
+
+/**
+ * Separator between a parent item and its child in the CSV item column
+ */
+const CSV_PATH_SEPARATOR = ' > ';
+
+/**
+ * Visits every item in the tree with its depth, parents before their children.
+ */
+function forEachItem(
+  items: ChecklistItem[],
+  visit: (item: ChecklistItem, depth: number, path: string[]) => void,
+  depth: number = 0,
+  path: string[] = []
+): void {
+  items.forEach((item) => {
+    const itemPath = [...path, item.title];
+    visit(item, depth, itemPath);
+    if (item.children) {
+      forEachItem(item.children, visit, depth + 1, itemPath);
+    }
+  });
+}
+
+/**
+ * Renders tasks as Markdown: a `##` heading per task and a checklist of its
+ * items, nested items indented by two spaces.
+ *
+ * @param tasks - Tasks to render
+ * @param todayKey - Today's date (YYYY-MM-DD), used for recurring items
+ * @returns Markdown document
+ *
+ * @example
+ * formatTasksAsMarkdown([task], '2025-11-06');
+ * // Returns: '## 웹사이트 리디자인\n\n- [x] 디자인 시안 작성\n- [ ] 배포\n'
+ */
+export function formatTasksAsMarkdown(tasks: Task[], todayKey: string): string {
+  return tasks
+    .map((task) => {
+      const lines = [`## ${task.title}`, ''];
+      forEachItem(task.items, (item, depth) => {
+        const checkbox = isItemDone(item, todayKey) ? '[x]' : '[ ]';
+        lines.push(`${'  '.repeat(depth)}- ${checkbox} ${item.title}`);
+      });
+      return lines.join('\n').trimEnd() + '\n';
+    })
+    .join('\n');
+}
+
+/**
+ * Quotes a CSV field when needed.
+ * Fields starting with a formula character are prefixed with a quote so
+ * spreadsheets show them as text instead of evaluating them.
+ *
+ * @example
+ * escapeCsvField('a, b'); // Returns: '"a, b"'
+ * escapeCsvField('=1+1'); // Returns: "'=1+1"
+ */
+export function escapeCsvField(value: string): string {
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders tasks as CSV with one row per checklist item: task, item,
+ * done and scheduled dates. Nested items show their parents in the item
+ * column (`상위 > 하위`). Tasks without items get a single row so they
+ * aren't lost.
+ *
+ * @param tasks - Tasks to render
+ * @param todayKey - Today's date (YYYY-MM-DD), used for recurring items
+ * @returns CSV document (CRLF line endings)
+ */
+export function formatTasksAsCsv(tasks: Task[], todayKey: string): string {
+  const rows: string[][] = [CSV_HEADER];
+
+  tasks.forEach((task) => {
+    if (task.items.length === 0) {
+      rows.push([task.title, '', '', '']);
+      return;
+    }
+
+    forEachItem(task.items, (item, _depth, path) => {
+      rows.push([
+        task.title,
+        path.join(CSV_PATH_SEPARATOR),
+        isItemDone(item, todayKey) ? 'Y' : 'N',
+        (item.scheduledDates || []).join(' '),
+      ]);
+    });
+  });
+
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Renders tasks as a plain-text checklist: the task title with its
+ * progress, then ✅/⬜ items, nested items indented by two spaces.
+ *
+ * @param tasks - Tasks to render
+ * @param todayKey - Today's date (YYYY-MM-DD), used for recurring items
+ * @returns Plain text, tasks separated by a blank line
+ *
+ * @example
+ * formatTasksAsText([task], '2025-11-06');
+ * // Returns: '웹사이트 리디자인 (1/2)\n✅ 디자인 시안 작성\n⬜ 배포'
+ */
+export function formatTasksAsText(tasks: Task[], todayKey: string): string {
+  return tasks
+    .map((task) => {
+      const leaves = getLeafItems(task.items);
+      const doneCount = leaves.filter((item) => isItemDone(item, todayKey)).length;
+      const lines = [`${task.title} (${doneCount}/${leaves.length})`];
+
+      forEachItem(task.items, (item, depth) => {
+        const mark = isItemDone(item, todayKey) ? '✅' : '⬜';
+        lines.push(`${'  '.repeat(depth)}${mark} ${item.title}`);
+      });
+
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Renders tasks in the given format.
+ *
+ * @param tasks - Tasks to render
+ * @param format - Export format
+ * @param todayKey - Today's date (YYYY-MM-DD), used for recurring items
+ * @returns Rendered document
+ */
+export function formatTasks(tasks: Task[], format: ExportFormat, todayKey: string): string {
+  switch (format) {
+    case 'markdown':
+      return formatTasksAsMarkdown(tasks, todayKey);
+    case 'csv':
+      return formatTasksAsCsv(tasks, todayKey);
+    case 'text':
+      return formatTasksAsText(tasks, todayKey);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * History Utility Test Suite
+ *
+ * Tests the bounded undo/redo stacks and restoring task snapshots.
+ */
+
+import { pushHistoryEntry, restoreTasksSnapshot } from './history';
+import { Task, HistoryEntry } from '../types';
+
+const NOW = '2025-12-10T00:00:00.000Z';
+
+// Helper function to create a test task
+function createTestTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    items: [],
+    createdAt: '2025-11-01T00:00:00.000Z',
+    updatedAt: '2025-11-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// Helper function to create a history step
+function createEntry(label: string): HistoryEntry {
+  return { label, snapshot: { tasks: [] } };
+}
+
+describe('History Utils', () => {
+  describe('pushHistoryEntry', () => {
+    it('should add steps in order without mutating the stack', () => {
+      const stack = [createEntry('a')];
+      const updated = pushHistoryEntry(stack, createEntry('b'));
+
+      expect(updated.map((entry) => entry.label)).toEqual(['a', 'b']);
+      expect(stack).toHaveLength(1);
+    });
+
+    it('should drop the oldest steps beyond the limit', () => {
+      const stack = [createEntry('a'), createEntry('b'), createEntry('c')];
+
+      expect(pushHistoryEntry(stack, createEntry('d'), 3).map((entry) => entry.label)).toEqual([
+        'b',
+        'c',
+        'd',
+      ]);
+    });
+  });
+
+  describe('restoreTasksSnapshot', () => {
+    it('should bump updatedAt only for tasks that changed', () => {
+      const unchanged = createTestTask('a');
+      const before = createTestTask('b', { title: 'Before' });
+      const after = { ...before, title: 'After' };
+
+      const restored = restoreTasksSnapshot([unchanged, after], [unchanged, before], NOW);
+
+      expect(restored[0]).toBe(unchanged);
+      expect(restored[1]).toMatchObject({ title: 'Before', updatedAt: NOW });
+    });
+
+    it('should bring back removed tasks and drop added ones', () => {
+      const kept = createTestTask('a');
+      const removed = createTestTask('b');
+      const added = createTestTask('c');
+
+      const restored = restoreTasksSnapshot([kept, added], [kept, removed], NOW);
+
+      expect(restored.map((task) => task.id)).toEqual(['a', 'b']);
+      expect(restored[1].updatedAt).toBe(NOW);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * History Utility Module
+ *
+ * Helpers for the undo/redo history of task changes.
+ *
+ * Every change records a snapshot of the tasks (and the trash, when it is
+ * involved) from before the change. Undoing swaps the current state with that
+ * snapshot, so the same entry moved to the redo stack can bring it back.
+ * Tasks are immutable, so snapshots share every task the change didn't touch.
+ */
+
+import { Task, HistoryEntry } from '../types';
+
+/**
+ * Maximum number of steps kept in each of the undo and redo stacks
+ */
+export const HISTORY_LIMIT = 50;
+
+/**
+ * Adds a step to a history stack, dropping the oldest steps beyond the limit.
+ *
+ * @param stack - Current stack (oldest first)
+ * @param entry - Step to add
+ * @param limit - Maximum number of steps to keep
+ * @returns New stack
+ */
+export function pushHistoryEntry(
+  stack: HistoryEntry[],
+  entry: HistoryEntry,
+  limit: number = HISTORY_LIMIT
+): HistoryEntry[] {
+  const updated = [...stack, entry];
+  return updated.length > limit ? updated.slice(updated.length - limit) : updated;
+}
+
+/**
+ * Returns the tasks from a snapshot, ready to replace the current tasks.
+ * Tasks that differ from their current version get a new `updatedAt`,
+ * so the undone state wins when merged with other devices.
+ *
+ * @param current - Current tasks
+ * @param snapshot - Tasks to go back to
+ * @param now - ISO 8601 timestamp for changed tasks
+ * @returns Tasks to set
+ */
+export function restoreTasksSnapshot(current: Task[], snapshot: Task[], now: string): Task[] {
+  const currentById = new Map(current.map((task) => [task.id, task]));
+
+  return snapshot.map((task) =>
+    currentById.get(task.id) === task ? task : { ...task, updatedAt: now }
+  );
+}
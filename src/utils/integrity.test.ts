@@ -0,0 +1,262 @@
+/**
+ * Integrity Utility Test Suite
+ *
+ * Tests finding integrity problems in tasks and daily records, and
+ * repairing them.
+ */
+
+import { checkIntegrity, repairIntegrity } from './integrity';
+import { AppData, ChecklistItem, DailyRecord, DailyRecordsData, Task } from '../types';
+
+jest.mock('../services/encryptedStorage');
+
+const TODAY = '2025-11-10';
+
+// Helper function to create a test item
+function createTestItem(id: string, overrides: Partial<ChecklistItem> = {}): ChecklistItem {
+  return { id, title: `Item ${id}`, done: false, ...overrides };
+}
+
+// Helper function to create a test task
+function createTestTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    items: [],
+    createdAt: '2025-11-01T00:00:00.000Z',
+    updatedAt: '2025-11-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// Helper function to create app data
+function createData(tasks: Task[], trash: AppData['trash'] = []): AppData {
+  return { schemaVersion: 4, tasks, trash };
+}
+
+// Helper function to create a daily record for the given task IDs
+function createRecord(date: string, taskIds: string[]): DailyRecord {
+  return {
+    date,
+    completedCount: taskIds.length,
+    totalCount: taskIds.length,
+    completionRate: taskIds.length > 0 ? 100 : 0,
+    savedAt: `${date}T23:59:00.000Z`,
+    items: taskIds.map((taskId, order) => ({
+      id: `${taskId}-item`,
+      taskId,
+      taskTitle: `Task ${taskId}`,
+      title: 'Item',
+      done: true,
+      order,
+    })),
+  };
+}
+
+// Helper function to create daily records data
+function createRecords(records: DailyRecord[] = []): DailyRecordsData {
+  return {
+    schemaVersion: 1,
+    records: Object.fromEntries(records.map((record) => [record.date, record])),
+  };
+}
+
+// Helper function to create sequential IDs
+function createIdFactory(): () => string {
+  let next = 0;
+  return () => `new-${++next}`;
+}
+
+describe('Integrity Utils', () => {
+  describe('checkIntegrity', () => {
+    it('should find no problems in consistent data', () => {
+      const task = createTestTask('a', {
+        items: [createTestItem('1', { scheduledDates: ['2025-11-09', '2025-11-12'] })],
+      });
+
+      const issues = checkIntegrity(
+        createData([task]),
+        createRecords([createRecord('2025-11-09', ['a'])]),
+        TODAY
+      );
+
+      expect(issues).toEqual([]);
+    });
+
+    it('should find duplicate task and item IDs, nested items included', () => {
+      const tasks = [
+        createTestTask('a', { items: [createTestItem('1', { children: [createTestItem('2')] })] }),
+        createTestTask('a', { items: [createTestItem('2')] }),
+      ];
+
+      const issues = checkIntegrity(createData(tasks), createRecords(), TODAY);
+
+      expect(issues.map(({ type, taskId, itemId }) => ({ type, taskId, itemId }))).toEqual([
+        { type: 'duplicateTaskId', taskId: 'a', itemId: undefined },
+        { type: 'duplicateItemId', taskId: 'a', itemId: '2' },
+      ]);
+    });
+
+    it('should find malformed scheduled dates', () => {
+      const task = createTestTask('a', {
+        items: [createTestItem('1', { scheduledDates: ['2025-13-01', 'tomorrow'] })],
+      });
+
+      const issues = checkIntegrity(createData([task]), createRecords(), TODAY);
+
+      expect(issues).toHaveLength(2);
+      expect(issues.every((issue) => issue.type === 'invalidScheduledDate')).toBe(true);
+    });
+
+    it('should find past scheduled dates without a daily record', () => {
+      const task = createTestTask('a', {
+        items: [createTestItem('1', { scheduledDates: ['2025-11-08', TODAY, '2025-11-12'] })],
+      });
+
+      const issues = checkIntegrity(createData([task]), createRecords(), TODAY);
+
+      expect(issues).toEqual([
+        expect.objectContaining({ type: 'missingDailyRecord', date: '2025-11-08' }),
+      ]);
+    });
+
+    it('should not require records for archived tasks', () => {
+      const task = createTestTask('a', {
+        archivedAt: '2025-11-09T00:00:00.000Z',
+        items: [createTestItem('1', { scheduledDates: ['2025-11-08'] })],
+      });
+
+      expect(checkIntegrity(createData([task]), createRecords(), TODAY)).toEqual([]);
+    });
+
+    it('should find record items of deleted tasks but not of tasks in the trash', () => {
+      const trashed = createTestTask('b');
+      const data = createData(
+        [createTestTask('a')],
+        [{ id: 'entry-1', type: 'task', task: trashed, index: 1, deletedAt: TODAY }]
+      );
+
+      const issues = checkIntegrity(
+        data,
+        createRecords([createRecord('2025-11-09', ['a', 'b', 'gone', 'gone'])]),
+        TODAY
+      );
+
+      expect(issues).toEqual([
+        expect.objectContaining({ type: 'orphanedRecordItem', date: '2025-11-09' }),
+      ]);
+      expect(issues[0].message).toContain('2개');
+    });
+
+    it('should find tasks updated before they were created', () => {
+      const task = createTestTask('a', { updatedAt: '2025-10-01T00:00:00.000Z' });
+
+      const issues = checkIntegrity(createData([task]), createRecords(), TODAY);
+
+      expect(issues).toEqual([expect.objectContaining({ type: 'invalidTimestamps', taskId: 'a' })]);
+    });
+  });
+
+  describe('repairIntegrity', () => {
+    it('should return the same data and records when nothing is wrong', () => {
+      const data = createData([createTestTask('a', { items: [createTestItem('1')] })]);
+      const records = createRecords([createRecord('2025-11-09', ['a'])]);
+
+      const repaired = repairIntegrity(data, records, TODAY, createIdFactory());
+
+      expect(repaired.data).toBe(data);
+      expect(repaired.records).toBe(records);
+    });
+
+    it('should give later duplicates a new ID', () => {
+      const tasks = [
+        createTestTask('a', { items: [createTestItem('1')] }),
+        createTestTask('a', { items: [createTestItem('1', { children: [createTestItem('1')] })] }),
+      ];
+
+      const { data } = repairIntegrity(
+        createData(tasks),
+        createRecords(),
+        TODAY,
+        createIdFactory()
+      );
+
+      expect(data.tasks.map((task) => task.id)).toEqual(['a', 'new-1']);
+      expect(data.tasks[0]).toBe(tasks[0]);
+      expect(data.tasks[1].items[0].id).toBe('new-2');
+      expect(data.tasks[1].items[0].children![0].id).toBe('new-3');
+    });
+
+    it('should remove malformed scheduled dates and fix timestamps', () => {
+      const task = createTestTask('a', {
+        updatedAt: '2025-10-01T00:00:00.000Z',
+        items: [createTestItem('1', { scheduledDates: ['bad', '2025-11-12'] })],
+      });
+
+      const { data } = repairIntegrity(
+        createData([task]),
+        createRecords(),
+        TODAY,
+        createIdFactory()
+      );
+
+      expect(data.tasks[0].updatedAt).toBe(task.createdAt);
+      expect(data.tasks[0].items[0].scheduledDates).toEqual(['2025-11-12']);
+    });
+
+    it('should remove orphaned record items and recalculate the counts', () => {
+      const records = createRecords([createRecord('2025-11-09', ['gone', 'a'])]);
+
+      const repaired = repairIntegrity(
+        createData([createTestTask('a')]),
+        records,
+        TODAY,
+        createIdFactory()
+      );
+
+      expect(repaired.records.records['2025-11-09']).toMatchObject({
+        completedCount: 1,
+        totalCount: 1,
+        completionRate: 100,
+        items: [expect.objectContaining({ taskId: 'a', order: 0 })],
+      });
+      // The original records are left untouched
+      expect(records.records['2025-11-09'].items).toHaveLength(2);
+    });
+
+    it('should recreate missing daily records from the tasks', () => {
+      const task = createTestTask('a', {
+        items: [createTestItem('1', { scheduledDates: ['2025-11-08'] })],
+      });
+
+      const { records } = repairIntegrity(
+        createData([task]),
+        createRecords(),
+        TODAY,
+        createIdFactory()
+      );
+
+      expect(records.records['2025-11-08']).toMatchObject({
+        date: '2025-11-08',
+        totalCount: 1,
+        items: [expect.objectContaining({ id: '1', taskId: 'a' })],
+      });
+    });
+
+    it('should leave no problems behind', () => {
+      const tasks = [
+        createTestTask('a', {
+          updatedAt: '2025-10-01T00:00:00.000Z',
+          items: [createTestItem('1', { scheduledDates: ['2025-11-07', 'bad'] })],
+        }),
+        createTestTask('a', { items: [createTestItem('1')] }),
+      ];
+      const records = createRecords([createRecord('2025-11-09', ['gone'])]);
+
+      const repaired = repairIntegrity(createData(tasks), records, TODAY, createIdFactory());
+
+      expect(checkIntegrity(createData(tasks), records, TODAY)).toHaveLength(6);
+      expect(checkIntegrity(repaired.data, repaired.records, TODAY)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Integrity Utility Module
+ *
+ * Checks the app data and the daily records for problems that validation
+ * doesn't catch, and repairs them.
+ *
+ * Checks:
+ * - Duplicate task IDs and checklist item IDs (nested items included)
+ * - Scheduled dates that aren't valid YYYY-MM-DD dates
+ * - Past scheduled dates without a daily record
+ * - Daily record items whose task no longer exists (tasks in the trash still count)
+ * - Tasks updated before they were created
+ *
+ * Repairs:
+ * - Later duplicates get a new ID
+ * - Invalid scheduled dates are removed
+ * - Missing daily records are recreated from the per-date completions
+ * - Orphaned record items are removed and the record's counts recalculated
+ * - updatedAt is set to createdAt
+ */
+
+import { AppData, ChecklistItem, DailyRecord, DailyRecordsData, IntegrityIssue } from '../types';
+import { isValidDateKey } from './dateKey';
+import { flattenItems } from './itemTree';
+import { createDailySnapshot } from '../services/dailyRecords';
+
+// ============================================================================
+// CHECK
+// ============================================================================
+
+/**
+ * Checks the app data and daily records for integrity problems.
+ *
+ * @param data - App data (tasks and trash)
+ * @param records - Daily records
+ * @param todayKey - Today's date (YYYY-MM-DD); only earlier dates need a record
+ * @returns Problems found, in the order of the checks (empty if none)
+ *
+ * @example
+ * const issues = checkIntegrity(appData, await loadDailyRecords(), getTodayKey());
+ * if (issues.length > 0) {
+ *   logger.warn('Integrity problems found', { count: issues.length });
+ * }
+ */
+export function checkIntegrity(
+  data: AppData,
+  records: DailyRecordsData,
+  todayKey: string
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const taskIds = new Set<string>();
+  const itemIds = new Set<string>();
+  const datesNeedingRecord = new Set<string>();
+
+  data.tasks.forEach((task) => {
+    if (taskIds.has(task.id)) {
+      issues.push({
+        type: 'duplicateTaskId',
+        message: `'${task.title}'의 ID가 다른 할 일과 같습니다`,
+        taskId: task.id,
+      });
+    }
+    taskIds.add(task.id);
+
+    if (Date.parse(task.updatedAt) < Date.parse(task.createdAt)) {
+      issues.push({
+        type: 'invalidTimestamps',
+        message: `'${task.title}'의 수정 시각이 생성 시각보다 이릅니다`,
+        taskId: task.id,
+      });
+    }
+
+    flattenItems(task.items).forEach((item) => {
+      if (itemIds.has(item.id)) {
+        issues.push({
+          type: 'duplicateItemId',
+          message: `'${task.title}'의 세부 단계 '${item.title}'의 ID가 다른 항목과 같습니다`,
+          taskId: task.id,
+          itemId: item.id,
+        });
+      }
+      itemIds.add(item.id);
+
+      (item.scheduledDates || []).forEach((date) => {
+        if (!isValidDateKey(date)) {
+          issues.push({
+            type: 'invalidScheduledDate',
+            message: `'${item.title}'의 예정일 '${date}' 형식이 올바르지 않습니다`,
+            taskId: task.id,
+            itemId: item.id,
+          });
+        } else if (date < todayKey && !task.archivedAt) {
+          datesNeedingRecord.add(date);
+        }
+      });
+    });
+  });
+
+  [...datesNeedingRecord].sort().forEach((date) => {
+    if (!records.records[date]) {
+      issues.push({
+        type: 'missingDailyRecord',
+        message: `${date}에 예정된 항목이 있지만 기록이 없습니다`,
+        date,
+      });
+    }
+  });
+
+  const knownTaskIds = getKnownTaskIds(data);
+  Object.keys(records.records)
+    .sort()
+    .forEach((date) => {
+      const orphanCount = (records.records[date].items || []).filter(
+        (item) => !knownTaskIds.has(item.taskId)
+      ).length;
+
+      if (orphanCount > 0) {
+        issues.push({
+          type: 'orphanedRecordItem',
+          message: `${date} 기록에 삭제된 할 일의 항목 ${orphanCount}개가 있습니다`,
+          date,
+        });
+      }
+    });
+
+  return issues;
+}
+
+// ============================================================================
+// REPAIR
+// ============================================================================
+
+/**
+ * Repairs every problem checkIntegrity reports.
+ *
+ * Task problems are repaired first, so recreated daily records reflect
+ * the repaired tasks.
+ *
+ * @param data - App data
+ * @param records - Daily records
+ * @param todayKey - Today's date (YYYY-MM-DD)
+ * @param createId - Creates the new ID of a duplicate (e.g. generateId)
+ * @returns Repaired app data and daily records (unchanged parts keep their identity)
+ *
+ * @example
+ * const repaired = repairIntegrity(appData, records, getTodayKey(), generateId);
+ */
+export function repairIntegrity(
+  data: AppData,
+  records: DailyRecordsData,
+  todayKey: string,
+  createId: () => string
+): { data: AppData; records: DailyRecordsData } {
+  const taskIds = new Set<string>();
+  const itemIds = new Set<string>();
+
+  const tasks = data.tasks.map((task) => {
+    let repaired = task;
+
+    if (taskIds.has(task.id)) {
+      repaired = { ...repaired, id: createId() };
+    }
+    taskIds.add(repaired.id);
+
+    if (Date.parse(task.updatedAt) < Date.parse(task.createdAt)) {
+      repaired = { ...repaired, updatedAt: task.createdAt };
+    }
+
+    const items = repairItems(task.items, itemIds, createId);
+    if (items !== task.items) {
+      repaired = { ...repaired, items };
+    }
+
+    return repaired;
+  });
+
+  const repairedData = tasks.some((task, index) => task !== data.tasks[index])
+    ? { ...data, tasks }
+    : data;
+
+  return { data: repairedData, records: repairRecords(repairedData, records, todayKey) };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS (Internal)
+// ============================================================================
+
+/**
+ * IDs of the tasks daily records may refer to (current tasks and tasks in the trash)
+ */
+function getKnownTaskIds(data: AppData): Set<string> {
+  const taskIds = new Set(data.tasks.map((task) => task.id));
+  (data.trash || []).forEach((entry) => {
+    taskIds.add(entry.type === 'task' ? entry.task.id : entry.taskId);
+  });
+  return taskIds;
+}
+
+/**
+ * Gives duplicate items a new ID and removes invalid scheduled dates
+ * throughout an item tree.
+ *
+ * @param items - Items to repair
+ * @param itemIds - IDs seen so far (updated)
+ * @param createId - Creates a new ID
+ * @returns Repaired items (the same array if nothing changed)
+ */
+function repairItems(
+  items: ChecklistItem[],
+  itemIds: Set<string>,
+  createId: () => string
+): ChecklistItem[] {
+  let changed = false;
+
+  const repaired = items.map((item) => {
+    let result = item;
+
+    if (itemIds.has(item.id)) {
+      result = { ...result, id: createId() };
+    }
+    itemIds.add(result.id);
+
+    if (item.scheduledDates && !item.scheduledDates.every((date) => isValidDateKey(date))) {
+      result = { ...result, scheduledDates: item.scheduledDates.filter(isValidDateKey) };
+    }
+
+    if (item.children) {
+      const children = repairItems(item.children, itemIds, createId);
+      if (children !== item.children) {
+        result = { ...result, children };
+      }
+    }
+
+    if (result !== item) {
+      changed = true;
+    }
+    return result;
+  });
+
+  return changed ? repaired : items;
+}
+
+/**
+ * Removes orphaned record items and recreates missing records.
+ *
+ * @param data - Repaired app data
+ * @param records - Daily records
+ * @param todayKey - Today's date (YYYY-MM-DD)
+ * @returns Repaired daily records (the same object if nothing changed)
+ */
+function repairRecords(
+  data: AppData,
+  records: DailyRecordsData,
+  todayKey: string
+): DailyRecordsData {
+  const knownTaskIds = getKnownTaskIds(data);
+  const repaired: Record<string, DailyRecord> = { ...records.records };
+  let changed = false;
+
+  Object.entries(records.records).forEach(([date, record]) => {
+    const items = record.items || [];
+    const keptItems = items.filter((item) => knownTaskIds.has(item.taskId));
+
+    if (keptItems.length !== items.length) {
+      const completedCount = keptItems.filter((item) => item.done).length;
+      repaired[date] = {
+        ...record,
+        items: keptItems.map((item, order) => ({ ...item, order })),
+        completedCount,
+        totalCount: keptItems.length,
+        completionRate:
+          keptItems.length > 0 ? Math.round((completedCount / keptItems.length) * 100) : 0,
+      };
+      changed = true;
+    }
+  });
+
+  checkIntegrity(data, records, todayKey).forEach(({ type, date }) => {
+    if (type === 'missingDailyRecord' && date) {
+      repaired[date] = createDailySnapshot(date, data.tasks);
+      changed = true;
+    }
+  });
+
+  return changed ? { ...records, records: repaired } : records;
+}
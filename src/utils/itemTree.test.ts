@@ -0,0 +1,163 @@
+/**
+ * Item Tree Utility Test Suite
+ *
+ * Tests lookup, immutable updates and flattening of nested checklist items.
+ */
+
+import {
+  findItem,
+  getItemDepth,
+  updateItemInTree,
+  removeItemFromTree,
+  addChildItem,
+  findItemPosition,
+  insertItemAt,
+  flattenItems,
+  getLeafItems,
+  countItems,
+  flattenItemTree,
+  normalizeItemTree,
+} from './itemTree';
+import { ChecklistItem } from '../types';
+
+// Helper function to create a test item
+function createTestItem(id: string, children?: ChecklistItem[]): ChecklistItem {
+  return {
+    id,
+    title: `Item ${id}`,
+    done: false,
+    ...(children && { children }),
+  };
+}
+
+describe('Item Tree Utils', () => {
+  // a
+  // ├─ b
+  // │  └─ c
+  // └─ d
+  // e
+  const createTree = (): ChecklistItem[] => [
+    createTestItem('a', [createTestItem('b', [createTestItem('c')]), createTestItem('d')]),
+    createTestItem('e'),
+  ];
+
+  describe('findItem / getItemDepth', () => {
+    it('should find nested items and their depth', () => {
+      const items = createTree();
+
+      expect(findItem(items, 'c')?.title).toBe('Item c');
+      expect(getItemDepth(items, 'a')).toBe(0);
+      expect(getItemDepth(items, 'c')).toBe(2);
+    });
+
+    it('should return undefined / -1 for unknown items', () => {
+      const items = createTree();
+
+      expect(findItem(items, 'zzz')).toBeUndefined();
+      expect(getItemDepth(items, 'zzz')).toBe(-1);
+    });
+  });
+
+  describe('updateItemInTree', () => {
+    it('should update a nested item and keep untouched branches', () => {
+      const items = createTree();
+
+      const result = updateItemInTree(items, 'c', (item) => ({ ...item, done: true }));
+
+      expect(findItem(result, 'c')?.done).toBe(true);
+      expect(result[1]).toBe(items[1]);
+      expect(result[0].children![1]).toBe(items[0].children![1]);
+    });
+
+    it('should return the same array when the item does not exist', () => {
+      const items = createTree();
+
+      expect(updateItemInTree(items, 'zzz', (item) => ({ ...item, done: true }))).toBe(items);
+    });
+  });
+
+  describe('removeItemFromTree', () => {
+    it('should remove an item with its whole subtree', () => {
+      const result = removeItemFromTree(createTree(), 'b');
+
+      expect(flattenItems(result).map((item) => item.id)).toEqual(['a', 'd', 'e']);
+    });
+  });
+
+  describe('addChildItem', () => {
+    it('should append a child to a nested parent', () => {
+      const result = addChildItem(createTree(), 'd', createTestItem('f'));
+
+      expect(findItem(result, 'd')?.children?.map((item) => item.id)).toEqual(['f']);
+      expect(getItemDepth(result, 'f')).toBe(2);
+    });
+  });
+
+  describe('findItemPosition / insertItemAt', () => {
+    it('should locate top-level and nested items', () => {
+      const items = createTree();
+
+      expect(findItemPosition(items, 'e')).toEqual({ parentId: null, index: 1 });
+      expect(findItemPosition(items, 'd')).toEqual({ parentId: 'a', index: 1 });
+      expect(findItemPosition(items, 'zzz')).toBeUndefined();
+    });
+
+    it('should put a removed item back where it was', () => {
+      const items = createTree();
+      const removed = findItem(items, 'b')!;
+      const result = insertItemAt(removeItemFromTree(items, 'b'), 'a', 0, removed);
+
+      expect(result).toEqual(items);
+    });
+
+    it('should clamp the index to the sibling list', () => {
+      const result = insertItemAt(createTree(), null, 10, createTestItem('f'));
+
+      expect(result.map((item) => item.id)).toEqual(['a', 'e', 'f']);
+    });
+  });
+
+  describe('flattening', () => {
+    it('should list parents before their children', () => {
+      expect(flattenItems(createTree()).map((item) => item.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    it('should list and count leaves', () => {
+      const items = createTree();
+
+      expect(getLeafItems(items).map((item) => item.id)).toEqual(['c', 'd', 'e']);
+      expect(countItems(items)).toBe(5);
+    });
+
+    it('should skip the children of collapsed items', () => {
+      const rows = flattenItemTree(createTree(), new Set(['b']));
+
+      expect(rows.map(({ item, depth, parentId }) => [item.id, depth, parentId])).toEqual([
+        ['a', 0, undefined],
+        ['b', 1, 'a'],
+        ['d', 1, 'a'],
+        ['e', 0, undefined],
+      ]);
+    });
+  });
+
+  describe('normalizeItemTree', () => {
+    it('should remove empty and malformed children', () => {
+      const items = [
+        { ...createTestItem('a'), children: [] },
+        { ...createTestItem('b'), children: 'oops' as unknown as ChecklistItem[] },
+      ];
+
+      const result = normalizeItemTree(items);
+
+      expect(result[0]).not.toHaveProperty('children');
+      expect(result[1]).not.toHaveProperty('children');
+    });
+
+    it('should return the same array when nothing changes', () => {
+      const items = createTree();
+
+      expect(normalizeItemTree(items)).toBe(items);
+    });
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Item Tree Utility Module
+ *
+ * Helpers for checklist items nested through `children`.
+ *
+ * `Task.items` holds the top-level items; each item may hold its own child
+ * items. All helpers are immutable: they return new arrays and keep the
+ * identity of untouched branches so memoized views don't re-render.
+ */
+
+import { ChecklistItem } from '../types';
+
+/**
+ * Visible row of a flattened item tree (used for rendering)
+ */
+export interface ItemTreeRow {
+  /**
+   * The checklist item
+   */
+  item: ChecklistItem;
+
+  /**
+   * Nesting depth (0 = top-level item)
+   */
+  depth: number;
+
+  /**
+   * ID of the parent item, undefined for top-level items
+   */
+  parentId?: string;
+}
+
+/**
+ * Checks whether an item has child items.
+ */
+export function hasChildren(item: ChecklistItem): boolean {
+  return !!item.children && item.children.length > 0;
+}
+
+/**
+ * Finds an item anywhere in the tree.
+ *
+ * @param items - Top-level items
+ * @param itemId - ID of the item to find
+ * @returns The item, or undefined if not found
+ */
+export function findItem(items: ChecklistItem[], itemId: string): ChecklistItem | undefined {
+  for (const item of items) {
+    if (item.id === itemId) {
+      return item;
+    }
+    if (item.children) {
+      const found = findItem(item.children, itemId);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the nesting depth of an item (0 = top-level), or -1 if not found.
+ */
+export function getItemDepth(items: ChecklistItem[], itemId: string, depth: number = 0): number {
+  for (const item of items) {
+    if (item.id === itemId) {
+      return depth;
+    }
+    if (item.children) {
+      const found = getItemDepth(item.children, itemId, depth + 1);
+      if (found !== -1) {
+        return found;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Replaces an item anywhere in the tree with the result of `updater`.
+ *
+ * @param items - Top-level items
+ * @param itemId - ID of the item to update
+ * @param updater - Receives the current item and returns the updated item
+ * @returns New top-level items (unchanged branches keep their identity)
+ *
+ * @example
+ * updateItemInTree(task.items, itemId, (item) => ({ ...item, title: '새 제목' }));
+ */
+export function updateItemInTree(
+  items: ChecklistItem[],
+  itemId: string,
+  updater: (item: ChecklistItem) => ChecklistItem
+): ChecklistItem[] {
+  let changed = false;
+
+  const updated = items.map((item) => {
+    if (item.id === itemId) {
+      changed = true;
+      return updater(item);
+    }
+    if (item.children) {
+      const children = updateItemInTree(item.children, itemId, updater);
+      if (children !== item.children) {
+        changed = true;
+        return { ...item, children };
+      }
+    }
+    return item;
+  });
+
+  return changed ? updated : items;
+}
+
+/**
+ * Removes an item (and its whole subtree) from the tree.
+ *
+ * @param items - Top-level items
+ * @param itemId - ID of the item to remove
+ * @returns New top-level items
+ */
+export function removeItemFromTree(items: ChecklistItem[], itemId: string): ChecklistItem[] {
+  let changed = false;
+
+  const updated = items
+    .filter((item) => {
+      if (item.id === itemId) {
+        changed = true;
+        return false;
+      }
+      return true;
+    })
+    .map((item) => {
+      if (item.children) {
+        const children = removeItemFromTree(item.children, itemId);
+        if (children !== item.children) {
+          changed = true;
+          return { ...item, children };
+        }
+      }
+      return item;
+    });
+
+  return changed ? updated : items;
+}
+
+/**
+ * Appends a child item to a parent item anywhere in the tree.
+ *
+ * @param items - Top-level items
+ * @param parentId - ID of the parent item
+ * @param child - Item to append
+ * @returns New top-level items (unchanged if the parent doesn't exist)
+ */
+export function addChildItem(
+  items: ChecklistItem[],
+  parentId: string,
+  child: ChecklistItem
+): ChecklistItem[] {
+  return updateItemInTree(items, parentId, (parent) => ({
+    ...parent,
+    children: [...(parent.children || []), child],
+  }));
+}
+
+/**
+ * Finds where an item sits in the tree.
+ *
+ * @param items - Top-level items
+ * @param itemId - ID of the item to locate
+ * @param parentId - ID of the parent of `items` (null for the top level)
+ * @returns Parent ID (null for top-level items) and index among siblings, or undefined if not found
+ */
+export function findItemPosition(
+  items: ChecklistItem[],
+  itemId: string,
+  parentId: string | null = null
+): { parentId: string | null; index: number } | undefined {
+  for (let index = 0; index < items.length; index++) {
+    const item = items[index];
+    if (item.id === itemId) {
+      return { parentId, index };
+    }
+    if (item.children) {
+      const position = findItemPosition(item.children, itemId, item.id);
+      if (position) {
+        return position;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Inserts an item at a position among a parent's children (or the top-level items).
+ * The index is clamped to the sibling list, so a shorter list gets the item at the end.
+ *
+ * @param items - Top-level items
+ * @param parentId - ID of the parent item, or null for the top level
+ * @param index - Position among the siblings
+ * @param item - Item to insert
+ * @returns New top-level items (unchanged if the parent doesn't exist)
+ */
+export function insertItemAt(
+  items: ChecklistItem[],
+  parentId: string | null,
+  index: number,
+  item: ChecklistItem
+): ChecklistItem[] {
+  const insert = (siblings: ChecklistItem[]) => {
+    const position = Math.max(0, Math.min(index, siblings.length));
+    return [...siblings.slice(0, position), item, ...siblings.slice(position)];
+  };
+
+  if (parentId === null) {
+    return insert(items);
+  }
+
+  return updateItemInTree(items, parentId, (parent) => ({
+    ...parent,
+    children: insert(parent.children || []),
+  }));
+}
+
+/**
+ * Lists every item in the tree, parents before their children.
+ *
+ * @example
+ * flattenItems([{ id: 'a', children: [{ id: 'b' }] }, { id: 'c' }]);
+ * // Returns items: a, b, c
+ */
+export function flattenItems(items: ChecklistItem[]): ChecklistItem[] {
+  const result: ChecklistItem[] = [];
+
+  items.forEach((item) => {
+    result.push(item);
+    if (item.children) {
+      result.push(...flattenItems(item.children));
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Lists the items without children (the ones progress is counted from).
+ */
+export function getLeafItems(items: ChecklistItem[]): ChecklistItem[] {
+  return flattenItems(items).filter((item) => !hasChildren(item));
+}
+
+/**
+ * Counts every item in the tree, including nested ones.
+ */
+export function countItems(items: ChecklistItem[]): number {
+  return flattenItems(items).length;
+}
+
+/**
+ * Flattens the tree into rows for rendering, skipping the children of
+ * collapsed items.
+ *
+ * @param items - Top-level items
+ * @param collapsedIds - IDs of collapsed items
+ * @returns Visible rows with their depth, parents before their children
+ */
+export function flattenItemTree(
+  items: ChecklistItem[],
+  collapsedIds: ReadonlySet<string> = new Set(),
+  depth: number = 0,
+  parentId?: string
+): ItemTreeRow[] {
+  const rows: ItemTreeRow[] = [];
+
+  items.forEach((item) => {
+    rows.push({ item, depth, parentId });
+    if (item.children && !collapsedIds.has(item.id)) {
+      rows.push(...flattenItemTree(item.children, collapsedIds, depth + 1, item.id));
+    }
+  });
+
+  return rows;
+}
+
+/**
+ * Cleans up the `children` field throughout the tree: non-array values and
+ * empty arrays are removed. Used when loading data written by older versions
+ * or received from the cloud.
+ *
+ * @param items - Top-level items
+ * @returns Normalized items (unchanged branches keep their identity)
+ */
+export function normalizeItemTree(items: ChecklistItem[]): ChecklistItem[] {
+  let changed = false;
+
+  const normalized = items.map((item) => {
+    if (item.children === undefined) {
+      return item;
+    }
+
+    if (!Array.isArray(item.children) || item.children.length === 0) {
+      changed = true;
+      const { children: _children, ...rest } = item;
+      return rest;
+    }
+
+    const children = normalizeItemTree(item.children);
+    if (children !== item.children) {
+      changed = true;
+      return { ...item, children };
+    }
+    return item;
+  });
+
+  return changed ? normalized : items;
+}
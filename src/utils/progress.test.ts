@@ -174,6 +174,32 @@ describe('calcProgress', () => {
     });
   });
 
+  describe('Nested items', () => {
+    it('should count the leaves of nested items', () => {
+      const task: Task = {
+        ...createMockTask([]),
+        items: [
+          {
+            id: 'parent',
+            title: 'Parent',
+            done: false,
+            children: [
+              { id: 'child-1', title: 'Child 1', done: true },
+              { id: 'child-2', title: 'Child 2', done: false },
+            ],
+          },
+          { id: 'item', title: 'Item', done: true },
+        ],
+      };
+
+      expect(calcProgress(task)).toEqual({
+        done: 2,
+        total: 3,
+        percent: 67,
+      });
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle task with single incomplete item', () => {
       const task = createMockTask([{ done: false }]);
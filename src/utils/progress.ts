@@ -3,9 +3,15 @@
  *
  * Provides functions to calculate task completion progress
  * based on the number of completed checklist items.
+ *
+ * Nested items roll up: only items without children are counted, so a
+ * parent with three sub-items contributes three steps, not one.
  */
 
 import { Task, Progress } from '../types';
+import { getTodayKey } from '../services/dailyRecords';
+import { isItemDone, isItemDoneOn } from './completion';
+import { getLeafItems } from './itemTree';
 
 /**
  * Calculates the completion progress for a given task.
@@ -13,7 +19,12 @@ import { Task, Progress } from '../types';
  * Computes the number of completed items, total items, and completion
  * percentage. Handles edge cases like empty item arrays gracefully.
  *
+ * Without a date, items use their overall state (recurring items: today's occurrence).
+ * With a date, items use their per-date completion on that date.
+ * Nested items are counted through their leaves (items without children).
+ *
  * @param task - The task to calculate progress for
+ * @param date - Optional date (YYYY-MM-DD) to calculate progress for
  * @returns Progress object containing done count, total count, and percentage
  *
  * @example
@@ -64,7 +75,7 @@ import { Task, Progress } from '../types';
  * const completedProgress = calcProgress(completedTask);
  * // Returns: { done: 2, total: 2, percent: 100 }
  */
-export function calcProgress(task: Task): Progress {
+export function calcProgress(task: Task, date?: string): Progress {
   // Handle empty items array - return 0% progress
   if (!task.items || task.items.length === 0) {
     return {
@@ -74,8 +85,12 @@ export function calcProgress(task: Task): Progress {
     };
   }
 
-  const total = task.items.length;
-  const done = task.items.filter((item) => item.done).length;
+  const leaves = getLeafItems(task.items);
+  const total = leaves.length;
+  const todayKey = getTodayKey();
+  const done = leaves.filter((item) =>
+    date ? isItemDoneOn(item, date) : isItemDone(item, todayKey)
+  ).length;
 
   // Calculate percentage and round to nearest integer
   // Avoid division by zero (already handled above, but safe guard)
@@ -0,0 +1,87 @@
+/**
+ * Record Retention Utility Test Suite
+ *
+ * Tests the detail period cutoff and compacting old daily records
+ * down to their counts.
+ */
+
+import {
+  compactDailyRecords,
+  getRecordDetailCutoff,
+  DEFAULT_RECORD_DETAIL_DAYS,
+} from './recordRetention';
+import { DailyRecord, DailyRecordsData } from '../types';
+
+// Helper function to create a daily record with items
+function createRecord(date: string): DailyRecord {
+  return {
+    date,
+    completedCount: 1,
+    totalCount: 2,
+    completionRate: 50,
+    savedAt: `${date}T23:59:00.000Z`,
+    items: [
+      { id: '1', taskId: 'a', taskTitle: 'Task a', title: 'Done', done: true, order: 0 },
+      { id: '2', taskId: 'a', taskTitle: 'Task a', title: 'Open', done: false, order: 1 },
+    ],
+  };
+}
+
+// Helper function to create daily records data
+function createRecords(dates: string[]): DailyRecordsData {
+  return {
+    schemaVersion: 1,
+    records: Object.fromEntries(dates.map((date) => [date, createRecord(date)])),
+  };
+}
+
+describe('Record Retention Utils', () => {
+  describe('getRecordDetailCutoff', () => {
+    it('should count back the detail period from today', () => {
+      expect(getRecordDetailCutoff('2025-11-10', 30)).toBe('2025-10-11');
+      expect(getRecordDetailCutoff('2025-03-01', 1)).toBe('2025-02-28');
+      expect(getRecordDetailCutoff('2026-01-15', 365)).toBe('2025-01-15');
+    });
+
+    it('should keep 90 days by default', () => {
+      expect(DEFAULT_RECORD_DETAIL_DAYS).toBe(90);
+    });
+  });
+
+  describe('compactDailyRecords', () => {
+    it('should remove the items of records before the cutoff and keep their counts', () => {
+      const data = createRecords(['2025-09-30', '2025-10-01', '2025-10-02']);
+
+      const result = compactDailyRecords(data, '2025-10-02');
+
+      expect(result.compactedDates).toEqual(['2025-09-30', '2025-10-01']);
+      expect(result.data.records['2025-09-30'].items).toBeUndefined();
+      expect(result.data.records['2025-09-30']).toMatchObject({
+        completedCount: 1,
+        totalCount: 2,
+        completionRate: 50,
+      });
+      expect(result.data.records['2025-10-02']).toBe(data.records['2025-10-02']);
+    });
+
+    it('should leave the original records untouched', () => {
+      const data = createRecords(['2025-09-30']);
+
+      compactDailyRecords(data, '2025-10-01');
+
+      expect(data.records['2025-09-30'].items).toHaveLength(2);
+    });
+
+    it('should return the same data when nothing needs compacting', () => {
+      const data = createRecords(['2025-10-05']);
+      const compacted = compactDailyRecords(createRecords(['2025-09-01']), '2025-10-01').data;
+
+      expect(compactDailyRecords(data, '2025-10-01').data).toBe(data);
+      // Records already compacted aren't compacted again
+      expect(compactDailyRecords(compacted, '2025-10-01')).toEqual({
+        data: compacted,
+        compactedDates: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Record Retention Utility Module
+ *
+ * Keeps the daily records from growing without bound.
+ * Recent records keep their full item snapshots; older records are
+ * compacted down to their counts and completion rate, which is all the
+ * calendar needs to color a past day.
+ */
+
+import { DailyRecord, DailyRecordsData } from '../types';
+import { addDaysToDateKey } from './dateKey';
+
+/**
+ * Days daily records keep their item snapshots when not configured
+ */
+export const DEFAULT_RECORD_DETAIL_DAYS = 90;
+
+/**
+ * Returns the first date whose record keeps its items.
+ *
+ * @param todayKey - Today's date (YYYY-MM-DD)
+ * @param detailDays - Days records keep their items
+ * @returns Date key; records before it are compacted
+ *
+ * @example
+ * getRecordDetailCutoff('2025-11-10', 90); // Returns: '2025-08-12'
+ */
+export function getRecordDetailCutoff(todayKey: string, detailDays: number): string {
+  return addDaysToDateKey(todayKey, -detailDays);
+}
+
+/**
+ * Removes the item snapshots of records before a date.
+ * Counts and completion rate are kept.
+ *
+ * @param data - Daily records
+ * @param cutoffDate - First date whose record keeps its items (YYYY-MM-DD)
+ * @returns Compacted records (the same object if nothing changed) and the compacted dates
+ *
+ * @example
+ * const { data, compactedDates } = compactDailyRecords(records, '2025-08-12');
+ */
+export function compactDailyRecords(
+  data: DailyRecordsData,
+  cutoffDate: string
+): { data: DailyRecordsData; compactedDates: string[] } {
+  const compactedDates = Object.keys(data.records)
+    .filter((date) => date < cutoffDate && data.records[date].items !== undefined)
+    .sort();
+
+  if (compactedDates.length === 0) {
+    return { data, compactedDates };
+  }
+
+  const records: Record<string, DailyRecord> = { ...data.records };
+  compactedDates.forEach((date) => {
+    records[date] = { ...records[date], items: undefined };
+  });
+
+  return { data: { ...data, records }, compactedDates };
+}
@@ -0,0 +1,110 @@
+/**
+ * Record Sync Utility Test Suite
+ *
+ * Tests choosing the pulled date range, merging cloud records into the
+ * local ones and selecting the records to push.
+ */
+
+import {
+  getRecordPullStartDate,
+  getRecordsToPush,
+  mergeDailyRecords,
+  RECORD_SYNC_OVERLAP_DAYS,
+} from './recordSync';
+import { DailyRecord } from '../types';
+
+const T0 = '2025-11-01T00:00:00.000Z';
+const T1 = '2025-11-02T00:00:00.000Z';
+const T2 = '2025-11-03T00:00:00.000Z';
+
+// Helper function to create a test record
+function createTestRecord(date: string, savedAt: string = T0, completedCount = 1): DailyRecord {
+  return {
+    date,
+    completedCount,
+    totalCount: 2,
+    completionRate: Math.round((completedCount / 2) * 100),
+    savedAt,
+  };
+}
+
+// Helper function to index records by date
+function byDate(...records: DailyRecord[]): Record<string, DailyRecord> {
+  return Object.fromEntries(records.map((record) => [record.date, record]));
+}
+
+describe('Record Sync Utils', () => {
+  describe('getRecordPullStartDate', () => {
+    it('should start a few days before the last sync', () => {
+      expect(RECORD_SYNC_OVERLAP_DAYS).toBe(7);
+      expect(getRecordPullStartDate('2025-11-10')).toBe('2025-11-03');
+      expect(getRecordPullStartDate('2025-03-03')).toBe('2025-02-24');
+    });
+
+    it('should pull everything on the first sync', () => {
+      expect(getRecordPullStartDate(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('mergeDailyRecords', () => {
+    it('should take cloud records that are newer or missing locally', () => {
+      const local = byDate(
+        createTestRecord('2025-11-01', T1),
+        createTestRecord('2025-11-02', T1),
+        createTestRecord('2025-11-03', T1)
+      );
+      const newer = createTestRecord('2025-11-02', T2, 2);
+      const missing = createTestRecord('2025-11-04', T0);
+
+      const result = mergeDailyRecords(local, [
+        createTestRecord('2025-11-01', T0, 0),
+        missing,
+        newer,
+      ]);
+
+      expect(result.pulledDates).toEqual(['2025-11-02', '2025-11-04']);
+      expect(result.records['2025-11-01']).toBe(local['2025-11-01']);
+      expect(result.records['2025-11-02']).toBe(newer);
+      expect(result.records['2025-11-04']).toBe(missing);
+    });
+
+    it('should keep the local record when both were saved at the same time', () => {
+      const local = byDate(createTestRecord('2025-11-01', T1));
+
+      const result = mergeDailyRecords(local, [createTestRecord('2025-11-01', T1, 2)]);
+
+      expect(result.pulledDates).toEqual([]);
+      expect(result.records).toBe(local);
+    });
+  });
+
+  describe('getRecordsToPush', () => {
+    it('should push records newer than their cloud version', () => {
+      const local = byDate(createTestRecord('2025-11-05', T2), createTestRecord('2025-11-06', T0));
+      const cloud = [createTestRecord('2025-11-05', T1), createTestRecord('2025-11-06', T1)];
+
+      expect(getRecordsToPush(local, cloud, '2025-11-01', T1)).toEqual([local['2025-11-05']]);
+    });
+
+    it('should push records missing from the cloud within the pulled range', () => {
+      const local = byDate(createTestRecord('2025-11-05', T0), createTestRecord('2025-10-01', T0));
+
+      expect(getRecordsToPush(local, [], '2025-11-01', T1)).toEqual([local['2025-11-05']]);
+    });
+
+    it('should push older dates only when saved since the last push', () => {
+      const local = byDate(createTestRecord('2025-10-02', T2), createTestRecord('2025-10-01', T0));
+
+      expect(getRecordsToPush(local, [], '2025-11-01', T1)).toEqual([local['2025-10-02']]);
+    });
+
+    it('should push every record missing from the cloud on the first sync, oldest first', () => {
+      const local = byDate(createTestRecord('2025-11-05'), createTestRecord('2025-10-01'));
+
+      expect(getRecordsToPush(local, []).map((record) => record.date)).toEqual([
+        '2025-10-01',
+        '2025-11-05',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Record Sync Utility Module
+ *
+ * Merges the daily records on this device with those in the cloud.
+ * There is one record per date; the record saved last (`savedAt`) wins.
+ *
+ * Syncs are incremental by date range: after the first sync, only records
+ * from a few days before the last sync onwards are pulled (records of
+ * older dates rarely change). Records saved on this device since the last
+ * push are sent whatever their date.
+ */
+
+import { DailyRecord } from '../types';
+import { addDaysToDateKey } from './dateKey';
+
+/**
+ * Days before the last sync date that are pulled again, so records saved
+ * late (a device that was offline, the daily save after midnight) aren't missed
+ */
+export const RECORD_SYNC_OVERLAP_DAYS = 7;
+
+/**
+ * Returns the first date to pull from the cloud.
+ *
+ * @param lastSyncedDate - Date of the last successful record sync (YYYY-MM-DD)
+ * @returns Date key, or undefined to pull every record (first sync)
+ *
+ * @example
+ * getRecordPullStartDate('2025-11-10'); // Returns: '2025-11-03'
+ * getRecordPullStartDate(undefined); // Returns: undefined
+ */
+export function getRecordPullStartDate(lastSyncedDate?: string): string | undefined {
+  return lastSyncedDate ? addDaysToDateKey(lastSyncedDate, -RECORD_SYNC_OVERLAP_DAYS) : undefined;
+}
+
+/**
+ * Adds the cloud records that are newer than the local ones (or missing
+ * locally). On equal `savedAt`, the local record is kept.
+ *
+ * @param local - Local records by date
+ * @param cloud - Records pulled from the cloud
+ * @returns Merged records (the local object if nothing was pulled) and the dates taken from the cloud
+ *
+ * @example
+ * const { records, pulledDates } = mergeDailyRecords(data.records, cloudRecords);
+ */
+export function mergeDailyRecords(
+  local: Record<string, DailyRecord>,
+  cloud: DailyRecord[]
+): { records: Record<string, DailyRecord>; pulledDates: string[] } {
+  const newer = cloud.filter((record) => {
+    const localRecord = local[record.date];
+    return !localRecord || isSavedLater(record, localRecord);
+  });
+
+  if (newer.length === 0) {
+    return { records: local, pulledDates: [] };
+  }
+
+  const records = { ...local };
+  newer.forEach((record) => {
+    records[record.date] = record;
+  });
+
+  return { records, pulledDates: newer.map((record) => record.date).sort() };
+}
+
+/**
+ * Selects the local records the cloud needs:
+ * - Records newer than their cloud version
+ * - Records missing from the cloud, within the pulled range
+ * - Records outside the pulled range saved since the last push
+ *
+ * @param local - Local records by date
+ * @param cloud - Records pulled from the cloud
+ * @param pullStartDate - First date pulled (undefined if every record was pulled)
+ * @param lastPushedAt - When records were last pushed (ISO 8601)
+ * @returns Records to push, oldest date first
+ */
+export function getRecordsToPush(
+  local: Record<string, DailyRecord>,
+  cloud: DailyRecord[],
+  pullStartDate?: string,
+  lastPushedAt?: string
+): DailyRecord[] {
+  const cloudByDate = new Map(cloud.map((record) => [record.date, record]));
+
+  return Object.values(local)
+    .filter((record) => {
+      const cloudRecord = cloudByDate.get(record.date);
+      if (cloudRecord) {
+        return isSavedLater(record, cloudRecord);
+      }
+      if (!pullStartDate || record.date >= pullStartDate) {
+        return true;
+      }
+      return !lastPushedAt || toTime(record.savedAt) > toTime(lastPushedAt);
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Checks whether a record was saved after another one
+ */
+function isSavedLater(record: DailyRecord, other: DailyRecord): boolean {
+  return toTime(record.savedAt) > toTime(other.savedAt);
+}
+
+/**
+ * Converts a timestamp to milliseconds (0 when invalid)
+ */
+function toTime(timestamp: string): number {
+  return new Date(timestamp).getTime() || 0;
+}
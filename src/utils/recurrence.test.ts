@@ -0,0 +1,167 @@
+/**
+ * Recurrence Utility Test Suite
+ *
+ * Tests recurrence rule expansion and rule validation.
+ */
+
+import {
+  occursOn,
+  isItemScheduledOn,
+  validateRecurrenceRule,
+  describeRecurrence,
+} from './recurrence';
+import { ChecklistItem, RecurrenceRule } from '../types';
+
+// Helper function to create a test item
+function createTestItem(overrides: Partial<ChecklistItem> = {}): ChecklistItem {
+  return {
+    id: 'item-1',
+    title: 'Stretch 10 minutes',
+    done: false,
+    ...overrides,
+  };
+}
+
+describe('Recurrence Utils', () => {
+  describe('occursOn', () => {
+    it('should occur every day for daily rules', () => {
+      const rule: RecurrenceRule = { frequency: 'daily', startDate: '2025-11-01' };
+
+      expect(occursOn(rule, '2025-11-01')).toBe(true);
+      expect(occursOn(rule, '2025-12-25')).toBe(true);
+    });
+
+    it('should not occur before startDate or after endDate', () => {
+      const rule: RecurrenceRule = {
+        frequency: 'daily',
+        startDate: '2025-11-05',
+        endDate: '2025-11-10',
+      };
+
+      expect(occursOn(rule, '2025-11-04')).toBe(false);
+      expect(occursOn(rule, '2025-11-10')).toBe(true);
+      expect(occursOn(rule, '2025-11-11')).toBe(false);
+    });
+
+    it('should occur only Monday to Friday for weekday rules', () => {
+      const rule: RecurrenceRule = { frequency: 'weekdays', startDate: '2025-11-01' };
+
+      // 2025-11-07 is a Friday, 2025-11-08 Saturday, 2025-11-10 Monday
+      expect(occursOn(rule, '2025-11-07')).toBe(true);
+      expect(occursOn(rule, '2025-11-08')).toBe(false);
+      expect(occursOn(rule, '2025-11-09')).toBe(false);
+      expect(occursOn(rule, '2025-11-10')).toBe(true);
+    });
+
+    it('should occur every N days from startDate for interval rules', () => {
+      const rule: RecurrenceRule = { frequency: 'interval', startDate: '2025-10-30', interval: 3 };
+
+      expect(occursOn(rule, '2025-10-30')).toBe(true);
+      expect(occursOn(rule, '2025-10-31')).toBe(false);
+      expect(occursOn(rule, '2025-11-02')).toBe(true);
+      expect(occursOn(rule, '2025-11-05')).toBe(true);
+    });
+
+    it('should occur on selected weekdays for weekly rules', () => {
+      const rule: RecurrenceRule = {
+        frequency: 'weekly',
+        startDate: '2025-11-01',
+        daysOfWeek: [1, 3],
+      };
+
+      expect(occursOn(rule, '2025-11-10')).toBe(true); // Monday
+      expect(occursOn(rule, '2025-11-11')).toBe(false); // Tuesday
+      expect(occursOn(rule, '2025-11-12')).toBe(true); // Wednesday
+    });
+
+    it('should clamp monthly rules to the last day of shorter months', () => {
+      const rule: RecurrenceRule = {
+        frequency: 'monthly',
+        startDate: '2025-01-01',
+        dayOfMonth: 31,
+      };
+
+      expect(occursOn(rule, '2025-01-31')).toBe(true);
+      expect(occursOn(rule, '2025-02-28')).toBe(true);
+      expect(occursOn(rule, '2025-02-27')).toBe(false);
+      expect(occursOn(rule, '2025-04-30')).toBe(true);
+    });
+  });
+
+  describe('isItemScheduledOn', () => {
+    it('should combine scheduledDates and recurrence', () => {
+      const item = createTestItem({
+        scheduledDates: ['2025-11-08'],
+        recurrence: { frequency: 'weekdays', startDate: '2025-11-01' },
+      });
+
+      expect(isItemScheduledOn(item, '2025-11-07')).toBe(true);
+      expect(isItemScheduledOn(item, '2025-11-08')).toBe(true);
+      expect(isItemScheduledOn(item, '2025-11-09')).toBe(false);
+    });
+
+    it('should only use scheduledDates for non-recurring items', () => {
+      const item = createTestItem({ scheduledDates: ['2025-11-08'] });
+
+      expect(isItemScheduledOn(item, '2025-11-08')).toBe(true);
+      expect(isItemScheduledOn(item, '2025-11-09')).toBe(false);
+    });
+  });
+
+  describe('validateRecurrenceRule', () => {
+    it('should accept valid rules', () => {
+      expect(validateRecurrenceRule({ frequency: 'daily', startDate: '2025-11-01' }).valid).toBe(
+        true
+      );
+      expect(
+        validateRecurrenceRule({ frequency: 'monthly', startDate: '2025-11-01', dayOfMonth: 15 })
+          .valid
+      ).toBe(true);
+    });
+
+    it('should reject invalid dates', () => {
+      expect(validateRecurrenceRule({ frequency: 'daily', startDate: '2025-02-30' }).valid).toBe(
+        false
+      );
+      expect(
+        validateRecurrenceRule({
+          frequency: 'daily',
+          startDate: '2025-11-05',
+          endDate: '2025-11-01',
+        }).valid
+      ).toBe(false);
+    });
+
+    it('should reject rules missing frequency details', () => {
+      expect(
+        validateRecurrenceRule({ frequency: 'interval', startDate: '2025-11-01', interval: 0 })
+          .valid
+      ).toBe(false);
+      expect(
+        validateRecurrenceRule({ frequency: 'weekly', startDate: '2025-11-01', daysOfWeek: [] })
+          .valid
+      ).toBe(false);
+      expect(
+        validateRecurrenceRule({ frequency: 'monthly', startDate: '2025-11-01', dayOfMonth: 32 })
+          .valid
+      ).toBe(false);
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('should describe rules in Korean', () => {
+      expect(describeRecurrence({ frequency: 'daily', startDate: '2025-11-01' })).toBe('매일');
+      expect(
+        describeRecurrence({ frequency: 'weekly', startDate: '2025-11-01', daysOfWeek: [3, 1] })
+      ).toBe('매주 월, 수');
+      expect(
+        describeRecurrence({
+          frequency: 'interval',
+          startDate: '2025-11-01',
+          interval: 3,
+          endDate: '2025-12-31',
+        })
+      ).toBe('3일마다 (~2025-12-31)');
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Recurrence Utility Module
+ *
+ * Expands recurrence rules on recurring checklist items.
+ * Per-date completion state lives in ./completion.
+ *
+ * All dates are YYYY-MM-DD keys in the local timezone.
+ */
+
+import { ChecklistItem, RecurrenceRule, ValidationResult } from '../types';
+import { parseDateKey, daysBetween, isValidDateKey } from './dateKey';
+
+const MAX_INTERVAL_DAYS = 365;
+const DAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+/**
+ * Checks whether a recurrence rule produces an occurrence on the given date.
+ *
+ * @param rule - Recurrence rule to expand
+ * @param dateKey - Date to check (YYYY-MM-DD)
+ * @returns True if the rule occurs on that date
+ *
+ * @example
+ * occursOn({ frequency: 'weekdays', startDate: '2025-11-01' }, '2025-11-08');
+ * // Returns: false (Saturday)
+ *
+ * @example
+ * occursOn({ frequency: 'monthly', startDate: '2025-01-01', dayOfMonth: 31 }, '2025-02-28');
+ * // Returns: true (clamped to the last day of February)
+ */
+export function occursOn(rule: RecurrenceRule, dateKey: string): boolean {
+  // String comparison works for zero-padded date keys
+  if (dateKey < rule.startDate) {
+    return false;
+  }
+
+  if (rule.endDate && dateKey > rule.endDate) {
+    return false;
+  }
+
+  const { year, month, day } = parseDateKey(dateKey);
+  const dayOfWeek = new Date(year, month - 1, day).getDay();
+
+  switch (rule.frequency) {
+    case 'daily':
+      return true;
+
+    case 'weekdays':
+      return dayOfWeek >= 1 && dayOfWeek <= 5;
+
+    case 'interval': {
+      const interval = rule.interval || 1;
+      return daysBetween(rule.startDate, dateKey) % interval === 0;
+    }
+
+    case 'weekly':
+      return (rule.daysOfWeek || []).includes(dayOfWeek);
+
+    case 'monthly': {
+      if (!rule.dayOfMonth) {
+        return false;
+      }
+      const daysInMonth = new Date(year, month, 0).getDate();
+      return day === Math.min(rule.dayOfMonth, daysInMonth);
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks whether a checklist item has a recurrence rule.
+ */
+export function isRecurring(item: ChecklistItem): boolean {
+  return !!item.recurrence;
+}
+
+/**
+ * Checks whether a checklist item is scheduled on a date,
+ * either explicitly via scheduledDates or through its recurrence rule.
+ *
+ * @param item - Checklist item to check
+ * @param dateKey - Date to check (YYYY-MM-DD)
+ * @returns True if the item appears on that date
+ */
+export function isItemScheduledOn(item: ChecklistItem, dateKey: string): boolean {
+  if ((item.scheduledDates || []).includes(dateKey)) {
+    return true;
+  }
+
+  return !!item.recurrence && occursOn(item.recurrence, dateKey);
+}
+
+/**
+ * Validates a recurrence rule before it is attached to an item.
+ *
+ * @param rule - Recurrence rule to validate
+ * @returns ValidationResult with a user-facing error message if invalid
+ *
+ * @example
+ * validateRecurrenceRule({ frequency: 'interval', startDate: '2025-11-06', interval: 0 });
+ * // Returns: { valid: false, error: '반복 간격은 1일에서 365일 사이여야 합니다' }
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): ValidationResult {
+  if (!isValidDateKey(rule.startDate)) {
+    return { valid: false, error: '시작 날짜가 올바르지 않습니다' };
+  }
+
+  if (rule.endDate !== undefined) {
+    if (!isValidDateKey(rule.endDate)) {
+      return { valid: false, error: '종료 날짜가 올바르지 않습니다' };
+    }
+    if (rule.endDate < rule.startDate) {
+      return { valid: false, error: '종료 날짜는 시작 날짜 이후여야 합니다' };
+    }
+  }
+
+  switch (rule.frequency) {
+    case 'daily':
+    case 'weekdays':
+      return { valid: true };
+
+    case 'interval':
+      if (
+        !Number.isInteger(rule.interval) ||
+        (rule.interval as number) < 1 ||
+        (rule.interval as number) > MAX_INTERVAL_DAYS
+      ) {
+        return {
+          valid: false,
+          error: `반복 간격은 1일에서 ${MAX_INTERVAL_DAYS}일 사이여야 합니다`,
+        };
+      }
+      return { valid: true };
+
+    case 'weekly':
+      if (
+        !rule.daysOfWeek ||
+        rule.daysOfWeek.length === 0 ||
+        !rule.daysOfWeek.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+      ) {
+        return { valid: false, error: '반복할 요일을 선택해주세요' };
+      }
+      return { valid: true };
+
+    case 'monthly':
+      if (
+        !Number.isInteger(rule.dayOfMonth) ||
+        (rule.dayOfMonth as number) < 1 ||
+        (rule.dayOfMonth as number) > 31
+      ) {
+        return { valid: false, error: '반복할 날짜는 1일에서 31일 사이여야 합니다' };
+      }
+      return { valid: true };
+
+    default:
+      return { valid: false, error: '지원하지 않는 반복 규칙입니다' };
+  }
+}
+
+/**
+ * Returns a short Korean label describing a recurrence rule.
+ *
+ * @example
+ * describeRecurrence({ frequency: 'weekly', startDate: '2025-11-06', daysOfWeek: [1, 3] });
+ * // Returns: "매주 월, 수"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let label: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      label = '매일';
+      break;
+    case 'weekdays':
+      label = '평일';
+      break;
+    case 'interval':
+      label = `${rule.interval || 1}일마다`;
+      break;
+    case 'weekly':
+      label = `매주 ${[...(rule.daysOfWeek || [])]
+        .sort((a, b) => a - b)
+        .map((d) => DAY_LABELS[d])
+        .join(', ')}`;
+      break;
+    case 'monthly':
+      label = `매월 ${rule.dayOfMonth}일`;
+      break;
+    default:
+      label = '반복';
+  }
+
+  return rule.endDate ? `${label} (~${rule.endDate})` : label;
+}
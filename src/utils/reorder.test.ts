@@ -0,0 +1,155 @@
+/**
+ * Reorder Utility Test Suite
+ *
+ * Tests list moves, drop position calculation and the persisted orders of
+ * tasks and day plans.
+ */
+
+import {
+  moveItem,
+  getDropIndex,
+  getRowShift,
+  sortTasksByOrder,
+  normalizeTaskOrder,
+  getFirstTaskOrder,
+  applyTaskOrder,
+  sortByPlanOrder,
+} from './reorder';
+import { Task, ChecklistItem } from '../types';
+
+const DATE = '2025-11-06';
+
+// Helper function to create a test task
+function createTestTask(id: string, order?: number): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    items: [],
+    createdAt: '2025-11-01T00:00:00.000Z',
+    updatedAt: '2025-11-01T00:00:00.000Z',
+    ...(order !== undefined && { order }),
+  };
+}
+
+// Helper function to create a test item with an optional plan position for DATE
+function createTestItem(id: string, position?: number): ChecklistItem {
+  return {
+    id,
+    title: `Item ${id}`,
+    done: false,
+    ...(position !== undefined && { planOrder: { [DATE]: position } }),
+  };
+}
+
+describe('Reorder Utils', () => {
+  describe('moveItem', () => {
+    it('should move an element forwards and backwards', () => {
+      expect(moveItem(['a', 'b', 'c', 'd'], 0, 2)).toEqual(['b', 'c', 'a', 'd']);
+      expect(moveItem(['a', 'b', 'c', 'd'], 3, 1)).toEqual(['a', 'd', 'b', 'c']);
+    });
+
+    it('should return the same list for no-op or out-of-range moves', () => {
+      const list = ['a', 'b'];
+
+      expect(moveItem(list, 1, 1)).toBe(list);
+      expect(moveItem(list, 0, 5)).toBe(list);
+      expect(moveItem(list, -1, 0)).toBe(list);
+    });
+  });
+
+  describe('getDropIndex / getRowShift', () => {
+    // Three rows of 50px each
+    const layouts = [
+      { y: 0, height: 50 },
+      { y: 50, height: 50 },
+      { y: 100, height: 50 },
+    ];
+
+    it('should keep the position for small drags', () => {
+      expect(getDropIndex(layouts, 1, 10)).toBe(1);
+      expect(getDropIndex(layouts, 1, -10)).toBe(1);
+    });
+
+    it('should move past rows whose center was crossed', () => {
+      expect(getDropIndex(layouts, 0, 60)).toBe(1);
+      expect(getDropIndex(layouts, 0, 200)).toBe(2);
+      expect(getDropIndex(layouts, 2, -80)).toBe(1);
+      expect(getDropIndex(layouts, 2, -110)).toBe(0);
+    });
+
+    it('should shift the rows between the dragged row and its drop position', () => {
+      // Row 0 dragged to position 2: rows 1 and 2 move up
+      expect([0, 1, 2].map((index) => getRowShift(index, 0, 2, 50))).toEqual([0, -50, -50]);
+      // Row 2 dragged to position 0: rows 0 and 1 move down
+      expect([0, 1, 2].map((index) => getRowShift(index, 2, 0, 50))).toEqual([50, 50, 0]);
+    });
+  });
+
+  describe('task order', () => {
+    it('should sort by order and keep unordered tasks last in their original order', () => {
+      const tasks = [
+        createTestTask('x'),
+        createTestTask('b', 1),
+        createTestTask('y'),
+        createTestTask('a', -1),
+      ];
+
+      expect(sortTasksByOrder(tasks).map((task) => task.id)).toEqual(['a', 'b', 'x', 'y']);
+    });
+
+    it('should give unordered tasks an order after the last task', () => {
+      const tasks = [createTestTask('x'), createTestTask('a', 3)];
+
+      const result = normalizeTaskOrder(tasks);
+
+      expect(result.map((task) => [task.id, task.order])).toEqual([
+        ['a', 3],
+        ['x', 4],
+      ]);
+      expect(result[0]).toBe(tasks[1]);
+    });
+
+    it('should place new tasks before the first task', () => {
+      expect(getFirstTaskOrder([])).toBe(0);
+      expect(getFirstTaskOrder([createTestTask('a', 2), createTestTask('b', -3)])).toBe(-4);
+    });
+
+    it('should only touch tasks whose order changes', () => {
+      const tasks = [createTestTask('b', 1), createTestTask('a', 0)];
+      const updatedAt = '2025-11-06T09:00:00.000Z';
+
+      const result = applyTaskOrder(tasks, updatedAt);
+
+      expect(result.map((task) => [task.id, task.order, task.updatedAt])).toEqual([
+        ['b', 0, updatedAt],
+        ['a', 1, updatedAt],
+      ]);
+      expect(applyTaskOrder(result, 'later')[0]).toBe(result[0]);
+    });
+  });
+
+  describe('sortByPlanOrder', () => {
+    it('should sort by the plan position for the date and keep unarranged entries last', () => {
+      const entries = [
+        { item: createTestItem('new') },
+        { item: createTestItem('second', 1) },
+        { item: createTestItem('first', 0) },
+      ];
+
+      expect(sortByPlanOrder(entries, DATE).map(({ item }) => item.id)).toEqual([
+        'first',
+        'second',
+        'new',
+      ]);
+    });
+
+    it('should ignore positions saved for other dates', () => {
+      const entries = [
+        { item: createTestItem('a') },
+        { item: { ...createTestItem('b'), planOrder: { '2025-11-05': 0 } } },
+      ];
+
+      expect(sortByPlanOrder(entries, DATE).map(({ item }) => item.id)).toEqual(['a', 'b']);
+    });
+  });
+});
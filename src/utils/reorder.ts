@@ -0,0 +1,187 @@
+/**
+ * Reorder Utility Module
+ *
+ * Helpers for the manual ordering of tasks, checklist items and a day's plan.
+ *
+ * - Tasks carry an `order` number so the order survives cloud sync and merges
+ * - Checklist items are ordered by their position in `items` / `children`
+ * - A day's plan is ordered by each item's `planOrder` entry for that date
+ */
+
+import { Task, ChecklistItem } from '../types';
+
+/**
+ * Vertical position and size of a rendered row (from onLayout)
+ */
+export interface RowLayout {
+  y: number;
+  height: number;
+}
+
+/**
+ * Returns a copy of the list with one element moved to a new index.
+ *
+ * @param list - Source list
+ * @param fromIndex - Current index of the element
+ * @param toIndex - Target index of the element
+ * @returns New list (the same list if nothing moves)
+ *
+ * @example
+ * moveItem(['a', 'b', 'c'], 0, 2); // Returns: ['b', 'c', 'a']
+ */
+export function moveItem<T>(list: T[], fromIndex: number, toIndex: number): T[] {
+  if (
+    fromIndex === toIndex ||
+    fromIndex < 0 ||
+    fromIndex >= list.length ||
+    toIndex < 0 ||
+    toIndex >= list.length
+  ) {
+    return list;
+  }
+
+  const result = [...list];
+  const [moved] = result.splice(fromIndex, 1);
+  result.splice(toIndex, 0, moved);
+  return result;
+}
+
+/**
+ * Calculates where a dragged row would be dropped.
+ *
+ * @param layouts - Layouts of all rows in list order
+ * @param activeIndex - Index of the dragged row
+ * @param dy - Vertical distance the row was dragged
+ * @returns Target index of the dragged row
+ */
+export function getDropIndex(layouts: RowLayout[], activeIndex: number, dy: number): number {
+  const active = layouts[activeIndex];
+  if (!active) {
+    return activeIndex;
+  }
+
+  const center = active.y + active.height / 2 + dy;
+
+  // Count the other rows whose center is above the dragged row's center
+  return layouts.filter(
+    (layout, index) => index !== activeIndex && layout && layout.y + layout.height / 2 < center
+  ).length;
+}
+
+/**
+ * Sorts tasks by their `order` (ascending).
+ * Tasks without an order go last and keep their relative order.
+ *
+ * @param tasks - Tasks to sort
+ * @returns New sorted array
+ */
+export function sortTasksByOrder(tasks: Task[]): Task[] {
+  return tasks
+    .map((task, index) => ({ task, index }))
+    .sort((a, b) => {
+      const orderA = a.task.order ?? Number.POSITIVE_INFINITY;
+      const orderB = b.task.order ?? Number.POSITIVE_INFINITY;
+      if (orderA !== orderB) {
+        return orderA < orderB ? -1 : 1;
+      }
+      return a.index - b.index;
+    })
+    .map(({ task }) => task);
+}
+
+/**
+ * Sorts tasks by order and gives tasks without one an order after the last task.
+ * Existing orders are kept, so loading older data doesn't change other tasks.
+ *
+ * @param tasks - Tasks to normalize
+ * @returns New sorted array where every task has an order
+ */
+export function normalizeTaskOrder(tasks: Task[]): Task[] {
+  const sorted = sortTasksByOrder(tasks);
+  let nextOrder = sorted.reduce((max, task) => Math.max(max, task.order ?? -1), -1) + 1;
+
+  return sorted.map((task) => (task.order === undefined ? { ...task, order: nextOrder++ } : task));
+}
+
+/**
+ * Returns the order for a task added in front of all other tasks.
+ */
+export function getFirstTaskOrder(tasks: Task[]): number {
+  if (tasks.length === 0) {
+    return 0;
+  }
+  return Math.min(...tasks.map((task) => task.order ?? 0)) - 1;
+}
+
+/**
+ * Sets `order` to each task's position in the list.
+ * Only tasks whose order changes get the new `updatedAt`, so the change
+ * wins when merged with other devices.
+ *
+ * @param tasks - Tasks in their new order
+ * @param updatedAt - ISO 8601 timestamp for changed tasks
+ * @returns New array with updated orders
+ */
+export function applyTaskOrder(tasks: Task[], updatedAt: string): Task[] {
+  return tasks.map((task, index) =>
+    task.order === index ? task : { ...task, order: index, updatedAt }
+  );
+}
+
+/**
+ * Returns an item's position in a day's plan, or undefined if never arranged.
+ */
+export function getPlanPosition(item: ChecklistItem, date: string): number | undefined {
+  return item.planOrder?.[date];
+}
+
+/**
+ * Sorts a day's entries by their plan position.
+ * Entries that were never arranged go last and keep their relative order.
+ *
+ * @param entries - Entries scheduled on the date
+ * @param date - Date of the plan (YYYY-MM-DD)
+ * @returns New sorted array
+ */
+export function sortByPlanOrder<E extends { item: ChecklistItem }>(
+  entries: E[],
+  date: string
+): E[] {
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => {
+      const positionA = getPlanPosition(a.entry.item, date) ?? Number.POSITIVE_INFINITY;
+      const positionB = getPlanPosition(b.entry.item, date) ?? Number.POSITIVE_INFINITY;
+      if (positionA !== positionB) {
+        return positionA < positionB ? -1 : 1;
+      }
+      return a.index - b.index;
+    })
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Calculates how far a row shifts while another row is dragged over it.
+ * Rows between the dragged row and its drop position move up or down by
+ * the dragged row's height to make room.
+ *
+ * @param index - Index of the row
+ * @param activeIndex - Index of the dragged row
+ * @param dropIndex - Current drop position of the dragged row
+ * @param activeHeight - Height of the dragged row
+ * @returns Vertical offset for the row
+ */
+export function getRowShift(
+  index: number,
+  activeIndex: number,
+  dropIndex: number,
+  activeHeight: number
+): number {
+  if (activeIndex < dropIndex && index > activeIndex && index <= dropIndex) {
+    return -activeHeight;
+  }
+  if (activeIndex > dropIndex && index >= dropIndex && index < activeIndex) {
+    return activeHeight;
+  }
+  return 0;
+}
@@ -0,0 +1,134 @@
+/**
+ * Settings Sync Utility Test Suite
+ *
+ * Tests recording when settings change, reading settings stored in the
+ * cloud and merging them with the local ones setting by setting.
+ */
+
+import {
+  isValidSettingValue,
+  mergeRoamingSettings,
+  parseRoamingSettings,
+  trackSettingChanges,
+} from './settingsSync';
+import { AppSettings } from '../types';
+
+const T0 = '2025-11-01T00:00:00.000Z';
+const T1 = '2025-11-02T00:00:00.000Z';
+const T2 = '2025-11-03T00:00:00.000Z';
+
+// Helper function to create test settings
+function createTestSettings(overrides: Partial<AppSettings> = {}): AppSettings {
+  return { celebrationEnabled: true, dailySaveHour: 0, weekStartsOn: 0, ...overrides };
+}
+
+describe('Settings Sync Utils', () => {
+  describe('isValidSettingValue', () => {
+    it('should accept only values the setting can take', () => {
+      expect(isValidSettingValue('dailySaveHour', 23)).toBe(true);
+      expect(isValidSettingValue('dailySaveHour', 24)).toBe(false);
+      expect(isValidSettingValue('weekStartsOn', 2)).toBe(false);
+      expect(isValidSettingValue('hapticEnabled', 'yes')).toBe(false);
+      expect(isValidSettingValue('archiveAfterDays', 0)).toBe(true);
+      expect(isValidSettingValue('trashRetentionDays', 0)).toBe(false);
+    });
+  });
+
+  describe('trackSettingChanges', () => {
+    it('should stamp only the settings that changed', () => {
+      const previous = createTestSettings({ settingsUpdatedAt: { dailySaveHour: T0 } });
+
+      const result = trackSettingChanges(previous, { ...previous, weekStartsOn: 1 }, T1);
+
+      expect(result.settingsUpdatedAt).toEqual({ dailySaveHour: T0, weekStartsOn: T1 });
+    });
+
+    it('should return the same settings when no synced setting changed', () => {
+      const previous = createTestSettings();
+      const next = { ...previous, tags: [] };
+
+      expect(trackSettingChanges(previous, next, T1)).toBe(next);
+    });
+  });
+
+  describe('parseRoamingSettings', () => {
+    it('should skip unknown settings and invalid values', () => {
+      const result = parseRoamingSettings(
+        { dailySaveHour: 7, weekStartsOn: 5, theme: 'dark' },
+        { dailySaveHour: T1, weekStartsOn: 3 }
+      );
+
+      expect(result).toEqual({ values: { dailySaveHour: 7 }, updatedAt: { dailySaveHour: T1 } });
+      expect(parseRoamingSettings(null, [])).toEqual({ values: {}, updatedAt: {} });
+    });
+  });
+
+  describe('mergeRoamingSettings', () => {
+    it('should take each setting from the side that changed it last', () => {
+      const local = createTestSettings({
+        dailySaveHour: 6,
+        weekStartsOn: 0,
+        settingsUpdatedAt: { dailySaveHour: T2, weekStartsOn: T0 },
+      });
+      const cloud = {
+        values: { dailySaveHour: 9, weekStartsOn: 1 as const },
+        updatedAt: { dailySaveHour: T1, weekStartsOn: T1 },
+      };
+
+      const merged = mergeRoamingSettings(local, cloud);
+
+      expect(merged.pulledKeys).toEqual(['weekStartsOn']);
+      expect(merged.settings.dailySaveHour).toBe(6);
+      expect(merged.settings.weekStartsOn).toBe(1);
+      expect(merged.settings.settingsUpdatedAt).toEqual({ dailySaveHour: T2, weekStartsOn: T1 });
+      expect(merged.pushNeeded).toBe(true);
+      expect(merged.cloud.values).toMatchObject({ dailySaveHour: 6, weekStartsOn: 1 });
+    });
+
+    it('should send every local setting when the cloud has none', () => {
+      const local = createTestSettings({ hapticEnabled: false });
+
+      const merged = mergeRoamingSettings(local, null);
+
+      expect(merged.settings).toBe(local);
+      expect(merged.pushNeeded).toBe(true);
+      expect(merged.cloud.values).toEqual({
+        celebrationEnabled: true,
+        dailySaveHour: 0,
+        weekStartsOn: 0,
+        hapticEnabled: false,
+      });
+    });
+
+    it('should keep the local setting when both were changed at the same time', () => {
+      const local = createTestSettings({ settingsUpdatedAt: { dailySaveHour: T1 } });
+      const cloud = parseRoamingSettings(
+        { celebrationEnabled: true, dailySaveHour: 5, weekStartsOn: 0 },
+        { dailySaveHour: T1 }
+      );
+
+      const merged = mergeRoamingSettings(local, cloud);
+
+      expect(merged.settings).toBe(local);
+      expect(merged.pushNeeded).toBe(false);
+    });
+
+    it('should leave device-local settings alone on both sides', () => {
+      const local = createTestSettings({
+        dailySaveHour: 6,
+        settingsUpdatedAt: { dailySaveHour: T2 },
+        deviceLocalSettings: ['dailySaveHour', 'weekStartsOn'],
+      });
+      const cloud = {
+        values: { celebrationEnabled: true, dailySaveHour: 9, weekStartsOn: 1 as const },
+        updatedAt: { dailySaveHour: T1, weekStartsOn: T1 },
+      };
+
+      const merged = mergeRoamingSettings(local, cloud);
+
+      expect(merged.settings).toBe(local);
+      expect(merged.pushNeeded).toBe(false);
+      expect(merged.cloud.values.dailySaveHour).toBe(9);
+    });
+  });
+});
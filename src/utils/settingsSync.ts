@@ -0,0 +1,203 @@
+/**
+ * Settings Sync Utility Module
+ *
+ * Merges the settings on this device with those stored in the cloud.
+ * Each synced setting carries the time it was last changed, and the side
+ * that changed a setting last wins, one setting at a time: changing the
+ * week start on one device and the save hour on another keeps both.
+ *
+ * Settings listed in `deviceLocalSettings` stay on this device: they are
+ * neither taken from the cloud nor sent to it.
+ */
+
+import { AppSettings, RoamingSettings, SyncedSettingKey } from '../types';
+
+/**
+ * Settings that can roam across devices
+ */
+export const SYNCED_SETTING_KEYS: readonly SyncedSettingKey[] = [
+  'celebrationEnabled',
+  'dailySaveHour',
+  'weekStartsOn',
+  'hapticEnabled',
+  'archiveAfterDays',
+  'trashRetentionDays',
+  'recordDetailDays',
+];
+
+/**
+ * Checks whether a value is valid for a synced setting
+ *
+ * @param key - Setting
+ * @param value - Value to check
+ * @returns True if the value can be applied
+ *
+ * @example
+ * isValidSettingValue('dailySaveHour', 7); // true
+ * isValidSettingValue('weekStartsOn', 3); // false
+ */
+export function isValidSettingValue(key: SyncedSettingKey, value: unknown): boolean {
+  switch (key) {
+    case 'celebrationEnabled':
+    case 'hapticEnabled':
+      return typeof value === 'boolean';
+    case 'dailySaveHour':
+      return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23;
+    case 'weekStartsOn':
+      return value === 0 || value === 1;
+    case 'archiveAfterDays':
+      return Number.isInteger(value) && (value as number) >= 0;
+    case 'trashRetentionDays':
+    case 'recordDetailDays':
+      return Number.isInteger(value) && (value as number) >= 1;
+  }
+}
+
+/**
+ * Records when synced settings changed: every synced setting whose value
+ * differs from before gets `now` as its change time.
+ *
+ * @param previous - Settings before the change
+ * @param next - Settings after the change
+ * @param now - ISO 8601 timestamp of the change
+ * @returns The settings with change times (`next` itself if no synced setting changed)
+ *
+ * @example
+ * trackSettingChanges(settings, { ...settings, weekStartsOn: 1 }, now).settingsUpdatedAt;
+ * // { weekStartsOn: now }
+ */
+export function trackSettingChanges(
+  previous: AppSettings,
+  next: AppSettings,
+  now: string
+): AppSettings {
+  const changedKeys = SYNCED_SETTING_KEYS.filter((key) => previous[key] !== next[key]);
+
+  if (changedKeys.length === 0) {
+    return next;
+  }
+
+  const settingsUpdatedAt = { ...next.settingsUpdatedAt };
+  changedKeys.forEach((key) => {
+    settingsUpdatedAt[key] = now;
+  });
+
+  return { ...next, settingsUpdatedAt };
+}
+
+/**
+ * Checks whether a setting roams (isn't kept on this device only)
+ *
+ * @param settings - Settings of this device
+ * @param key - Setting
+ * @returns True if the setting is synced
+ */
+export function isSettingRoaming(settings: AppSettings, key: SyncedSettingKey): boolean {
+  return !settings.deviceLocalSettings?.includes(key);
+}
+
+/**
+ * Reads roaming settings stored in the cloud, skipping invalid values.
+ *
+ * @param values - Stored values by setting
+ * @param updatedAt - Stored change times by setting
+ * @returns Roaming settings
+ */
+export function parseRoamingSettings(values: unknown, updatedAt: unknown): RoamingSettings {
+  const result: RoamingSettings = { values: {}, updatedAt: {} };
+  const storedValues = isRecord(values) ? values : {};
+  const storedTimes = isRecord(updatedAt) ? updatedAt : {};
+
+  SYNCED_SETTING_KEYS.forEach((key) => {
+    if (isValidSettingValue(key, storedValues[key])) {
+      Object.assign(result.values, { [key]: storedValues[key] });
+    }
+    if (typeof storedTimes[key] === 'string') {
+      result.updatedAt[key] = storedTimes[key] as string;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Merges the roaming settings of this device and the cloud, setting by setting.
+ * A cloud setting changed after the local one is taken; a local setting
+ * changed after the cloud one (or missing from the cloud) is sent.
+ * On equal change times, the local setting is kept.
+ *
+ * @param local - Settings of this device
+ * @param cloud - Roaming settings in the cloud (null if none were stored yet)
+ * @returns Merged local settings (`local` itself if nothing was taken), the
+ *   settings taken from the cloud, the settings the cloud should store and
+ *   whether they differ from what it stores now
+ *
+ * @example
+ * const merged = mergeRoamingSettings(settings, cloudSettings);
+ * if (merged.pushNeeded) await syncSettingsToCloud(merged.cloud);
+ */
+export function mergeRoamingSettings(
+  local: AppSettings,
+  cloud: RoamingSettings | null
+): {
+  settings: AppSettings;
+  pulledKeys: SyncedSettingKey[];
+  cloud: RoamingSettings;
+  pushNeeded: boolean;
+} {
+  const merged: RoamingSettings = {
+    values: { ...cloud?.values },
+    updatedAt: { ...cloud?.updatedAt },
+  };
+  const pulledKeys: SyncedSettingKey[] = [];
+  let pushNeeded = false;
+
+  SYNCED_SETTING_KEYS.filter((key) => isSettingRoaming(local, key)).forEach((key) => {
+    const localTime = toTime(local.settingsUpdatedAt?.[key]);
+    const cloudTime = toTime(cloud?.updatedAt[key]);
+    const inCloud = cloud?.values[key] !== undefined;
+
+    if (inCloud && cloudTime > localTime) {
+      pulledKeys.push(key);
+    } else if (local[key] !== undefined && (!inCloud || localTime > cloudTime)) {
+      Object.assign(merged.values, { [key]: local[key] });
+      const localUpdatedAt = local.settingsUpdatedAt?.[key];
+      if (localUpdatedAt) {
+        merged.updatedAt[key] = localUpdatedAt;
+      }
+      pushNeeded = true;
+    }
+  });
+
+  if (pulledKeys.length === 0) {
+    return { settings: local, pulledKeys, cloud: merged, pushNeeded };
+  }
+
+  const settingsUpdatedAt = { ...local.settingsUpdatedAt };
+  const pulledValues: Partial<AppSettings> = {};
+  pulledKeys.forEach((key) => {
+    Object.assign(pulledValues, { [key]: merged.values[key] });
+    settingsUpdatedAt[key] = merged.updatedAt[key];
+  });
+
+  return {
+    settings: { ...local, ...pulledValues, settingsUpdatedAt },
+    pulledKeys,
+    cloud: merged,
+    pushNeeded,
+  };
+}
+
+/**
+ * Checks whether a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Converts a timestamp to milliseconds (0 when missing or invalid)
+ */
+function toTime(timestamp: string | undefined): number {
+  return (timestamp && new Date(timestamp).getTime()) || 0;
+}
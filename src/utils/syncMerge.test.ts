@@ -0,0 +1,355 @@
+/**
+ * Sync Merge Utility Test Suite
+ *
+ * Tests recording change timestamps and tombstones, merging two versions
+ * of the task list item by item, and pruning old tombstones.
+ */
+
+import {
+  mergeTaskLists,
+  mergeTaskVersions,
+  mergeTombstones,
+  pruneExpiredTombstones,
+  removeTombstonesFor,
+  trackTaskChanges,
+} from './syncMerge';
+import { ChecklistItem, Task } from '../types';
+
+const T0 = '2025-11-01T00:00:00.000Z';
+const T1 = '2025-11-02T00:00:00.000Z';
+const T2 = '2025-11-03T00:00:00.000Z';
+const T3 = '2025-11-04T00:00:00.000Z';
+
+// Helper function to create a test item
+function createTestItem(
+  id: string,
+  title: string,
+  updatedAt: string | null = T0,
+  overrides: Partial<ChecklistItem> = {}
+): ChecklistItem {
+  return { id, title, done: false, ...(updatedAt && { updatedAt }), ...overrides };
+}
+
+// Helper function to create a test task
+function createTestTask(
+  id: string,
+  items: ChecklistItem[] = [],
+  updatedAt: string = T0,
+  overrides: Partial<Task> = {}
+): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    items,
+    createdAt: T0,
+    updatedAt,
+    ...overrides,
+  };
+}
+
+describe('Sync Merge Utils', () => {
+  describe('trackTaskChanges', () => {
+    it('should stamp edited and new items but not untouched ones', () => {
+      const task = createTestTask('a', [createTestItem('1', 'One'), createTestItem('2', 'Two')]);
+      const edited = {
+        ...task,
+        items: [
+          { ...task.items[0], done: true },
+          task.items[1],
+          createTestItem('3', 'Three', null),
+        ],
+      };
+
+      const result = trackTaskChanges([task], [edited], [], T1);
+      const items = result.tasks[0].items;
+
+      expect(items[0].updatedAt).toBe(T1);
+      expect(items[1]).toBe(task.items[1]);
+      expect(items[2].updatedAt).toBe(T1);
+      expect(result.tasks[0].fieldsUpdatedAt).toBeUndefined();
+    });
+
+    it("should stamp the task's own fields separately from its items", () => {
+      const task = createTestTask('a', [createTestItem('1', 'One')]);
+
+      const result = trackTaskChanges([task], [{ ...task, title: 'Renamed' }], [], T1);
+
+      expect(result.tasks[0].fieldsUpdatedAt).toBe(T1);
+      expect(result.tasks[0].items).toBe(task.items);
+    });
+
+    it('should stamp nested items without touching their siblings', () => {
+      const child = createTestItem('c1', 'Child');
+      const sibling = createTestItem('c2', 'Sibling');
+      const task = createTestTask('a', [
+        createTestItem('p', 'Parent', T0, { children: [child, sibling] }),
+      ]);
+      const edited = {
+        ...task,
+        items: [{ ...task.items[0], children: [{ ...child, done: true }, sibling] }],
+      };
+
+      const parent = trackTaskChanges([task], [edited], [], T1).tasks[0].items[0];
+
+      expect(parent.updatedAt).toBe(T0);
+      expect(parent.children?.[0].updatedAt).toBe(T1);
+      expect(parent.children?.[1]).toBe(sibling);
+    });
+
+    it('should keep newer timestamps that came with the change', () => {
+      const task = createTestTask('a', [createTestItem('1', 'One')]);
+      const merged = { ...task, items: [createTestItem('1', 'From cloud', T2)] };
+
+      const result = trackTaskChanges([task], [merged], [], T1);
+
+      expect(result.tasks[0].items[0].updatedAt).toBe(T2);
+    });
+
+    it('should leave tombstones for removed items and tasks', () => {
+      const task = createTestTask('a', [createTestItem('1', 'One'), createTestItem('2', 'Two')]);
+      const other = createTestTask('b');
+
+      const result = trackTaskChanges([task, other], [{ ...task, items: [task.items[1]] }], [], T1);
+
+      expect(result.tasks[0].deletedItems).toEqual([{ id: '1', deletedAt: T1 }]);
+      expect(result.tombstones).toEqual([{ id: 'b', deletedAt: T1 }]);
+    });
+
+    it('should drop the tombstones of restored records', () => {
+      const item = createTestItem('1', 'One');
+      const task = createTestTask('a', [], T0, { deletedItems: [{ id: '1', deletedAt: T1 }] });
+      const restored = { ...task, items: [item] };
+      const other = createTestTask('b');
+
+      const result = trackTaskChanges([task], [restored, other], [{ id: 'b', deletedAt: T1 }], T2);
+
+      expect(result.tasks[0].deletedItems).toBeUndefined();
+      // Brought back after the deletion, so it must win over the tombstone elsewhere
+      expect(result.tasks[0].items[0].updatedAt).toBe(T2);
+      expect(result.tombstones).toEqual([]);
+    });
+
+    it('should return the same arrays when nothing changed', () => {
+      const tasks = [createTestTask('a', [createTestItem('1', 'One')])];
+      const tombstones = [{ id: 'b', deletedAt: T1 }];
+
+      const result = trackTaskChanges(tasks, [...tasks], tombstones, T2);
+
+      expect(result.tasks[0]).toBe(tasks[0]);
+      expect(result.tombstones).toBe(tombstones);
+    });
+  });
+
+  describe('mergeTaskVersions', () => {
+    it('should keep changes made to different items on each side', () => {
+      const local = createTestTask(
+        'a',
+        [createTestItem('1', 'One', T1, { done: true }), createTestItem('2', 'Two')],
+        T1
+      );
+      const cloud = createTestTask(
+        'a',
+        [createTestItem('1', 'One'), createTestItem('2', 'Renamed', T2)],
+        T2
+      );
+
+      const merged = mergeTaskVersions(local, cloud);
+
+      expect(merged.items.map((item) => [item.title, item.done])).toEqual([
+        ['One', true],
+        ['Renamed', false],
+      ]);
+      expect(merged.updatedAt).toBe(T2);
+    });
+
+    it('should keep the newer version of an item edited on both sides', () => {
+      const local = createTestTask('a', [createTestItem('1', 'Local', T2)], T2);
+      const cloud = createTestTask('a', [createTestItem('1', 'Cloud', T1)], T3);
+
+      expect(mergeTaskVersions(local, cloud).items[0].title).toBe('Local');
+    });
+
+    it("should take the task's own fields from the side that changed them last", () => {
+      // Local only changed an item after the cloud renamed the task
+      const local = createTestTask('a', [createTestItem('1', 'One', T2)], T2, {
+        title: 'Old title',
+        fieldsUpdatedAt: T0,
+      });
+      const cloud = createTestTask('a', [createTestItem('1', 'One')], T1, {
+        title: 'New title',
+        fieldsUpdatedAt: T1,
+      });
+
+      const merged = mergeTaskVersions(local, cloud);
+
+      expect(merged.title).toBe('New title');
+      expect(merged.items[0].updatedAt).toBe(T2);
+      expect(merged.updatedAt).toBe(T2);
+    });
+
+    it('should remove items deleted on the other side unless edited afterwards', () => {
+      const local = createTestTask(
+        'a',
+        [createTestItem('1', 'Unchanged'), createTestItem('2', 'Edited', T3)],
+        T3
+      );
+      const cloud = createTestTask('a', [], T2, {
+        deletedItems: [
+          { id: '1', deletedAt: T2 },
+          { id: '2', deletedAt: T2 },
+        ],
+      });
+
+      const merged = mergeTaskVersions(local, cloud);
+
+      expect(merged.items.map((item) => item.id)).toEqual(['2']);
+      expect(merged.deletedItems).toEqual([{ id: '1', deletedAt: T2 }]);
+    });
+
+    it('should add new items from both sides after the sibling they followed', () => {
+      const local = createTestTask(
+        'a',
+        [
+          createTestItem('1', 'One'),
+          createTestItem('local', 'Local', T1),
+          createTestItem('2', 'Two'),
+        ],
+        T1
+      );
+      const cloud = createTestTask(
+        'a',
+        [
+          createTestItem('1', 'One'),
+          createTestItem('2', 'Two'),
+          createTestItem('cloud', 'Cloud', T2),
+        ],
+        T2
+      );
+
+      const merged = mergeTaskVersions(local, cloud);
+
+      expect(merged.items.map((item) => item.id)).toEqual(['1', 'local', '2', 'cloud']);
+    });
+
+    it('should merge nested items one by one', () => {
+      const local = createTestTask(
+        'a',
+        [
+          createTestItem('p', 'Parent', T0, {
+            children: [
+              createTestItem('c1', 'Child 1', T1, { done: true }),
+              createTestItem('c2', 'Child 2'),
+            ],
+          }),
+        ],
+        T1
+      );
+      const cloud = createTestTask(
+        'a',
+        [
+          createTestItem('p', 'Parent renamed', T2, {
+            children: [
+              createTestItem('c1', 'Child 1'),
+              createTestItem('c2', 'Child 2', T2, { done: true }),
+            ],
+          }),
+        ],
+        T2
+      );
+
+      const parent = mergeTaskVersions(local, cloud).items[0];
+
+      expect(parent.title).toBe('Parent renamed');
+      expect(parent.children?.map((item) => item.done)).toEqual([true, true]);
+    });
+
+    it('should fall back to the newer task for items without timestamps', () => {
+      const local = createTestTask('a', [createTestItem('1', 'Local', null)], T1);
+      const cloud = createTestTask('a', [createTestItem('1', 'Cloud', null)], T2);
+
+      expect(mergeTaskVersions(local, cloud).items[0].title).toBe('Cloud');
+      expect(mergeTaskVersions(cloud, local).items[0].title).toBe('Cloud');
+    });
+
+    it('should return the local task when the cloud brings nothing new', () => {
+      const local = createTestTask('a', [createTestItem('1', 'One', T1)], T1);
+      const cloud = createTestTask('a', [createTestItem('1', 'One')], T0);
+
+      expect(mergeTaskVersions(local, cloud)).toBe(local);
+    });
+  });
+
+  describe('mergeTaskLists', () => {
+    it('should keep tasks from both sides', () => {
+      const merged = mergeTaskLists([createTestTask('a')], [createTestTask('b')]);
+
+      expect(merged.map((task) => task.id)).toEqual(['a', 'b']);
+    });
+
+    it('should remove deleted tasks unless they were edited afterwards', () => {
+      const merged = mergeTaskLists(
+        [createTestTask('a', [], T1), createTestTask('b', [], T3)],
+        [],
+        [
+          { id: 'a', deletedAt: T2 },
+          { id: 'b', deletedAt: T2 },
+        ]
+      );
+
+      expect(merged.map((task) => task.id)).toEqual(['b']);
+    });
+  });
+
+  describe('mergeTombstones', () => {
+    it('should keep the later deletion of each record', () => {
+      const first = [{ id: 'a', deletedAt: T1 }];
+
+      expect(mergeTombstones(first, [{ id: 'a', deletedAt: T0 }])).toBe(first);
+      expect(
+        mergeTombstones(first, [
+          { id: 'a', deletedAt: T2 },
+          { id: 'b', deletedAt: T1 },
+        ])
+      ).toEqual([
+        { id: 'a', deletedAt: T2 },
+        { id: 'b', deletedAt: T1 },
+      ]);
+    });
+  });
+
+  describe('removeTombstonesFor', () => {
+    it('should drop the tombstones of existing tasks', () => {
+      const tombstones = [
+        { id: 'a', deletedAt: T1 },
+        { id: 'b', deletedAt: T1 },
+      ];
+
+      expect(removeTombstonesFor(tombstones, [createTestTask('a')])).toEqual([tombstones[1]]);
+      expect(removeTombstonesFor(tombstones, [createTestTask('c')])).toBe(tombstones);
+    });
+  });
+
+  describe('pruneExpiredTombstones', () => {
+    it('should drop tombstones older than the retention period', () => {
+      const now = new Date('2026-03-01T00:00:00.000Z');
+      const recent = { id: 'recent', deletedAt: '2026-02-01T00:00:00.000Z' };
+      const expired = { id: 'expired', deletedAt: '2025-11-01T00:00:00.000Z' };
+      const tasks = [createTestTask('a', [], T0, { deletedItems: [expired] })];
+
+      const result = pruneExpiredTombstones(tasks, [recent, expired], now);
+
+      expect(result.tasks[0].deletedItems).toBeUndefined();
+      expect(result.tombstones).toEqual([recent]);
+    });
+
+    it('should return the same arrays when nothing expired', () => {
+      const tasks = [createTestTask('a')];
+      const tombstones = [{ id: 'b', deletedAt: T1 }];
+
+      const result = pruneExpiredTombstones(tasks, tombstones, new Date(T2));
+
+      expect(result.tasks).toBe(tasks);
+      expect(result.tombstones).toBe(tombstones);
+    });
+  });
+});
@@ -0,0 +1,479 @@
+/**
+ * Sync Merge Utility Module
+ *
+ * Merges two versions of the task list (this device and the cloud, or a
+ * backup) item by item instead of keeping one whole task:
+ * - Each checklist item has its own `updatedAt`; the newer item wins and
+ *   children are merged the same way, so ticking one item on one device and
+ *   renaming another on a second device keeps both changes
+ * - A task's own fields (title, due date, order, tags, archive state) use
+ *   `fieldsUpdatedAt`, so they aren't overwritten by item changes
+ * - Deleted tasks and items leave tombstones. A tombstone removes the record
+ *   on the other side unless it was changed after the deletion
+ *
+ * The timestamps and tombstones are recorded by trackTaskChanges, which the
+ * store runs on every change to the tasks.
+ */
+
+import { ChecklistItem, Task, Tombstone } from '../types';
+import { flattenItems } from './itemTree';
+
+/**
+ * Days tombstones are kept. A device that hasn't synced for longer may
+ * bring back records deleted elsewhere.
+ */
+export const TOMBSTONE_RETENTION_DAYS = 90;
+
+/**
+ * Milliseconds per day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Item fields that aren't part of the item's own content
+ */
+const ITEM_TRACKING_FIELDS: ReadonlySet<string> = new Set(['children', 'updatedAt']);
+
+/**
+ * Task fields that aren't part of the task's own content
+ */
+const TASK_TRACKING_FIELDS: ReadonlySet<string> = new Set([
+  'items',
+  'updatedAt',
+  'fieldsUpdatedAt',
+  'deletedItems',
+]);
+
+// ============================================================================
+// HELPER FUNCTIONS (Internal)
+// ============================================================================
+
+/**
+ * Converts an optional timestamp to milliseconds (0 when missing or invalid)
+ */
+function toTime(timestamp?: string): number {
+  return (timestamp && new Date(timestamp).getTime()) || 0;
+}
+
+/**
+ * Checks whether two records have the same content, ignoring the given fields.
+ * A missing field equals an undefined one.
+ */
+function haveSameFields(a: object, b: object, ignored: ReadonlySet<string>): boolean {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+
+  return [...keys].every(
+    (key) => ignored.has(key) || JSON.stringify(left[key]) === JSON.stringify(right[key])
+  );
+}
+
+/**
+ * Returns the item without its `children` field
+ */
+function withoutChildren(item: ChecklistItem): ChecklistItem {
+  const copy = { ...item };
+  delete copy.children;
+  return copy;
+}
+
+/**
+ * Stamps the items the change touched: new items without a timestamp (or
+ * ones brought back after a deletion) and items whose own fields changed
+ * while their timestamp didn't move forward. Items that arrive with a newer
+ * timestamp (from a merge) keep it.
+ *
+ * @returns The same array if nothing was stamped
+ */
+function trackItemChanges(
+  items: ChecklistItem[],
+  previousItems: Map<string, ChecklistItem>,
+  deletedIds: ReadonlySet<string>,
+  now: string
+): ChecklistItem[] {
+  let changed = false;
+
+  const tracked = items.map((item) => {
+    const previousItem = previousItems.get(item.id);
+    if (previousItem === item) {
+      return item;
+    }
+
+    const children = item.children
+      ? trackItemChanges(item.children, previousItems, deletedIds, now)
+      : undefined;
+    const edited = previousItem
+      ? !haveSameFields(previousItem, item, ITEM_TRACKING_FIELDS) &&
+        toTime(item.updatedAt) <= toTime(previousItem.updatedAt)
+      : !item.updatedAt || deletedIds.has(item.id);
+
+    if (!edited && children === item.children) {
+      return item;
+    }
+
+    changed = true;
+    return { ...item, ...(children && { children }), ...(edited && { updatedAt: now }) };
+  });
+
+  return changed ? tracked : items;
+}
+
+/**
+ * Records the changes between two versions of a task: item timestamps,
+ * tombstones for removed items and the timestamp of its own fields.
+ */
+function trackTaskChange(previousTask: Task, task: Task, now: string): Task {
+  const previousItems = new Map(flattenItems(previousTask.items).map((item) => [item.id, item]));
+  const deletedItems = task.deletedItems || [];
+  const items = trackItemChanges(
+    task.items,
+    previousItems,
+    new Set(deletedItems.map((tombstone) => tombstone.id)),
+    now
+  );
+
+  const itemIds = new Set(flattenItems(items).map((item) => item.id));
+  const removedIds = [...previousItems.keys()].filter((itemId) => !itemIds.has(itemId));
+  const updatedDeletedItems = addTombstones(
+    deletedItems.filter((tombstone) => !itemIds.has(tombstone.id)),
+    removedIds,
+    now
+  );
+  const deletedItemsChanged =
+    updatedDeletedItems.length !== deletedItems.length ||
+    updatedDeletedItems.some((tombstone, index) => tombstone !== deletedItems[index]);
+
+  const fieldsEdited =
+    !haveSameFields(previousTask, task, TASK_TRACKING_FIELDS) &&
+    toTime(task.fieldsUpdatedAt) <= toTime(previousTask.fieldsUpdatedAt);
+
+  if (items === task.items && !deletedItemsChanged && !fieldsEdited) {
+    return task;
+  }
+
+  const updatedTask: Task = { ...task, items };
+  if (fieldsEdited) {
+    updatedTask.fieldsUpdatedAt = now;
+  }
+  if (updatedDeletedItems.length > 0) {
+    updatedTask.deletedItems = updatedDeletedItems;
+  } else {
+    delete updatedTask.deletedItems;
+  }
+
+  return updatedTask;
+}
+
+/**
+ * Adds tombstones for IDs that don't have one yet
+ *
+ * @returns The same array if nothing was added
+ */
+function addTombstones(tombstones: Tombstone[], ids: string[], now: string): Tombstone[] {
+  const existing = new Set(tombstones.map((tombstone) => tombstone.id));
+  const added = ids.filter((id) => !existing.has(id)).map((id) => ({ id, deletedAt: now }));
+
+  return added.length > 0 ? [...tombstones, ...added] : tombstones;
+}
+
+/**
+ * Checks whether a tombstone removes a record last changed at `updatedAt`
+ */
+function isDeleted(deletedAt: string | undefined, updatedAt: string | undefined): boolean {
+  return deletedAt !== undefined && toTime(deletedAt) >= toTime(updatedAt);
+}
+
+/**
+ * What item merging needs to know about the whole task
+ */
+interface ItemMergeContext {
+  /**
+   * Deletion time of each deleted item
+   */
+  deletedAt: Map<string, string>;
+
+  /**
+   * Whether the cloud version of the task changed last. Its sibling order
+   * is used, and its items win timestamp ties.
+   */
+  cloudTaskIsNewer: boolean;
+}
+
+/**
+ * Merges two versions of one item, or keeps the only version.
+ * The newer item's own fields win; children are merged one by one.
+ */
+function mergeItem(
+  local: ChecklistItem | undefined,
+  cloud: ChecklistItem | undefined,
+  context: ItemMergeContext
+): ChecklistItem {
+  const cloudTime = toTime(cloud?.updatedAt);
+  const localTime = toTime(local?.updatedAt);
+  const winner =
+    !local ||
+    (cloud && (cloudTime > localTime || (cloudTime === localTime && context.cloudTaskIsNewer)))
+      ? cloud!
+      : local;
+
+  const localChildren = local?.children || [];
+  const children = mergeItemLists(localChildren, cloud?.children || [], context);
+
+  if (winner === local && children === localChildren) {
+    return local;
+  }
+
+  return children.length > 0 ? { ...winner, children } : withoutChildren(winner);
+}
+
+/**
+ * Merges two sibling lists. The order follows the task version that changed
+ * last; items only in the other version are placed after the sibling they
+ * followed there. Items with a tombstone newer than their last change are dropped.
+ *
+ * @returns The local array if the merge didn't change it
+ */
+function mergeItemLists(
+  local: ChecklistItem[],
+  cloud: ChecklistItem[],
+  context: ItemMergeContext
+): ChecklistItem[] {
+  const localById = new Map(local.map((item) => [item.id, item]));
+  const cloudById = new Map(cloud.map((item) => [item.id, item]));
+  const [primary, secondary] = context.cloudTaskIsNewer ? [cloud, local] : [local, cloud];
+
+  const order = primary.map((item) => item.id);
+  secondary.forEach((item, index) => {
+    if (order.includes(item.id)) {
+      return;
+    }
+    const position = index > 0 ? order.indexOf(secondary[index - 1].id) : -1;
+    order.splice(position + 1, 0, item.id);
+  });
+
+  const merged = order
+    .filter((id) => {
+      const lastChange = Math.max(
+        toTime(localById.get(id)?.updatedAt),
+        toTime(cloudById.get(id)?.updatedAt)
+      );
+      const deletedAt = context.deletedAt.get(id);
+      return deletedAt === undefined || toTime(deletedAt) < lastChange;
+    })
+    .map((id) => mergeItem(localById.get(id), cloudById.get(id), context));
+
+  const unchanged =
+    merged.length === local.length && merged.every((item, index) => item === local[index]);
+  return unchanged ? local : merged;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+/**
+ * Records what a change to the task list did, so it can be merged later:
+ * - Items created or edited get `updatedAt = now`
+ * - Tasks whose own fields changed get `fieldsUpdatedAt = now`
+ * - Removed items get a tombstone on their task; removed tasks get one in
+ *   the returned list
+ * - Records that came back (restored from the trash, undone) lose their
+ *   tombstone
+ *
+ * Changes that bring newer timestamps of their own (merged from the cloud)
+ * aren't stamped again, and unchanged tasks keep their identity.
+ *
+ * @param previous - Tasks before the change
+ * @param next - Tasks after the change
+ * @param tombstones - Task tombstones before the change
+ * @param now - ISO 8601 timestamp of the change
+ * @returns Stamped tasks and task tombstones (the same arrays if nothing changed)
+ *
+ * @example
+ * const { tasks, tombstones } = trackTaskChanges(state.tasks, updatedTasks, state.tombstones, now);
+ */
+export function trackTaskChanges(
+  previous: Task[],
+  next: Task[],
+  tombstones: Tombstone[],
+  now: string
+): { tasks: Task[]; tombstones: Tombstone[] } {
+  const previousById = new Map(previous.map((task) => [task.id, task]));
+
+  let tasksChanged = false;
+  const trackedTasks = next.map((task) => {
+    const previousTask = previousById.get(task.id);
+    const tracked =
+      previousTask && previousTask !== task ? trackTaskChange(previousTask, task, now) : task;
+    tasksChanged = tasksChanged || tracked !== task;
+    return tracked;
+  });
+
+  const taskIds = new Set(next.map((task) => task.id));
+  const remaining = tombstones.filter((tombstone) => !taskIds.has(tombstone.id));
+  const updatedTombstones = addTombstones(
+    remaining.length === tombstones.length ? tombstones : remaining,
+    previous.filter((task) => !taskIds.has(task.id)).map((task) => task.id),
+    now
+  );
+
+  return {
+    tasks: tasksChanged ? trackedTasks : next,
+    tombstones: updatedTombstones,
+  };
+}
+
+/**
+ * Merges two versions of the same task:
+ * - Items are merged one by one (see mergeItemLists)
+ * - The task's own fields come from the version whose fields changed last
+ * - Item tombstones from both versions are kept, except for items that were
+ *   changed after their deletion
+ *
+ * @param local - Version on this device
+ * @param cloud - Version from the cloud (or a backup)
+ * @returns Merged task (the local task if nothing came from the cloud)
+ *
+ * @example
+ * // Item A ticked locally, item B renamed in the cloud: both changes are kept
+ * const task = mergeTaskVersions(localTask, cloudTask);
+ */
+export function mergeTaskVersions(local: Task, cloud: Task): Task {
+  const localDeletedItems = local.deletedItems || [];
+  const deletedItems = mergeTombstones(localDeletedItems, cloud.deletedItems || []);
+  const cloudIsNewer = toTime(cloud.updatedAt) > toTime(local.updatedAt);
+
+  const items = mergeItemLists(local.items, cloud.items, {
+    deletedAt: new Map(deletedItems.map((tombstone) => [tombstone.id, tombstone.deletedAt])),
+    cloudTaskIsNewer: cloudIsNewer,
+  });
+  const itemIds = new Set(flattenItems(items).map((item) => item.id));
+  const remainingDeletedItems = deletedItems.filter((tombstone) => !itemIds.has(tombstone.id));
+
+  const cloudFieldsAreNewer =
+    toTime(cloud.fieldsUpdatedAt ?? cloud.updatedAt) >
+    toTime(local.fieldsUpdatedAt ?? local.updatedAt);
+
+  if (
+    !cloudIsNewer &&
+    !cloudFieldsAreNewer &&
+    items === local.items &&
+    deletedItems === localDeletedItems &&
+    remainingDeletedItems.length === deletedItems.length
+  ) {
+    return local;
+  }
+
+  const merged: Task = {
+    ...(cloudFieldsAreNewer ? cloud : local),
+    items,
+    updatedAt: cloudIsNewer ? cloud.updatedAt : local.updatedAt,
+  };
+  if (remainingDeletedItems.length > 0) {
+    merged.deletedItems = remainingDeletedItems;
+  } else {
+    delete merged.deletedItems;
+  }
+
+  return merged;
+}
+
+/**
+ * Merges two task lists. Tasks on both sides are merged with
+ * mergeTaskVersions; tasks with a tombstone newer than their last change
+ * are removed. The order is left to the caller.
+ *
+ * @param localTasks - Tasks on this device
+ * @param cloudTasks - Tasks from the cloud (or a backup)
+ * @param tombstones - Task tombstones from both sides (see mergeTombstones)
+ * @returns Merged tasks, local tasks first
+ */
+export function mergeTaskLists(
+  localTasks: Task[],
+  cloudTasks: Task[],
+  tombstones: Tombstone[] = []
+): Task[] {
+  const deletedAt = new Map(tombstones.map((tombstone) => [tombstone.id, tombstone.deletedAt]));
+  const cloudById = new Map(cloudTasks.map((task) => [task.id, task]));
+  const localIds = new Set(localTasks.map((task) => task.id));
+
+  const merged = [
+    ...localTasks.map((task) => {
+      const cloudTask = cloudById.get(task.id);
+      return cloudTask ? mergeTaskVersions(task, cloudTask) : task;
+    }),
+    ...cloudTasks.filter((task) => !localIds.has(task.id)),
+  ];
+
+  return merged.filter((task) => !isDeleted(deletedAt.get(task.id), task.updatedAt));
+}
+
+/**
+ * Combines two tombstone lists, keeping the later deletion of each record.
+ *
+ * @returns The first list if the second adds nothing
+ */
+export function mergeTombstones(first: Tombstone[], second: Tombstone[]): Tombstone[] {
+  const byId = new Map(first.map((tombstone) => [tombstone.id, tombstone]));
+  let changed = false;
+
+  second.forEach((tombstone) => {
+    const existing = byId.get(tombstone.id);
+    if (!existing || toTime(tombstone.deletedAt) > toTime(existing.deletedAt)) {
+      byId.set(tombstone.id, tombstone);
+      changed = true;
+    }
+  });
+
+  return changed ? Array.from(byId.values()) : first;
+}
+
+/**
+ * Drops the tombstones of tasks that exist (changed after their deletion).
+ *
+ * @returns The same list if nothing was dropped
+ */
+export function removeTombstonesFor(tombstones: Tombstone[], tasks: Task[]): Tombstone[] {
+  const taskIds = new Set(tasks.map((task) => task.id));
+  const remaining = tombstones.filter((tombstone) => !taskIds.has(tombstone.id));
+  return remaining.length === tombstones.length ? tombstones : remaining;
+}
+
+/**
+ * Drops tombstones older than TOMBSTONE_RETENTION_DAYS, from the task list
+ * and from each task's deleted items.
+ *
+ * @param tasks - Tasks with item tombstones
+ * @param tombstones - Task tombstones
+ * @param now - Current time
+ * @returns Tasks and tombstones (the same arrays if nothing expired)
+ */
+export function pruneExpiredTombstones(
+  tasks: Task[],
+  tombstones: Tombstone[],
+  now: Date
+): { tasks: Task[]; tombstones: Tombstone[] } {
+  const cutoff = now.getTime() - TOMBSTONE_RETENTION_DAYS * DAY_MS;
+  const isKept = (tombstone: Tombstone) => toTime(tombstone.deletedAt) >= cutoff;
+
+  let tasksChanged = false;
+  const prunedTasks = tasks.map((task) => {
+    if (!task.deletedItems || task.deletedItems.every(isKept)) {
+      return task;
+    }
+
+    tasksChanged = true;
+    const deletedItems = task.deletedItems.filter(isKept);
+    const updatedTask: Task = { ...task, deletedItems };
+    if (deletedItems.length === 0) {
+      delete updatedTask.deletedItems;
+    }
+    return updatedTask;
+  });
+
+  return {
+    tasks: tasksChanged ? prunedTasks : tasks,
+    tombstones: tombstones.every(isKept) ? tombstones : tombstones.filter(isKept),
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Tag Utility Test Suite
+ *
+ * Tests tag lookup, filtering, removal and merging of tag definitions.
+ */
+
+import {
+  getTaskTags,
+  filterTasksByTags,
+  removeTagFromTasks,
+  mergeTags,
+  getNextTagColor,
+  TAG_COLORS,
+} from './tags';
+import { Task, Tag } from '../types';
+
+const WORK: Tag = { id: 'work', name: '업무', color: TAG_COLORS[0] };
+const STUDY: Tag = { id: 'study', name: '공부', color: TAG_COLORS[1] };
+
+// Helper function to create a test task
+function createTestTask(id: string, tagIds?: string[]): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    items: [],
+    createdAt: '2025-11-01T00:00:00.000Z',
+    updatedAt: '2025-11-01T00:00:00.000Z',
+    ...(tagIds && { tagIds }),
+  };
+}
+
+describe('Tag Utils', () => {
+  describe('getTaskTags', () => {
+    it('should return the task tags in tag list order and skip deleted tags', () => {
+      const task = createTestTask('a', ['study', 'deleted', 'work']);
+
+      expect(getTaskTags(task, [WORK, STUDY])).toEqual([WORK, STUDY]);
+    });
+
+    it('should return an empty list for tasks without tags', () => {
+      expect(getTaskTags(createTestTask('a'), [WORK])).toEqual([]);
+    });
+  });
+
+  describe('filterTasksByTags', () => {
+    const tasks = [
+      createTestTask('a', ['work']),
+      createTestTask('b', ['study']),
+      createTestTask('c', ['work', 'study']),
+      createTestTask('d'),
+    ];
+
+    it('should keep all tasks when no tag is selected', () => {
+      expect(filterTasksByTags(tasks, [])).toBe(tasks);
+    });
+
+    it('should keep tasks with any of the selected tags', () => {
+      expect(filterTasksByTags(tasks, ['work']).map((task) => task.id)).toEqual(['a', 'c']);
+      expect(filterTasksByTags(tasks, ['work', 'study']).map((task) => task.id)).toEqual([
+        'a',
+        'b',
+        'c',
+      ]);
+    });
+  });
+
+  describe('removeTagFromTasks', () => {
+    it('should remove the tag and only touch tasks that had it', () => {
+      const tasks = [createTestTask('a', ['work', 'study']), createTestTask('b', ['study'])];
+      const updatedAt = '2025-11-06T09:00:00.000Z';
+
+      const result = removeTagFromTasks(tasks, 'work', updatedAt);
+
+      expect(result[0].tagIds).toEqual(['study']);
+      expect(result[0].updatedAt).toBe(updatedAt);
+      expect(result[1]).toBe(tasks[1]);
+    });
+  });
+
+  describe('mergeTags', () => {
+    it('should add unknown tags and keep local definitions', () => {
+      const renamedWork = { ...WORK, name: '회사' };
+
+      expect(mergeTags([WORK], [renamedWork, STUDY])).toEqual([WORK, STUDY]);
+    });
+
+    it('should return the local array when nothing is new', () => {
+      const local = [WORK];
+
+      expect(mergeTags(local, [WORK])).toBe(local);
+    });
+  });
+
+  describe('getNextTagColor', () => {
+    it('should pick the first unused palette color', () => {
+      expect(getNextTagColor([])).toBe(TAG_COLORS[0]);
+      expect(getNextTagColor([WORK, STUDY])).toBe(TAG_COLORS[2]);
+    });
+  });
+});
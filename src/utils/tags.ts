@@ -0,0 +1,110 @@
+/**
+ * Tag Utility Module
+ *
+ * Helpers for user-defined tags on tasks.
+ *
+ * Tag definitions (name, color) live in `AppSettings.tags`; tasks only keep
+ * the IDs of their tags in `Task.tagIds`.
+ */
+
+import { Task, Tag } from '../types';
+
+/**
+ * Colors offered when creating or editing a tag
+ */
+export const TAG_COLORS = [
+  '#6366f1', // Indigo
+  '#0ea5e9', // Sky
+  '#10b981', // Emerald
+  '#f59e0b', // Amber
+  '#ef4444', // Red
+  '#ec4899', // Pink
+  '#8b5cf6', // Violet
+  '#71717a', // Zinc
+];
+
+/**
+ * Returns the tags attached to a task, in the order of the tag list.
+ * IDs of deleted tags are ignored.
+ *
+ * @param task - Task to look up
+ * @param tags - All defined tags
+ * @returns Tags of the task
+ */
+export function getTaskTags(task: Task, tags: Tag[]): Tag[] {
+  if (!task.tagIds || task.tagIds.length === 0) {
+    return [];
+  }
+
+  return tags.filter((tag) => task.tagIds!.includes(tag.id));
+}
+
+/**
+ * Filters tasks by tags. A task matches when it has any of the selected tags.
+ *
+ * @param tasks - Tasks to filter
+ * @param selectedTagIds - Selected tag IDs (empty = no filter)
+ * @returns Matching tasks (the same array when no tag is selected)
+ */
+export function filterTasksByTags(tasks: Task[], selectedTagIds: string[]): Task[] {
+  if (selectedTagIds.length === 0) {
+    return tasks;
+  }
+
+  return tasks.filter((task) => task.tagIds?.some((tagId) => selectedTagIds.includes(tagId)));
+}
+
+/**
+ * Removes a tag from every task that has it.
+ *
+ * @param tasks - Tasks to update
+ * @param tagId - ID of the removed tag
+ * @param updatedAt - ISO 8601 timestamp for changed tasks
+ * @returns New array (untouched tasks keep their identity)
+ */
+export function removeTagFromTasks(tasks: Task[], tagId: string, updatedAt: string): Task[] {
+  return tasks.map((task) => {
+    if (!task.tagIds?.includes(tagId)) {
+      return task;
+    }
+
+    return {
+      ...task,
+      tagIds: task.tagIds.filter((id) => id !== tagId),
+      updatedAt,
+    };
+  });
+}
+
+/**
+ * Adds tag definitions that aren't known yet (e.g. from a backup or another device).
+ * Existing tags keep their local name and color.
+ *
+ * @param localTags - Tags defined on this device
+ * @param incomingTags - Tags from another source
+ * @returns Merged tags (the local array when nothing is new)
+ */
+export function mergeTags(localTags: Tag[], incomingTags: Tag[]): Tag[] {
+  const knownIds = new Set(localTags.map((tag) => tag.id));
+  const newTags: Tag[] = [];
+
+  incomingTags.forEach((tag) => {
+    if (!knownIds.has(tag.id)) {
+      knownIds.add(tag.id);
+      newTags.push(tag);
+    }
+  });
+
+  return newTags.length > 0 ? [...localTags, ...newTags] : localTags;
+}
+
+/**
+ * Picks a color for a new tag: the first palette color not in use yet.
+ *
+ * @param tags - Existing tags
+ * @returns Hex color
+ */
+export function getNextTagColor(tags: Tag[]): string {
+  const usedColors = new Set(tags.map((tag) => tag.color));
+  return TAG_COLORS.find((color) => !usedColors.has(color)) || TAG_COLORS[0];
+}
@@ -0,0 +1,134 @@
+/**
+ * Task Query Test Suite
+ *
+ * Tests search ranking, item matches, sorting by field and highlight segments.
+ */
+
+import { searchTasks, sortTasks, splitByQuery } from './taskQuery';
+import { Task, ChecklistItem } from '../types';
+
+// Helper function to create a test item
+function createTestItem(id: string, title: string, overrides: Partial<ChecklistItem> = {}) {
+  return { id, title, done: false, ...overrides } as ChecklistItem;
+}
+
+// Helper function to create a test task
+function createTestTask(id: string, title: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title,
+    items: [],
+    createdAt: '2025-11-01T00:00:00.000Z',
+    updatedAt: '2025-11-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const ids = (tasks: Task[]) => tasks.map((task) => task.id);
+
+describe('Task Query Utils', () => {
+  describe('searchTasks', () => {
+    const tasks = [
+      createTestTask('contains', '월간 보고서 정리'),
+      createTestTask('items', '회의 준비', {
+        items: [
+          createTestItem('i1', '보고서 초안', {
+            children: [createTestItem('i2', '보고서 표 정리')],
+          }),
+        ],
+      }),
+      createTestTask('prefix', '보고서 제출'),
+      createTestTask('exact', '보고서'),
+      createTestTask('none', '운동'),
+    ];
+
+    it('should return nothing for an empty query', () => {
+      expect(searchTasks(tasks, { query: '   ' })).toEqual([]);
+    });
+
+    it('should rank exact, prefix and word matches above item-only matches', () => {
+      const results = searchTasks(tasks, { query: '보고서', searchItems: true });
+
+      expect(results.map((result) => result.task.id)).toEqual([
+        'exact',
+        'prefix',
+        'contains',
+        'items',
+      ]);
+    });
+
+    it('should report matched items at any depth', () => {
+      const [result] = searchTasks([tasks[1]], { query: '보고서', searchItems: true });
+
+      expect(result.titleMatched).toBe(false);
+      expect(result.matchedItems.map((item) => item.id)).toEqual(['i1', 'i2']);
+    });
+
+    it('should only search titles unless searchItems is set', () => {
+      expect(ids(searchTasks(tasks, { query: '초안' }).map((r) => r.task))).toEqual([]);
+      expect(
+        ids(searchTasks(tasks, { query: '초안', searchItems: true }).map((r) => r.task))
+      ).toEqual(['items']);
+    });
+
+    it('should respect caseSensitive', () => {
+      const english = [createTestTask('a', 'Write Report')];
+
+      expect(searchTasks(english, { query: 'report' })).toHaveLength(1);
+      expect(searchTasks(english, { query: 'report', caseSensitive: true })).toHaveLength(0);
+    });
+  });
+
+  describe('sortTasks', () => {
+    const tasks = [
+      createTestTask('b', '나', {
+        createdAt: '2025-11-02T00:00:00.000Z',
+        dueDate: '2025-11-20',
+        items: [createTestItem('b1', 'x', { done: true })],
+      }),
+      createTestTask('c', '다', { createdAt: '2025-11-03T00:00:00.000Z' }),
+      createTestTask('a', '가', {
+        createdAt: '2025-11-01T00:00:00.000Z',
+        dueDate: '2025-11-10',
+        items: [createTestItem('a1', 'x', { done: true }), createTestItem('a2', 'y')],
+      }),
+    ];
+
+    it('should sort by title in both directions', () => {
+      expect(ids(sortTasks(tasks, { field: 'title' }))).toEqual(['a', 'b', 'c']);
+      expect(ids(sortTasks(tasks, { field: 'title', order: 'desc' }))).toEqual(['c', 'b', 'a']);
+    });
+
+    it('should sort by creation date', () => {
+      expect(ids(sortTasks(tasks, { field: 'createdAt', order: 'desc' }))).toEqual(['c', 'b', 'a']);
+    });
+
+    it('should sort by progress', () => {
+      expect(ids(sortTasks(tasks, { field: 'progress' }))).toEqual(['c', 'a', 'b']);
+    });
+
+    it('should keep tasks without a due date last in both directions', () => {
+      expect(ids(sortTasks(tasks, { field: 'dueDate' }))).toEqual(['a', 'b', 'c']);
+      expect(ids(sortTasks(tasks, { field: 'dueDate', order: 'desc' }))).toEqual(['b', 'a', 'c']);
+    });
+
+    it('should not mutate the input', () => {
+      sortTasks(tasks, { field: 'title' });
+      expect(ids(tasks)).toEqual(['b', 'c', 'a']);
+    });
+  });
+
+  describe('splitByQuery', () => {
+    it('should highlight every occurrence ignoring case', () => {
+      expect(splitByQuery('Report on report', 'report')).toEqual([
+        { text: 'Report', highlighted: true },
+        { text: ' on ', highlighted: false },
+        { text: 'report', highlighted: true },
+      ]);
+    });
+
+    it('should return the plain text for an empty query', () => {
+      expect(splitByQuery('보고서', ' ')).toEqual([{ text: '보고서', highlighted: false }]);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Task Query Utility Module
+ *
+ * Search and sort for the task list, driven by SearchOptions and SortOptions.
+ *
+ * Search looks at task titles and (optionally) checklist item titles at any
+ * depth, ranks the matching tasks and reports which items matched so the UI
+ * can highlight them.
+ */
+
+import { Task, ChecklistItem, SearchOptions, SortOptions } from '../types';
+import { calcProgress } from './progress';
+import { flattenItems } from './itemTree';
+
+/**
+ * Ranking weights for a title match (higher = better match)
+ */
+const TITLE_SCORES = {
+  exact: 100,
+  prefix: 75,
+  wordStart: 50,
+  contains: 30,
+};
+
+/**
+ * Score added per matching checklist item
+ */
+const ITEM_MATCH_SCORE = 10;
+
+/**
+ * Maximum number of matching items counted toward the score,
+ * so a long checklist can't outrank a direct title match
+ */
+const MAX_SCORED_ITEMS = 5;
+
+/**
+ * A task matching a search, with the reason it matched
+ */
+export interface TaskSearchResult {
+  /**
+   * Matching task
+   */
+  task: Task;
+
+  /**
+   * Ranking score (higher = more relevant)
+   */
+  score: number;
+
+  /**
+   * Whether the task title contains the query
+   */
+  titleMatched: boolean;
+
+  /**
+   * Checklist items (at any depth) whose title contains the query
+   */
+  matchedItems: ChecklistItem[];
+}
+
+/**
+ * Piece of text split around search matches
+ */
+export interface TextSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Scores how well a title matches the (already normalized) query.
+ *
+ * @returns Score from TITLE_SCORES, or 0 when the title doesn't match
+ */
+function scoreTitle(title: string, query: string): number {
+  if (title === query) {
+    return TITLE_SCORES.exact;
+  }
+  if (title.startsWith(query)) {
+    return TITLE_SCORES.prefix;
+  }
+
+  const index = title.indexOf(query);
+  if (index === -1) {
+    return 0;
+  }
+
+  // A match right after a space or punctuation starts a word
+  const wordStart = new RegExp(`[\\s\\-_/(\\[]${escapeRegExp(query)}`).test(title);
+  return wordStart ? TITLE_SCORES.wordStart : TITLE_SCORES.contains;
+}
+
+/**
+ * Escapes characters with a special meaning in regular expressions.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Searches tasks and ranks the matches.
+ *
+ * A task matches when its title or (with searchItems) any checklist item
+ * title contains the query. Title matches rank above item-only matches;
+ * exact and prefix matches rank above matches in the middle of the title.
+ * Tasks with the same score keep their original order.
+ *
+ * @param tasks - Tasks to search
+ * @param options - Search options (an empty query matches nothing)
+ * @returns Matching tasks, best match first
+ *
+ * @example
+ * searchTasks(tasks, { query: '보고서', searchItems: true });
+ * // Returns: [{ task, score: 85, titleMatched: true, matchedItems: [item] }, ...]
+ */
+export function searchTasks(tasks: Task[], options: SearchOptions): TaskSearchResult[] {
+  const { searchItems = false, caseSensitive = false } = options;
+  const normalize = (text: string) => (caseSensitive ? text : text.toLowerCase());
+  const query = normalize(options.query.trim());
+
+  if (!query) {
+    return [];
+  }
+
+  const results: TaskSearchResult[] = [];
+
+  tasks.forEach((task) => {
+    const titleScore = scoreTitle(normalize(task.title.trim()), query);
+    const matchedItems = searchItems
+      ? flattenItems(task.items).filter((item) => normalize(item.title).includes(query))
+      : [];
+
+    if (titleScore === 0 && matchedItems.length === 0) {
+      return;
+    }
+
+    results.push({
+      task,
+      score: titleScore + Math.min(matchedItems.length, MAX_SCORED_ITEMS) * ITEM_MATCH_SCORE,
+      titleMatched: titleScore > 0,
+      matchedItems,
+    });
+  });
+
+  // Array.prototype.sort is stable, so equal scores keep the task order
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Sorts tasks by a field.
+ *
+ * - title: alphabetical (Korean collation)
+ * - createdAt / updatedAt: oldest first
+ * - progress: lowest completion percentage first
+ * - dueDate: earliest deadline first; tasks without one always go last
+ *
+ * Tasks that compare equal keep their original order.
+ *
+ * @param tasks - Tasks to sort
+ * @param options - Sort field and direction (default 'asc')
+ * @returns New sorted array
+ */
+export function sortTasks(tasks: Task[], options: SortOptions): Task[] {
+  const { field, order = 'asc' } = options;
+  const direction = order === 'desc' ? -1 : 1;
+
+  // Progress is derived, so compute it once per task instead of per comparison
+  const percents = new Map<string, number>();
+  if (field === 'progress') {
+    tasks.forEach((task) => percents.set(task.id, calcProgress(task).percent));
+  }
+
+  return [...tasks].sort((a, b) => {
+    switch (field) {
+      case 'title':
+        return a.title.localeCompare(b.title, 'ko') * direction;
+      case 'createdAt':
+      case 'updatedAt':
+        return (a[field] < b[field] ? -1 : a[field] > b[field] ? 1 : 0) * direction;
+      case 'progress':
+        return (percents.get(a.id)! - percents.get(b.id)!) * direction;
+      case 'dueDate':
+        if (a.dueDate && b.dueDate) {
+          return (a.dueDate < b.dueDate ? -1 : a.dueDate > b.dueDate ? 1 : 0) * direction;
+        }
+        return (a.dueDate ? -1 : 0) + (b.dueDate ? 1 : 0);
+      default:
+        return 0;
+    }
+  });
+}
+
+/**
+ * Splits text into highlighted (matching) and plain segments.
+ *
+ * @param text - Text to split
+ * @param query - Search query (trimmed; empty = no highlight)
+ * @param caseSensitive - Whether matching is case-sensitive
+ * @returns Segments in order; joining their text gives back the input
+ *
+ * @example
+ * splitByQuery('Write report', 'rep');
+ * // Returns: [{ text: 'Write ', highlighted: false }, { text: 'rep', highlighted: true }, { text: 'ort', highlighted: false }]
+ */
+export function splitByQuery(
+  text: string,
+  query: string,
+  caseSensitive: boolean = false
+): TextSegment[] {
+  const needle = caseSensitive ? query.trim() : query.trim().toLowerCase();
+  if (!needle) {
+    return [{ text, highlighted: false }];
+  }
+
+  const haystack = caseSensitive ? text : text.toLowerCase();
+  const segments: TextSegment[] = [];
+  let position = 0;
+  let index = haystack.indexOf(needle);
+
+  while (index !== -1) {
+    if (index > position) {
+      segments.push({ text: text.slice(position, index), highlighted: false });
+    }
+    segments.push({ text: text.slice(index, index + needle.length), highlighted: true });
+    position = index + needle.length;
+    index = haystack.indexOf(needle, position);
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), highlighted: false });
+  }
+
+  return segments;
+}
@@ -0,0 +1,45 @@
+/**
+ * Toast Utility Module
+ *
+ * Shows toast messages through react-native-toast-message.
+ * The 'undo' type is rendered by UndoToast (registered in App.tsx)
+ * and shows an "실행 취소" button that calls `onUndo`.
+ */
+
+import Toast from 'react-native-toast-message';
+import { ToastConfig } from '../types';
+
+/**
+ * How long a toast stays visible when no duration is given (ms)
+ */
+const DEFAULT_TOAST_DURATION = 3000;
+
+/**
+ * Shows a toast message at the bottom of the screen.
+ *
+ * @param config - Toast type, message, duration and undo callback
+ *
+ * @example
+ * showToast({ type: 'undo', message: '항목을 삭제했습니다', onUndo: undo });
+ */
+export function showToast({
+  type,
+  message,
+  duration = DEFAULT_TOAST_DURATION,
+  onUndo,
+}: ToastConfig): void {
+  Toast.show({
+    type,
+    text1: message,
+    position: 'bottom',
+    visibilityTime: duration,
+    props: { onUndo },
+  });
+}
+
+/**
+ * Hides the toast that is currently shown.
+ */
+export function hideToast(): void {
+  Toast.hide();
+}
@@ -0,0 +1,140 @@
+/**
+ * Trash Utility Test Suite
+ *
+ * Tests trash entries for tasks and items, restoring to the original
+ * position and the automatic purge of old entries.
+ */
+
+import {
+  createTrashedTask,
+  createTrashedItem,
+  restoreTrashedTask,
+  restoreTrashedItem,
+  removeTrashEntry,
+  purgeExpiredTrash,
+  getDaysUntilPurge,
+} from './trash';
+import { removeItemFromTree } from './itemTree';
+import { Task, ChecklistItem, TrashEntry } from '../types';
+
+const NOW = '2025-12-10T00:00:00.000Z';
+
+// Helper function to create a test item
+function createTestItem(id: string, children?: ChecklistItem[]): ChecklistItem {
+  return { id, title: `Item ${id}`, done: false, ...(children && { children }) };
+}
+
+// Helper function to create a test task
+function createTestTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    items: [],
+    createdAt: '2025-11-01T00:00:00.000Z',
+    updatedAt: '2025-11-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Trash Utils', () => {
+  describe('tasks', () => {
+    const tasks = [
+      createTestTask('a', { order: 0 }),
+      createTestTask('b', { order: 1 }),
+      createTestTask('c', { order: 2 }),
+    ];
+
+    it('should record the task and its position', () => {
+      const entry = createTrashedTask(tasks, 'b', 'entry-1', NOW)!;
+
+      expect(entry).toMatchObject({ id: 'entry-1', type: 'task', index: 1, deletedAt: NOW });
+      expect(entry.task).toBe(tasks[1]);
+      expect(createTrashedTask(tasks, 'zzz', 'entry-2', NOW)).toBeUndefined();
+    });
+
+    it('should restore the task to its original position and renumber orders', () => {
+      const entry = createTrashedTask(tasks, 'b', 'entry-1', NOW)!;
+      const remaining = tasks.filter((task) => task.id !== 'b');
+      const restored = restoreTrashedTask(remaining, entry, NOW);
+
+      expect(restored.map((task) => task.id)).toEqual(['a', 'b', 'c']);
+      expect(restored.map((task) => task.order)).toEqual([0, 1, 2]);
+      expect(restored[1].updatedAt).toBe(NOW);
+    });
+
+    it('should append the task when the list got shorter', () => {
+      const entry = createTrashedTask(tasks, 'c', 'entry-1', NOW)!;
+      const restored = restoreTrashedTask([tasks[0]], entry, NOW);
+
+      expect(restored.map((task) => task.id)).toEqual(['a', 'c']);
+    });
+  });
+
+  describe('items', () => {
+    const task = createTestTask('t', {
+      items: [createTestItem('a', [createTestItem('b'), createTestItem('c')]), createTestItem('d')],
+    });
+
+    it('should record the item with its parent and index', () => {
+      const entry = createTrashedItem(task, 'c', 'entry-1', NOW)!;
+
+      expect(entry).toMatchObject({ taskId: 't', taskTitle: 'Task t', parentId: 'a', index: 1 });
+      expect(createTrashedItem(task, 'zzz', 'entry-2', NOW)).toBeUndefined();
+    });
+
+    it('should restore the item under its parent at the same index', () => {
+      const entry = createTrashedItem(task, 'b', 'entry-1', NOW)!;
+      const afterDelete = { ...task, items: removeItemFromTree(task.items, 'b') };
+      const restored = restoreTrashedItem(afterDelete, entry, NOW);
+
+      expect(restored.items).toEqual(task.items);
+      expect(restored.updatedAt).toBe(NOW);
+    });
+
+    it('should restore to the top level when the parent is gone', () => {
+      const entry = createTrashedItem(task, 'b', 'entry-1', NOW)!;
+      const afterDelete = { ...task, items: removeItemFromTree(task.items, 'a') };
+      const restored = restoreTrashedItem(afterDelete, entry, NOW);
+
+      expect(restored.items.map((item) => item.id)).toEqual(['d', 'b']);
+    });
+  });
+
+  describe('removeTrashEntry', () => {
+    it('should remove a task together with its trashed items', () => {
+      const task = createTestTask('t', { items: [createTestItem('a')] });
+      const itemEntry = createTrashedItem(task, 'a', 'item-entry', NOW)!;
+      const taskEntry = createTrashedTask([task], 't', 'task-entry', NOW)!;
+      const other = createTrashedTask([createTestTask('x')], 'x', 'other-entry', NOW)!;
+
+      const trash: TrashEntry[] = [taskEntry, itemEntry, other];
+
+      expect(removeTrashEntry(trash, 'task-entry').map((entry) => entry.id)).toEqual([
+        'other-entry',
+      ]);
+      expect(removeTrashEntry(trash, 'item-entry')).toHaveLength(2);
+      expect(removeTrashEntry(trash, 'zzz')).toBe(trash);
+    });
+  });
+
+  describe('purgeExpiredTrash', () => {
+    const now = new Date(NOW).getTime();
+    const trash: TrashEntry[] = [
+      createTrashedTask([createTestTask('a')], 'a', 'recent', '2025-12-05T00:00:00.000Z')!,
+      createTrashedTask([createTestTask('b')], 'b', 'old', '2025-11-01T00:00:00.000Z')!,
+    ];
+
+    it('should drop entries older than the retention period', () => {
+      expect(purgeExpiredTrash(trash, 30, now).map((entry) => entry.id)).toEqual(['recent']);
+    });
+
+    it('should return the same array when nothing expired', () => {
+      expect(purgeExpiredTrash(trash, 90, now)).toBe(trash);
+    });
+
+    it('should count the days left', () => {
+      expect(getDaysUntilPurge(trash[0], 30, now)).toBe(25);
+      expect(getDaysUntilPurge(trash[1], 30, now)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Trash Utility Module
+ *
+ * Helpers for the trash of deleted tasks and checklist items.
+ *
+ * Deleting a task or an item moves it to the trash, which is saved with the
+ * rest of the app data. Each entry remembers where it came from so restoring
+ * puts it back in its original position. Entries older than the retention
+ * period are removed for good.
+ */
+
+import { Task, TrashEntry, TrashedTask, TrashedItem } from '../types';
+import { findItem, findItemPosition, insertItemAt, removeItemFromTree } from './itemTree';
+import { applyTaskOrder } from './reorder';
+
+/**
+ * Days deleted entries stay in the trash when not configured
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Milliseconds per day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates the trash entry for a task that is about to be deleted.
+ *
+ * @param tasks - Current tasks, in list order
+ * @param taskId - ID of the task to delete
+ * @param entryId - ID for the new trash entry
+ * @param deletedAt - ISO 8601 timestamp of the deletion
+ * @returns Trash entry, or undefined if the task doesn't exist
+ */
+export function createTrashedTask(
+  tasks: Task[],
+  taskId: string,
+  entryId: string,
+  deletedAt: string
+): TrashedTask | undefined {
+  const index = tasks.findIndex((task) => task.id === taskId);
+  if (index === -1) {
+    return undefined;
+  }
+
+  return { id: entryId, type: 'task', task: tasks[index], index, deletedAt };
+}
+
+/**
+ * Creates the trash entry for a checklist item (and its sub-items) that is about to be deleted.
+ *
+ * @param task - Task that holds the item
+ * @param itemId - ID of the item to delete
+ * @param entryId - ID for the new trash entry
+ * @param deletedAt - ISO 8601 timestamp of the deletion
+ * @returns Trash entry, or undefined if the item doesn't exist
+ */
+export function createTrashedItem(
+  task: Task,
+  itemId: string,
+  entryId: string,
+  deletedAt: string
+): TrashedItem | undefined {
+  const item = findItem(task.items, itemId);
+  const position = findItemPosition(task.items, itemId);
+  if (!item || !position) {
+    return undefined;
+  }
+
+  return {
+    id: entryId,
+    type: 'item',
+    item,
+    taskId: task.id,
+    taskTitle: task.title,
+    parentId: position.parentId,
+    index: position.index,
+    deletedAt,
+  };
+}
+
+/**
+ * Puts a trashed task back at its original position in the task list.
+ * Task orders are renumbered so the position survives sync.
+ *
+ * @param tasks - Current tasks, in list order
+ * @param entry - Trash entry to restore
+ * @param now - ISO 8601 timestamp (used for updatedAt)
+ * @returns New task list with the task restored
+ */
+export function restoreTrashedTask(tasks: Task[], entry: TrashedTask, now: string): Task[] {
+  const index = Math.max(0, Math.min(entry.index, tasks.length));
+  const restored = { ...entry.task, updatedAt: now };
+
+  return applyTaskOrder([...tasks.slice(0, index), restored, ...tasks.slice(index)], now);
+}
+
+/**
+ * Puts a trashed checklist item back under its parent at its original position.
+ * When the parent item no longer exists, the item is added at the end of the top level.
+ *
+ * @param task - Task the item belonged to
+ * @param entry - Trash entry to restore
+ * @param now - ISO 8601 timestamp (used for updatedAt)
+ * @returns Updated task
+ */
+export function restoreTrashedItem(task: Task, entry: TrashedItem, now: string): Task {
+  // Drop any copy of the item so restoring never duplicates IDs
+  const items = removeItemFromTree(task.items, entry.item.id);
+  const hasParent = entry.parentId === null || !!findItem(items, entry.parentId);
+
+  return {
+    ...task,
+    items: hasParent
+      ? insertItemAt(items, entry.parentId, entry.index, entry.item)
+      : insertItemAt(items, null, items.length, entry.item),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Removes an entry from the trash for good.
+ * Removing a task also removes the trashed items that belonged to it,
+ * since they can no longer be restored.
+ *
+ * @param trash - Current trash entries
+ * @param entryId - ID of the entry to remove
+ * @returns New trash entries
+ */
+export function removeTrashEntry(trash: TrashEntry[], entryId: string): TrashEntry[] {
+  const entry = trash.find((candidate) => candidate.id === entryId);
+  if (!entry) {
+    return trash;
+  }
+
+  return trash.filter(
+    (candidate) =>
+      candidate.id !== entryId &&
+      !(entry.type === 'task' && candidate.type === 'item' && candidate.taskId === entry.task.id)
+  );
+}
+
+/**
+ * Removes entries that have been in the trash longer than the retention period.
+ *
+ * @param trash - Current trash entries
+ * @param retentionDays - Days entries are kept
+ * @param now - Current time in milliseconds
+ * @returns Remaining entries (the same array if nothing expired)
+ */
+export function purgeExpiredTrash(
+  trash: TrashEntry[],
+  retentionDays: number,
+  now: number
+): TrashEntry[] {
+  const cutoff = now - retentionDays * DAY_MS;
+  const remaining = trash.filter((entry) => new Date(entry.deletedAt).getTime() > cutoff);
+
+  return remaining.length === trash.length ? trash : remaining;
+}
+
+/**
+ * Returns the number of whole days left before an entry is removed for good.
+ *
+ * @param entry - Trash entry
+ * @param retentionDays - Days entries are kept
+ * @param now - Current time in milliseconds
+ * @returns Days left (0 when it expires today)
+ */
+export function getDaysUntilPurge(entry: TrashEntry, retentionDays: number, now: number): number {
+  const expiresAt = new Date(entry.deletedAt).getTime() + retentionDays * DAY_MS;
+  return Math.max(0, Math.floor((expiresAt - now) / DAY_MS));
+}
@@ -10,11 +10,14 @@ import {
   normalizeTitle,
   checkTaskLimit,
   checkItemLimit,
+  validateTagName,
+  checkTagLimit,
   isValidTask,
   isValidChecklistItem,
   isValidAppData,
   calculateStorageSize,
   checkStorageLimit,
+  VALIDATION_LIMITS,
 } from './validation';
 
 describe('validateTitle', () => {
@@ -88,60 +91,60 @@ describe('normalizeTitle', () => {
 });
 
 describe('checkTaskLimit', () => {
-  it('should accept task counts below limit (200)', () => {
+  it('should accept task counts below limit (2000)', () => {
     expect(checkTaskLimit(0)).toEqual({ valid: true });
-    expect(checkTaskLimit(100)).toEqual({ valid: true });
-    expect(checkTaskLimit(150)).toEqual({ valid: true });
+    expect(checkTaskLimit(200)).toEqual({ valid: true });
+    expect(checkTaskLimit(1500)).toEqual({ valid: true });
   });
 
-  it('should reject task count at or above limit (200)', () => {
-    const result200 = checkTaskLimit(200);
-    expect(result200.valid).toBe(false);
-    expect(result200.error).toBe('최대 200개의 할 일만 생성할 수 있습니다');
-    expect(result200.details).toBe('완료된 할 일을 삭제하거나 백업 후 초기화하세요');
+  it('should reject task count at or above limit (2000)', () => {
+    const result2000 = checkTaskLimit(2000);
+    expect(result2000.valid).toBe(false);
+    expect(result2000.error).toBe('최대 2000개의 할 일만 생성할 수 있습니다');
+    expect(result2000.details).toBe('완료된 할 일을 삭제하거나 백업 후 초기화하세요');
 
-    const result250 = checkTaskLimit(250);
-    expect(result250.valid).toBe(false);
+    const result2500 = checkTaskLimit(2500);
+    expect(result2500.valid).toBe(false);
   });
 
-  it('should warn when approaching limit (90% = 180)', () => {
-    const result = checkTaskLimit(180);
+  it('should warn when approaching limit (90% = 1800)', () => {
+    const result = checkTaskLimit(1800);
     expect(result.valid).toBe(true);
-    expect(result.details).toContain('할 일이 200개에 가까워지고 있습니다');
+    expect(result.details).toContain('할 일이 2000개에 가까워지고 있습니다');
   });
 
   it('should not warn just below threshold', () => {
-    const result = checkTaskLimit(179);
+    const result = checkTaskLimit(1799);
     expect(result.valid).toBe(true);
     expect(result.details).toBeUndefined();
   });
 });
 
 describe('checkItemLimit', () => {
-  it('should accept item counts below limit (50)', () => {
+  it('should accept item counts below limit (500)', () => {
     expect(checkItemLimit(0)).toEqual({ valid: true });
-    expect(checkItemLimit(25)).toEqual({ valid: true });
-    expect(checkItemLimit(40)).toEqual({ valid: true });
+    expect(checkItemLimit(50)).toEqual({ valid: true });
+    expect(checkItemLimit(400)).toEqual({ valid: true });
   });
 
-  it('should reject item count at or above limit (50)', () => {
-    const result50 = checkItemLimit(50);
-    expect(result50.valid).toBe(false);
-    expect(result50.error).toBe('최대 50개의 항목만 추가할 수 있습니다');
-    expect(result50.details).toBe('더 세분화된 작업은 새로운 할 일로 분리하세요');
+  it('should reject item count at or above limit (500)', () => {
+    const result500 = checkItemLimit(500);
+    expect(result500.valid).toBe(false);
+    expect(result500.error).toBe('최대 500개의 항목만 추가할 수 있습니다');
+    expect(result500.details).toBe('더 세분화된 작업은 새로운 할 일로 분리하세요');
 
-    const result100 = checkItemLimit(100);
-    expect(result100.valid).toBe(false);
+    const result1000 = checkItemLimit(1000);
+    expect(result1000.valid).toBe(false);
   });
 
-  it('should warn when approaching limit (90% = 45)', () => {
-    const result = checkItemLimit(45);
+  it('should warn when approaching limit (90% = 450)', () => {
+    const result = checkItemLimit(450);
     expect(result.valid).toBe(true);
-    expect(result.details).toContain('체크리스트 항목이 50개에 가까워지고 있습니다');
+    expect(result.details).toContain('체크리스트 항목이 500개에 가까워지고 있습니다');
   });
 
   it('should not warn just below threshold', () => {
-    const result = checkItemLimit(44);
+    const result = checkItemLimit(449);
     expect(result.valid).toBe(true);
     expect(result.details).toBeUndefined();
   });
@@ -202,6 +205,39 @@ describe('isValidTask', () => {
     };
     expect(isValidTask(invalidTask)).toBe(false);
   });
+
+  it('should accept tag IDs and reject malformed ones', () => {
+    expect(isValidTask({ ...validTask, tagIds: ['tag-1'] })).toBe(true);
+    expect(isValidTask({ ...validTask, tagIds: 'tag-1' })).toBe(false);
+    expect(isValidTask({ ...validTask, tagIds: [1] })).toBe(false);
+  });
+});
+
+describe('validateTagName', () => {
+  const tags = [{ id: 'tag-1', name: '업무', color: '#6366f1' }];
+
+  it('should accept new names', () => {
+    expect(validateTagName(' 공부 ', tags).valid).toBe(true);
+  });
+
+  it('should reject empty and too long names', () => {
+    expect(validateTagName('   ', tags).error).toBe('태그 이름을 입력해주세요');
+    expect(validateTagName('a'.repeat(VALIDATION_LIMITS.MAX_TAG_NAME_LENGTH + 1), tags).valid).toBe(
+      false
+    );
+  });
+
+  it('should reject duplicate names except for the tag being renamed', () => {
+    expect(validateTagName('업무', tags).error).toBe('이미 있는 태그 이름입니다');
+    expect(validateTagName('업무', tags, 'tag-1').valid).toBe(true);
+  });
+});
+
+describe('checkTagLimit', () => {
+  it('should reject tags beyond the limit', () => {
+    expect(checkTagLimit(VALIDATION_LIMITS.MAX_TAG_COUNT - 1).valid).toBe(true);
+    expect(checkTagLimit(VALIDATION_LIMITS.MAX_TAG_COUNT).valid).toBe(false);
+  });
 });
 
 describe('isValidChecklistItem', () => {
@@ -242,6 +278,22 @@ describe('isValidChecklistItem', () => {
     expect(isValidChecklistItem({ ...validItem, id: '' })).toBe(false);
     expect(isValidChecklistItem({ ...validItem, title: '' })).toBe(false);
   });
+
+  it('should validate nested children', () => {
+    expect(isValidChecklistItem({ ...validItem, children: [{ ...validItem, id: '2' }] })).toBe(
+      true
+    );
+    expect(isValidChecklistItem({ ...validItem, children: 'oops' })).toBe(false);
+    expect(isValidChecklistItem({ ...validItem, children: [{ id: '2', title: 'x' }] })).toBe(false);
+  });
+
+  it('should reject items nested deeper than the limit', () => {
+    const nest = (depth: number): object =>
+      depth === 0 ? validItem : { ...validItem, children: [nest(depth - 1)] };
+
+    expect(isValidChecklistItem(nest(VALIDATION_LIMITS.MAX_ITEM_DEPTH - 1))).toBe(true);
+    expect(isValidChecklistItem(nest(VALIDATION_LIMITS.MAX_ITEM_DEPTH))).toBe(false);
+  });
 });
 
 describe('isValidAppData', () => {
@@ -295,6 +347,42 @@ describe('isValidAppData', () => {
     };
     expect(isValidAppData(invalidAppData)).toBe(false);
   });
+
+  it('should validate tags in settings', () => {
+    const settings = { celebrationEnabled: true, dailySaveHour: 0, weekStartsOn: 0 };
+
+    expect(
+      isValidAppData({
+        ...validAppData,
+        settings: { ...settings, tags: [{ id: 'tag-1', name: '업무', color: '#6366f1' }] },
+      })
+    ).toBe(true);
+    expect(
+      isValidAppData({ ...validAppData, settings: { ...settings, tags: [{ id: 'tag-1' }] } })
+    ).toBe(false);
+  });
+
+  it('should validate trash entries', () => {
+    const deletedAt = '2025-11-07T00:00:00.000Z';
+    const taskEntry = { id: 'e1', type: 'task', task: validAppData.tasks[0], index: 0, deletedAt };
+    const itemEntry = {
+      id: 'e2',
+      type: 'item',
+      item: { id: 'i1', title: 'Step 1', done: false },
+      taskId: '123',
+      taskTitle: 'Task 1',
+      parentId: null,
+      index: 0,
+      deletedAt,
+    };
+
+    expect(isValidAppData({ ...validAppData, trash: [taskEntry, itemEntry] })).toBe(true);
+    expect(isValidAppData({ ...validAppData, trash: [{ ...taskEntry, task: {} }] })).toBe(false);
+    expect(isValidAppData({ ...validAppData, trash: [{ ...itemEntry, type: 'other' }] })).toBe(
+      false
+    );
+    expect(isValidAppData({ ...validAppData, trash: {} })).toBe(false);
+  });
 });
 
 describe('calculateStorageSize', () => {
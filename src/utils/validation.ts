@@ -5,13 +5,24 @@
  * data integrity checks, and storage limit enforcement.
  */
 
-import { ValidationResult, Task, ChecklistItem, AppData } from '../types';
+import {
+  ValidationResult,
+  Task,
+  ChecklistItem,
+  AppData,
+  Tag,
+  TrashEntry,
+  Tombstone,
+} from '../types';
 
 // Constants for validation limits
 const MIN_TITLE_LENGTH = 1;
 const MAX_TITLE_LENGTH = 120;
-const MAX_TASK_COUNT = 200; // Updated from 1000 to 200 based on AsyncStorage limitations
-const MAX_ITEM_COUNT = 50; // Updated from 200 to 50 based on AsyncStorage limitations
+const MAX_TASK_COUNT = 2000; // Tasks are stored as individual records, see services/storage
+const MAX_ITEM_COUNT = 500; // Per task, bounded by the size of a single task record
+const MAX_ITEM_DEPTH = 5; // Nesting levels of checklist items, including the top level
+const MAX_TAG_NAME_LENGTH = 20;
+const MAX_TAG_COUNT = 30;
 const MAX_STORAGE_SIZE = 5 * 1024 * 1024; // 5MB in bytes
 
 /**
@@ -99,27 +110,27 @@ export function normalizeTitle(title: string): string {
 /**
  * Checks if the task count is within the allowed limit.
  *
- * Validates against the maximum task count limit (200 tasks).
+ * Validates against the maximum task count limit (2000 tasks).
  * Provides warning when approaching the limit and error when exceeded.
  *
  * @param count - Current number of tasks
  * @returns ValidationResult with error if limit exceeded
  *
  * @example
- * checkTaskLimit(100);
+ * checkTaskLimit(1000);
  * // Returns: { valid: true }
  *
  * @example
- * checkTaskLimit(180);
- * // Returns: { valid: true, details: '할 일이 200개에 가까워지고 있습니다. 완료된 항목을 정리하는 것을 권장합니다.' }
+ * checkTaskLimit(1800);
+ * // Returns: { valid: true, details: '할 일이 2000개에 가까워지고 있습니다. 완료된 항목을 정리하는 것을 권장합니다.' }
  *
  * @example
- * checkTaskLimit(200);
- * // Returns: { valid: false, error: '최대 200개의 할 일만 생성할 수 있습니다', details: '완료된 할 일을 삭제하거나 백업 후 초기화하세요' }
+ * checkTaskLimit(2000);
+ * // Returns: { valid: false, error: '최대 2000개의 할 일만 생성할 수 있습니다', details: '완료된 할 일을 삭제하거나 백업 후 초기화하세요' }
  *
  * @example
- * checkTaskLimit(250);
- * // Returns: { valid: false, error: '최대 200개의 할 일만 생성할 수 있습니다', details: '완료된 할 일을 삭제하거나 백업 후 초기화하세요' }
+ * checkTaskLimit(2500);
+ * // Returns: { valid: false, error: '최대 2000개의 할 일만 생성할 수 있습니다', details: '완료된 할 일을 삭제하거나 백업 후 초기화하세요' }
  */
 export function checkTaskLimit(count: number): ValidationResult {
   if (count >= MAX_TASK_COUNT) {
@@ -144,27 +155,27 @@ export function checkTaskLimit(count: number): ValidationResult {
 /**
  * Checks if the checklist item count is within the allowed limit.
  *
- * Validates against the maximum item count per task (50 items).
+ * Validates against the maximum item count per task (500 items).
  * Provides warning when approaching the limit and error when exceeded.
  *
  * @param count - Current number of checklist items in a task
  * @returns ValidationResult with error if limit exceeded
  *
  * @example
- * checkItemLimit(10);
+ * checkItemLimit(100);
  * // Returns: { valid: true }
  *
  * @example
- * checkItemLimit(45);
- * // Returns: { valid: true, details: '체크리스트 항목이 50개에 가까워지고 있습니다.' }
+ * checkItemLimit(450);
+ * // Returns: { valid: true, details: '체크리스트 항목이 500개에 가까워지고 있습니다.' }
  *
  * @example
- * checkItemLimit(50);
- * // Returns: { valid: false, error: '최대 50개의 항목만 추가할 수 있습니다', details: '더 세분화된 작업은 새로운 할 일로 분리하세요' }
+ * checkItemLimit(500);
+ * // Returns: { valid: false, error: '최대 500개의 항목만 추가할 수 있습니다', details: '더 세분화된 작업은 새로운 할 일로 분리하세요' }
  *
  * @example
- * checkItemLimit(100);
- * // Returns: { valid: false, error: '최대 50개의 항목만 추가할 수 있습니다', details: '더 세분화된 작업은 새로운 할 일로 분리하세요' }
+ * checkItemLimit(1000);
+ * // Returns: { valid: false, error: '최대 500개의 항목만 추가할 수 있습니다', details: '더 세분화된 작업은 새로운 할 일로 분리하세요' }
  */
 export function checkItemLimit(count: number): ValidationResult {
   if (count >= MAX_ITEM_COUNT) {
@@ -186,6 +197,108 @@ export function checkItemLimit(count: number): ValidationResult {
   return { valid: true };
 }
 
+/**
+ * Checks if a new checklist item can be nested at the given depth.
+ *
+ * Validates against the maximum nesting depth (5 levels, top-level items are depth 0).
+ *
+ * @param depth - Depth of the new item (0 = top-level item)
+ * @returns ValidationResult with error if the item would be nested too deeply
+ *
+ * @example
+ * checkItemDepth(1);
+ * // Returns: { valid: true }
+ *
+ * @example
+ * checkItemDepth(5);
+ * // Returns: { valid: false, error: '항목은 최대 5단계까지 나눌 수 있습니다' }
+ */
+export function checkItemDepth(depth: number): ValidationResult {
+  if (depth >= MAX_ITEM_DEPTH) {
+    return {
+      valid: false,
+      error: `항목은 최대 ${MAX_ITEM_DEPTH}단계까지 나눌 수 있습니다`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates a tag name.
+ *
+ * Name must be between 1-20 characters after trimming and must not match
+ * another tag's name (case-insensitive).
+ *
+ * @param name - The tag name to validate
+ * @param existingTags - Tags that already exist
+ * @param excludeTagId - ID of the tag being renamed (skipped in the duplicate check)
+ * @returns ValidationResult indicating if the name is valid with error details
+ *
+ * @example
+ * validateTagName('업무', []);
+ * // Returns: { valid: true }
+ *
+ * @example
+ * validateTagName('업무', [{ id: '1', name: '업무', color: '#6366f1' }]);
+ * // Returns: { valid: false, error: '이미 있는 태그 이름입니다' }
+ */
+export function validateTagName(
+  name: string,
+  existingTags: Tag[],
+  excludeTagId?: string
+): ValidationResult {
+  const trimmed = name.trim();
+
+  if (trimmed.length === 0) {
+    return {
+      valid: false,
+      error: '태그 이름을 입력해주세요',
+    };
+  }
+
+  if (trimmed.length > MAX_TAG_NAME_LENGTH) {
+    return {
+      valid: false,
+      error: `태그 이름은 ${MAX_TAG_NAME_LENGTH}자 이하로 입력해주세요`,
+      details: `현재: ${trimmed.length}자`,
+    };
+  }
+
+  const isDuplicate = existingTags.some(
+    (tag) => tag.id !== excludeTagId && tag.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (isDuplicate) {
+    return {
+      valid: false,
+      error: '이미 있는 태그 이름입니다',
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Checks if another tag can be created.
+ *
+ * @param count - Current number of tags
+ * @returns ValidationResult with error if limit exceeded
+ *
+ * @example
+ * checkTagLimit(30);
+ * // Returns: { valid: false, error: '태그는 최대 30개까지 만들 수 있습니다' }
+ */
+export function checkTagLimit(count: number): ValidationResult {
+  if (count >= MAX_TAG_COUNT) {
+    return {
+      valid: false,
+      error: `태그는 최대 ${MAX_TAG_COUNT}개까지 만들 수 있습니다`,
+    };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Type guard to check if data is a valid Task object.
  *
@@ -251,15 +364,69 @@ export function isValidTask(data: any): data is Task {
     return false;
   }
 
+  // tagIds is optional, but must be an array of strings
+  if (
+    data.tagIds !== undefined &&
+    (!Array.isArray(data.tagIds) ||
+      !data.tagIds.every((tagId: unknown) => typeof tagId === 'string'))
+  ) {
+    return false;
+  }
+
+  // archivedAt is optional
+  if (data.archivedAt !== undefined && typeof data.archivedAt !== 'string') {
+    return false;
+  }
+
+  // deletedItems is optional, but every tombstone must be valid
+  if (
+    data.deletedItems !== undefined &&
+    (!Array.isArray(data.deletedItems) ||
+      !data.deletedItems.every((tombstone: unknown) => isValidTombstone(tombstone)))
+  ) {
+    return false;
+  }
+
   return true;
 }
 
+/**
+ * Type guard to check if data is a valid Tag object.
+ *
+ * @param data - Data to validate as a Tag
+ * @returns True if data is a valid Tag, false otherwise
+ *
+ * @example
+ * isValidTag({ id: '1', name: '업무', color: '#6366f1' });
+ * // Returns: true
+ *
+ * @example
+ * isValidTag({ id: '1', name: '', color: '#6366f1' });
+ * // Returns: false (name must not be empty)
+ */
+export function isValidTag(data: unknown): data is Tag {
+  if (!isObject(data)) {
+    return false;
+  }
+
+  return (
+    typeof data.id === 'string' &&
+    !!data.id &&
+    typeof data.name === 'string' &&
+    !!data.name.trim() &&
+    typeof data.color === 'string' &&
+    !!data.color
+  );
+}
+
 /**
  * Type guard to check if data is a valid ChecklistItem object.
  *
  * Performs runtime validation to ensure an object conforms to the ChecklistItem interface.
+ * Nested children are validated recursively up to the maximum nesting depth.
  *
  * @param data - Data to validate as a ChecklistItem
+ * @param depth - Nesting depth of the item (0 = top-level item)
  * @returns True if data is a valid ChecklistItem, false otherwise
  *
  * @example
@@ -275,7 +442,7 @@ export function isValidTask(data: any): data is Task {
  * isValidChecklistItem({ id: 1, title: 'Step 1', done: false });
  * // Returns: false (id must be string)
  */
-export function isValidChecklistItem(data: any): data is ChecklistItem {
+export function isValidChecklistItem(data: any, depth: number = 0): data is ChecklistItem {
   if (!data || typeof data !== 'object') {
     return false;
   }
@@ -292,9 +459,84 @@ export function isValidChecklistItem(data: any): data is ChecklistItem {
     return false;
   }
 
+  // Items may not be nested deeper than the limit
+  if (depth >= MAX_ITEM_DEPTH) {
+    return false;
+  }
+
+  // children is optional, but must be an array of valid items
+  if (data.children !== undefined) {
+    if (!Array.isArray(data.children)) {
+      return false;
+    }
+
+    if (!data.children.every((child: unknown) => isValidChecklistItem(child, depth + 1))) {
+      return false;
+    }
+  }
+
   return true;
 }
 
+/**
+ * Type guard to check if data is a valid Tombstone object.
+ *
+ * @param data - Data to validate as a Tombstone
+ * @returns True if data is a valid Tombstone, false otherwise
+ *
+ * @example
+ * isValidTombstone({ id: '1', deletedAt: '2025-11-06T12:00:00.000Z' });
+ * // Returns: true
+ */
+export function isValidTombstone(data: unknown): data is Tombstone {
+  return (
+    isObject(data) && typeof data.id === 'string' && !!data.id && typeof data.deletedAt === 'string'
+  );
+}
+
+/**
+ * Type guard to check if data is a valid TrashEntry object.
+ *
+ * Accepts a trashed task (`type: 'task'`) or a trashed checklist item
+ * (`type: 'item'`) whose content is itself valid.
+ *
+ * @param data - Data to validate as a TrashEntry
+ * @returns True if data is a valid TrashEntry, false otherwise
+ *
+ * @example
+ * isValidTrashEntry({ id: '1', type: 'task', task: validTask, index: 0, deletedAt: '...' });
+ * // Returns: true
+ */
+export function isValidTrashEntry(data: unknown): data is TrashEntry {
+  if (!isObject(data)) {
+    return false;
+  }
+
+  if (
+    typeof data.id !== 'string' ||
+    !data.id ||
+    typeof data.index !== 'number' ||
+    typeof data.deletedAt !== 'string'
+  ) {
+    return false;
+  }
+
+  if (data.type === 'task') {
+    return isValidTask(data.task);
+  }
+
+  if (data.type === 'item') {
+    return (
+      isValidChecklistItem(data.item) &&
+      typeof data.taskId === 'string' &&
+      typeof data.taskTitle === 'string' &&
+      (data.parentId === null || typeof data.parentId === 'string')
+    );
+  }
+
+  return false;
+}
+
 /**
  * Type guard to check if data is a valid AppData object.
  *
@@ -348,6 +590,29 @@ export function isValidAppData(data: any): data is AppData {
     return false;
   }
 
+  // Tags in settings are optional, but must be valid
+  const tags = data.settings?.tags;
+  if (tags !== undefined && (!Array.isArray(tags) || !tags.every((tag) => isValidTag(tag)))) {
+    return false;
+  }
+
+  // Trash is optional, but every entry must be valid
+  if (
+    data.trash !== undefined &&
+    (!Array.isArray(data.trash) || !data.trash.every((entry: unknown) => isValidTrashEntry(entry)))
+  ) {
+    return false;
+  }
+
+  // Tombstones are optional, but every tombstone must be valid
+  if (
+    data.tombstones !== undefined &&
+    (!Array.isArray(data.tombstones) ||
+      !data.tombstones.every((tombstone: unknown) => isValidTombstone(tombstone)))
+  ) {
+    return false;
+  }
+
   return true;
 }
 
@@ -379,24 +644,36 @@ export function isValidAppData(data: any): data is AppData {
  */
 export function calculateStorageSize(data: any): number {
   try {
-    const jsonString = JSON.stringify(data);
-
-    // Try using Blob API for accurate byte size (browser/modern environment)
-    if (typeof Blob !== 'undefined') {
-      return new Blob([jsonString]).size;
-    }
-
-    // Fallback: estimate using string length
-    // This is less accurate for Unicode characters but works in all environments
-    // UTF-8 encoding: 1 byte for ASCII, up to 4 bytes for other characters
-    // We use a conservative estimate of 2 bytes per character
-    return jsonString.length * 2;
+    return calculateStringSize(JSON.stringify(data));
   } catch (error) {
     // If serialization fails, return 0
     return 0;
   }
 }
 
+/**
+ * Calculates the storage size of an already serialized string in bytes.
+ *
+ * @param value - Serialized data (e.g. a JSON record)
+ * @returns Size in bytes
+ *
+ * @example
+ * calculateStringSize('{"id":"1"}');
+ * // Returns: 10
+ */
+export function calculateStringSize(value: string): number {
+  // Try using Blob API for accurate byte size (browser/modern environment)
+  if (typeof Blob !== 'undefined') {
+    return new Blob([value]).size;
+  }
+
+  // Fallback: estimate using string length
+  // This is less accurate for Unicode characters but works in all environments
+  // UTF-8 encoding: 1 byte for ASCII, up to 4 bytes for other characters
+  // We use a conservative estimate of 2 bytes per character
+  return value.length * 2;
+}
+
 /**
  * Checks if the storage size is within the allowed limit.
  *
@@ -438,3 +715,24 @@ export function checkStorageLimit(sizeInBytes: number): ValidationResult {
 
   return { valid: true };
 }
+
+/**
+ * Checks whether a value is a non-null object whose fields can be inspected
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object';
+}
+
+/**
+ * Export limits for testing and external use
+ */
+export const VALIDATION_LIMITS = {
+  MIN_TITLE_LENGTH,
+  MAX_TITLE_LENGTH,
+  MAX_TASK_COUNT,
+  MAX_ITEM_COUNT,
+  MAX_ITEM_DEPTH,
+  MAX_TAG_NAME_LENGTH,
+  MAX_TAG_COUNT,
+  MAX_STORAGE_SIZE,
+};
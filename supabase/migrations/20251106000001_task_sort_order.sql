@@ -0,0 +1,8 @@
+-- Manual order of tasks (drag and drop), synced so every device shows the
+-- same order. Tasks synced by older versions have none until reordered.
+--
+-- Applies to the existing `tasks` table; see src/services/supabase.ts for
+-- the matching types.
+
+alter table public.tasks
+  add column if not exists sort_order integer;
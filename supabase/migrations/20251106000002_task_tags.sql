@@ -0,0 +1,5 @@
+-- Tags of a task, stored with their name and color so other devices can
+-- recreate the tag definitions: [{ "id", "name", "color" }]
+
+alter table public.tasks
+  add column if not exists tags jsonb not null default '[]'::jsonb;
@@ -0,0 +1,4 @@
+-- When a completed task was archived (null while it is active)
+
+alter table public.tasks
+  add column if not exists archived_at timestamptz;
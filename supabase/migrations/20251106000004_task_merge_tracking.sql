@@ -0,0 +1,9 @@
+-- Item-by-item merging of synced tasks:
+-- - fields_updated_at: when the task's own fields (title, order, tags, ...) last changed
+-- - deleted_items: tombstones of deleted checklist items: [{ "id", "deletedAt" }]
+-- - deleted_at: set on the (otherwise empty) row of a deleted task
+
+alter table public.tasks
+  add column if not exists fields_updated_at timestamptz,
+  add column if not exists deleted_items jsonb not null default '[]'::jsonb,
+  add column if not exists deleted_at timestamptz;
@@ -0,0 +1,26 @@
+-- Settings synced across devices, one row per user:
+-- - settings: values of the synced settings
+-- - settings_updated_at: when each setting was changed ({ "<setting>": "<ISO 8601>" }),
+--   so concurrent changes to different settings are all kept
+
+create table if not exists public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  settings jsonb not null default '{}'::jsonb,
+  settings_updated_at jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_settings enable row level security;
+
+create policy "Users can read their own settings"
+  on public.user_settings for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own settings"
+  on public.user_settings for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own settings"
+  on public.user_settings for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
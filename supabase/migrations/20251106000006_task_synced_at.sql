@@ -0,0 +1,28 @@
+-- Delta sync cursor: when a task row was last written, in server time.
+-- Devices pull the rows written after the latest synced_at they have seen,
+-- so the value must not come from a device clock: the trigger overwrites
+-- whatever a client sends. Existing rows get the time of this migration.
+
+alter table public.tasks
+  add column if not exists synced_at timestamptz not null default now();
+
+create or replace function public.set_task_synced_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.synced_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists set_task_synced_at on public.tasks;
+
+create trigger set_task_synced_at
+  before insert or update on public.tasks
+  for each row
+  execute function public.set_task_synced_at();
+
+-- Pulls filter on the user's rows written after the cursor
+create index if not exists tasks_user_id_synced_at_idx
+  on public.tasks (user_id, synced_at);